@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChefHat, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCookedPreview, useApplyCookedDeductions } from "@/hooks/use-pantry";
+import { formatQuantity } from "@db/units";
+import type { CookDeduction } from "@/lib/types";
+
+interface CookedRecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipeId: number;
+  recipeName: string;
+  servings?: number | null;
+}
+
+interface DeductionRow extends CookDeduction {
+  quantity: string;
+}
+
+// Review what cooking a recipe takes out of the pantry before applying it all at once
+export function CookedRecipeDialog({ open, onOpenChange, recipeId, recipeName, servings }: CookedRecipeDialogProps) {
+  const { data, isLoading, error } = useCookedPreview(recipeId, servings, open);
+  const applyDeductions = useApplyCookedDeductions();
+  const [rows, setRows] = useState<DeductionRow[]>([]);
+
+  useEffect(() => {
+    if (data) {
+      setRows(data.deductions.map(deduction => ({
+        ...deduction,
+        quantity: deduction.quantity_used !== null ? String(deduction.quantity_used) : "",
+      })));
+    }
+  }, [data]);
+
+  const updateRow = (index: number, changes: Partial<DeductionRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const confirmed = rows
+    .filter(row => row.selected && row.pantry_item && parseFloat(row.quantity) > 0)
+    .map(row => ({ pantryItemId: row.pantry_item!.id, quantityUsed: parseFloat(row.quantity) }));
+
+  const handleApply = () => {
+    applyDeductions.mutate(
+      { recipeId, data: { deductions: confirmed } },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ChefHat className="h-5 w-5" />
+            I cooked {recipeName}
+          </DialogTitle>
+          <DialogDescription>
+            Review what to take out of your pantry. Nothing changes until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="py-4 text-center text-destructive">Could not match this recipe to your pantry.</p>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 pr-2">
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "flex items-center gap-3 rounded-md border p-3",
+                    !row.pantry_item && "bg-muted/50"
+                  )}
+                >
+                  <Checkbox
+                    checked={row.selected}
+                    disabled={!row.pantry_item}
+                    onCheckedChange={(checked) => updateRow(index, { selected: checked === true })}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {formatQuantity(row.amount)} {row.unit} {row.ingredient_name}
+                    </p>
+                    {row.pantry_item ? (
+                      <p className="text-xs text-muted-foreground">
+                        From {row.pantry_item.name}
+                        {row.pantry_item.quantity !== null && ` · ${row.pantry_item.quantity} ${row.pantry_item.unit || "units"} on hand`}
+                        {row.pantry_item.is_staple && " · staple"}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Not in pantry</p>
+                    )}
+                  </div>
+                  {row.pantry_item && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={row.quantity}
+                        disabled={!row.selected}
+                        onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                        className="h-8 w-20 text-sm"
+                      />
+                      <span className="w-12 text-sm text-muted-foreground">{row.pantry_item.unit || "units"}</span>
+                    </div>
+                  )}
+                  {row.pantry_item && row.quantity_used === null && (
+                    <Badge variant="outline" className="text-xs">Check amount</Badge>
+                  )}
+                </div>
+              ))}
+              {rows.length === 0 && (
+                <p className="py-4 text-center text-muted-foreground">This recipe has no ingredients to deduct.</p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={confirmed.length === 0 || applyDeductions.isPending}>
+            {applyDeductions.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update pantry ({confirmed.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
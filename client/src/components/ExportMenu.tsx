@@ -0,0 +1,47 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { exportUrl } from "@/lib/api";
+import type { RecipeExportFormat } from "@db/schema";
+
+interface ExportMenuProps {
+  kind: "recipes" | "meal-plans" | "meal-prep";
+  id: number;
+  size?: "default" | "sm";
+  className?: string;
+}
+
+const FORMATS: Array<{ format: RecipeExportFormat; label: string }> = [
+  { format: "pdf", label: "Printable PDF" },
+  { format: "markdown", label: "Markdown" },
+  { format: "json-ld", label: "JSON-LD (schema.org)" },
+  { format: "paprika", label: "Paprika" },
+];
+
+// Download a recipe or plan to keep, print or bring into another recipe app
+export function ExportMenu({ kind, id, size = "default", className }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className={className}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={exportUrl(kind, id, format)} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
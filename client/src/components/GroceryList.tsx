@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Table,
@@ -11,30 +12,23 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Download, Search, Leaf } from "lucide-react";
+import { Download, Search, Leaf, Plus, Trash2 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { InstacartRedirectModal } from "@/components/InstacartRedirectModal";
 import { createInstacartShoppingList } from "@/lib/api";
 import { InstacartCTA } from "@/components/InstacartCTA";
 import { useTheme } from "@/hooks/use-theme";
-
-interface GroceryItem {
-  name: string;
-  amount: number;
-  unit: string;
-  recipeIngredient?: string;
-  organic?: boolean;
-}
+import { useGroceryList, useAddGroceryItem, useUpdateGroceryItem, useDeleteGroceryItem } from "@/hooks/use-grocery-list";
+import type { GroceryListEntry, UpdateGroceryItemRequest } from "@/lib/types";
 
 interface GroceryListProps {
-  items: GroceryItem[];
   mealPlanId?: number;
 }
 
-export default function GroceryList({ items, mealPlanId }: GroceryListProps) {
+export default function GroceryList({ mealPlanId }: GroceryListProps) {
   const [searchTerm, setSearchTerm] = useState("");
-  const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
-  const [organicItems, setOrganicItems] = useState<Set<string>>(new Set());
+  const [newItemName, setNewItemName] = useState("");
+  const [hidePantryItems, setHidePantryItems] = useState(false);
   const [isCreatingInstacartList, setIsCreatingInstacartList] = useState(false);
   const [showInstacartModal, setShowInstacartModal] = useState(false);
   const [instacartData, setInstacartData] = useState<{
@@ -43,7 +37,11 @@ export default function GroceryList({ items, mealPlanId }: GroceryListProps) {
     ingredientCount: number;
   } | null>(null);
   const { theme } = useTheme();
-  
+  const { data: groceryList, isLoading } = useGroceryList(mealPlanId);
+  const addItem = useAddGroceryItem(mealPlanId);
+  const updateItem = useUpdateGroceryItem(mealPlanId);
+  const deleteItem = useDeleteGroceryItem(mealPlanId);
+
   // Helper function to resolve the actual theme
   const getResolvedTheme = () => {
     if (theme === "system") {
@@ -52,101 +50,42 @@ export default function GroceryList({ items, mealPlanId }: GroceryListProps) {
     return theme;
   };
 
-  
-  // Define recipeName here
-  const recipeName = items.length > 0 ? items[0].name : "Grocery List";
-
-  // Normalize ingredient names by removing common prefixes and preparation instructions
-  const normalizeIngredientName = (name: string) => {
-    return name.toLowerCase()
-      .replace(/^(fresh|dried|frozen|canned|diced|sliced|chopped|minced|ground)\s+/, '')
-      .replace(/,.*$/, '')
-      .trim();
-  };
-
-  // Convert common unit variations to standard form
-  const standardizeUnit = (unit: string) => {
-    const unitMap: Record<string, string> = {
-      'g': 'grams',
-      'gram': 'grams',
-      'grams': 'grams',
-      'kg': 'kilograms',
-      'oz': 'ounces',
-      'ounce': 'ounces',
-      'ounces': 'ounces',
-      'lb': 'pounds',
-      'lbs': 'pounds',
-      'pound': 'pounds',
-      'pounds': 'pounds',
-      'ml': 'milliliters',
-      'milliliter': 'milliliters',
-      'milliliters': 'milliliters',
-      'l': 'liters',
-      'liter': 'liters',
-      'liters': 'liters',
-      'tsp': 'teaspoons',
-      'teaspoon': 'teaspoons',
-      'teaspoons': 'teaspoons',
-      'tbsp': 'tablespoons',
-      'tablespoon': 'tablespoons',
-      'tablespoons': 'tablespoons',
-      'cup': 'cups',
-      'cups': 'cups',
-    };
-    return unitMap[unit.toLowerCase()] || unit.toLowerCase();
-  };
+  const items = groceryList?.items ?? [];
 
-  // Aggregate ingredients with normalized names and standardized units
-  const aggregatedItems = items.reduce((acc, item) => {
-    const normalizedName = normalizeIngredientName(item.name);
-    const standardUnit = standardizeUnit(item.unit);
-    const key = `${normalizedName}-${standardUnit}`;
+  const filteredItems = items.filter((item) =>
+    item.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    !(hidePantryItems && item.pantry_status === "have")
+  );
 
-    if (!acc[key]) {
-      acc[key] = {
-        name: item.name,
-        amount: item.amount,
-        unit: standardUnit,
-        organic: item.organic || false,
-        recipeIngredient: `${item.amount} ${standardUnit} ${item.name}`
-      };
-    } else {
-      acc[key].amount += item.amount;
-      acc[key].recipeIngredient = `${acc[key].amount} ${standardUnit} ${acc[key].name}`;
-    }
-    return acc;
-  }, {} as Record<string, GroceryItem>);
+  const formatAmount = (amount: number | null) =>
+    amount === null ? "—" : String(Math.round(amount * 100) / 100);
 
-  const filteredItems = Object.values(aggregatedItems).filter((item) =>
-    item.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const handleUpdateItem = (item: GroceryListEntry, data: UpdateGroceryItemRequest) => {
+    updateItem.mutate({ listId: item.grocery_list_id, itemId: item.id, data });
+  };
 
-  const handleCheckItem = (itemName: string) => {
-    const newCheckedItems = new Set(checkedItems);
-    if (checkedItems.has(itemName)) {
-      newCheckedItems.delete(itemName);
-    } else {
-      newCheckedItems.add(itemName);
-    }
-    setCheckedItems(newCheckedItems);
+  const handleAmountChange = (item: GroceryListEntry, value: string) => {
+    const amount = value.trim() === "" ? null : Number(value);
+    if (amount !== null && isNaN(amount)) return;
+    if (amount === item.amount) return;
+    handleUpdateItem(item, { amount });
   };
 
-  const handleToggleOrganic = (itemName: string) => {
-    const newOrganicItems = new Set(organicItems);
-    if (organicItems.has(itemName)) {
-      newOrganicItems.delete(itemName);
-    } else {
-      newOrganicItems.add(itemName);
-    }
-    setOrganicItems(newOrganicItems);
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!groceryList || !newItemName.trim()) return;
+    addItem.mutate(
+      { listId: groceryList.id, item: { name: newItemName.trim() } },
+      { onSuccess: () => setNewItemName("") }
+    );
   };
 
   const exportList = () => {
-    const content = Object.values(aggregatedItems)
-      .filter(item => !checkedItems.has(item.name))
+    const content = items
+      .filter(item => !item.is_checked && item.pantry_status !== "have")
       .map((item) => {
-        const isOrganic = organicItems.has(item.name);
-        return `${item.amount} ${item.unit} ${isOrganic ? 'Organic ' : ''}${item.name}`;
+        const quantity = [item.buy_amount ?? item.amount, item.unit].filter(Boolean).join(" ");
+        return `${quantity ? `${quantity} ` : ""}${item.is_organic ? 'Organic ' : ''}${item.name}`;
       })
       .join("\n");
     const blob = new Blob([content], { type: "text/plain" });
@@ -222,30 +161,89 @@ export default function GroceryList({ items, mealPlanId }: GroceryListProps) {
         )}
       </div>
 
+      {groceryList && (
+        <div className="flex items-center gap-2 text-sm">
+          <Checkbox
+            id="hide-pantry-items"
+            checked={hidePantryItems}
+            onCheckedChange={(checked) => setHidePantryItems(checked === true)}
+          />
+          <label htmlFor="hide-pantry-items" className="text-muted-foreground">
+            Hide items already in my pantry
+          </label>
+        </div>
+      )}
+
+      {groceryList && (
+        <form onSubmit={handleAddItem} className="flex gap-2">
+          <Input
+            placeholder="Add an item, e.g. paper towels"
+            value={newItemName}
+            onChange={(e) => setNewItemName(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!newItemName.trim() || addItem.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      )}
+
       <ScrollArea className="h-[500px] rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead className="w-12"></TableHead>
               <TableHead>Item</TableHead>
-              <TableHead>Amount</TableHead>
+              <TableHead>Need</TableHead>
+              <TableHead>Have</TableHead>
+              <TableHead>Buy</TableHead>
               <TableHead>Unit</TableHead>
               <TableHead className="w-12">Organic</TableHead>
+              <TableHead className="w-12"></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredItems.map((item, index) => (
-              <TableRow key={index}>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  Loading grocery list...
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && filteredItems.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  {mealPlanId ? "No items yet" : "Create a meal plan to build your grocery list"}
+                </TableCell>
+              </TableRow>
+            )}
+            {filteredItems.map((item) => (
+              <TableRow key={item.id}>
                 <TableCell>
                   <Checkbox
-                    checked={checkedItems.has(item.name)}
-                    onCheckedChange={() => handleCheckItem(item.name)}
+                    checked={item.is_checked}
+                    onCheckedChange={(checked) => handleUpdateItem(item, { is_checked: checked === true })}
                   />
                 </TableCell>
-                <TableCell className={checkedItems.has(item.name) ? "line-through" : ""}>
+                <TableCell className={item.is_checked ? "line-through text-muted-foreground" : ""}>
                   {item.name}
+                  {item.pantry_status === "have" && (
+                    <Badge variant="secondary" className="ml-2">In pantry</Badge>
+                  )}
                 </TableCell>
-                <TableCell>{item.amount}</TableCell>
+                <TableCell>
+                  <Input
+                    key={`${item.id}-${item.amount}`}
+                    type="number"
+                    min="0"
+                    step="any"
+                    defaultValue={item.amount ?? ""}
+                    onBlur={(e) => handleAmountChange(item, e.target.value)}
+                    className="h-8 w-20"
+                  />
+                </TableCell>
+                <TableCell className="text-muted-foreground">{formatAmount(item.have_amount)}</TableCell>
+                <TableCell className="font-medium">{formatAmount(item.buy_amount)}</TableCell>
                 <TableCell>{item.unit}</TableCell>
                 <TableCell>
                   <TooltipProvider>
@@ -254,18 +252,29 @@ export default function GroceryList({ items, mealPlanId }: GroceryListProps) {
                         <Button
                           variant="ghost"
                           size="icon"
-                          onClick={() => handleToggleOrganic(item.name)}
-                          className={organicItems.has(item.name) ? "text-green-600" : "text-muted-foreground"}
+                          onClick={() => handleUpdateItem(item, { is_organic: !item.is_organic })}
+                          className={item.is_organic ? "text-green-600" : "text-muted-foreground"}
                         >
                           <Leaf className="h-4 w-4" />
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        {organicItems.has(item.name) ? "Remove organic" : "Make organic"}
+                        {item.is_organic ? "Remove organic" : "Make organic"}
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
                 </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteItem.mutate({ listId: item.grocery_list_id, itemId: item.id })}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove {item.name}</span>
+                  </Button>
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
@@ -27,7 +27,7 @@ export default function Header() {
   const hasActiveMealPlan = currentMealPlan && !currentMealPlan.is_expired;
 
   return (
-    <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+    <header className="border-b bg-background/95 print:hidden backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 items-center px-4">
         <Link href="/" className="flex items-center">
           <img src={logoUrl} alt="Dine-N" className="h-8" />
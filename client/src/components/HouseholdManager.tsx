@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Mail, UserMinus } from "lucide-react";
+import { useUser } from "@/hooks/use-user";
+import {
+  useHousehold,
+  usePendingHouseholdInvitations,
+  useCreateHousehold,
+  useInviteHouseholdMember,
+  useRespondToHouseholdInvitation,
+  useRevokeHouseholdInvitation,
+  useUpdateHouseholdMemberRole,
+  useRemoveHouseholdMember,
+} from "@/hooks/use-household";
+import type { HouseholdRole } from "@/lib/types";
+
+const roleLabels: Record<HouseholdRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export function HouseholdManager() {
+  const { data: user } = useUser();
+  const { data, isLoading } = useHousehold();
+  const { data: pending } = usePendingHouseholdInvitations();
+  const createHousehold = useCreateHousehold();
+  const inviteMember = useInviteHouseholdMember();
+  const respondToInvitation = useRespondToHouseholdInvitation();
+  const revokeInvitation = useRevokeHouseholdInvitation();
+  const updateRole = useUpdateHouseholdMemberRole();
+  const removeMember = useRemoveHouseholdMember();
+
+  const [householdName, setHouseholdName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"editor" | "viewer">("editor");
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const pendingInvitations = pending?.invitations ?? [];
+
+  // Not in a household yet: offer to create one or accept an invitation
+  if (!data?.household) {
+    return (
+      <div className="space-y-6">
+        {pendingInvitations.length > 0 && (
+          <div className="space-y-3">
+            <Label>Invitations</Label>
+            {pendingInvitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium">{invitation.household_name}</p>
+                  <p className="text-sm text-muted-foreground">Join as {roleLabels[invitation.role].toLowerCase()}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={respondToInvitation.isPending}
+                    onClick={() => respondToInvitation.mutate({ token: invitation.token, accept: false })}
+                  >
+                    Decline
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={respondToInvitation.isPending}
+                    onClick={() => respondToInvitation.mutate({ token: invitation.token, accept: true })}
+                  >
+                    Join
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="household-name">Create a household</Label>
+          <p className="text-sm text-muted-foreground">
+            Share your pantry, meal plans and grocery lists with the people you cook for.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              id="household-name"
+              placeholder="e.g. The Smith Kitchen"
+              value={householdName}
+              onChange={(e) => setHouseholdName(e.target.value)}
+            />
+            <Button
+              disabled={!householdName.trim() || createHousehold.isPending}
+              onClick={() => createHousehold.mutate(householdName.trim(), { onSuccess: () => setHouseholdName("") })}
+            >
+              {createHousehold.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = data.role === "owner";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-lg font-semibold">{data.household.name}</p>
+        <p className="text-sm text-muted-foreground">
+          You are {data.role === "owner" ? "the owner" : data.role === "editor" ? "an editor" : "a viewer"} of this household.
+          Allergies of every member are avoided when generating recipes.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Members</Label>
+        {data.members.map((member) => (
+          <div key={member.user_id} className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <p className="font-medium">{member.name || member.email}</p>
+              <p className="text-sm text-muted-foreground">{member.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner && member.user_id !== user?.id ? (
+                <>
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => updateRole.mutate({ userId: member.user_id, role: role as HouseholdRole })}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="owner">Owner</SelectItem>
+                      <SelectItem value="editor">Editor</SelectItem>
+                      <SelectItem value="viewer">Viewer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeMember.mutate(member.user_id)}
+                  >
+                    <UserMinus className="h-4 w-4" />
+                    <span className="sr-only">Remove member</span>
+                  </Button>
+                </>
+              ) : (
+                <Badge variant="secondary">{roleLabels[member.role]}</Badge>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <div className="space-y-3">
+          <Label htmlFor="invite-email">Invite a member</Label>
+          <div className="flex gap-2">
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="partner@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+            <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as "editor" | "viewer")}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">Editor</SelectItem>
+                <SelectItem value="viewer">Viewer</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              disabled={!inviteEmail.trim() || inviteMember.isPending}
+              onClick={() => inviteMember.mutate(
+                { email: inviteEmail.trim(), role: inviteRole },
+                { onSuccess: () => setInviteEmail("") }
+              )}
+            >
+              <Mail className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+
+          {data.invitations.map((invitation) => (
+            <div key={invitation.id} className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {invitation.email} · {roleLabels[invitation.role]} · pending
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => revokeInvitation.mutate(invitation.id)}>
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {user && (
+        <Button
+          variant="outline"
+          disabled={removeMember.isPending || (isOwner && data.members.length > 1)}
+          onClick={() => removeMember.mutate(user.id)}
+        >
+          Leave household
+        </Button>
+      )}
+      {isOwner && data.members.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Make another member the owner before leaving.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { importRecipe } from "@/lib/api";
+import type { RecipeImport } from "@db/schema";
+
+interface ImportRecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pasted content is a JSON-LD document, a page's HTML, or the recipe as plain text
+function pastedSource(content: string): RecipeImport {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return { json_ld: trimmed };
+  if (/<[a-z!][^>]*>/i.test(trimmed)) return { html: trimmed };
+  return { text: trimmed };
+}
+
+export default function ImportRecipeDialog({ open, onOpenChange }: ImportRecipeDialogProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<"link" | "paste">("link");
+  const [url, setUrl] = useState("");
+  const [pasted, setPasted] = useState("");
+
+  const importMutation = useMutation({
+    mutationFn: importRecipe,
+    onSuccess: (recipe) => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      toast({ title: "Recipe imported", description: "Check it over and make any changes." });
+      onOpenChange(false);
+      setUrl("");
+      setPasted("");
+      setLocation(`/recipes/${recipe.id}/edit`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't import recipe", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canImport = mode === "link" ? url.trim() !== "" : pasted.trim() !== "";
+
+  const handleImport = () => {
+    importMutation.mutate(mode === "link" ? { url: url.trim() } : pastedSource(pasted));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import a recipe</DialogTitle>
+          <DialogDescription>
+            Bring in a recipe you found elsewhere. It's saved as your own, ready to edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "link" | "paste")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="link">From a link</TabsTrigger>
+            <TabsTrigger value="paste">Paste</TabsTrigger>
+          </TabsList>
+          <TabsContent value="link" className="pt-2">
+            <Input
+              type="url"
+              placeholder="https://example.com/best-banana-bread"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </TabsContent>
+          <TabsContent value="paste" className="pt-2">
+            <Textarea
+              rows={10}
+              placeholder="Paste the page's HTML, a recipe JSON-LD document, or the recipe itself"
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+            />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || importMutation.isPending}>
+            {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
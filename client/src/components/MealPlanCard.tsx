@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
-import { ChefHat, Heart, Wand2, Calendar, X, BookOpen } from "lucide-react";
+import { ChefHat, Heart, Wand2, Calendar, X, BookOpen, CheckCircle2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { InstacartRedirectModal } from "@/components/InstacartRedirectModal";
 import { useUser } from "@/hooks/use-user";
@@ -16,6 +16,10 @@ import { CalendarEventModal } from "@/components/CalendarEventModal";
 import type { Preferences } from "@db/schema";
 import type { Recipe } from "@/lib/types";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ServingsControl } from "@/components/ServingsControl";
+import { CookedRecipeDialog } from "@/components/CookedRecipeDialog";
+import { useUpdatePlannedServings } from "@/hooks/use-meal-plan";
+import { formatQuantity, scaleIngredients } from "@db/units";
 
 type ComplexityLevel = 1 | 2 | 3;
 
@@ -28,6 +32,7 @@ interface MealPlanCardProps {
   recipe: Recipe;
   day: Date;
   meal: "breakfast" | "lunch" | "dinner";
+  mealPlanId?: number;
   onRemove?: () => void;
 }
 
@@ -138,16 +143,18 @@ function IngredientSubstitution({
   );
 }
 
-export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCardProps) {
+export default function MealPlanCard({ recipe, day, meal, mealPlanId, onRemove }: MealPlanCardProps) {
   const [selectedDate] = useState<Date>(new Date());
   const [showPreferences, setShowPreferences] = useState(false);
   const [showCalendarModal, setShowCalendarModal] = useState(false);
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
+  const [showCookedDialog, setShowCookedDialog] = useState(false);
   const [featureContext, setFeatureContext] = useState<string>("");
   const [selectedIngredient, setSelectedIngredient] = useState<{name: string; amount: number; unit: string} | null>(null);
   const [isFavorited, setIsFavorited] = useState(recipe.favorited ?? false);
   const [localIngredients, setLocalIngredients] = useState(recipe.ingredients ?? []);
+  const [plannedServings, setPlannedServings] = useState<number | null>(recipe.planned_servings ?? null);
   const [isCreatingInstacartPage, setIsCreatingInstacartPage] = useState(false);
   const [showInstacartModal, setShowInstacartModal] = useState(false);
   const [instacartData, setInstacartData] = useState<{
@@ -168,12 +175,25 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
   const { data: user } = useUser();
   const { subscription } = useSubscription();
   const queryClient = useQueryClient();
+  const updatePlannedServings = useUpdatePlannedServings(mealPlanId);
 
   // Initialize local ingredients when recipe changes
   useEffect(() => {
     setLocalIngredients(recipe.ingredients ?? []);
   }, [recipe.ingredients]);
 
+  useEffect(() => {
+    setPlannedServings(recipe.planned_servings ?? null);
+  }, [recipe.planned_servings]);
+
+  // Within a meal plan the chosen servings are saved so the grocery list follows them
+  const handleServingsChange = (value: number) => {
+    setPlannedServings(value);
+    if (mealPlanId) {
+      updatePlannedServings.mutate({ recipeId: recipe.id, servings: value });
+    }
+  };
+
   const handleIngredientSwap = (oldIngredient: string, newIngredient: string) => {
     const updatedIngredients = localIngredients.map(ing => 
       ing.name === oldIngredient
@@ -283,7 +303,7 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
   const prepTime = recipe.prepTime ?? recipe.prep_time ?? 0;
   const cookTime = recipe.cookTime ?? recipe.cook_time ?? 0;
   const totalTime = prepTime + cookTime;
-  const servings = recipe.servings ?? 2;
+  const servings = plannedServings ?? recipe.servings ?? 2;
   const imageUrl = recipe.permanent_url || recipe.image_url || '';
   const description = recipe.description ?? '';
 
@@ -426,7 +446,7 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
               </>
             )}
 
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="grid grid-cols-3 gap-4 text-sm">
               <div>
                 <span className="font-semibold">Prep Time:</span>
                 <br />
@@ -442,13 +462,14 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
                 <br />
                 {totalTime ? `${totalTime} mins` : "N/A"}
               </div>
-              <div>
-                <span className="font-semibold">Servings:</span>
-                <br />
-                {servings}
-              </div>
             </div>
 
+            <ServingsControl
+              servings={servings}
+              onChange={handleServingsChange}
+              disabled={updatePlannedServings.isPending}
+            />
+
             <div>
               <h3 className="font-semibold mb-2">Description</h3>
               <p className="text-muted-foreground">{description}</p>
@@ -457,10 +478,10 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
             <div>
               <h3 className="font-semibold mb-2">Ingredients</h3>
               <ul className="space-y-2">
-                {localIngredients.map((ingredient, i) => (
+                {scaleIngredients(localIngredients, recipe.servings, servings).map((ingredient, i) => (
                   <li key={i} className="flex items-center justify-between group">
                     <span>
-                      {ingredient.amount} {ingredient.unit} {ingredient.name}
+                      {formatQuantity(ingredient.amount)} {ingredient.unit} {ingredient.name}
                     </span>
                     {subscription?.tier === 'premium' && (
                       <Button
@@ -529,6 +550,25 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
               </div>
             </div>
 
+            {/* Pantry deduction CTA */}
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div>
+                <h3 className="font-semibold mb-1">Already made it?</h3>
+                <p className="text-sm text-muted-foreground">
+                  Take this recipe's ingredients out of your pantry
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+                onClick={() => setShowCookedDialog(true)}
+              >
+                <CheckCircle2 className="h-4 w-4" />
+                I cooked this
+              </Button>
+            </div>
+
             <div>
               <h3 className="font-semibold mb-2">Nutrition (per serving)</h3>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -583,6 +623,16 @@ export default function MealPlanCard({ recipe, day, meal, onRemove }: MealPlanCa
         />
       )}
 
+      {showCookedDialog && (
+        <CookedRecipeDialog
+          open={showCookedDialog}
+          onOpenChange={setShowCookedDialog}
+          recipeId={recipe.id}
+          recipeName={recipe.name}
+          servings={servings}
+        />
+      )}
+
       {selectedIngredient && (
         <IngredientSubstitution
           ingredient={selectedIngredient.name}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { DollarSign, Loader2 } from "lucide-react";
+import { useUser } from "@/hooks/use-user";
+import { useMealPlanCost, useUpdateWeeklyBudget } from "@/hooks/use-prices";
+
+interface MealPlanCostProps {
+  mealPlanId?: number;
+}
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Estimated spend for the current plan from the household's own prices, against the weekly budget
+export default function MealPlanCost({ mealPlanId }: MealPlanCostProps) {
+  const { data: user } = useUser();
+  const { data: cost, isLoading } = useMealPlanCost(mealPlanId);
+  const updateBudget = useUpdateWeeklyBudget();
+  const [budget, setBudget] = useState("");
+
+  useEffect(() => {
+    setBudget(user?.weekly_budget ? user.weekly_budget.toString() : "");
+  }, [user?.weekly_budget]);
+
+  if (!mealPlanId) return null;
+
+  const parsedBudget = parseFloat(budget);
+  const budgetChanged = (budget ? parsedBudget : null) !== (user?.weekly_budget ?? null);
+
+  const handleSaveBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateBudget.mutate(budget && !isNaN(parsedBudget) ? parsedBudget : null);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-green-600" />
+            Estimated Cost
+          </CardTitle>
+          {cost?.over_budget && <Badge variant="destructive">Over budget</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : cost && cost.coverage > 0 ? (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-muted-foreground">This plan</p>
+                <p className="text-xl font-semibold">{formatMoney(cost.total)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Per meal</p>
+                <p className="text-xl font-semibold">{formatMoney(cost.per_meal)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Per week</p>
+                <p className="text-xl font-semibold">{formatMoney(cost.per_week)}</p>
+              </div>
+            </div>
+            {cost.weekly_budget && (
+              <Progress value={Math.min(100, (cost.per_week / cost.weekly_budget) * 100)} className="h-2" />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Based on prices for {cost.coverage}% of ingredients. Add prices to pantry items or scan receipts to improve the estimate.
+            </p>
+          </>
+        ) : (
+          <p className="text-muted-foreground">
+            No prices on record yet. Add what you paid when stocking your pantry or scan a receipt to see what this plan costs.
+          </p>
+        )}
+
+        <form onSubmit={handleSaveBudget} className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="weeklyBudget">Weekly grocery budget</Label>
+            <Input
+              id="weeklyBudget"
+              type="number"
+              step="1"
+              min="0"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              placeholder="No budget"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={!budgetChanged || updateBudget.isPending}>
+            {updateBudget.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChefHat, Clock, Loader2 } from "lucide-react";
+import MissingRecipeCard from "@/components/MissingRecipeCard";
+import type { MealPlanJob, MealPlanJobItem } from "@/lib/api";
+import type { Recipe } from "@db/schema";
+
+interface MealPlanJobProgressProps {
+  job: MealPlanJob | null;
+  startDate: Date;
+  onRetry: (taskId: string) => Promise<void>;
+}
+
+const MEALS: Array<MealPlanJobItem["meal"]> = ["breakfast", "lunch", "dinner"];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function PendingSlot({ item }: { item: MealPlanJobItem }) {
+  return (
+    <Card className="overflow-hidden">
+      <Skeleton className="h-40 w-full rounded-none" />
+      <CardHeader className="pb-2">
+        <div className="text-xs uppercase tracking-wide text-muted-foreground">{capitalize(item.meal)}</div>
+        <CardTitle className="text-base flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {item.title ? `Writing ${item.title}...` : `Cooking up ${item.cuisine ? `a ${item.cuisine} ` : "a "}${item.meal}...`}
+        </CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function RecipeSlot({ item, recipe }: { item: MealPlanJobItem; recipe: Recipe }) {
+  const imageUrl = recipe.permanent_url || recipe.image_url;
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0);
+
+  return (
+    <Card className="overflow-hidden animate-fade-in">
+      {imageUrl ? (
+        <img src={imageUrl} alt={recipe.name} className="h-40 w-full object-cover" />
+      ) : (
+        // The text arrives first; the photo follows once it's been taken
+        <div className="relative h-40 w-full">
+          <Skeleton className="h-full w-full rounded-none" />
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+            <ChefHat className="h-4 w-4 mr-1" />
+            Plating...
+          </div>
+        </div>
+      )}
+      <CardHeader className="pb-2">
+        <div className="text-xs uppercase tracking-wide text-muted-foreground">{capitalize(item.meal)}</div>
+        <CardTitle className="text-base">{recipe.name}</CardTitle>
+      </CardHeader>
+      {totalTime > 0 && (
+        <CardContent className="pt-0 text-sm text-muted-foreground flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          {totalTime} min
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+// A plan filling in as it generates: each slot shows its recipe as soon as it's written, and a
+// slot that failed can be retried on its own
+export function MealPlanJobProgress({ job, startDate, onRetry }: MealPlanJobProgressProps) {
+  if (!job) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Starting your meal plan...
+      </div>
+    );
+  }
+
+  const recipesById = new Map(job.recipes.map(recipe => [recipe.id, recipe]));
+  const days = Array.from(new Set(job.items.map(item => item.day))).sort((a, b) => a - b);
+  const dayDate = (day: number) => {
+    const date = new Date(startDate);
+    date.setDate(date.getDate() + day);
+    return date;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">
+            {job.completed} of {job.total} recipes ready
+          </span>
+          {job.failed > 0 && (
+            <span className="text-muted-foreground">{job.failed} need another try</span>
+          )}
+        </div>
+        <Progress value={job.progress} className="h-2" />
+      </div>
+
+      {days.map(day => (
+        <div key={day} className="space-y-3">
+          <h3 className="text-lg font-semibold">
+            {dayDate(day).toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" })}
+          </h3>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {job.items
+              .filter(item => item.day === day)
+              .sort((a, b) => MEALS.indexOf(a.meal) - MEALS.indexOf(b.meal))
+              .map(item => {
+                const recipe = item.recipe ? recipesById.get(item.recipe.id) : undefined;
+                if (item.status === "failed") {
+                  return (
+                    <MissingRecipeCard
+                      key={item.task_id}
+                      day={dayDate(day)}
+                      meal={item.meal}
+                      onRegenerate={() => onRetry(item.task_id)}
+                      description={item.title
+                        ? `We couldn't write up ${item.title}.`
+                        : "We couldn't generate a recipe for this meal slot."}
+                      successMessage="Trying this recipe again"
+                    />
+                  );
+                }
+                return item.status === "complete" && recipe
+                  ? <RecipeSlot key={item.task_id} item={item} recipe={recipe} />
+                  : <PendingSlot key={item.task_id} item={item} />;
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
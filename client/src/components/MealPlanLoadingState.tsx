@@ -5,6 +5,13 @@ import { Loader2, ChefHat, Clock, Sparkles } from "lucide-react";
 interface MealPlanLoadingStateProps {
   messages?: string[];
   baseMessage?: string;
+  // Real progress from a meal plan job; without it the messages cycle on their own
+  progress?: {
+    completed: number;
+    failed?: number;
+    total: number;
+    latestRecipe?: string | null;
+  } | null;
 }
 
 const defaultMessages = [
@@ -17,7 +24,8 @@ const defaultMessages = [
 
 export function MealPlanLoadingState({ 
   messages = defaultMessages, 
-  baseMessage = "Generating your personalized meal plan..."
+  baseMessage = "Generating your personalized meal plan...",
+  progress
 }: MealPlanLoadingStateProps) {
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
   const [dots, setDots] = useState("");
@@ -45,7 +53,10 @@ export function MealPlanLoadingState({
     return () => clearInterval(interval);
   }, []);
 
-  const currentMessage = messages.length > 0 ? messages[currentMessageIndex] : baseMessage;
+  const cycledMessage = messages.length > 0 ? messages[currentMessageIndex] : baseMessage;
+  const hasProgress = !!progress && progress.total > 0;
+  const percent = hasProgress ? Math.round((progress.completed + (progress.failed || 0)) / progress.total * 100) : 0;
+  const currentMessage = hasProgress && progress.latestRecipe ? `Added ${progress.latestRecipe}` : cycledMessage;
 
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -67,7 +78,9 @@ export function MealPlanLoadingState({
               {baseMessage}
             </h3>
             <p className="text-sm text-muted-foreground">
-              This may take a minute{dots}
+              {hasProgress
+                ? `${progress.completed} of ${progress.total} recipes ready${dots}`
+                : `This may take a minute${dots}`}
             </p>
           </div>
 
@@ -86,7 +99,11 @@ export function MealPlanLoadingState({
 
           {/* Progress indicator */}
           <div className="w-full bg-secondary h-2 rounded-full overflow-hidden">
-            <div className="h-full bg-primary rounded-full animate-pulse" style={{ width: '60%' }} />
+            {hasProgress ? (
+              <div className="h-full bg-primary rounded-full transition-all duration-500" style={{ width: `${percent}%` }} />
+            ) : (
+              <div className="h-full bg-primary rounded-full animate-pulse" style={{ width: '60%' }} />
+            )}
           </div>
         </CardContent>
       </Card>
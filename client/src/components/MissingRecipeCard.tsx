@@ -9,9 +9,17 @@ interface MissingRecipeCardProps {
   day: Date;
   meal: string;
   onRegenerate?: () => Promise<void>;
+  description?: string;
+  successMessage?: string;
 }
 
-export default function MissingRecipeCard({ day, meal, onRegenerate }: MissingRecipeCardProps) {
+export default function MissingRecipeCard({
+  day,
+  meal,
+  onRegenerate,
+  description = "We couldn't generate a unique recipe for this meal slot.",
+  successMessage = "Recipe regenerated successfully",
+}: MissingRecipeCardProps) {
   const [isRegenerating, setIsRegenerating] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -24,7 +32,7 @@ export default function MissingRecipeCard({ day, meal, onRegenerate }: MissingRe
       await onRegenerate();
       toast({
         title: "Success",
-        description: "Recipe regenerated successfully",
+        description: successMessage,
       });
       // Refresh the meal plan data
       await queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
@@ -57,7 +65,7 @@ export default function MissingRecipeCard({ day, meal, onRegenerate }: MissingRe
         <div className="flex flex-col items-center justify-center py-6 text-center">
           <AlertCircle className="h-12 w-12 text-muted-foreground mb-4" />
           <p className="text-sm text-muted-foreground mb-4">
-            We couldn't generate a unique recipe for this meal slot.
+            {description}
           </p>
           <Button 
             variant="outline" 
@@ -0,0 +1,133 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Activity, AlertTriangle, Loader2 } from "lucide-react";
+import { useNutritionSummary } from "@/hooks/use-nutrition";
+import type { DayNutrition, Nutrient, NutritionTargets, NutritionTotals } from "@/lib/types";
+
+const nutrients: Array<{ key: Nutrient; label: string; unit: string }> = [
+  { key: "calories", label: "Calories", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+];
+
+const formatAmount = (value: number, unit: string) => `${Math.round(value)}${unit === "kcal" ? "" : unit}`;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" });
+
+function NutrientBars({ totals, targets }: { totals: NutritionTotals; targets: NutritionTargets | null }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {nutrients.map(({ key, label, unit }) => {
+        const target = targets?.[key] ?? null;
+        return (
+          <div key={key} className="space-y-1">
+            <p className="text-muted-foreground">{label}</p>
+            <p className="font-semibold">
+              {formatAmount(totals[key], unit)}
+              {target ? <span className="text-muted-foreground font-normal"> / {formatAmount(target, unit)}</span> : null}
+            </p>
+            {target ? <Progress value={Math.min(100, (totals[key] / target) * 100)} className="h-2" /> : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function DayCard({ day, targets }: { day: DayNutrition; targets: NutritionTargets | null }) {
+  const missingNutrition = day.meals.filter(meal => !meal.has_nutrition).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-base">{formatDay(day.date)}</CardTitle>
+          <div className="flex gap-1 flex-wrap">
+            {day.warnings.map(warning => (
+              <Badge key={warning.nutrient} variant="destructive" className="gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {nutrients.find(n => n.key === warning.nutrient)?.label} {Math.abs(warning.difference_pct)}% {warning.difference_pct > 0 ? "over" : "under"}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <NutrientBars totals={day.totals} targets={targets} />
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {day.meals.map((meal, index) => (
+            <li key={`${meal.recipe_id}-${index}`}>
+              {meal.meal}: {meal.name} · {meal.servings_eaten} serving{meal.servings_eaten === 1 ? "" : "s"}
+              {meal.has_nutrition ? ` · ${Math.round(meal.nutrition.calories)} kcal` : " · no nutrition info"}
+            </li>
+          ))}
+        </ul>
+        {missingNutrition > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {missingNutrition} meal{missingNutrition === 1 ? " has" : "s have"} no nutrition info, so this day may be undercounted.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Per-person nutrition for each planned day and the week, against the user's daily targets
+export default function NutritionDashboard() {
+  const { data: summary, isLoading } = useNutritionSummary();
+
+  if (isLoading) {
+    return <Loader2 className="h-6 w-6 animate-spin mx-auto my-8" />;
+  }
+
+  if (!summary || summary.days.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Generate a meal plan or meal prep plan to see its nutrition here.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const offTargetDays = summary.days.filter(day => day.warnings.length > 0).length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Activity className="h-5 w-5 text-primary" />
+              Daily Average
+            </CardTitle>
+            {offTargetDays > 0 && (
+              <Badge variant="destructive">{offTargetDays} day{offTargetDays === 1 ? "" : "s"} off target</Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <NutrientBars totals={summary.week.daily_average} targets={summary.targets} />
+          <p className="text-xs text-muted-foreground">
+            Per person across {summary.week.days_planned} planned day{summary.week.days_planned === 1 ? "" : "s"}
+            {summary.household_size > 1 ? `, with servings shared between ${summary.household_size} household members` : ""}
+            {summary.meal_prep ? `, including ${summary.meal_prep.servings_per_day} daily serving${summary.meal_prep.servings_per_day === 1 ? "" : "s"} from ${summary.meal_prep.name}` : ""}.
+            {" "}Week total: {Math.round(summary.week.totals.calories)} kcal.
+          </p>
+          {!summary.targets && (
+            <p className="text-xs text-muted-foreground">
+              Set daily targets in your profile to see how each day measures up.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {summary.days.map(day => (
+        <DayCard key={day.date} day={day} targets={summary.targets} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useUser } from "@/hooks/use-user";
+import { useUpdateNutritionTargets } from "@/hooks/use-nutrition";
+import { NutritionTargetsSchema, type Nutrient, type NutritionTargets } from "@/lib/types";
+
+const fields: Array<{ nutrient: Nutrient; label: string; unit: string }> = [
+  { nutrient: "calories", label: "Calories", unit: "kcal" },
+  { nutrient: "protein", label: "Protein", unit: "g" },
+  { nutrient: "carbs", label: "Carbs", unit: "g" },
+  { nutrient: "fat", label: "Fat", unit: "g" },
+];
+
+type TargetInputs = Record<Nutrient, string>;
+
+const toInputs = (targets: NutritionTargets | null | undefined): TargetInputs => ({
+  calories: targets?.calories?.toString() ?? "",
+  protein: targets?.protein?.toString() ?? "",
+  carbs: targets?.carbs?.toString() ?? "",
+  fat: targets?.fat?.toString() ?? "",
+});
+
+const toTarget = (value: string) => {
+  const parsed = parseFloat(value);
+  return value && !isNaN(parsed) ? parsed : null;
+};
+
+export function NutritionTargetsForm() {
+  const { data: user } = useUser();
+  const updateTargets = useUpdateNutritionTargets();
+  const [inputs, setInputs] = useState<TargetInputs>(toInputs(null));
+
+  useEffect(() => {
+    const parsed = NutritionTargetsSchema.nullable().safeParse(user?.nutrition_targets ?? null);
+    setInputs(toInputs(parsed.success ? parsed.data : null));
+  }, [user?.nutrition_targets]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const targets: NutritionTargets = {
+      calories: toTarget(inputs.calories),
+      protein: toTarget(inputs.protein),
+      carbs: toTarget(inputs.carbs),
+      fat: toTarget(inputs.fat),
+    };
+    updateTargets.mutate(Object.values(targets).some(value => value !== null) ? targets : null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {fields.map(({ nutrient, label, unit }) => (
+          <div key={nutrient} className="space-y-1">
+            <Label htmlFor={`target-${nutrient}`}>{label} ({unit})</Label>
+            <Input
+              id={`target-${nutrient}`}
+              type="number"
+              step="1"
+              min="0"
+              value={inputs[nutrient]}
+              onChange={(e) => setInputs(prev => ({ ...prev, [nutrient]: e.target.value }))}
+              placeholder="No target"
+            />
+          </div>
+        ))}
+      </div>
+      <Button type="submit" disabled={updateTargets.isPending}>
+        {updateTargets.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Save Targets
+      </Button>
+    </form>
+  );
+}
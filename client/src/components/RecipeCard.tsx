@@ -5,7 +5,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Clock, Users, Heart, ChefHat, Calendar } from "lucide-react";
+import { Clock, Users, Heart, ChefHat, Calendar, Bookmark } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/hooks/use-user";
@@ -24,6 +24,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { useState } from "react";
 import { Recipe } from "@db/schema";
 import { CalendarEventModal } from "@/components/CalendarEventModal";
+import { saveToCookbook } from "@/lib/api";
 
 type MealType = "Breakfast" | "Lunch" | "Dinner" | "Snack" | "Dessert";
 
@@ -61,6 +62,9 @@ interface RecipeCardProps {
   onClick?: () => void;
 }
 
+// Generated recipes are numbered from here up; anything lower is already saved in the cookbook library
+const FIRST_GENERATED_RECIPE_ID = 100000;
+
 const complexityNames: Record<1 | 2 | 3, string> = {
   1: "Easy",
   2: "Medium",
@@ -164,6 +168,35 @@ export default function RecipeCard({ recipe, isFavorited = false, onClick }: Rec
     }
   });
 
+  const isInLibrary = recipe.id < FIRST_GENERATED_RECIPE_ID;
+
+  const saveRecipe = useMutation({
+    mutationFn: () => saveToCookbook(recipe.id),
+    onSuccess: ({ created }) => {
+      // Favorites and meal plan slots now point at the saved copy
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
+      toast({
+        title: created ? "Saved to your cookbook" : "Already in your cookbook",
+        description: "This recipe will stay in your collection after it expires",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isInLibrary) {
+      saveRecipe.mutate();
+    }
+  };
+
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (isFavorited) {
@@ -203,6 +236,24 @@ export default function RecipeCard({ recipe, isFavorited = false, onClick }: Rec
                 <Calendar className="h-5 w-5 text-gray-500 hover:text-primary" />
                 <span className="sr-only">Add to calendar</span>
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="bg-white/80 hover:bg-white/90"
+                onClick={handleSaveClick}
+                disabled={saveRecipe.isPending || saveRecipe.isSuccess}
+              >
+                <Bookmark
+                  className={`h-5 w-5 transition-colors ${
+                    isInLibrary || saveRecipe.isSuccess
+                      ? 'fill-primary text-primary'
+                      : 'text-gray-500 hover:text-primary'
+                  }`}
+                />
+                <span className="sr-only">
+                  {isInLibrary || saveRecipe.isSuccess ? 'Saved to cookbook' : 'Save to cookbook'}
+                </span>
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
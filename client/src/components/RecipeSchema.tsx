@@ -35,10 +35,16 @@ export function RecipeSchema({ recipe }: RecipeSchemaProps) {
       })),
       nutrition: {
         "@type": "NutritionInformation",
+        servingSize: "1 serving",
         calories: `${recipe.nutrition.calories} calories`,
         proteinContent: `${recipe.nutrition.protein}g`,
         carbohydrateContent: `${recipe.nutrition.carbs}g`,
-        fatContent: `${recipe.nutrition.fat}g`
+        fatContent: `${recipe.nutrition.fat}g`,
+        // Older recipes don't have these; undefined fields drop out of the JSON
+        saturatedFatContent: recipe.nutrition.saturated_fat !== undefined ? `${recipe.nutrition.saturated_fat}g` : undefined,
+        fiberContent: recipe.nutrition.fiber !== undefined ? `${recipe.nutrition.fiber}g` : undefined,
+        sugarContent: recipe.nutrition.sugar !== undefined ? `${recipe.nutrition.sugar}g` : undefined,
+        sodiumContent: recipe.nutrition.sodium !== undefined ? `${recipe.nutrition.sodium}mg` : undefined
       },
       keywords: recipe.tags.join(",")
     };
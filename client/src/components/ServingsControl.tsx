@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import { Minus, Plus, Users } from "lucide-react";
+
+interface ServingsControlProps {
+  servings: number;
+  onChange: (servings: number) => void;
+  disabled?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export function ServingsControl({ servings, onChange, disabled, min = 1, max = 50 }: ServingsControlProps) {
+  return (
+    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+      <Users className="h-5 w-5 text-muted-foreground" />
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-7 w-7"
+        disabled={disabled || servings <= min}
+        onClick={() => onChange(servings - 1)}
+      >
+        <Minus className="h-3 w-3" />
+        <span className="sr-only">Fewer servings</span>
+      </Button>
+      <span className="min-w-[5.5rem] text-center text-muted-foreground">
+        Serves {servings}
+      </span>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-7 w-7"
+        disabled={disabled || servings >= max}
+        onClick={() => onChange(servings + 1)}
+      >
+        <Plus className="h-3 w-3" />
+        <span className="sr-only">More servings</span>
+      </Button>
+    </div>
+  );
+}
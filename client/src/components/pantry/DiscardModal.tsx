@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Badge } from '@/components/ui/badge';
+import type { PantryItem, DiscardPantryItemRequest, DiscardReason } from '@/lib/types';
+
+interface DiscardModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: PantryItem | null;
+  onDiscard: (data: DiscardPantryItemRequest) => void;
+}
+
+const REASONS: { value: DiscardReason; label: string }[] = [
+  { value: 'spoiled', label: 'Spoiled' },
+  { value: 'expired', label: 'Past its date' },
+  { value: 'didnt_like', label: "Didn't like it" },
+  { value: 'other', label: 'Other' },
+];
+
+export function DiscardModal({ open, onOpenChange, item, onDiscard }: DiscardModalProps) {
+  const [reason, setReason] = useState<DiscardReason>('spoiled');
+  const [quantity, setQuantity] = useState('');
+  const [cost, setCost] = useState('');
+
+  // Reset form when modal opens/closes or item changes
+  useEffect(() => {
+    if (open && item) {
+      setReason(item.days_remaining !== null && item.days_remaining !== undefined && item.days_remaining < 0 ? 'expired' : 'spoiled');
+      setQuantity(item.quantity !== null ? item.quantity.toString() : '');
+      setCost('');
+    }
+  }, [open, item]);
+
+  if (!item) return null;
+
+  const unit = item.unit || 'units';
+  const parsedQuantity = parseFloat(quantity);
+  const parsedCost = parseFloat(cost);
+  const isValidQuantity = item.quantity === null || (parsedQuantity > 0 && parsedQuantity <= item.quantity);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    onDiscard({
+      reason,
+      quantity: item.quantity !== null ? parsedQuantity : undefined,
+      cost: cost && !isNaN(parsedCost) ? parsedCost : undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Throw out {item.name}?</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Why?</Label>
+            <RadioGroup value={reason} onValueChange={(value) => setReason(value as DiscardReason)} className="grid grid-cols-2 gap-2">
+              {REASONS.map(option => (
+                <Label
+                  key={option.value}
+                  htmlFor={`reason-${option.value}`}
+                  className="flex items-center gap-2 rounded-md border p-3 font-normal cursor-pointer"
+                >
+                  <RadioGroupItem id={`reason-${option.value}`} value={option.value} />
+                  {option.label}
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {item.quantity !== null && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="discardQuantity">Amount thrown out</Label>
+                <Badge variant="outline" className="text-xs">
+                  {item.quantity} {unit} left
+                </Badge>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="discardQuantity"
+                  type="number"
+                  step="0.25"
+                  min="0"
+                  max={item.quantity}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="flex-1"
+                />
+                <div className="flex items-center px-3 py-2 bg-muted rounded-md text-sm text-muted-foreground min-w-[60px]">
+                  {unit}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="discardCost">What it cost (optional)</Label>
+            <Input
+              id="discardCost"
+              type="number"
+              step="0.01"
+              min="0"
+              value={cost}
+              onChange={(e) => setCost(e.target.value)}
+              placeholder="$0.00"
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use a typical price for the category in your waste stats.
+            </p>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" className="flex-1" disabled={!isValidQuantity}>
+              Throw Out
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
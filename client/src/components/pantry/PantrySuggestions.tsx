@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, ShoppingCart, Sparkles, Clock } from 'lucide-react';
+import { formatQuantity } from '@db/units';
+import { usePantrySuggestions, useGeneratePantrySuggestions, useAddMissingToGroceryList } from '@/hooks/use-pantry';
+import type { PantrySuggestion } from '@/lib/types';
+
+function SuggestionCard({ recipe }: { recipe: PantrySuggestion }) {
+  const addMissing = useAddMissingToGroceryList();
+  const [added, setAdded] = useState(false);
+
+  const handleAddMissing = () => {
+    addMissing.mutate(
+      { items: recipe.missing_ingredients },
+      { onSuccess: () => setAdded(true) }
+    );
+  };
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-lg">{recipe.name}</CardTitle>
+          <Badge variant={recipe.match_score >= 75 ? 'default' : 'secondary'} className="shrink-0">
+            {recipe.match_score}% match
+          </Badge>
+        </div>
+        <Progress value={recipe.match_score} className="h-1.5" />
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-3 text-sm">
+        {recipe.description && (
+          <p className="text-muted-foreground line-clamp-2">{recipe.description}</p>
+        )}
+
+        <div>
+          <p className="font-medium mb-1">From your pantry</p>
+          <div className="flex flex-wrap gap-1">
+            {recipe.pantry_items_used.map(use => (
+              <Badge
+                key={`${use.pantry_item_id}-${use.ingredient_name}`}
+                variant="outline"
+                className={use.expiring ? 'border-orange-400 text-orange-700' : ''}
+              >
+                {use.expiring && <Clock className="h-3 w-3 mr-1" />}
+                {use.pantry_item_name}
+              </Badge>
+            ))}
+            {recipe.pantry_items_used.length === 0 && (
+              <span className="text-muted-foreground">Nothing matched</span>
+            )}
+          </div>
+        </div>
+
+        {recipe.missing_ingredients.length > 0 && (
+          <div>
+            <p className="font-medium mb-1">You'll need</p>
+            <ul className="text-muted-foreground space-y-0.5">
+              {recipe.missing_ingredients.map(ingredient => (
+                <li key={ingredient.name}>
+                  {ingredient.amount !== null && `${formatQuantity(ingredient.amount)} `}
+                  {ingredient.unit && `${ingredient.unit} `}
+                  {ingredient.name}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-auto flex gap-2 pt-2">
+          <Button asChild size="sm" variant="outline" className="flex-1">
+            <Link href={`/recipe/${recipe.id}`}>View Recipe</Link>
+          </Button>
+          {recipe.missing_ingredients.length > 0 && (
+            <Button
+              size="sm"
+              className="flex-1"
+              onClick={handleAddMissing}
+              disabled={added || addMissing.isPending}
+            >
+              {addMissing.isPending
+                ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                : <ShoppingCart className="h-3 w-3 mr-1" />}
+              {added ? 'Added' : 'Add Missing'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Saved recipes that fit what's on hand, ranked to use up what's expiring first, with new ones
+// generated on request
+export function PantrySuggestions() {
+  const [prioritize, setPrioritize] = useState('expiring');
+  const library = usePantrySuggestions({ prioritize, limit: 3 });
+  const generate = useGeneratePantrySuggestions();
+
+  // Generated ideas were ranked for the previous priority, so fall back to the cookbook
+  useEffect(() => {
+    generate.reset();
+  }, [prioritize]);
+
+  const data = generate.data ?? library.data;
+  const isFetching = library.isFetching || generate.isPending;
+  const error = generate.error ?? library.error;
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-purple-600" />
+          Cook From Your Pantry
+        </h2>
+        <div className="flex gap-2">
+          <Select value={prioritize} onValueChange={setPrioritize}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="expiring">Use expiring items first</SelectItem>
+              <SelectItem value="running_low">Use up what's running low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={() => generate.mutate({ prioritize, limit: 3 })} disabled={isFetching}>
+            {generate.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+            New Ideas
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">Couldn't come up with recipes right now. Please try again.</p>
+      ) : data && data.usableIngredients.length === 0 && !isFetching ? (
+        <p className="text-sm text-muted-foreground">Add a few items to your pantry to get recipe ideas.</p>
+      ) : data && data.recipes.length === 0 && !isFetching ? (
+        <p className="text-sm text-muted-foreground">None of your saved recipes use what's in your pantry. Try New Ideas.</p>
+      ) : data ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {data.recipes.map(recipe => (
+            <SuggestionCard key={recipe.id} recipe={recipe} />
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
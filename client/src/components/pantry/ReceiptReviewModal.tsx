@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Receipt } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useScanReceipt, useReceiptPreview, useApplyReceipt } from '@/hooks/use-pantry';
+import type { ReceiptLine, ReceiptMergeProposal } from '@/lib/types';
+
+interface ReceiptReviewModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// What to do with a line: restock a pantry item ("restock:<id>"), add it as a new item, or leave it out
+type LineChoice = string;
+
+interface ReviewRow {
+  line: ReceiptLine;
+  proposal: ReceiptMergeProposal;
+  choice: LineChoice;
+  quantity: string;
+}
+
+const defaultChoice = (proposal: ReceiptMergeProposal): LineChoice =>
+  proposal.action === 'restock' && proposal.pantry_item ? `restock:${proposal.pantry_item.id}` : 'new';
+
+const toRow = (proposal: ReceiptMergeProposal): ReviewRow => ({
+  line: proposal.scanned,
+  proposal,
+  choice: defaultChoice(proposal),
+  quantity: proposal.scanned.quantity !== null ? String(proposal.scanned.quantity) : '',
+});
+
+// Scan a receipt, then confirm line by line whether each item restocks something already in the
+// pantry or is added as new. Nothing is saved until the user applies the reviewed lines.
+export function ReceiptReviewModal({ open, onOpenChange }: ReceiptReviewModalProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const scanReceipt = useScanReceipt();
+  const previewLines = useReceiptPreview();
+  const applyReceipt = useApplyReceipt();
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [store, setStore] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setRows([]);
+      setStore(null);
+      scanReceipt.reset();
+    }
+  }, [open]);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      scanReceipt.mutate(
+        { image: dataUrl.replace(/^data:[^,]*,/, ''), mimeType: file.type || 'image/jpeg' },
+        {
+          onSuccess: (data) => {
+            setRows(data.proposals.map(toRow));
+            setStore(data.store ?? null);
+          },
+        }
+      );
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  // A corrected name may match a different pantry item, so ask the server again
+  const rematch = (index: number, name: string) => {
+    const row = rows[index];
+    if (!name.trim() || name.trim() === row.proposal.scanned.name) return;
+    const line = { ...row.line, name: name.trim() };
+    previewLines.mutate([line], {
+      onSuccess: ([proposal]) => {
+        if (proposal) updateRow(index, { line, proposal, choice: defaultChoice(proposal) });
+      },
+    });
+  };
+
+  const confirmed = rows
+    .filter(row => row.choice !== 'skip' && row.line.name.trim())
+    .map(row => {
+      const quantity = parseFloat(row.quantity);
+      const restockId = row.choice.startsWith('restock:') ? Number(row.choice.slice('restock:'.length)) : null;
+      return {
+        ...row.line,
+        quantity: quantity > 0 ? quantity : null,
+        action: restockId ? 'restock' as const : 'new' as const,
+        pantryItemId: restockId,
+      };
+    });
+
+  const handleApply = () => {
+    applyReceipt.mutate(
+      { lines: confirmed, source: 'receipt', store },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Scan a receipt
+          </DialogTitle>
+          <DialogDescription>
+            {rows.length > 0
+              ? 'Check each line: restock what you already have or add it as a new item. Nothing changes until you confirm.'
+              : 'Take or choose a photo of a grocery receipt.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-8">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              capture="environment"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Button onClick={() => fileInput.current?.click()} disabled={scanReceipt.isPending}>
+              {scanReceipt.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Receipt className="h-4 w-4 mr-2" />}
+              {scanReceipt.isPending ? 'Reading receipt...' : 'Choose photo'}
+            </Button>
+            {scanReceipt.error && (
+              <p className="text-sm text-destructive text-center">{scanReceipt.error.message}</p>
+            )}
+            {scanReceipt.data && scanReceipt.data.items.length === 0 && (
+              <p className="text-sm text-muted-foreground">No items were found on that receipt.</p>
+            )}
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 pr-2">
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    'grid grid-cols-1 sm:grid-cols-[1fr_5rem_14rem] items-center gap-2 rounded-md border p-3',
+                    row.choice === 'skip' && 'bg-muted/50 opacity-60'
+                  )}
+                >
+                  <div className="min-w-0">
+                    <Input
+                      defaultValue={row.line.name}
+                      onBlur={(e) => rematch(index, e.target.value)}
+                      className="h-8 text-sm"
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground truncate">
+                      {row.line.unit && `${row.line.unit} · `}
+                      {row.line.price !== null && `$${row.line.price.toFixed(2)} · `}
+                      {row.proposal.pantry_item
+                        ? row.proposal.quantity_after !== null
+                          ? `${row.proposal.pantry_item.name} goes to ${row.proposal.quantity_after} ${row.proposal.pantry_item.unit || 'units'}`
+                          : `In pantry as ${row.proposal.pantry_item.name}`
+                        : 'Not in pantry yet'}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    placeholder="Qty"
+                    value={row.quantity}
+                    disabled={row.choice === 'skip'}
+                    onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    className="h-8 text-sm"
+                  />
+                  <Select value={row.choice} onValueChange={(choice) => updateRow(index, { choice })}>
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {row.proposal.candidates.map(candidate => (
+                        <SelectItem key={candidate.id} value={`restock:${candidate.id}`}>
+                          Restock {candidate.name}
+                          {candidate.quantity !== null && ` (${candidate.quantity} ${candidate.unit || 'units'})`}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="new">Add as new item</SelectItem>
+                      <SelectItem value="skip">Skip</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {rows.length > 0 && (
+            <Button onClick={handleApply} disabled={confirmed.length === 0 || applyReceipt.isPending || previewLines.isPending}>
+              {applyReceipt.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Update pantry ({confirmed.length})
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
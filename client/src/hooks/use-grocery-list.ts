@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  GroceryListResponse,
+  GroceryListItem,
+  GroceryListEntry,
+  AddGroceryItemRequest,
+  UpdateGroceryItemRequest,
+} from '@/lib/types';
+
+// Check-off state lives on the server, so poll while the list is open to pick up
+// changes made by other household members or the iOS app
+const GROCERY_LIST_REFRESH_MS = 15000;
+
+export function useGroceryList(mealPlanId?: number) {
+  return useQuery<GroceryListResponse>({
+    queryKey: ['grocery-list', mealPlanId],
+    queryFn: async () => {
+      const response = await fetch(`/api/grocery-lists/${mealPlanId}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch grocery list');
+      return response.json();
+    },
+    enabled: !!mealPlanId,
+    refetchInterval: GROCERY_LIST_REFRESH_MS,
+    refetchOnWindowFocus: true,
+  });
+}
+
+export function useAddGroceryItem(mealPlanId?: number) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ listId, item }: { listId: number; item: AddGroceryItemRequest }) => {
+      const response = await fetch(`/api/grocery-lists/${listId}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(item),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add item');
+      }
+      return response.json() as Promise<GroceryListItem>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['grocery-list', mealPlanId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
+
+export function useUpdateGroceryItem(mealPlanId?: number) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['grocery-list', mealPlanId];
+
+  return useMutation({
+    mutationFn: async ({ listId, itemId, data }: { listId: number; itemId: number; data: UpdateGroceryItemRequest }) => {
+      const response = await fetch(`/api/grocery-lists/${listId}/items/${itemId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update item');
+      }
+      return response.json() as Promise<GroceryListItem>;
+    },
+    // Apply check-offs immediately so the list feels instant while shopping
+    onMutate: async ({ itemId, data }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<GroceryListResponse>(queryKey);
+      if (previous) {
+        queryClient.setQueryData<GroceryListResponse>(queryKey, {
+          ...previous,
+          items: previous.items.map(item => item.id === itemId ? { ...item, ...data } as GroceryListEntry : item),
+        });
+      }
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+}
+
+export function useDeleteGroceryItem(mealPlanId?: number) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ listId, itemId }: { listId: number; itemId: number }) => {
+      const response = await fetch(`/api/grocery-lists/${listId}/items/${itemId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to remove item');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['grocery-list', mealPlanId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
@@ -0,0 +1,154 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import type { HouseholdResponse, HouseholdRole, HouseholdInvitation, PendingHouseholdInvitation } from '@/lib/types';
+
+async function householdRequest<T>(url: string, method: string, body?: unknown, fallbackError = 'Request failed'): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallbackError);
+  }
+  return response.json();
+}
+
+export function useHousehold() {
+  return useQuery<HouseholdResponse>({
+    queryKey: ['household'],
+    queryFn: async () => {
+      const response = await fetch('/api/household');
+      if (!response.ok) throw new Error('Failed to fetch household');
+      return response.json();
+    },
+  });
+}
+
+export function usePendingHouseholdInvitations() {
+  return useQuery<{ invitations: PendingHouseholdInvitation[] }>({
+    queryKey: ['household-invitations'],
+    queryFn: async () => {
+      const response = await fetch('/api/household/invitations/pending');
+      if (!response.ok) throw new Error('Failed to fetch invitations');
+      return response.json();
+    },
+  });
+}
+
+// Joining or leaving a household changes which pantry, meal plan and grocery list the user sees
+function useInvalidateSharedData() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['household'] });
+    queryClient.invalidateQueries({ queryKey: ['household-invitations'] });
+    queryClient.invalidateQueries({ queryKey: ['pantry'] });
+    queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
+  };
+}
+
+export function useCreateHousehold() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateSharedData();
+
+  return useMutation({
+    mutationFn: (name: string) =>
+      householdRequest('/api/household', 'POST', { name }, 'Failed to create household'),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Success', description: 'Household created!' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+export function useInviteHouseholdMember() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { email: string; role: Exclude<HouseholdRole, 'owner'> }) =>
+      householdRequest<HouseholdInvitation>('/api/household/invitations', 'POST', data, 'Failed to send invitation'),
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['household'] });
+      toast({ title: 'Invitation created', description: `${invitation.email} can now join your household.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+export function useRespondToHouseholdInvitation() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateSharedData();
+
+  return useMutation({
+    mutationFn: ({ token, accept }: { token: string; accept: boolean }) =>
+      householdRequest(
+        `/api/household/invitations/${token}/${accept ? 'accept' : 'decline'}`,
+        'POST',
+        undefined,
+        'Failed to respond to invitation'
+      ),
+    onSuccess: (_result, { accept }) => {
+      invalidate();
+      toast({ title: 'Success', description: accept ? 'You joined the household!' : 'Invitation declined.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+export function useRevokeHouseholdInvitation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) =>
+      householdRequest(`/api/household/invitations/${id}`, 'DELETE', undefined, 'Failed to revoke invitation'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['household'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+export function useUpdateHouseholdMemberRole() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: HouseholdRole }) =>
+      householdRequest(`/api/household/members/${userId}`, 'PATCH', { role }, 'Failed to update role'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['household'] });
+      toast({ title: 'Success', description: 'Member role updated.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+export function useRemoveHouseholdMember() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateSharedData();
+
+  return useMutation({
+    mutationFn: (userId: number) =>
+      householdRequest(`/api/household/members/${userId}`, 'DELETE', undefined, 'Failed to remove member'),
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+}
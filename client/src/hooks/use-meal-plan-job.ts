@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getMealPlanJob, retryMealPlanJobItem, streamMealPlanJob, type MealPlanJob, type MealPlanJobItem } from '@/lib/api';
+import type { Recipe } from '@db/schema';
+
+// Fold one slot's update into the job, keeping the counts and finished recipes in step
+function withItem(job: MealPlanJob, item: MealPlanJobItem, recipe: Recipe | null): MealPlanJob {
+  const items = job.items.map(existing => existing.task_id === item.task_id ? item : existing);
+  const recipes = recipe
+    ? [...job.recipes.filter(existing => existing.id !== recipe.id), recipe]
+    : job.recipes;
+  const completed = items.filter(existing => existing.status === 'complete').length;
+  const failed = items.filter(existing => existing.status === 'failed').length;
+
+  return {
+    ...job,
+    items,
+    recipes,
+    completed,
+    failed,
+    progress: items.length > 0 ? Math.round((completed + failed) / items.length * 100) : 0,
+  };
+}
+
+// Follow a meal plan job as it streams in. The job is null until the first snapshot arrives.
+export function useMealPlanJob(jobId: number | null) {
+  const [job, setJob] = useState<MealPlanJob | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    if (jobId === null) return;
+
+    return streamMealPlanJob(jobId, {
+      onSnapshot: setJob,
+      onItem: (item, recipe) => setJob(current => current && withItem(current, item, recipe)),
+      onImage: (_taskId, recipeId, imageUrl) => setJob(current => current && {
+        ...current,
+        recipes: current.recipes.map(recipe => recipe.id === recipeId ? { ...recipe, permanent_url: imageUrl } : recipe),
+      }),
+      onDone: setJob,
+      // Without a stream, settle for where the job is now
+      onError: () => {
+        getMealPlanJob(jobId).then(setJob).catch(error => console.error('Error fetching meal plan job:', error));
+      },
+    });
+  }, [jobId]);
+
+  const retry = useCallback(async (taskId: string) => {
+    if (jobId === null) return;
+    const item = await retryMealPlanJobItem(jobId, taskId);
+    setJob(current => current && withItem(current, item, null));
+  }, [jobId]);
+
+  // A retried slot reopens a finished job until its recipe is in
+  const isFinished = (job?.status === 'complete' || job?.status === 'failed')
+    && !job.items.some(item => item.status === 'pending');
+
+  return { job, isFinished, retry };
+}
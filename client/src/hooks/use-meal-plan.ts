@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+
+// Save the servings a meal plan cooks a recipe for. The server rebuilds the
+// plan's grocery list, so both the plan and the list are refetched.
+export function useUpdatePlannedServings(mealPlanId?: number) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ recipeId, servings }: { recipeId: number; servings: number }) => {
+      const response = await fetch(`/api/meal-plans/${mealPlanId}/recipes/${recipeId}/servings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ servings }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update servings');
+      }
+      return response.json() as Promise<{ meal_plan_id: number; recipe_id: number; servings: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
+      queryClient.invalidateQueries({ queryKey: ['grocery-list', mealPlanId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import type { NutritionSummary, NutritionTargets } from '@/lib/types';
+
+export function useNutritionSummary(enabled = true) {
+  return useQuery<NutritionSummary>({
+    queryKey: ['nutrition-summary'],
+    queryFn: async () => {
+      const response = await fetch('/api/nutrition/summary', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to load nutrition summary');
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+export function useUpdateNutritionTargets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (targets: NutritionTargets | null) => {
+      const response = await fetch('/api/user/nutrition-targets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ targets }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update nutrition targets');
+      }
+      return response.json() as Promise<{ targets: NutritionTargets | null }>;
+    },
+    onSuccess: ({ targets }) => {
+      queryClient.invalidateQueries({ queryKey: ['user'] });
+      queryClient.invalidateQueries({ queryKey: ['nutrition-summary'] });
+      toast({
+        title: 'Nutrition targets updated',
+        description: targets ? 'New meal plans will be built around your daily targets.' : 'Daily targets cleared.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
@@ -4,20 +4,35 @@ import type {
   PantryResponse, 
   AddPantryItemRequest, 
   UpdatePantryItemRequest,
+  MovePantryItemRequest,
+  BarcodeProduct,
+  DiscardPantryItemRequest,
   UsePantryItemRequest,
   UsePantryItemResponse,
   PantrySuggestionsResponse,
+  AddMissingIngredientsRequest,
+  AddMissingIngredientsResponse,
   AutocompleteResponse,
-  PantryAnalyticsResponse
+  PantryAnalyticsResponse,
+  WasteHistoryResponse,
+  CookedPreviewResponse,
+  ApplyCookedRequest,
+  UseSoonResponse,
+  ReceiptLine,
+  ReceiptMergeProposal,
+  ScanReceiptResponse,
+  ApplyReceiptRequest,
+  ApplyReceiptResponse
 } from '@/lib/types';
 
-export function usePantry(filters?: { category?: string; status?: string; sort?: string }) {
+export function usePantry(filters?: { category?: string; status?: string; location?: string; sort?: string }) {
   return useQuery<PantryResponse>({
-    queryKey: ['pantry', filters?.category, filters?.status, filters?.sort],
+    queryKey: ['pantry', filters?.category, filters?.status, filters?.location, filters?.sort],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (filters?.category && filters.category !== 'all') params.append('category', filters.category);
       if (filters?.status && filters.status !== 'all') params.append('status', filters.status);
+      if (filters?.location && filters.location !== 'all') params.append('location', filters.location);
       if (filters?.sort) params.append('sort', filters.sort);
       
       const response = await fetch(`/api/pantry?${params}`);
@@ -86,6 +101,99 @@ export function useUpdatePantryItem() {
   });
 }
 
+export function useMovePantryItem() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: MovePantryItemRequest }) => {
+      const response = await fetch(`/api/pantry/${id}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to move item');
+      }
+      return response.json();
+    },
+    onSuccess: (_result, { data }) => {
+      queryClient.invalidateQueries({ queryKey: ['pantry'] });
+      toast({ title: 'Item Moved', description: `Moved to the ${data.location}.` });
+    },
+    onError: (error: Error) => {
+      toast({ 
+        title: 'Error', 
+        description: error.message,
+        variant: 'destructive' 
+      });
+    },
+  });
+}
+
+export function useDiscardPantryItem() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: DiscardPantryItemRequest }) => {
+      const response = await fetch(`/api/pantry/${id}/discard`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to discard item');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pantry'] });
+      queryClient.invalidateQueries({ queryKey: ['pantry-analytics'] });
+      toast({ title: 'Item Discarded', description: 'Logged as waste.' });
+    },
+    onError: (error: Error) => {
+      toast({ 
+        title: 'Error', 
+        description: error.message,
+        variant: 'destructive' 
+      });
+    },
+  });
+}
+
+export function useBarcodeLookup() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (barcode: string) => {
+      const response = await fetch('/api/pantry/barcode', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barcode }),
+      });
+      if (response.status === 404) {
+        throw new Error("We don't know that product yet. Fill in the details and we'll remember it next time.");
+      }
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to look up barcode');
+      }
+      const data = await response.json();
+      return data.product as BarcodeProduct;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Barcode lookup',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
+
 export function useDeletePantryItem() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -155,6 +263,17 @@ export function useUsePantryItem() {
   });
 }
 
+export function useUseSoonQueue(withinDays = 7) {
+  return useQuery<UseSoonResponse>({
+    queryKey: ['pantry', 'use-soon', withinDays],
+    queryFn: async () => {
+      const response = await fetch(`/api/pantry/use-soon?days=${withinDays}`);
+      if (!response.ok) throw new Error('Failed to fetch use-soon items');
+      return response.json();
+    },
+  });
+}
+
 export function usePantrySuggestions(filters?: { prioritize?: string; meal_type?: string; limit?: number }) {
   return useQuery<PantrySuggestionsResponse>({
     queryKey: ['pantry-suggestions', filters],
@@ -168,7 +287,59 @@ export function usePantrySuggestions(filters?: { prioritize?: string; meal_type?
       if (!response.ok) throw new Error('Failed to fetch suggestions');
       return response.json();
     },
-    enabled: false, // Only run when explicitly called
+  });
+}
+
+export function useGeneratePantrySuggestions() {
+  return useMutation({
+    mutationFn: async (filters: { prioritize?: string; meal_type?: string; limit?: number }) => {
+      const response = await fetch('/api/pantry/suggestions/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(filters),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to generate suggestions');
+      }
+      return response.json() as Promise<PantrySuggestionsResponse>;
+    },
+  });
+}
+
+export function useAddMissingToGroceryList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: AddMissingIngredientsRequest) => {
+      const response = await fetch('/api/pantry/suggestions/add-missing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add to grocery list');
+      }
+      return response.json() as Promise<AddMissingIngredientsResponse>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['grocery-list', result.meal_plan_id] });
+      toast({
+        title: 'Added to Grocery List',
+        description: result.skipped > 0
+          ? `Added ${result.added.length} item${result.added.length === 1 ? '' : 's'}; ${result.skipped} already on the list.`
+          : `Added ${result.added.length} item${result.added.length === 1 ? '' : 's'}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ 
+        title: 'Error', 
+        description: error.message,
+        variant: 'destructive' 
+      });
+    },
   });
 }
 
@@ -184,11 +355,11 @@ export function usePantryAutocomplete(query: string) {
   });
 }
 
-export function usePantryAnalytics() {
+export function usePantryAnalytics(period: PantryAnalyticsResponse['period'] = 'month') {
   return useQuery<PantryAnalyticsResponse>({
-    queryKey: ['pantry-analytics'],
+    queryKey: ['pantry-analytics', period],
     queryFn: async () => {
-      const response = await fetch('/api/pantry/analytics');
+      const response = await fetch(`/api/pantry/analytics?period=${period}`);
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Failed to fetch analytics');
@@ -198,35 +369,145 @@ export function usePantryAnalytics() {
   });
 }
 
-export function useBulkAddPantryItems() {
+export function useWasteHistory(limit = 20) {
+  return useQuery<WasteHistoryResponse>({
+    queryKey: ['pantry-analytics', 'waste-history', limit],
+    queryFn: async () => {
+      const response = await fetch(`/api/pantry/analytics/waste-history?limit=${limit}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch waste history');
+      }
+      return response.json();
+    },
+  });
+}
+
+export function useScanReceipt() {
+  return useMutation({
+    mutationFn: async ({ image, mimeType }: { image: string; mimeType: string }) => {
+      const response = await fetch('/api/pantry/scan-receipt', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ image, mimeType }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to scan receipt');
+      }
+      return response.json() as Promise<ScanReceiptResponse>;
+    },
+  });
+}
+
+// Match edited receipt lines to the pantry again, e.g. after a name is corrected
+export function useReceiptPreview() {
+  return useMutation({
+    mutationFn: async (items: ReceiptLine[]) => {
+      const response = await fetch('/api/pantry/receipt/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ items }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to match receipt items');
+      }
+      const data = await response.json() as { proposals: ReceiptMergeProposal[] };
+      return data.proposals;
+    },
+  });
+}
+
+export function useApplyReceipt() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ items, source }: { items: AddPantryItemRequest[]; source?: string }) => {
-      const response = await fetch('/api/pantry/bulk', {
+    mutationFn: async (data: ApplyReceiptRequest) => {
+      const response = await fetch('/api/pantry/receipt/apply', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items, source }),
+        credentials: 'include',
+        body: JSON.stringify(data),
       });
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to add items');
+        throw new Error(error.error || 'Failed to update pantry from receipt');
       }
+      return response.json() as Promise<ApplyReceiptResponse>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['pantry'] });
+      queryClient.invalidateQueries({ queryKey: ['grocery-list'] });
+      toast({
+        title: 'Pantry Updated',
+        description: `Restocked ${result.restocked.length} and added ${result.added.length} item${result.added.length === 1 ? '' : 's'}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
+
+export function useCookedPreview(recipeId: number, servings: number | null | undefined, enabled: boolean) {
+  return useQuery<CookedPreviewResponse>({
+    queryKey: ['cooked-preview', recipeId, servings],
+    queryFn: async () => {
+      const response = await fetch(`/api/recipes/${recipeId}/cooked/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ servings }),
+      });
+      if (!response.ok) throw new Error('Failed to load pantry matches');
       return response.json();
     },
-    onSuccess: (data) => {
+    enabled,
+    staleTime: 0,
+  });
+}
+
+export function useApplyCookedDeductions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ recipeId, data }: { recipeId: number; data: ApplyCookedRequest }) => {
+      const response = await fetch(`/api/recipes/${recipeId}/cooked`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update pantry');
+      }
+      return response.json() as Promise<{ success: boolean; updatedItems: unknown[] }>;
+    },
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['pantry'] });
-      toast({ 
-        title: 'Success', 
-        description: `Added ${data.count} items to pantry!` 
+      queryClient.invalidateQueries({ queryKey: ['grocery-list'] });
+      toast({
+        title: 'Pantry Updated',
+        description: result.updatedItems.length > 0
+          ? `Deducted ${result.updatedItems.length} ingredient${result.updatedItems.length === 1 ? '' : 's'} from your pantry.`
+          : 'Nothing was deducted from your pantry.'
       });
     },
     onError: (error: Error) => {
-      toast({ 
-        title: 'Error', 
+      toast({
+        title: 'Error',
         description: error.message,
-        variant: 'destructive' 
+        variant: 'destructive'
       });
     },
   });
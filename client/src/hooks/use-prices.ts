@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import type { MealPlanCostResponse, PriceHistoryResponse } from '@/lib/types';
+
+export function useMealPlanCost(mealPlanId?: number) {
+  return useQuery<MealPlanCostResponse>({
+    queryKey: ['meal-plan-cost', mealPlanId],
+    queryFn: async () => {
+      const response = await fetch(`/api/meal-plans/${mealPlanId}/cost`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to estimate meal plan cost');
+      return response.json();
+    },
+    enabled: !!mealPlanId,
+  });
+}
+
+export function usePriceHistory(ingredient: string) {
+  return useQuery<PriceHistoryResponse>({
+    queryKey: ['prices', ingredient],
+    queryFn: async () => {
+      const response = await fetch(`/api/prices?ingredient=${encodeURIComponent(ingredient)}`);
+      if (!response.ok) throw new Error('Failed to fetch price history');
+      return response.json();
+    },
+    enabled: ingredient.trim().length > 0,
+  });
+}
+
+export function useUpdateWeeklyBudget() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (weeklyBudget: number | null) => {
+      const response = await fetch('/api/user/budget', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ weeklyBudget }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update budget');
+      }
+      return response.json() as Promise<{ weeklyBudget: number | null }>;
+    },
+    onSuccess: ({ weeklyBudget }) => {
+      queryClient.invalidateQueries({ queryKey: ['user'] });
+      queryClient.invalidateQueries({ queryKey: ['meal-plan-cost'] });
+      toast({
+        title: 'Budget updated',
+        description: weeklyBudget ? `New meal plans will aim for $${weeklyBudget.toFixed(2)} a week.` : 'Weekly budget cleared.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import type { Recipe, GroceryList } from "@db/schema";
+import type { Recipe, GroceryList, UserRecipeInput, RecipeImport, RecipeExportFormat, PantryCategory } from "@db/schema";
 
 const API_BASE = "/api";
 
@@ -46,11 +46,43 @@ function transformRecipeData(recipe: any): Recipe {
   };
 }
 
-export async function generateMealPlan(
+export interface MealPlanJobItem {
+  task_id: string;
+  day: number;
+  meal: 'breakfast' | 'lunch' | 'dinner';
+  cuisine: string | null;
+  title: string | null; // the dish picked in the weekly planner
+  status: 'pending' | 'complete' | 'failed';
+  recipe: { id: number; name: string } | null;
+  error: string | null;
+}
+
+export interface MealPlanJob {
+  id: number;
+  status: 'queued' | 'running' | 'complete' | 'failed';
+  source: 'meal_plan' | 'weekly_planner';
+  days: number;
+  total: number;
+  completed: number;
+  failed: number;
+  progress: number; // 0-100
+  meal_plan_id: number | null;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+  items: MealPlanJobItem[];
+  recipes: Recipe[]; // finished so far
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_MAX_ERRORS = 5; // consecutive failed polls before giving up
+
+// Queue meal plan generation on the server; returns the job with its initial progress
+export async function startMealPlanJob(
   preferences: MealPlanPreferences,
   days: number,
   chefPreferences?: ChefPreferences
-): Promise<GenerateMealPlanResponse> {
+): Promise<MealPlanJob> {
   const cleanPreferences = {
     dietary: Array.isArray(preferences.dietary) ? preferences.dietary.filter(Boolean) : [],
     allergies: Array.isArray(preferences.allergies) ? preferences.allergies.filter(Boolean) : [],
@@ -61,7 +93,7 @@ export async function generateMealPlan(
 
   console.log('Client: Sending preferences to server:', JSON.stringify(cleanPreferences, null, 2));
 
-  const response = await fetch(`${API_BASE}/generate-meal-plan`, {
+  const response = await fetch(`${API_BASE}/meal-plan-jobs`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -81,12 +113,122 @@ export async function generateMealPlan(
     throw new Error(errorData.message || "Failed to generate meal plan");
   }
 
-  const data = await response.json();
-  if (!data.recipes || !Array.isArray(data.recipes)) {
-    throw new Error('Invalid response format from server');
+  return response.json();
+}
+
+export async function getMealPlanJob(jobId: number): Promise<MealPlanJob> {
+  const response = await fetch(`${API_BASE}/meal-plan-jobs/${jobId}`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch meal plan progress");
+  }
+  return response.json();
+}
+
+// The meal plan still generating for the user, if any
+export async function getActiveMealPlanJob(): Promise<MealPlanJob | null> {
+  const response = await fetch(`${API_BASE}/meal-plan-jobs/active`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch meal plan progress");
   }
+  return response.json();
+}
 
-  return data;
+export interface MealPlanJobStreamHandlers {
+  onSnapshot: (job: MealPlanJob) => void;
+  onItem: (item: MealPlanJobItem, recipe: Recipe | null) => void;
+  onImage: (taskId: string, recipeId: number, imageUrl: string) => void;
+  onDone: (job: MealPlanJob) => void;
+  onError?: () => void; // the stream closed and won't reconnect
+}
+
+// Follow a job over Server-Sent Events. Each recipe's text arrives as soon as it's written and its
+// image once it's stored; dropped connections reconnect and start from a fresh snapshot.
+// Returns a function that closes the stream.
+export function streamMealPlanJob(jobId: number, handlers: MealPlanJobStreamHandlers): () => void {
+  const source = new EventSource(`${API_BASE}/meal-plan-jobs/${jobId}/events`, { withCredentials: true });
+  const read = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+  source.addEventListener("snapshot", event => handlers.onSnapshot(read(event)));
+  source.addEventListener("item", event => {
+    const { item, recipe } = read(event);
+    handlers.onItem(item, recipe);
+  });
+  source.addEventListener("image", event => {
+    const { task_id, recipe_id, image_url } = read(event);
+    handlers.onImage(task_id, recipe_id, image_url);
+  });
+  source.addEventListener("done", event => handlers.onDone(read(event).job));
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) handlers.onError?.();
+  };
+
+  return () => source.close();
+}
+
+// Generate a failed slot again; its progress arrives on the job's stream
+export async function retryMealPlanJobItem(jobId: number, taskId: string): Promise<MealPlanJobItem> {
+  const response = await fetch(`${API_BASE}/meal-plan-jobs/${jobId}/items/${encodeURIComponent(taskId)}/retry`, {
+    method: "POST",
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to retry recipe");
+  }
+  return response.json();
+}
+
+// Poll a job until it finishes, reporting progress along the way. A few failed polls in a row
+// are retried, since the job keeps running on the server regardless.
+export async function waitForMealPlanJob(
+  job: MealPlanJob,
+  onProgress?: (job: MealPlanJob) => void
+): Promise<GenerateMealPlanResponse> {
+  let current = job;
+  let errors = 0;
+  onProgress?.(current);
+
+  while (current.status === 'queued' || current.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    try {
+      current = await getMealPlanJob(current.id);
+      errors = 0;
+      onProgress?.(current);
+    } catch (error) {
+      if (++errors >= JOB_POLL_MAX_ERRORS) throw error;
+    }
+  }
+
+  if (current.status === 'failed') {
+    throw new Error(current.error || "Failed to generate meal plan");
+  }
+
+  const missingMeals = current.items
+    .filter(item => item.status === 'failed')
+    .map(item => ({ day: item.day, meal: item.meal }));
+
+  return {
+    recipes: current.recipes,
+    status: current.completed === current.total ? 'success' : 'partial',
+    missingMeals: missingMeals.length > 0 ? missingMeals : undefined,
+    message: current.completed === current.total
+      ? 'Successfully generated all recipes'
+      : `Generated ${current.completed} out of ${current.total} recipes`,
+  };
+}
+
+export async function generateMealPlan(
+  preferences: MealPlanPreferences,
+  days: number,
+  chefPreferences?: ChefPreferences,
+  onProgress?: (job: MealPlanJob) => void
+): Promise<GenerateMealPlanResponse> {
+  const job = await startMealPlanJob(preferences, days, chefPreferences);
+  return waitForMealPlanJob(job, onProgress);
 }
 
 export async function fetchRecipes(): Promise<Recipe[]> {
@@ -128,6 +270,181 @@ export async function getUserFavorites(): Promise<Recipe[]> {
   return Array.isArray(data) ? data.map(transformRecipeData) : [];
 }
 
+export async function getCookbook(): Promise<Recipe[]> {
+  const response = await fetch(`${API_BASE}/cookbook`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch cookbook");
+  }
+  const data = await response.json();
+  return Array.isArray(data) ? data.map(transformRecipeData) : [];
+}
+
+// Copy a generated recipe into the user's cookbook so it outlives the temporary recipe
+export async function saveToCookbook(recipeId: number): Promise<{ recipe: Recipe; created: boolean }> {
+  const response = await fetch(`${API_BASE}/cookbook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ recipe_id: recipeId }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to save recipe to cookbook");
+  }
+  const data = await response.json();
+  return { recipe: transformRecipeData(data.recipe), created: data.created };
+}
+
+export async function removeFromCookbook(recipeId: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/cookbook/${recipeId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to remove recipe from cookbook");
+  }
+}
+
+export async function getMyRecipes(): Promise<Recipe[]> {
+  const response = await fetch(`${API_BASE}/my-recipes`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch your recipes");
+  }
+  const data = await response.json();
+  return Array.isArray(data) ? data.map(transformRecipeData) : [];
+}
+
+async function sendRecipe(url: string, method: string, recipe: UserRecipeInput | RecipeImport, failure: string): Promise<Recipe> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(recipe),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || failure);
+  }
+  return transformRecipeData(await response.json());
+}
+
+export async function createRecipe(recipe: UserRecipeInput): Promise<Recipe> {
+  return sendRecipe(`${API_BASE}/my-recipes`, "POST", recipe, "Failed to create recipe");
+}
+
+export async function updateRecipe(recipeId: number, recipe: UserRecipeInput): Promise<Recipe> {
+  return sendRecipe(`${API_BASE}/my-recipes/${recipeId}`, "PUT", recipe, "Failed to update recipe");
+}
+
+// Save edits to a recipe the user didn't write as their own copy, leaving the original alone
+export async function forkRecipe(recipeId: number, recipe: UserRecipeInput): Promise<Recipe> {
+  return sendRecipe(`${API_BASE}/recipes/${recipeId}/fork`, "POST", recipe, "Failed to save your version of this recipe");
+}
+
+export async function deleteRecipe(recipeId: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/my-recipes/${recipeId}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to delete recipe");
+  }
+}
+
+// image is a data URL, e.g. from FileReader.readAsDataURL
+export async function uploadRecipePhoto(recipeId: number, image: string): Promise<Recipe> {
+  const mimeType = image.match(/^data:([^;]+);/)?.[1] ?? "image/jpeg";
+  const response = await fetch(`${API_BASE}/my-recipes/${recipeId}/photo`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify({ image, mimeType }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to upload photo");
+  }
+  return transformRecipeData(await response.json());
+}
+
+// Bring in a recipe from elsewhere as one of the user's own. Pass exactly one source.
+export async function importRecipe(source: RecipeImport): Promise<Recipe> {
+  return sendRecipe(`${API_BASE}/my-recipes/import`, "POST", source, "Failed to import recipe");
+}
+
+// A download link for a recipe, meal plan or meal prep plan in one of the export formats
+export function exportUrl(kind: "recipes" | "meal-plans" | "meal-prep", id: number, format: RecipeExportFormat): string {
+  return `${API_BASE}/${kind}/${id}/export?format=${format}`;
+}
+
+export interface MealPlanPrintSheet {
+  title: string;
+  start_date: string;
+  end_date: string;
+  days: Array<{
+    date: string;
+    meals: Record<"breakfast" | "lunch" | "dinner", Array<{ recipe_id: number; name: string; servings: number | null }>>;
+  }>;
+  grocery_sections: Array<{
+    category: PantryCategory;
+    items: Array<{ name: string; quantity: string; checked: boolean }>;
+  }>;
+}
+
+// The week's meals and grocery list laid out for printing
+export async function getMealPlanPrintSheet(mealPlanId: number): Promise<MealPlanPrintSheet> {
+  const response = await fetch(`${API_BASE}/meal-plans/${mealPlanId}/print`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch print sheet");
+  }
+  return response.json();
+}
+
+export interface MealPrepPrintSheet {
+  title: string;
+  prep_day: string;
+  total_servings: number;
+  total_prep_minutes: number;
+  timeline: Array<{
+    name: string;
+    component_type: string;
+    start_minute: number; // after starting prep
+    prep_time_minutes: number;
+    storage_instructions: string | null;
+  }>;
+  assemblies: Array<{ name: string; components: string[]; sauce_suggestion: string | null }>;
+  reheat_tips: string | null;
+}
+
+// A meal prep plan's prep-day timeline and assembly table laid out for printing
+export async function getMealPrepPrintSheet(mealPrepPlanId: number): Promise<MealPrepPrintSheet> {
+  const response = await fetch(`${API_BASE}/meal-prep/${mealPrepPlanId}/print`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch print sheet");
+  }
+  return response.json();
+}
+
+// Either sheet as a server-rendered PDF
+export function printPdfUrl(kind: "meal-plans" | "meal-prep", id: number): string {
+  return `${API_BASE}/${kind}/${id}/print?format=pdf`;
+}
+
 export interface MealPlan {
   id: number;
   user_id: number;
@@ -502,5 +819,39 @@ export async function getFeedbackStats(): Promise<{
     throw new Error("Failed to fetch feedback statistics");
   }
 
+  return response.json();
+}
+
+export interface AllergenRejection {
+  id: number;
+  user_id: number;
+  user_email: string;
+  source: string;
+  recipe_name: string;
+  allergies: string[];
+  violations: Array<{ allergy: string; ingredient: string }>;
+  action: "regenerated" | "rejected";
+  created_at: string;
+}
+
+export interface AllergenRejectionsBySource {
+  source: string;
+  regenerated: number;
+  rejected: number;
+}
+
+export async function getAllergenRejections(): Promise<{
+  rejections: AllergenRejection[];
+  by_source: AllergenRejectionsBySource[];
+  generated_at: string;
+}> {
+  const response = await fetch(`${API_BASE}/admin/allergen-rejections`, {
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch allergen rejections");
+  }
+
   return response.json();
 }
\ No newline at end of file
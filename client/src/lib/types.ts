@@ -24,8 +24,13 @@ export const RecipeSchema = z.object({
     calories: z.number(),
     protein: z.number(),
     carbs: z.number(),
-    fat: z.number()
+    fat: z.number(),
+    saturated_fat: z.number().optional(),
+    fiber: z.number().optional(),
+    sugar: z.number().optional(),
+    sodium: z.number().optional() // mg
   }).nullable().default({ calories: 0, protein: 0, carbs: 0, fat: 0 }),
+  allergens: z.array(z.string()).nullable().optional(),
   complexity: z.union([z.literal(1), z.literal(2), z.literal(3)]),
   userId: z.number().optional(),
   favorited: z.boolean().default(false),
@@ -34,7 +39,8 @@ export const RecipeSchema = z.object({
   expiresAt: z.coerce.date().optional(),
   meal: z.string().nullable(),
   day: z.coerce.date().nullable(),
-  recipe_id: z.number().optional()
+  recipe_id: z.number().optional(),
+  planned_servings: z.number().nullable().optional()
 }).transform((data) => ({
   ...data,
   imageUrl: data.permanent_url || data.image_url || data.imageUrl,
@@ -97,6 +103,14 @@ export const QuantityStatusEnum = z.enum([
   "full", "half", "running_low", "empty"
 ]);
 
+export const PantryLocationEnum = z.enum([
+  "pantry", "fridge", "freezer"
+]);
+
+export const DiscardReasonEnum = z.enum([
+  "spoiled", "expired", "didnt_like", "other"
+]);
+
 export const PantryItemSchema = z.object({
   id: z.number(),
   user_id: z.number(),
@@ -105,15 +119,23 @@ export const PantryItemSchema = z.object({
   quantity: z.number().nullable(),
   unit: z.string().nullable(),
   quantity_status: QuantityStatusEnum.default("full"),
+  location: PantryLocationEnum.nullable().optional(),
   added_date: z.coerce.date(),
   last_used_date: z.coerce.date().nullable(),
   estimated_shelf_life_days: z.number().nullable(),
+  best_before_date: z.coerce.date().nullable().optional(),
   user_notes: z.string().nullable(),
   barcode: z.string().nullable(),
   image_url: z.string().nullable(),
   is_staple: z.boolean().default(false),
+  price: z.number().nullable().optional(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
+  // Computed by the server from the best-before date or shelf life and storage
+  expires_at: z.coerce.date().nullable().optional(),
+  days_remaining: z.number().nullable().optional(),
+  expiry_source: z.enum(["best_before", "estimated"]).nullable().optional(),
+  storage_location: PantryLocationEnum.optional(),
 });
 
 export const IngredientDefaultSchema = z.object({
@@ -129,9 +151,13 @@ export const IngredientDefaultSchema = z.object({
 export const PantryUsageLogSchema = z.object({
   id: z.number(),
   user_id: z.number(),
-  pantry_item_id: z.number(),
-  action: z.enum(["added", "used", "updated", "removed"]),
+  pantry_item_id: z.number().nullable(), // null once the item has been deleted
+  item_name: z.string().nullable(),
+  category: z.string().nullable(),
+  action: z.enum(["added", "used", "updated", "removed", "moved", "discarded"]),
   quantity_used: z.number().nullable(),
+  reason: DiscardReasonEnum.nullable(),
+  cost: z.number().nullable(),
   recipe_id: z.number().nullable(),
   notes: z.string().nullable(),
   created_at: z.coerce.date(),
@@ -143,9 +169,14 @@ export const AddPantryItemRequestSchema = z.object({
   category: PantryCategoryEnum.optional(),
   quantity: z.number().positive().optional(),
   unit: z.string().optional(),
+  location: PantryLocationEnum.optional(), // defaults from the category when omitted
   estimatedShelfLifeDays: z.number().positive().optional(),
+  bestBeforeDate: z.string().optional(), // ISO date string
   notes: z.string().optional(),
   isStaple: z.boolean().default(false),
+  price: z.number().positive().optional(), // what was paid, recorded in the ingredient's price history
+  store: z.string().optional(),
+  barcode: z.string().optional(), // UPC/EAN, so later scans of the same code fill in this entry
 });
 
 export const UpdatePantryItemRequestSchema = z.object({
@@ -153,10 +184,38 @@ export const UpdatePantryItemRequestSchema = z.object({
   quantityStatus: QuantityStatusEnum.optional(),
   notes: z.string().optional(),
   lastUsedDate: z.string().optional(), // ISO date string
+  bestBeforeDate: z.string().nullable().optional(), // ISO date string, null clears it
+  location: PantryLocationEnum.optional(),
+  price: z.number().positive().nullable().optional(), // null clears it
+});
+
+export const DiscardPantryItemRequestSchema = z.object({
+  reason: DiscardReasonEnum,
+  quantity: z.number().positive().optional(), // defaults to everything left
+  cost: z.number().nonnegative().nullable().optional(),
+  notes: z.string().optional(),
+});
+
+export const MovePantryItemRequestSchema = z.object({
+  location: PantryLocationEnum,
+});
+
+// A barcode resolved from the household's earlier entries, the product catalog or the lookup provider
+export const BarcodeProductSchema = z.object({
+  barcode: z.string(),
+  source: z.enum(["history", "catalog", "provider"]),
+  name: z.string(),
+  brand: z.string().nullable(),
+  category: PantryCategoryEnum,
+  quantity: z.number().nullable(),
+  unit: z.string().nullable(),
+  shelfLifeDays: z.number().nullable(),
+  location: PantryLocationEnum,
 });
 
 export const UsePantryItemRequestSchema = z.object({
   quantityUsed: z.number().positive().optional(),
+  unit: z.string().optional(), // converted to the item's unit when it differs
   recipeId: z.number().optional(),
   notes: z.string().optional(),
   useAll: z.boolean().default(false),
@@ -173,15 +232,48 @@ export const UsePantryItemResponseSchema = z.object({
 export const PantryResponseSchema = z.object({
   items: z.array(PantryItemSchema),
   categories: z.array(z.string()),
+  locations: z.array(z.object({
+    location: PantryLocationEnum,
+    count: z.number(),
+  })).optional(),
   totalItems: z.number(),
 });
 
+export const MissingIngredientSchema = z.object({
+  name: z.string(),
+  amount: z.number().nullable(),
+  unit: z.string().nullable(),
+});
+
+// A saved or generated recipe scored against the household pantry
+export const PantrySuggestionSchema = RecipeSchema.and(z.object({
+  match_score: z.number(), // 0-100, share of the ingredients already on hand
+  pantry_items_used: z.array(z.object({
+    ingredient_name: z.string(),
+    pantry_item_id: z.number(),
+    pantry_item_name: z.string(),
+    days_remaining: z.number().nullable(),
+    expiring: z.boolean(),
+  })),
+  missing_ingredients: z.array(MissingIngredientSchema),
+}));
+
 export const PantrySuggestionsResponseSchema = z.object({
-  recipes: z.array(RecipeSchema),
+  recipes: z.array(PantrySuggestionSchema),
   usableIngredients: z.array(z.string()),
   missingIngredients: z.array(z.string()),
   priorityItems: z.array(PantryItemSchema),
-  aiSuggestion: z.string().optional(),
+});
+
+export const AddMissingIngredientsRequestSchema = z.object({
+  items: z.array(MissingIngredientSchema),
+});
+
+export const AddMissingIngredientsResponseSchema = z.object({
+  grocery_list_id: z.number(),
+  meal_plan_id: z.number(),
+  added: z.array(z.object({ id: z.number(), name: z.string() }).passthrough()),
+  skipped: z.number(),
 });
 
 export const AutocompleteResponseSchema = z.object({
@@ -193,6 +285,12 @@ export const AutocompleteResponseSchema = z.object({
   })),
 });
 
+const WasteBreakdownSchema = z.object({
+  name: z.string(),
+  count: z.number(),
+  cost: z.number(),
+});
+
 export const PantryAnalyticsResponseSchema = z.object({
   totalItems: z.number(),
   categoriesBreakdown: z.array(z.object({
@@ -200,23 +298,383 @@ export const PantryAnalyticsResponseSchema = z.object({
     count: z.number(),
   })),
   useSoonItems: z.array(PantryItemSchema),
+  period: z.enum(["week", "month", "quarter", "year"]),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  summary: z.object({
+    totalItemsAdded: z.number(),
+    totalItemsUsed: z.number(),
+    totalItemsDiscarded: z.number(),
+    wasteRate: z.number(),
+    wasteReductionRate: z.number(),
+    moneySaved: z.number(),
+    moneyLost: z.number(),
+    costEstimated: z.boolean(), // some items had no price on record and were valued by category
+  }),
+  waste: z.object({
+    byCategory: z.array(WasteBreakdownSchema),
+    byReason: z.record(DiscardReasonEnum, z.number()),
+    mostWastedItems: z.array(WasteBreakdownSchema),
+    mostWastedCategory: z.string().nullable(),
+  }),
+  trends: z.object({
+    monthly: z.array(z.object({
+      month: z.string(), // YYYY-MM
+      used: z.number(),
+      discarded: z.number(),
+      wasteRate: z.number(),
+      moneySaved: z.number(),
+      moneyLost: z.number(),
+      costEstimated: z.boolean(),
+    })),
+  }),
   wasteReduction: z.object({
     itemsUsedThisMonth: z.number(),
     estimatedWastePrevented: z.string(),
   }),
 });
 
+export const WasteHistoryResponseSchema = z.object({
+  wastedItems: z.array(PantryUsageLogSchema.pick({
+    id: true, pantry_item_id: true, item_name: true, category: true,
+    quantity_used: true, reason: true, notes: true, created_at: true,
+  }).extend({
+    cost: z.number(),
+    cost_estimated: z.boolean(), // no price on record, so it's a category estimate
+  })),
+  totalWasteValue: z.number(),
+  totalItemsWasted: z.number(),
+});
+
+export const UseSoonResponseSchema = z.object({
+  items: z.array(PantryItemSchema),
+  withinDays: z.number(),
+});
+
+export const CookDeductionSchema = z.object({
+  ingredient_name: z.string(),
+  amount: z.number().nullable(),
+  unit: z.string().nullable(),
+  pantry_item: PantryItemSchema.pick({ id: true, name: true, quantity: true, unit: true, is_staple: true }).nullable(),
+  quantity_used: z.number().nullable(),
+  selected: z.boolean(),
+});
+
+export const CookedPreviewResponseSchema = z.object({
+  recipe_id: z.number(),
+  recipe_name: z.string(),
+  servings: z.number().nullable(),
+  deductions: z.array(CookDeductionSchema),
+});
+
+export const ApplyCookedRequestSchema = z.object({
+  deductions: z.array(z.object({
+    pantryItemId: z.number(),
+    quantityUsed: z.number().positive(),
+  })),
+});
+
+export const ReceiptLineSchema = z.object({
+  name: z.string(),
+  category: z.string().nullable(),
+  quantity: z.number().nullable(),
+  unit: z.string().nullable(),
+  estimatedShelfLifeDays: z.number().nullable(),
+  price: z.number().nullable(),
+});
+
+const ReceiptPantryMatchSchema = PantryItemSchema.pick({ id: true, name: true, quantity: true, unit: true, quantity_status: true, location: true });
+
+export const ReceiptMergeProposalSchema = z.object({
+  scanned: ReceiptLineSchema,
+  action: z.enum(['restock', 'new']),
+  pantry_item: ReceiptPantryMatchSchema.nullable(),
+  candidates: z.array(ReceiptPantryMatchSchema), // every pantry item with the same name or alias
+  quantity_after: z.number().nullable(),
+});
+
+export const ScanReceiptResponseSchema = z.object({
+  items: z.array(ReceiptLineSchema),
+  store: z.string().nullable().optional(),
+  proposals: z.array(ReceiptMergeProposalSchema),
+  itemCount: z.number(),
+});
+
+export const ApplyReceiptRequestSchema = z.object({
+  lines: z.array(ReceiptLineSchema.extend({
+    action: z.enum(['restock', 'new']),
+    pantryItemId: z.number().nullable().optional(),
+  })),
+  source: z.string().optional(),
+  store: z.string().nullable().optional(),
+});
+
+export const ApplyReceiptResponseSchema = z.object({
+  restocked: z.array(PantryItemSchema),
+  added: z.array(PantryItemSchema),
+  count: z.number(),
+});
+
 // Export types
 export type PantryCategory = z.infer<typeof PantryCategoryEnum>;
 export type QuantityStatus = z.infer<typeof QuantityStatusEnum>;
+export type DiscardReason = z.infer<typeof DiscardReasonEnum>;
+export type PantryLocation = z.infer<typeof PantryLocationEnum>;
 export type PantryItem = z.infer<typeof PantryItemSchema>;
 export type IngredientDefault = z.infer<typeof IngredientDefaultSchema>;
 export type PantryUsageLog = z.infer<typeof PantryUsageLogSchema>;
 export type AddPantryItemRequest = z.infer<typeof AddPantryItemRequestSchema>;
 export type UpdatePantryItemRequest = z.infer<typeof UpdatePantryItemRequestSchema>;
+export type DiscardPantryItemRequest = z.infer<typeof DiscardPantryItemRequestSchema>;
+export type MovePantryItemRequest = z.infer<typeof MovePantryItemRequestSchema>;
+export type BarcodeProduct = z.infer<typeof BarcodeProductSchema>;
 export type UsePantryItemRequest = z.infer<typeof UsePantryItemRequestSchema>;
 export type UsePantryItemResponse = z.infer<typeof UsePantryItemResponseSchema>;
 export type PantryResponse = z.infer<typeof PantryResponseSchema>;
+export type PantrySuggestion = z.infer<typeof PantrySuggestionSchema>;
 export type PantrySuggestionsResponse = z.infer<typeof PantrySuggestionsResponseSchema>;
+export type MissingIngredient = z.infer<typeof MissingIngredientSchema>;
+export type AddMissingIngredientsRequest = z.infer<typeof AddMissingIngredientsRequestSchema>;
+export type AddMissingIngredientsResponse = z.infer<typeof AddMissingIngredientsResponseSchema>;
 export type AutocompleteResponse = z.infer<typeof AutocompleteResponseSchema>;
-export type PantryAnalyticsResponse = z.infer<typeof PantryAnalyticsResponseSchema>;
\ No newline at end of file
+export type PantryAnalyticsResponse = z.infer<typeof PantryAnalyticsResponseSchema>;
+export type WasteHistoryResponse = z.infer<typeof WasteHistoryResponseSchema>;
+export type UseSoonResponse = z.infer<typeof UseSoonResponseSchema>;
+export type CookDeduction = z.infer<typeof CookDeductionSchema>;
+export type CookedPreviewResponse = z.infer<typeof CookedPreviewResponseSchema>;
+export type ApplyCookedRequest = z.infer<typeof ApplyCookedRequestSchema>;
+export type ReceiptLine = z.infer<typeof ReceiptLineSchema>;
+export type ReceiptMergeProposal = z.infer<typeof ReceiptMergeProposalSchema>;
+export type ScanReceiptResponse = z.infer<typeof ScanReceiptResponseSchema>;
+export type ApplyReceiptRequest = z.infer<typeof ApplyReceiptRequestSchema>;
+export type ApplyReceiptResponse = z.infer<typeof ApplyReceiptResponseSchema>;
+
+// ============================================================================
+// HOUSEHOLD TYPES
+// ============================================================================
+
+export const HouseholdRoleEnum = z.enum(["owner", "editor", "viewer"]);
+
+export const HouseholdMemberSchema = z.object({
+  user_id: z.number(),
+  role: HouseholdRoleEnum,
+  joined_at: z.coerce.date(),
+  name: z.string().nullable(),
+  email: z.string(),
+});
+
+export const HouseholdInvitationSchema = z.object({
+  id: z.number(),
+  household_id: z.number(),
+  email: z.string(),
+  role: HouseholdRoleEnum,
+  token: z.string(),
+  status: z.enum(["pending", "accepted", "declined", "revoked"]),
+  created_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+});
+
+export const HouseholdResponseSchema = z.object({
+  household: z.object({
+    id: z.number(),
+    name: z.string(),
+    created_by: z.number(),
+    created_at: z.coerce.date(),
+  }).nullable(),
+  role: HouseholdRoleEnum.nullable(),
+  members: z.array(HouseholdMemberSchema),
+  invitations: z.array(HouseholdInvitationSchema),
+});
+
+export const PendingHouseholdInvitationSchema = z.object({
+  id: z.number(),
+  token: z.string(),
+  role: HouseholdRoleEnum,
+  household_name: z.string(),
+  created_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+});
+
+export type HouseholdRole = z.infer<typeof HouseholdRoleEnum>;
+export type HouseholdMember = z.infer<typeof HouseholdMemberSchema>;
+export type HouseholdInvitation = z.infer<typeof HouseholdInvitationSchema>;
+export type HouseholdResponse = z.infer<typeof HouseholdResponseSchema>;
+export type PendingHouseholdInvitation = z.infer<typeof PendingHouseholdInvitationSchema>;
+
+// ============================================================================
+// GROCERY LIST TYPES
+// ============================================================================
+
+export const GroceryListItemSchema = z.object({
+  id: z.number(),
+  grocery_list_id: z.number(),
+  name: z.string(),
+  amount: z.number().nullable(),
+  unit: z.string().nullable(),
+  is_checked: z.boolean(),
+  is_organic: z.boolean(),
+  is_manual: z.boolean(),
+  checked_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+// Items returned with the list carry have / need / buy figures from the pantry
+export const GroceryListEntrySchema = GroceryListItemSchema.extend({
+  have_amount: z.number().nullable(),
+  buy_amount: z.number().nullable(),
+  pantry_status: z.enum(["have", "partial", "buy"]),
+});
+
+export const GroceryListResponseSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  meal_plan_id: z.number().nullable(),
+  created: z.coerce.date(),
+  items: z.array(GroceryListEntrySchema),
+});
+
+export const AddGroceryItemRequestSchema = z.object({
+  name: z.string().min(1),
+  amount: z.number().nullable().optional(),
+  unit: z.string().nullable().optional(),
+});
+
+export const UpdateGroceryItemRequestSchema = z.object({
+  name: z.string().optional(),
+  amount: z.number().nullable().optional(),
+  unit: z.string().nullable().optional(),
+  is_checked: z.boolean().optional(),
+  is_organic: z.boolean().optional(),
+});
+
+export type GroceryListItem = z.infer<typeof GroceryListItemSchema>;
+export type GroceryListEntry = z.infer<typeof GroceryListEntrySchema>;
+export type GroceryListResponse = z.infer<typeof GroceryListResponseSchema>;
+export type AddGroceryItemRequest = z.infer<typeof AddGroceryItemRequestSchema>;
+export type UpdateGroceryItemRequest = z.infer<typeof UpdateGroceryItemRequestSchema>;
+
+// ============================================================================
+// PRICE & BUDGET TYPES
+// ============================================================================
+
+export const PriceSourceEnum = z.enum(["receipt", "manual"]);
+
+export const IngredientPriceSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  pantry_item_id: z.number().nullable(),
+  ingredient_key: z.string(),
+  name: z.string(),
+  price: z.number(), // total paid for quantity/unit
+  quantity: z.number().nullable(),
+  unit: z.string().nullable(),
+  store: z.string().nullable(),
+  source: PriceSourceEnum,
+  purchased_at: z.coerce.date(),
+  created_at: z.coerce.date(),
+});
+
+export const PriceHistoryResponseSchema = z.object({
+  ingredient: z.string(),
+  prices: z.array(IngredientPriceSchema),
+  latest: IngredientPriceSchema.nullable(),
+  lowestUnitPrice: z.number().nullable(),
+});
+
+export const RecipeCostSchema = z.object({
+  recipe_id: z.number(),
+  name: z.string(),
+  day: z.coerce.date(),
+  meal: z.string(),
+  servings: z.number().nullable(),
+  cost: z.number(),
+  cost_per_serving: z.number().nullable(),
+  priced_ingredients: z.number(),
+  total_ingredients: z.number(),
+});
+
+export const MealPlanCostResponseSchema = z.object({
+  meal_plan_id: z.number(),
+  recipes: z.array(RecipeCostSchema),
+  total: z.number(),
+  per_meal: z.number(),
+  per_week: z.number(),
+  coverage: z.number(), // % of planned ingredients with a known price
+  weekly_budget: z.number().nullable(),
+  over_budget: z.boolean(),
+});
+
+export type IngredientPrice = z.infer<typeof IngredientPriceSchema>;
+export type PriceHistoryResponse = z.infer<typeof PriceHistoryResponseSchema>;
+export type RecipeCost = z.infer<typeof RecipeCostSchema>;
+export type MealPlanCostResponse = z.infer<typeof MealPlanCostResponseSchema>;
+
+// ============================================================================
+// NUTRITION TYPES
+// ============================================================================
+
+export const NutrientEnum = z.enum(["calories", "protein", "carbs", "fat"]);
+
+export const NutritionTotalsSchema = z.object({
+  calories: z.number(),
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+});
+
+export const NutritionTargetsSchema = z.object({
+  calories: z.number().positive().max(10000).nullable(),
+  protein: z.number().nonnegative().nullable(),
+  carbs: z.number().nonnegative().nullable(),
+  fat: z.number().nonnegative().nullable(),
+});
+
+export const NutritionWarningSchema = z.object({
+  nutrient: NutrientEnum,
+  actual: z.number(),
+  target: z.number(),
+  difference_pct: z.number(), // signed, negative when under target
+});
+
+export const PlannedMealNutritionSchema = z.object({
+  recipe_id: z.number(),
+  name: z.string(),
+  meal: z.string(),
+  servings_eaten: z.number(), // per person
+  has_nutrition: z.boolean(),
+  nutrition: NutritionTotalsSchema,
+});
+
+export const DayNutritionSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  meals: z.array(PlannedMealNutritionSchema),
+  totals: NutritionTotalsSchema,
+  warnings: z.array(NutritionWarningSchema),
+});
+
+export const NutritionSummarySchema = z.object({
+  targets: NutritionTargetsSchema.nullable(),
+  household_size: z.number(),
+  meal_plan: z.object({ id: z.number(), name: z.string() }).nullable(),
+  meal_prep: z.object({
+    id: z.number(),
+    name: z.string(),
+    total_servings: z.number(),
+    servings_per_day: z.number(),
+    daily: NutritionTotalsSchema,
+  }).nullable(),
+  days: z.array(DayNutritionSchema),
+  week: z.object({
+    totals: NutritionTotalsSchema,
+    daily_average: NutritionTotalsSchema,
+    days_planned: z.number(),
+  }),
+});
+
+export type Nutrient = z.infer<typeof NutrientEnum>;
+export type NutritionTotals = z.infer<typeof NutritionTotalsSchema>;
+export type NutritionTargets = z.infer<typeof NutritionTargetsSchema>;
+export type NutritionWarning = z.infer<typeof NutritionWarningSchema>;
+export type DayNutrition = z.infer<typeof DayNutritionSchema>;
+export type NutritionSummary = z.infer<typeof NutritionSummarySchema>;
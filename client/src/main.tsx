@@ -15,6 +15,8 @@ import { CookieConsent } from "@/components/CookieConsent";
 import Home from "./pages/Home";
 import Recipes from "./pages/Recipes";
 import MealPlan from "./pages/MealPlan";
+import PrintMealPlan from "./pages/PrintMealPlan";
+import PrintMealPrep from "./pages/PrintMealPrep";
 import WeeklyPlanner from "./pages/WeeklyPlanner";
 import AuthPage from "./pages/AuthPage";
 import UserProfile from "./pages/UserProfile";
@@ -24,6 +26,7 @@ import Welcome from "./pages/Welcome";
 import Onboarding from "./pages/Onboarding";
 import Header from "./components/Header";
 import RecipeView from "./pages/RecipeView";
+import RecipeEditor from "./pages/RecipeEditor";
 import EmailVerification from "./components/EmailVerification";
 import CompleteSignup from "./components/CompleteSignup";
 import FirebaseDiagnostic from "./pages/FirebaseDiagnostic";
@@ -286,15 +289,31 @@ function Router() {
         <Route>
           <>
             <Header />
-            <main className="container mx-auto px-4 py-8">
+            <main className="container mx-auto px-4 py-8 print:p-0">
               <Switch>
                 <Route path="/" component={Home} />
                 <Route path="/recipes" component={Recipes} />
                 <Route path="/recipe/:id" component={RecipeView} />
+                <Route 
+                  path="/recipes/new" 
+                  component={() => <ProtectedRoute component={RecipeEditor} />} 
+                />
+                <Route 
+                  path="/recipes/:id/edit" 
+                  component={() => <ProtectedRoute component={RecipeEditor} />} 
+                />
                 <Route 
                   path="/meal-plan" 
                   component={() => <ProtectedRoute component={MealPlan} />} 
                 />
+                <Route 
+                  path="/meal-plan/:id/print" 
+                  component={() => <ProtectedRoute component={PrintMealPlan} />} 
+                />
+                <Route 
+                  path="/meal-prep/:id/print" 
+                  component={() => <ProtectedRoute component={PrintMealPrep} />} 
+                />
                 <Route 
                   path="/weekly-planner" 
                   component={() => <ProtectedRoute component={WeeklyPlanner} />} 
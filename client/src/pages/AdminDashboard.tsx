@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { getFeedbackStats, type FeedbackStats, type RecentFeedback } from '@/lib/api';
+import { getFeedbackStats, getAllergenRejections, type FeedbackStats, type RecentFeedback, type AllergenRejection, type AllergenRejectionsBySource } from '@/lib/api';
 import { useUser } from '@/hooks/use-user';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,7 +21,8 @@ import {
   Clock,
   Database,
   Settings,
-  Crown
+  Crown,
+  ShieldAlert
 } from 'lucide-react';
 import { useLocation } from 'wouter';
 
@@ -112,6 +113,11 @@ export default function AdminDashboard() {
     recent_feedback: RecentFeedback[];
     generated_at: string;
   } | null>(null);
+  const [allergenData, setAllergenData] = useState<{
+    rejections: AllergenRejection[];
+    by_source: AllergenRejectionsBySource[];
+    generated_at: string;
+  } | null>(null);
 
   // Check admin status on component mount
   useEffect(() => {
@@ -131,6 +137,7 @@ export default function AdminDashboard() {
         if (data.isAdmin) {
           loadDashboardData();
           loadFeedbackData();
+          loadAllergenData();
         }
       } else {
         setIsAdmin(false);
@@ -179,6 +186,20 @@ export default function AdminDashboard() {
     }
   };
 
+  const loadAllergenData = async () => {
+    try {
+      const data = await getAllergenRejections();
+      setAllergenData(data);
+    } catch (error) {
+      console.error('Error loading allergen rejections:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load allergen rejections",
+        variant: "destructive"
+      });
+    }
+  };
+
   const searchUsers = async () => {
     if (!searchQuery.trim()) {
       setSearchResults([]);
@@ -402,6 +423,7 @@ export default function AdminDashboard() {
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="search">User Search</TabsTrigger>
             <TabsTrigger value="feedback">Feedback</TabsTrigger>
+            <TabsTrigger value="allergens">Allergen Guard</TabsTrigger>
             <TabsTrigger value="issues">Known Issues</TabsTrigger>
           </TabsList>
 
@@ -872,6 +894,96 @@ export default function AdminDashboard() {
             )}
           </TabsContent>
 
+          <TabsContent value="allergens" className="space-y-6">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-2xl font-bold">Allergen Guard</h2>
+                <p className="text-muted-foreground">Generated recipes that contained a user's allergens</p>
+              </div>
+              <Button onClick={loadAllergenData} variant="outline">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+
+            {allergenData && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Last 30 Days by Source</CardTitle>
+                    <CardDescription>Regenerated recipes were replaced; rejected ones never reached the user</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {allergenData.by_source.length === 0 ? (
+                      <p className="text-muted-foreground text-center py-8">No unsafe recipes caught in the last 30 days</p>
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        {allergenData.by_source.map((row) => (
+                          <div key={row.source} className="p-4 border rounded-lg">
+                            <p className="text-sm font-medium">{row.source.replace(/_/g, ' ')}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {row.regenerated} regenerated · {row.rejected} rejected
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent Catches</CardTitle>
+                    <CardDescription>Latest recipes flagged by the allergen guard</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {allergenData.rejections.length === 0 ? (
+                        <p className="text-muted-foreground text-center py-8">No unsafe recipes caught yet</p>
+                      ) : (
+                        allergenData.rejections.map((rejection) => (
+                          <div key={rejection.id} className="flex items-start space-x-4 p-4 border rounded-lg">
+                            <ShieldAlert className="h-5 w-5 text-red-600 mt-1" />
+                            <div className="flex-1">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-2">
+                                  <Badge variant={rejection.action === 'rejected' ? 'destructive' : 'secondary'}>
+                                    {rejection.action === 'rejected' ? 'Rejected' : 'Regenerated'}
+                                  </Badge>
+                                  <span className="font-medium">{rejection.recipe_name}</span>
+                                  <span className="text-sm text-muted-foreground">{rejection.user_email}</span>
+                                </div>
+                                <span className="text-sm text-muted-foreground">
+                                  {new Date(rejection.created_at).toLocaleDateString()}
+                                </span>
+                              </div>
+                              <p className="mt-2 text-sm text-gray-600">
+                                {rejection.violations.map(v => `${v.ingredient} (${v.allergy})`).join(', ')}
+                              </p>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Source: {rejection.source.replace(/_/g, ' ')}
+                              </p>
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+
+            {!allergenData && (
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">Loading allergen rejections...</p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           <TabsContent value="issues" className="space-y-6">
             <Card>
               <CardHeader>
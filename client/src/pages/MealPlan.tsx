@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useUser } from "@/hooks/use-user";
+import { useMealPlanJob } from "@/hooks/use-meal-plan-job";
 import { useSubscription } from "@/hooks/use-subscription";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -11,21 +13,26 @@ import PreferenceSheet from "@/components/PreferenceSheet";
 import MealPlanCard from "@/components/MealPlanCard";
 import MissingRecipeCard from "@/components/MissingRecipeCard";
 import GroceryList from "@/components/GroceryList";
+import MealPlanCost from "@/components/MealPlanCost";
+import NutritionDashboard from "@/components/NutritionDashboard";
 import { LoadingAnimation } from "@/components/LoadingAnimation";
 import { MealPlanLoadingState } from "@/components/MealPlanLoadingState";
-import { createMealPlan, createGroceryList, generateMealPlan, getTemporaryRecipes, getCurrentMealPlan, submitMealPlanFeedback, shouldShowSurvey, checkMealPlanFeedback } from "@/lib/api";
+import { MealPlanJobProgress } from "@/components/MealPlanJobProgress";
+import { createMealPlan, createGroceryList, startMealPlanJob, getActiveMealPlanJob, getTemporaryRecipes, getCurrentMealPlan, submitMealPlanFeedback, shouldShowSurvey, checkMealPlanFeedback } from "@/lib/api";
 import { downloadCalendarEvent } from "@/lib/calendar";
 import type { Recipe, ChefPreferences, CreateMealPlanInput } from "@/lib/types";
+import type { MealPlanJob } from "@/lib/api";
 import type { Preferences, MealPlan } from "@db/schema";
 import { PreferenceSchema } from "@db/schema";
 import { SubscriptionModal } from "@/components/SubscriptionModal";
-import { Wand2, AlertCircle, Calendar, Plus, ArrowRight, ArrowLeft, Settings2, AlertTriangle, Sunrise, Sun, Moon } from "lucide-react";
+import { Wand2, AlertCircle, Calendar, Plus, ArrowRight, ArrowLeft, Settings2, AlertTriangle, Sunrise, Sun, Moon, Printer } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useMediaQuery } from "@/hooks/use-media-query";
 import MealPlanFeedbackSurvey from "@/components/MealPlanFeedbackSurvey";
+import { ExportMenu } from "@/components/ExportMenu";
 
 type MealType = "breakfast" | "lunch" | "dinner";
 
@@ -165,6 +172,8 @@ export default function MealPlan() {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [showPreferences, setShowPreferences] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationJobId, setGenerationJobId] = useState<number | null>(null);
+  const { job: generationJob, isFinished: generationFinished, retry: retryGenerationSlot } = useMealPlanJob(generationJobId);
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
   const [featureContext, setFeatureContext] = useState<string>("");
   const [showBatchCalendarModal, setShowBatchCalendarModal] = useState(false);
@@ -306,6 +315,49 @@ export default function MealPlan() {
     }
   };
 
+  // Once generation finishes, show the plan the server built, noting any meals still missing
+  const finishGeneration = async (job: MealPlanJob) => {
+    setGenerationJobId(null);
+    setIsGenerating(false);
+
+    if (job.status === 'failed') {
+      toast({
+        title: "Error",
+        description: job.error || "Failed to generate meal plan",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missing = job.items
+      .filter(item => item.status === 'failed')
+      .map(item => ({ day: item.day, meal: item.meal }));
+    setMissingMeals(missing);
+
+    // Refresh the meal plan data
+    await queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
+    await queryClient.refetchQueries({ queryKey: ['current-meal-plan'] });
+
+    if (missing.length > 0) {
+      toast({
+        title: "Partial Success",
+        description: `Generated ${job.completed} out of ${job.total} recipes`,
+        variant: "default",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: `Meal plan generated successfully. Valid for ${job.days} days.`
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (generationJob && generationFinished) {
+      finishGeneration(generationJob);
+    }
+  }, [generationFinished]);
+
   const handleGenerateMealPlan = async (chefPreferences: ChefPreferences, tempPreferences: Preferences) => {
     if (!subscription) {
       setFeatureContext("Meal plan generation");
@@ -352,58 +404,9 @@ export default function MealPlan() {
         await savePreferencesToAccount(updatedPreferences);
       }
 
-      // Generate the meal plan
-      const result = await generateMealPlan(updatedPreferences, requestedDays);
-      if (!result.recipes || result.recipes.length === 0) {
-        throw new Error('No recipes were generated. Please try again.');
-      }
-
-      console.log('Generated recipes:', JSON.stringify(result.recipes, null, 2));
-      
-      // Handle missing meals
-      if (result.status === 'partial' && result.missingMeals) {
-        setMissingMeals(result.missingMeals);
-        toast({
-          title: "Partial Success",
-          description: result.message || `Generated ${result.recipes.length} out of ${requestedDays * 3} recipes`,
-          variant: "default",
-        });
-      } else {
-        setMissingMeals([]);
-      }
-
-      // Create the meal plan
-      const endDate = new Date(selectedDate);
-      endDate.setDate(endDate.getDate() + requestedDays - 1);
-      
-      const expirationDate = new Date(selectedDate);
-      expirationDate.setDate(expirationDate.getDate() + requestedDays);
-
-      const mealPlanInput = {
-        name: `Meal Plan ${new Date().toLocaleDateString()}`,
-        start_date: selectedDate,
-        end_date: endDate,
-        expiration_date: expirationDate,
-        days_generated: requestedDays,
-        is_expired: false,
-        recipes: result.recipes.map(recipe => ({ id: recipe.id }))
-      };
-
-      console.log('Creating meal plan with input:', JSON.stringify(mealPlanInput, null, 2));
-      
-      const createdMealPlan = await createMealPlan(mealPlanInput);
-      
-      // Refresh the meal plan data
-      await queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
-      await queryClient.refetchQueries({ queryKey: ['current-meal-plan'] });
-
-      toast({
-        title: "Success",
-        description: `Meal plan generated successfully. Valid for ${requestedDays} days.`
-      });
-
-
-
+      // Start generating; recipes stream into the page as they're written
+      const job = await startMealPlanJob(updatedPreferences, requestedDays);
+      setGenerationJobId(job.id);
     } catch (error) {
       console.error('Error in meal plan generation:', error);
       if (error instanceof Error) {
@@ -413,12 +416,24 @@ export default function MealPlan() {
           variant: "destructive",
         });
       }
-    } finally {
-      // Always clear loading state when done
       setIsGenerating(false);
     }
   };
 
+  // Generation runs on the server, so a plan that was still generating when the page was left
+  // picks up where it is rather than starting over
+  useEffect(() => {
+    if (!user) return;
+
+    getActiveMealPlanJob()
+      .then(job => {
+        if (!job) return;
+        setIsGenerating(true);
+        setGenerationJobId(job.id);
+      })
+      .catch(error => console.error('Error checking for a meal plan in progress:', error));
+  }, [user?.id]);
+
   // Handle feedback survey submission
   const handleFeedbackSubmit = async (rating: string) => {
     if (!surveyMealPlanId) return;
@@ -707,7 +722,7 @@ export default function MealPlan() {
           onOpenChange={setShowPreferences}
           preferences={preferences}
           onUpdatePreferences={setPreferences}
-          isGenerating={isGenerating}
+          isGenerating={isGenerating && generationJobId === null}
           onGenerate={handleGenerateMealPlan}
           user={user ? {
             subscription_tier: user.subscription_tier,
@@ -723,7 +738,7 @@ export default function MealPlan() {
           onOpenChange={setShowPreferences}
           preferences={preferences}
           onUpdatePreferences={setPreferences}
-          isGenerating={isGenerating}
+          isGenerating={isGenerating && generationJobId === null}
           onGenerate={handleGenerateMealPlan}
           user={user ? {
             subscription_tier: user.subscription_tier,
@@ -739,11 +754,19 @@ export default function MealPlan() {
         <TabsList>
           <TabsTrigger value="meals">Meal Plan</TabsTrigger>
           <TabsTrigger value="grocery">Grocery List</TabsTrigger>
+          <TabsTrigger value="nutrition">Nutrition</TabsTrigger>
         </TabsList>
 
         <TabsContent value="meals" className="mt-6">
           {currentMealPlan && !currentMealPlan.is_expired && !isGenerating && (
-            <div className="flex justify-end mb-4">
+            <div className="flex justify-end gap-2 mb-4">
+              <ExportMenu kind="meal-plans" id={currentMealPlan.id} />
+              <Button variant="outline" asChild>
+                <Link href={`/meal-plan/${currentMealPlan.id}/print`} className="flex items-center gap-2">
+                  <Printer className="h-4 w-4" />
+                  Print
+                </Link>
+              </Button>
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -765,9 +788,10 @@ export default function MealPlan() {
           )}
           <div className="grid gap-6">
             {isGenerating ? (
-              <MealPlanLoadingState
-                messages={generateLoadingMessages(tempPreferences, tempPreferences.chefPreferences || defaultChefPreferences)}
-                baseMessage="Cooking up your personalized meal plan..."
+              <MealPlanJobProgress
+                job={generationJob}
+                startDate={generationJob ? new Date(generationJob.created_at) : new Date()}
+                onRetry={retryGenerationSlot}
               />
             ) : (
               <>
@@ -829,6 +853,7 @@ export default function MealPlan() {
                                   recipe={recipe}
                                   day={recipeDay}
                                   meal={mealType}
+                                  mealPlanId={currentMealPlan && !currentMealPlan.is_expired ? currentMealPlan.id : undefined}
                                   onRemove={() => {
                                     // Handle recipe removal
                                     toast({
@@ -872,25 +897,28 @@ export default function MealPlan() {
             <MealPlanLoadingState
               messages={generateLoadingMessages(tempPreferences, tempPreferences.chefPreferences || defaultChefPreferences)}
               baseMessage="Preparing your grocery list..."
+              progress={generationJob && {
+                completed: generationJob.completed,
+                failed: generationJob.failed,
+                total: generationJob.total,
+                latestRecipe: generationJob.recipes[generationJob.recipes.length - 1]?.name,
+              }}
             />
           ) : (
             <>
+              <MealPlanCost
+                mealPlanId={currentMealPlan && !currentMealPlan.is_expired ? currentMealPlan.id : undefined}
+              />
               <GroceryList
-                items={
-                  currentMealPlan?.recipes.flatMap(recipe => 
-                    (recipe.ingredients || []).map(ingredient => ({
-                      name: String(ingredient.name || ''),
-                      amount: Number(ingredient.amount || 0),
-                      unit: String(ingredient.unit || ''),
-                      checked: false
-                    }))
-                  ) ?? []
-                }
-                mealPlanId={currentMealPlan?.id}
+                mealPlanId={currentMealPlan && !currentMealPlan.is_expired ? currentMealPlan.id : undefined}
               />
             </>
           )}
         </TabsContent>
+
+        <TabsContent value="nutrition" className="mt-6">
+          <NutritionDashboard />
+        </TabsContent>
       </Tabs>
 
       {showBatchCalendarModal && (
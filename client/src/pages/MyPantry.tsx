@@ -9,9 +9,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Search, Filter, Calendar, Trash2, Edit3, Package, ChefHat } from 'lucide-react';
+import { Plus, Search, Filter, Calendar, Trash2, Edit3, Package, ChefHat, Snowflake, Ban, ScanBarcode, Loader2, Receipt } from 'lucide-react';
 import { UsageModal } from '@/components/pantry/UsageModal';
+import { PantrySuggestions } from '@/components/pantry/PantrySuggestions';
+import { DiscardModal } from '@/components/pantry/DiscardModal';
+import { ReceiptReviewModal } from '@/components/pantry/ReceiptReviewModal';
+import { useUseSoonQueue, useMovePantryItem, useDiscardPantryItem, useBarcodeLookup } from '@/hooks/use-pantry';
 import type { 
   PantryItem, 
   PantryResponse, 
@@ -19,10 +24,37 @@ import type {
   UpdatePantryItemRequest,
   UsePantryItemRequest,
   PantryCategory,
+  PantryLocation,
   QuantityStatus,
   AutocompleteResponse 
 } from '@/lib/types';
 
+// "Expires in 3 days" / "Expired 2 days ago", with a color that gets warmer as the date nears
+function describeExpiry(daysRemaining: number) {
+  const label =
+    daysRemaining < 0 ? `Expired ${Math.abs(daysRemaining)} day${daysRemaining === -1 ? '' : 's'} ago` :
+    daysRemaining === 0 ? 'Expires today' :
+    daysRemaining === 1 ? 'Expires tomorrow' :
+    `Expires in ${daysRemaining} days`;
+  const color =
+    daysRemaining <= 0 ? 'text-red-600' :
+    daysRemaining <= 2 ? 'text-orange-600' :
+    daysRemaining <= 7 ? 'text-yellow-600' :
+    'text-green-600';
+  return { label, color };
+}
+
+const LOCATIONS: { value: PantryLocation; label: string }[] = [
+  { value: 'pantry', label: 'Pantry shelf' },
+  { value: 'fridge', label: 'Fridge' },
+  { value: 'freezer', label: 'Freezer' },
+];
+
+const locationLabel = (location?: PantryLocation | null) =>
+  LOCATIONS.find(option => option.value === location)?.label ?? 'Pantry shelf';
+
+const toDateInputValue = (date?: Date | null) => date ? new Date(date).toISOString().slice(0, 10) : '';
+
 interface AddItemModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -35,11 +67,17 @@ function AddItemModal({ open, onOpenChange, onAdd }: AddItemModalProps) {
     category: undefined,
     quantity: undefined,
     unit: '',
+    location: undefined,
     estimatedShelfLifeDays: undefined,
+    bestBeforeDate: undefined,
     notes: '',
     isStaple: false,
+    price: undefined,
+    barcode: undefined,
   });
   const [searchTerm, setSearchTerm] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const barcodeLookup = useBarcodeLookup();
   const [suggestions, setSuggestions] = useState<AutocompleteResponse['suggestions']>([]);
 
   // Autocomplete search
@@ -66,6 +104,29 @@ function AddItemModal({ open, onOpenChange, onAdd }: AddItemModalProps) {
     setSuggestions([]);
   };
 
+  // Hardware scanners type the code and press Enter, so Enter looks up instead of submitting the form
+  const handleBarcodeLookup = () => {
+    const code = barcode.trim();
+    if (!code) return;
+
+    setFormData(prev => ({ ...prev, barcode: code }));
+    barcodeLookup.mutate(code, {
+      onSuccess: (product) => {
+        setFormData(prev => ({
+          ...prev,
+          name: product.name,
+          category: product.category,
+          quantity: product.quantity ?? prev.quantity,
+          unit: product.unit ?? prev.unit,
+          location: product.location,
+          estimatedShelfLifeDays: product.shelfLifeDays ?? undefined,
+        }));
+        setSearchTerm(product.name);
+        setSuggestions([]);
+      },
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name.trim()) return;
@@ -76,11 +137,16 @@ function AddItemModal({ open, onOpenChange, onAdd }: AddItemModalProps) {
       category: undefined,
       quantity: undefined,
       unit: '',
+      location: undefined,
       estimatedShelfLifeDays: undefined,
+      bestBeforeDate: undefined,
       notes: '',
       isStaple: false,
+      price: undefined,
+      barcode: undefined,
     });
     setSearchTerm('');
+    setBarcode('');
     onOpenChange(false);
   };
 
@@ -95,6 +161,33 @@ function AddItemModal({ open, onOpenChange, onAdd }: AddItemModalProps) {
           <DialogTitle>Add Pantry Item</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="barcode">Barcode (optional)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="barcode"
+                inputMode="numeric"
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleBarcodeLookup();
+                  }
+                }}
+                placeholder="Scan or type a UPC/EAN"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleBarcodeLookup}
+                disabled={!barcode.trim() || barcodeLookup.isPending}
+              >
+                {barcodeLookup.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanBarcode className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="name">Item Name</Label>
             <Input
@@ -154,17 +247,64 @@ function AddItemModal({ open, onOpenChange, onAdd }: AddItemModalProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity</Label>
+              <Input
+                id="quantity"
+                type="number"
+                step="0.1"
+                min="0"
+                value={formData.quantity || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value ? parseFloat(e.target.value) : undefined }))}
+                placeholder="How much do you have?"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="location">Stored in</Label>
+              <Select value={formData.location} onValueChange={(value: PantryLocation) => setFormData(prev => ({ ...prev, location: value }))}>
+                <SelectTrigger id="location">
+                  <SelectValue placeholder="Based on category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCATIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="space-y-2">
-            <Label htmlFor="quantity">Quantity</Label>
+            <Label htmlFor="price">Price paid (optional)</Label>
             <Input
-              id="quantity"
+              id="price"
               type="number"
-              step="0.1"
+              step="0.01"
               min="0"
-              value={formData.quantity || ''}
-              onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value ? parseFloat(e.target.value) : undefined }))}
-              placeholder="How much do you have?"
+              value={formData.price ?? ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, price: parseFloat(e.target.value) || undefined }))}
+              placeholder="$0.00"
             />
+            <p className="text-xs text-muted-foreground">
+              Used to estimate what your meal plans cost.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bestBefore">Best before (optional)</Label>
+            <Input
+              id="bestBefore"
+              type="date"
+              value={formData.bestBeforeDate || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, bestBeforeDate: e.target.value || undefined }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave blank to estimate from the item's typical shelf life.
+            </p>
           </div>
 
           <div className="space-y-2">
@@ -208,14 +348,20 @@ interface PantryItemCardProps {
   onUpdate: (id: number, data: UpdatePantryItemRequest) => void;
   onDelete: (id: number) => void;
   onUse: (id: number, data: UsePantryItemRequest) => void;
+  onMove: (id: number, location: PantryLocation) => void;
+  onDiscard: (item: PantryItem) => void;
 }
 
-function PantryItemCard({ item, onUpdate, onDelete, onUse }: PantryItemCardProps) {
+function PantryItemCard({ item, onUpdate, onDelete, onUse, onMove, onDiscard }: PantryItemCardProps) {
+  const location = item.storage_location ?? item.location ?? 'pantry';
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({
     quantity: item.quantity || 0,
     quantityStatus: item.quantity_status,
     notes: item.user_notes || '',
+    bestBeforeDate: toDateInputValue(item.best_before_date),
+    location,
+    price: item.price ? item.price.toString() : '',
   });
 
   const daysOld = Math.floor((Date.now() - new Date(item.added_date).getTime()) / (1000 * 60 * 60 * 24));
@@ -237,10 +383,18 @@ function PantryItemCard({ item, onUpdate, onDelete, onUse }: PantryItemCardProps
   };
 
   const handleSave = () => {
-    onUpdate(item.id, editData);
+    onUpdate(item.id, {
+      ...editData,
+      bestBeforeDate: editData.bestBeforeDate || null,
+      price: parseFloat(editData.price) || null,
+    });
     setIsEditing(false);
   };
 
+  const expiry = item.days_remaining !== null && item.days_remaining !== undefined
+    ? describeExpiry(item.days_remaining)
+    : null;
+
   return (
     <Card className="hover:shadow-md transition-shadow">
       <CardContent className="p-4">
@@ -251,6 +405,9 @@ function PantryItemCard({ item, onUpdate, onDelete, onUse }: PantryItemCardProps
               <Badge variant="outline" className="text-xs">
                 {item.category || 'other'}
               </Badge>
+              <Badge variant="outline" className="text-xs">
+                {locationLabel(location)}
+              </Badge>
               {item.is_staple && (
                 <Badge variant="secondary" className="text-xs">Staple</Badge>
               )}
@@ -305,6 +462,47 @@ function PantryItemCard({ item, onUpdate, onDelete, onUse }: PantryItemCardProps
                 </Select>
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs">Best before</Label>
+                <Input
+                  type="date"
+                  value={editData.bestBeforeDate}
+                  onChange={(e) => setEditData(prev => ({ ...prev, bestBeforeDate: e.target.value }))}
+                  className="h-8"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Stored in</Label>
+                <Select
+                  value={editData.location}
+                  onValueChange={(value: PantryLocation) => setEditData(prev => ({ ...prev, location: value }))}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOCATIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs">Price paid</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={editData.price}
+                onChange={(e) => setEditData(prev => ({ ...prev, price: e.target.value }))}
+                className="h-8"
+                placeholder="$0.00"
+              />
+            </div>
             <div>
               <Label className="text-xs">Notes</Label>
               <Textarea
@@ -324,12 +522,20 @@ function PantryItemCard({ item, onUpdate, onDelete, onUse }: PantryItemCardProps
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">
                 {item.quantity} {item.unit}
+                {item.price ? ` · $${item.price.toFixed(2)}` : ''}
               </span>
               <Badge className={`text-xs ${getStatusColor(item.quantity_status)}`}>
                 {item.quantity_status.replace('_', ' ')}
               </Badge>
             </div>
             
+            {expiry && (
+              <div className={`text-xs font-medium ${expiry.color}`}>
+                {expiry.label}
+                {item.expiry_source === 'estimated' && <span className="font-normal text-muted-foreground"> (estimated)</span>}
+              </div>
+            )}
+
             <div className="flex items-center justify-between text-xs text-muted-foreground">
               <span className={getAgeColor(daysOld)}>
                 Added {daysOld === 0 ? 'today' : `${daysOld} days ago`}
@@ -357,6 +563,27 @@ function PantryItemCard({ item, onUpdate, onDelete, onUse }: PantryItemCardProps
                 <ChefHat className="h-3 w-3 mr-1" />
                 Mark as Used
               </Button>
+              {location !== 'freezer' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onMove(item.id, 'freezer')}
+                  title="Freezing extends how long this keeps"
+                >
+                  <Snowflake className="h-3 w-3 mr-1" />
+                  Freeze
+                </Button>
+              )}
+              {item.quantity_status !== 'empty' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onDiscard(item)}
+                  title="Throw out and log as waste"
+                >
+                  <Ban className="h-3 w-3" />
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -369,19 +596,24 @@ export default function MyPantry() {
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [locationFilter, setLocationFilter] = useState<string>('all');
+  const [groupByLocation, setGroupByLocation] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [showUsageModal, setShowUsageModal] = useState(false);
   const [selectedItem, setSelectedItem] = useState<PantryItem | null>(null);
+  const [discardItem, setDiscardItem] = useState<PantryItem | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch pantry items
   const { data: pantryData, isLoading } = useQuery<PantryResponse>({
-    queryKey: ['pantry', categoryFilter, statusFilter],
+    queryKey: ['pantry', categoryFilter, statusFilter, locationFilter],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (categoryFilter !== 'all') params.append('category', categoryFilter);
       if (statusFilter !== 'all') params.append('status', statusFilter);
+      if (locationFilter !== 'all') params.append('location', locationFilter);
       
       const response = await fetch(`/api/pantry?${params}`);
       if (!response.ok) throw new Error('Failed to fetch pantry items');
@@ -389,6 +621,10 @@ export default function MyPantry() {
     },
   });
 
+  const { data: useSoonData } = useUseSoonQueue();
+  const moveItemMutation = useMovePantryItem();
+  const discardItemMutation = useDiscardPantryItem();
+
   // Add item mutation
   const addItemMutation = useMutation({
     mutationFn: async (item: AddPantryItemRequest) => {
@@ -519,24 +755,20 @@ export default function MyPantry() {
     item.name.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
 
-  const useSoonItems = filteredItems.filter(item => {
-    // Always include items that are running low
-    if (item.quantity_status === 'running_low') {
-      return true;
-    }
-    
-    const daysOld = Math.floor((Date.now() - new Date(item.added_date).getTime()) / (1000 * 60 * 60 * 24));
-    
-    // If item has estimated shelf life, use that for smart expiration detection
-    if (item.estimated_shelf_life_days && item.estimated_shelf_life_days > 0) {
-      // Show in "Use Soon" when item has used 70% of its shelf life
-      const shelfLifeUsedPercentage = daysOld / item.estimated_shelf_life_days;
-      return shelfLifeUsedPercentage >= 0.7;
-    }
-    
-    // Fallback to 7-day rule for items without shelf life data
-    return daysOld >= 7;
-  });
+  const itemSections = groupByLocation
+    ? LOCATIONS
+        .map(option => ({
+          key: option.value,
+          label: option.label,
+          items: filteredItems.filter(item => (item.storage_location ?? item.location ?? 'pantry') === option.value),
+        }))
+        .filter(section => section.items.length > 0)
+    : [{ key: 'all', label: null, items: filteredItems }];
+
+  // Ranked on the server by days until each item expires
+  const useSoonItems = (useSoonData?.items || []).filter(item =>
+    item.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
@@ -548,10 +780,16 @@ export default function MyPantry() {
             Track your ingredients and reduce food waste
           </p>
         </div>
-        <Button onClick={() => setShowAddModal(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Item
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowReceiptModal(true)}>
+            <Receipt className="h-4 w-4 mr-2" />
+            Scan Receipt
+          </Button>
+          <Button onClick={() => setShowAddModal(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -638,6 +876,28 @@ export default function MyPantry() {
                   <SelectItem value="empty">Empty</SelectItem>
                 </SelectContent>
               </Select>
+
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {LOCATIONS.map(option => {
+                    const count = pantryData?.locations?.find(entry => entry.location === option.value)?.count;
+                    return (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}{count !== undefined && ` (${count})`}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center gap-2 px-2">
+                <Switch id="groupByLocation" checked={groupByLocation} onCheckedChange={setGroupByLocation} />
+                <Label htmlFor="groupByLocation" className="text-sm whitespace-nowrap">Group by location</Label>
+              </div>
             </div>
           </div>
         </CardContent>
@@ -658,12 +918,17 @@ export default function MyPantry() {
                 onUpdate={(id, data) => updateItemMutation.mutate({ id, data })}
                 onDelete={(id) => deleteItemMutation.mutate(id)}
                 onUse={handleUseItem}
+                onMove={(id, location) => moveItemMutation.mutate({ id, data: { location } })}
+                onDiscard={setDiscardItem}
               />
             ))}
           </div>
         </div>
       )}
 
+      {/* Recipe Suggestions */}
+      {pantryData && pantryData.totalItems > 0 && <PantrySuggestions />}
+
       {/* All Items */}
       <div>
         <h2 className="text-xl font-semibold mb-4">
@@ -697,15 +962,28 @@ export default function MyPantry() {
             </CardContent>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredItems.map(item => (
-              <PantryItemCard
-                key={item.id}
-                item={item}
-                onUpdate={(id, data) => updateItemMutation.mutate({ id, data })}
-                onDelete={(id) => deleteItemMutation.mutate(id)}
-                onUse={handleUseItem}
-              />
+          <div className="space-y-6">
+            {itemSections.map(section => (
+              <div key={section.key}>
+                {section.label && (
+                  <h3 className="text-lg font-medium mb-3">
+                    {section.label} ({section.items.length})
+                  </h3>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {section.items.map(item => (
+                    <PantryItemCard
+                      key={item.id}
+                      item={item}
+                      onUpdate={(id, data) => updateItemMutation.mutate({ id, data })}
+                      onDelete={(id) => deleteItemMutation.mutate(id)}
+                      onUse={handleUseItem}
+                      onMove={(id, location) => moveItemMutation.mutate({ id, data: { location } })}
+                      onDiscard={setDiscardItem}
+                    />
+                  ))}
+                </div>
+              </div>
             ))}
           </div>
         )}
@@ -718,6 +996,24 @@ export default function MyPantry() {
         onAdd={(item) => addItemMutation.mutate(item)}
       />
 
+      {/* Receipt Review Modal */}
+      <ReceiptReviewModal
+        open={showReceiptModal}
+        onOpenChange={setShowReceiptModal}
+      />
+
+      {/* Discard Modal */}
+      <DiscardModal
+        open={discardItem !== null}
+        onOpenChange={(open) => !open && setDiscardItem(null)}
+        item={discardItem}
+        onDiscard={(data) => {
+          if (discardItem) {
+            discardItemMutation.mutate({ id: discardItem.id, data });
+          }
+        }}
+      />
+
       {/* Usage Modal */}
       <UsageModal
         open={showUsageModal}
@@ -0,0 +1,128 @@
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, FileDown, Loader2, Printer, Square, SquareCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getMealPlanPrintSheet, printPdfUrl, type MealPlanPrintSheet } from "@/lib/api";
+
+const MEALS = ["breakfast", "lunch", "dinner"] as const;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Dates arrive as YYYY-MM-DD; read them at noon UTC so no timezone shifts the day
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
+
+// The week on the fridge: a day-by-meal grid, then the grocery list by store section on its own page
+export default function PrintMealPlan() {
+  const params = useParams<{ id: string }>();
+  const mealPlanId = parseInt(params.id);
+
+  const { data: sheet, isLoading, error } = useQuery<MealPlanPrintSheet>({
+    queryKey: ['meal-plan-print', mealPlanId],
+    queryFn: () => getMealPlanPrintSheet(mealPlanId),
+    enabled: !isNaN(mealPlanId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !sheet) {
+    return (
+      <div className="text-center py-24 space-y-4">
+        <p className="text-muted-foreground">This meal plan couldn't be loaded for printing.</p>
+        <Button variant="outline" asChild>
+          <Link href="/meal-plan">Back to meal plan</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto text-foreground print:max-w-none print:text-black">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6 print:hidden">
+        <Button variant="ghost" asChild>
+          <Link href="/meal-plan">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to meal plan
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={printPdfUrl("meal-plans", mealPlanId)} target="_blank" rel="noreferrer">
+              <FileDown className="h-4 w-4 mr-2" />
+              Download PDF
+            </a>
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <section>
+        <h1 className="text-2xl font-bold">{sheet.title}</h1>
+        <p className="text-sm text-muted-foreground mb-4">
+          {formatDay(sheet.start_date)} to {formatDay(sheet.end_date)}
+        </p>
+        <table className="w-full border-collapse text-sm table-fixed">
+          <thead>
+            <tr className="bg-muted print:bg-gray-100">
+              <th className="border p-2 w-[14%]" />
+              {MEALS.map(meal => (
+                <th key={meal} className="border p-2 text-left font-semibold">{capitalize(meal)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.days.map(day => (
+              <tr key={day.date} className="break-inside-avoid">
+                <th className="border p-2 text-left align-top font-semibold">{formatDay(day.date)}</th>
+                {MEALS.map(meal => (
+                  <td key={meal} className="border p-2 align-top">
+                    {day.meals[meal].map(recipe => (
+                      <div key={recipe.recipe_id}>{recipe.name}</div>
+                    ))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="mt-10 print:mt-0 print:break-before-page">
+        <h2 className="text-xl font-bold mb-4">Grocery list</h2>
+        {sheet.grocery_sections.length === 0 ? (
+          <p className="text-muted-foreground">Nothing to buy for this plan.</p>
+        ) : (
+          <div className="columns-1 sm:columns-2 lg:columns-3 print:columns-3 gap-8">
+            {sheet.grocery_sections.map(section => (
+              <div key={section.category} className="break-inside-avoid mb-6">
+                <h3 className="font-semibold border-b mb-2">{capitalize(section.category)}</h3>
+                <ul className="space-y-1 text-sm">
+                  {section.items.map((item, index) => (
+                    <li
+                      key={`${item.name}-${index}`}
+                      className={`flex items-start gap-2 ${item.checked ? "text-muted-foreground line-through" : ""}`}
+                    >
+                      {item.checked
+                        ? <SquareCheck className="h-4 w-4 shrink-0 mt-0.5" />
+                        : <Square className="h-4 w-4 shrink-0 mt-0.5" />}
+                      <span>{[item.quantity, item.name].filter(Boolean).join(" ")}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, FileDown, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getMealPrepPrintSheet, printPdfUrl, type MealPrepPrintSheet } from "@/lib/api";
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Minutes after starting prep, as h:mm
+const formatMinute = (minute: number) => `${Math.floor(minute / 60)}:${String(minute % 60).padStart(2, "0")}`;
+
+// Prep day on paper: what to start when and how to store it, then how each meal comes together
+export default function PrintMealPrep() {
+  const params = useParams<{ id: string }>();
+  const mealPrepPlanId = parseInt(params.id);
+
+  const { data: sheet, isLoading, error } = useQuery<MealPrepPrintSheet>({
+    queryKey: ['meal-prep-print', mealPrepPlanId],
+    queryFn: () => getMealPrepPrintSheet(mealPrepPlanId),
+    enabled: !isNaN(mealPrepPlanId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !sheet) {
+    return (
+      <div className="text-center py-24 space-y-4">
+        <p className="text-muted-foreground">This meal prep plan couldn't be loaded for printing.</p>
+        <Button variant="outline" onClick={() => window.history.back()}>
+          Go back
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto text-foreground print:max-w-none print:text-black">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6 print:hidden">
+        <Button variant="ghost" onClick={() => window.history.back()}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={printPdfUrl("meal-prep", mealPrepPlanId)} target="_blank" rel="noreferrer">
+              <FileDown className="h-4 w-4 mr-2" />
+              Download PDF
+            </a>
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <section>
+        <h1 className="text-2xl font-bold">{sheet.title}</h1>
+        <p className="text-sm text-muted-foreground mb-4">
+          Prep day: {capitalize(sheet.prep_day)} · {sheet.total_servings} servings · about {sheet.total_prep_minutes} min
+        </p>
+        <h2 className="text-xl font-bold mb-2">Prep timeline</h2>
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-muted print:bg-gray-100">
+              <th className="border p-2 text-left font-semibold w-16">Start</th>
+              <th className="border p-2 text-left font-semibold">Component</th>
+              <th className="border p-2 text-left font-semibold w-20">Time</th>
+              <th className="border p-2 text-left font-semibold">Store</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.timeline.map((step, index) => (
+              <tr key={`${step.name}-${index}`} className="break-inside-avoid">
+                <td className="border p-2 align-top tabular-nums">{formatMinute(step.start_minute)}</td>
+                <td className="border p-2 align-top">
+                  {step.name}
+                  <span className="text-muted-foreground"> ({step.component_type})</span>
+                </td>
+                <td className="border p-2 align-top">{step.prep_time_minutes} min</td>
+                <td className="border p-2 align-top">{step.storage_instructions}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {sheet.assemblies.length > 0 && (
+        <section className="mt-8 break-inside-avoid">
+          <h2 className="text-xl font-bold mb-2">Assembly</h2>
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="bg-muted print:bg-gray-100">
+                <th className="border p-2 text-left font-semibold">Meal</th>
+                <th className="border p-2 text-left font-semibold">Components</th>
+                <th className="border p-2 text-left font-semibold">Sauce</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.assemblies.map((row, index) => (
+                <tr key={`${row.name}-${index}`} className="break-inside-avoid">
+                  <td className="border p-2 align-top">{row.name}</td>
+                  <td className="border p-2 align-top">
+                    {row.components.map(component => (
+                      <div key={component}>{component}</div>
+                    ))}
+                  </td>
+                  <td className="border p-2 align-top">{row.sauce_suggestion}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {sheet.reheat_tips && (
+        <section className="mt-8 break-inside-avoid">
+          <h2 className="text-xl font-bold mb-2">Reheating</h2>
+          <p className="text-sm">{sheet.reheat_tips}</p>
+        </section>
+      )}
+    </div>
+  );
+}
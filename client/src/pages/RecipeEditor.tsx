@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ImagePlus, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { createRecipe, deleteRecipe, forkRecipe, updateRecipe, uploadRecipePhoto } from "@/lib/api";
+import { MealTypeEnum, RecipeNutritionSchema, UserRecipeInputSchema, type Recipe, type UserRecipeInput } from "@db/schema";
+
+interface IngredientRow {
+  amount: string;
+  unit: string;
+  name: string;
+}
+
+interface EditorState {
+  name: string;
+  description: string;
+  prep_time: string;
+  cook_time: string;
+  servings: string;
+  meal_type: string;
+  ingredients: IngredientRow[];
+  instructions: string[];
+}
+
+// The JSON body of a request is capped at 10MB, and base64 adds a third
+const MAX_PHOTO_BYTES = 7 * 1024 * 1024;
+
+const emptyState: EditorState = {
+  name: "",
+  description: "",
+  prep_time: "",
+  cook_time: "",
+  servings: "2",
+  meal_type: "",
+  ingredients: [{ amount: "", unit: "", name: "" }],
+  instructions: [""],
+};
+
+function stateFromRecipe(recipe: Recipe): EditorState {
+  const ingredients = (Array.isArray(recipe.ingredients) ? recipe.ingredients : []) as Array<{ name: string; amount: number | null; unit: string | null }>;
+  const instructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
+  return {
+    name: recipe.name,
+    description: recipe.description ?? "",
+    prep_time: recipe.prep_time?.toString() ?? "",
+    cook_time: recipe.cook_time?.toString() ?? "",
+    servings: recipe.servings?.toString() ?? "2",
+    meal_type: recipe.meal_type ?? "",
+    ingredients: ingredients.length > 0
+      ? ingredients.map(ingredient => ({ amount: String(ingredient.amount ?? ""), unit: ingredient.unit ?? "", name: ingredient.name }))
+      : emptyState.ingredients,
+    instructions: instructions.length > 0 ? instructions.map(String) : emptyState.instructions,
+  };
+}
+
+const optionalNumber = (value: string) => value.trim() === "" ? null : Number(value);
+
+// Build the request from the form, carrying over what the form doesn't edit from the original
+function toInput(state: EditorState, original: Recipe | undefined) {
+  const nutrition = RecipeNutritionSchema.safeParse(original?.nutrition);
+  return UserRecipeInputSchema.safeParse({
+    name: state.name,
+    description: state.description.trim() || null,
+    prep_time: optionalNumber(state.prep_time),
+    cook_time: optionalNumber(state.cook_time),
+    servings: Number(state.servings),
+    meal_type: state.meal_type || null,
+    ingredients: state.ingredients
+      .filter(ingredient => ingredient.name.trim() !== "")
+      .map(ingredient => ({ name: ingredient.name, amount: Number(ingredient.amount) || 0, unit: ingredient.unit.trim() })),
+    instructions: state.instructions.filter(step => step.trim() !== ""),
+    tags: Array.isArray(original?.tags) ? original.tags : undefined,
+    cuisine_type: original?.cuisine_type ?? null,
+    dietary_restrictions: original?.dietary_restrictions ?? null,
+    difficulty: original?.difficulty ?? null,
+    nutrition: nutrition.success ? nutrition.data : null,
+  });
+}
+
+// Write a recipe from scratch at /recipes/new, or edit one at /recipes/:id/edit. Edits to a recipe
+// the user didn't write are saved as their own copy.
+export default function RecipeEditor() {
+  const params = useParams<{ id?: string }>();
+  const recipeId = params.id ? parseInt(params.id) : null;
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: user } = useUser();
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<EditorState>(emptyState);
+  const [photo, setPhoto] = useState<string | null>(null);
+
+  const { data: original, isLoading } = useQuery<Recipe>({
+    queryKey: ['recipe', recipeId],
+    queryFn: async () => {
+      const response = await fetch(`/api/recipes/${recipeId}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Recipe not found');
+      }
+      return response.json();
+    },
+    enabled: recipeId !== null,
+  });
+
+  useEffect(() => {
+    if (original) setState(stateFromRecipe(original));
+  }, [original]);
+
+  const isOwn = original !== undefined && original.author_id === user?.id;
+  const isFork = original !== undefined && !isOwn;
+
+  const save = useMutation({
+    mutationFn: async (input: UserRecipeInput) => {
+      const saved = original === undefined
+        ? await createRecipe(input)
+        : isOwn
+          ? await updateRecipe(original.id, input)
+          : await forkRecipe(original.id, input);
+      return photo ? uploadRecipePhoto(saved.id, photo) : saved;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['recipe', saved.id] });
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      toast({
+        title: isFork ? "Saved as your own version" : "Recipe saved",
+        description: isFork ? "The original recipe is unchanged." : undefined,
+      });
+      setLocation(`/recipe/${saved.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save recipe", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () => deleteRecipe(original!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      toast({ title: "Recipe deleted" });
+      setLocation('/recipes');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete recipe", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const input = toInput(state, original);
+    if (!input.success) {
+      const issue = input.error.errors[0];
+      toast({
+        title: "Check your recipe",
+        description: `${issue.path.join(" ")}: ${issue.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    save.mutate(input.data);
+  };
+
+  const handlePhotoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast({ title: "Photo too large", description: "Please choose a photo under 7MB.", variant: "destructive" });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setPhoto(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const setField = <K extends keyof EditorState>(key: K, value: EditorState[K]) =>
+    setState(current => ({ ...current, [key]: value }));
+
+  const setIngredient = (index: number, field: keyof IngredientRow, value: string) =>
+    setField("ingredients", state.ingredients.map((row, i) => i === index ? { ...row, [field]: value } : row));
+
+  const setInstruction = (index: number, value: string) =>
+    setField("instructions", state.instructions.map((step, i) => i === index ? value : step));
+
+  if (recipeId !== null && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const imageUrl = photo ?? (isOwn ? original?.permanent_url || original?.image_url : null);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">
+          {original === undefined ? "Write a recipe" : isOwn ? "Edit recipe" : "Make it your own"}
+        </h1>
+        {isFork && (
+          <p className="text-muted-foreground mt-2">
+            Your changes are saved as your own copy of "{original.name}". The original stays as it is.
+          </p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recipe-name">Name</Label>
+            <Input id="recipe-name" value={state.name} onChange={e => setField("name", e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recipe-description">Description</Label>
+            <RichTextEditor
+              id="recipe-description"
+              value={state.description}
+              onChange={value => setField("description", value)}
+              placeholder="What makes this dish worth cooking?"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recipe-prep">Prep (min)</Label>
+              <Input id="recipe-prep" type="number" min={0} value={state.prep_time} onChange={e => setField("prep_time", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipe-cook">Cook (min)</Label>
+              <Input id="recipe-cook" type="number" min={0} value={state.cook_time} onChange={e => setField("cook_time", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipe-servings">Servings</Label>
+              <Input id="recipe-servings" type="number" min={1} value={state.servings} onChange={e => setField("servings", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Meal</Label>
+              <Select value={state.meal_type} onValueChange={value => setField("meal_type", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Any" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MealTypeEnum.options.map(meal => (
+                    <SelectItem key={meal} value={meal}>{meal}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Photo</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {imageUrl && (
+            <img src={imageUrl} alt={state.name || "Recipe photo"} className="w-full max-h-72 object-cover rounded-lg" />
+          )}
+          {isFork && !photo && (
+            <p className="text-sm text-muted-foreground">Your copy keeps the original photo unless you upload your own.</p>
+          )}
+          <Label htmlFor="recipe-photo" className="inline-flex items-center gap-2 cursor-pointer text-primary">
+            <ImagePlus className="h-4 w-4" />
+            {imageUrl ? "Replace photo" : "Upload a photo"}
+          </Label>
+          <input id="recipe-photo" type="file" accept="image/jpeg,image/png,image/webp,image/gif" className="hidden" onChange={handlePhotoChange} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ingredients</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {state.ingredients.map((ingredient, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                className="w-20"
+                type="number"
+                min={0}
+                step="any"
+                placeholder="1"
+                aria-label="Amount"
+                value={ingredient.amount}
+                onChange={e => setIngredient(index, "amount", e.target.value)}
+              />
+              <Input
+                className="w-24"
+                placeholder="cup"
+                aria-label="Unit"
+                value={ingredient.unit}
+                onChange={e => setIngredient(index, "unit", e.target.value)}
+              />
+              <Input
+                className="flex-1"
+                placeholder="Ingredient"
+                aria-label="Ingredient"
+                value={ingredient.name}
+                onChange={e => setIngredient(index, "name", e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={state.ingredients.length === 1}
+                onClick={() => setField("ingredients", state.ingredients.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove ingredient</span>
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setField("ingredients", [...state.ingredients, { amount: "", unit: "", name: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add ingredient
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Steps</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {state.instructions.map((step, index) => (
+            <div key={index} className="flex gap-2 items-start">
+              <span className="font-bold mt-2 w-6">{index + 1}.</span>
+              <Textarea
+                className="flex-1"
+                rows={2}
+                aria-label={`Step ${index + 1}`}
+                value={step}
+                onChange={e => setInstruction(index, e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={state.instructions.length === 1}
+                onClick={() => setField("instructions", state.instructions.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove step</span>
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setField("instructions", [...state.instructions, ""])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add step
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <div>
+          {isOwn && (
+            <Button
+              variant="outline"
+              className="text-destructive"
+              disabled={remove.isPending}
+              onClick={() => {
+                if (window.confirm(`Delete "${original.name}"? This can't be undone.`)) remove.mutate();
+              }}
+            >
+              Delete recipe
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={() => setLocation(original ? `/recipe/${original.id}` : '/recipes')}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={save.isPending}>
+            {save.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isFork ? "Save my version" : "Save recipe"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
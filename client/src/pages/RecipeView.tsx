@@ -1,7 +1,7 @@
-import { useParams } from "wouter";
+import { Link, useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Recipe } from "@db/schema";
-import { Clock, Users } from "lucide-react";
+import { Recipe, type RecipeNutrition } from "@db/schema";
+import { Clock, CheckCircle2, Pencil } from "lucide-react";
 import { LoadingAnimation } from "@/components/LoadingAnimation";
 import { RecipeSchema } from "@/components/RecipeSchema";
 import { InstacartCTA } from "@/components/InstacartCTA";
@@ -10,6 +10,12 @@ import { InstacartRedirectModal } from "@/components/InstacartRedirectModal";
 import { createInstacartRecipePage } from "@/lib/api";
 import { useState, useEffect } from "react";
 import { ClarityService } from "@/lib/clarity";
+import { ServingsControl } from "@/components/ServingsControl";
+import { CookedRecipeDialog } from "@/components/CookedRecipeDialog";
+import { ExportMenu } from "@/components/ExportMenu";
+import { Button } from "@/components/ui/button";
+import { useUser } from "@/hooks/use-user";
+import { formatQuantity, scaleIngredients } from "@db/units";
 
 interface RecipeIngredient {
   name: string;
@@ -17,20 +23,22 @@ interface RecipeIngredient {
   unit: string;
 }
 
-interface RecipeNutrition {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-}
-
-export interface RecipeData extends Omit<Recipe, 'ingredients' | 'instructions' | 'tags' | 'nutrition'> {
+export interface RecipeData extends Omit<Recipe, 'ingredients' | 'instructions' | 'tags' | 'nutrition' | 'allergens'> {
   ingredients: RecipeIngredient[];
   instructions: string[];
   tags: string[];
   nutrition: RecipeNutrition;
+  allergens?: string[] | null;
 }
 
+// Detail that only newer recipes carry, shown when present
+const extraNutrients: Array<{ key: 'saturated_fat' | 'fiber' | 'sugar' | 'sodium'; label: string; unit: string }> = [
+  { key: 'saturated_fat', label: 'Saturated Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
 export default function RecipeView() {
   const params = useParams<{ id: string }>();
   const [isCreatingInstacartPage, setIsCreatingInstacartPage] = useState(false);
@@ -40,6 +48,9 @@ export default function RecipeView() {
     recipeName: string;
     ingredientCount: number;
   } | null>(null);
+  const [servings, setServings] = useState<number | null>(null);
+  const [showCookedDialog, setShowCookedDialog] = useState(false);
+  const { data: user } = useUser();
   const { theme } = useTheme();
   
   // Helper function to resolve the actual theme
@@ -212,6 +223,10 @@ export default function RecipeView() {
     );
   }
 
+  // Servings picked on this page rescale the ingredient list; the recipe itself is unchanged
+  const displayServings = servings ?? recipe.servings;
+  const scaledIngredients = scaleIngredients(recipe.ingredients ?? [], recipe.servings, displayServings);
+
   console.log('Rendering recipe:', {
     id: recipe.id,
     name: recipe.name,
@@ -244,10 +259,9 @@ export default function RecipeView() {
               Prep: {recipe.prep_time}m | Cook: {recipe.cook_time}m
             </span>
           </div>
-          <div className="flex items-center gap-2">
-            <Users className="w-5 h-5 text-muted-foreground" />
-            <span className="text-muted-foreground">Serves {recipe.servings}</span>
-          </div>
+          {recipe.servings ? (
+            <ServingsControl servings={displayServings ?? recipe.servings} onChange={setServings} />
+          ) : null}
         </div>
       </div>
 
@@ -257,12 +271,32 @@ export default function RecipeView() {
         <div>
           <h2 className="text-2xl font-bold mb-4">Ingredients</h2>
           <ul className="space-y-2">
-            {recipe.ingredients?.map((ingredient, index) => (
+            {scaledIngredients.map((ingredient, index) => (
               <li key={index} className="text-muted-foreground">
-                {ingredient.amount} {ingredient.unit} {ingredient.name}
+                {formatQuantity(ingredient.amount)} {ingredient.unit} {ingredient.name}
               </li>
             ))}
           </ul>
+          {user && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4 flex items-center gap-2"
+              onClick={() => setShowCookedDialog(true)}
+            >
+              <CheckCircle2 className="h-4 w-4" />
+              I cooked this
+            </Button>
+          )}
+          {user && (
+            <Button variant="outline" size="sm" className="mt-2 flex items-center gap-2" asChild>
+              <Link href={`/recipes/${recipe.id}/edit`}>
+                <Pencil className="h-4 w-4" />
+                {recipe.author_id === user.id ? "Edit recipe" : "Make it my own"}
+              </Link>
+            </Button>
+          )}
+          <ExportMenu kind="recipes" id={recipe.id} size="sm" className="mt-2" />
         </div>
 
         {/* Instructions */}
@@ -319,7 +353,18 @@ export default function RecipeView() {
             <p className="text-lg font-semibold">{recipe.nutrition.fat}g</p>
             <p className="text-sm text-muted-foreground">Fat</p>
           </div>
+          {extraNutrients.map(({ key, label, unit }) => recipe.nutrition[key] !== undefined && (
+            <div key={key} className="p-4 rounded-lg">
+              <p className="text-lg font-semibold">{recipe.nutrition[key]}{unit}</p>
+              <p className="text-sm text-muted-foreground">{label}</p>
+            </div>
+          ))}
         </div>
+        {recipe.allergens && recipe.allergens.length > 0 && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            <span className="font-semibold text-foreground">Contains:</span> {recipe.allergens.join(", ")}
+          </p>
+        )}
       </div>
 
       {/* Tags */}
@@ -351,6 +396,16 @@ export default function RecipeView() {
           ingredientCount={instacartData.ingredientCount}
         />
       )}
+
+      {showCookedDialog && (
+        <CookedRecipeDialog
+          open={showCookedDialog}
+          onOpenChange={setShowCookedDialog}
+          recipeId={recipe.id}
+          recipeName={recipe.name}
+          servings={displayServings}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
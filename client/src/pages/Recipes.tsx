@@ -1,17 +1,19 @@
 import { useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { fetchRecipes } from "@/lib/api";
 import { useUser } from "@/hooks/use-user";
 import { useSubscription } from "@/hooks/use-subscription";
 import RecipeCard from "@/components/RecipeCard";
 import { MyRecipes } from "@/components/MyRecipes";
+import ImportRecipeDialog from "@/components/ImportRecipeDialog";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Search, ChevronLeft, ChevronRight, ChefHat } from "lucide-react";
+import { Search, ChevronLeft, ChevronRight, ChefHat, Plus, Download } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { SubscriptionModal } from "@/components/SubscriptionModal";
@@ -60,6 +62,7 @@ export default function Recipes() {
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
   const [showUnfavoriteModal, setShowUnfavoriteModal] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [recipeToUnfavorite, setRecipeToUnfavorite] = useState<Recipe | null>(null);
   const [isCreatingInstacartPage, setIsCreatingInstacartPage] = useState(false);
   const { subscription } = useSubscription();
@@ -369,6 +372,8 @@ export default function Recipes() {
         feature="My Recipes"
       />
 
+      <ImportRecipeDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
+
       <AlertDialog open={showUnfavoriteModal} onOpenChange={setShowUnfavoriteModal}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -393,7 +398,23 @@ export default function Recipes() {
       </AlertDialog>
 
       <div className="flex flex-col gap-4">
-        <h1 className="text-4xl font-bold">Recipe Collection</h1>
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-4xl font-bold">Recipe Collection</h1>
+          {user && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                <Download className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button asChild>
+                <Link href="/recipes/new">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Write a recipe
+                </Link>
+              </Button>
+            </div>
+          )}
+        </div>
         <div className="relative">
           <Search className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
           <Input
@@ -6,12 +6,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardHeader, CardContent, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
-import { Loader2, Settings, User, CreditCard, LogOut, Palette, Moon, Sun } from "lucide-react";
+import { Activity, Loader2, Settings, User, Users, CreditCard, LogOut, Palette, Moon, Sun } from "lucide-react";
 import PreferenceModal from "@/components/PreferenceModal";
 import PreferenceSheet from "@/components/PreferenceSheet";
 import { PreferenceSchema } from "@db/schema";
 import type { Preferences } from "@db/schema";
 import { SubscriptionManager } from "@/components/SubscriptionManager";
+import { HouseholdManager } from "@/components/HouseholdManager";
+import { NutritionTargetsForm } from "@/components/NutritionTargetsForm";
 import { cn } from "@/lib/utils";
 import { useTheme } from "@/hooks/use-theme";
 import { useMediaQuery } from "@/hooks/use-media-query";
@@ -30,6 +32,8 @@ interface Section {
 const sections: Section[] = [
   { id: "profile", title: "Profile", icon: <User className="h-4 w-4" /> },
   { id: "preferences", title: "Preferences", icon: <Settings className="h-4 w-4" /> },
+  { id: "nutrition", title: "Nutrition", icon: <Activity className="h-4 w-4" /> },
+  { id: "household", title: "Household", icon: <Users className="h-4 w-4" /> },
   { id: "themes", title: "Themes", icon: <Palette className="h-4 w-4" /> },
   { id: "subscription", title: "Subscription", icon: <CreditCard className="h-4 w-4" /> },
 ];
@@ -402,9 +406,45 @@ export default function UserProfile() {
                     </CardFooter>
                   </Card>
                 </section>
+
+                <section
+                  ref={(el) => (sectionRefs.current.nutrition = el)}
+                  id="nutrition"
+                  className="scroll-mt-16"
+                >
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Daily Nutrition Targets</CardTitle>
+                      <CardDescription>
+                        New meal plans are built around these, and the Nutrition tab checks each day against them
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <NutritionTargetsForm />
+                    </CardContent>
+                  </Card>
+                </section>
               </div>
 
               <div className="space-y-6 md:col-span-1">
+                <section
+                  ref={(el) => (sectionRefs.current.household = el)}
+                  id="household"
+                  className="scroll-mt-16"
+                >
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Household</CardTitle>
+                      <CardDescription>
+                        Share your pantry, meal plans and grocery lists
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <HouseholdManager />
+                    </CardContent>
+                  </Card>
+                </section>
+
                 <section
                   ref={(el) => (sectionRefs.current.themes = el)}
                   id="themes"
@@ -2,11 +2,13 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useUser } from "@/hooks/use-user";
 import { useSubscription } from "@/hooks/use-subscription";
+import { useMealPlanJob } from "@/hooks/use-meal-plan-job";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
 import { LoadingAnimation } from "@/components/LoadingAnimation";
 import { MealPlanLoadingState } from "@/components/MealPlanLoadingState";
+import { MealPlanJobProgress } from "@/components/MealPlanJobProgress";
 import { SuggestionLoadingState } from "@/components/SuggestionLoadingState";
 import { SubscriptionModal } from "@/components/SubscriptionModal";
 import FavoritesSection from "@/components/FavoritesSection";
@@ -14,8 +16,9 @@ import FavoritesSection from "@/components/FavoritesSection";
 import { Calendar, Sunrise, Sun, Moon, Wand2, CheckCircle, Loader2, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useLocation } from "wouter";
-import { getCurrentMealPlan } from "@/lib/api";
+import { getCurrentMealPlan, type MealPlanJob } from "@/lib/api";
 import type { Preferences } from "@db/schema";
 import { PreferenceSchema } from "@db/schema";
 import type { Recipe } from "@/lib/types";
@@ -245,10 +248,45 @@ export default function WeeklyPlanner() {
     },
   });
 
+  // The plan being built from the picked dishes, which fills in as each recipe is written
+  const [planJobId, setPlanJobId] = useState<number | null>(null);
+  const { job: planJob, isFinished: isPlanFinished, retry: retryPlanSlot } = useMealPlanJob(planJobId);
+
+  const openMealPlan = async () => {
+    // Invalidate and refetch the current meal plan query to ensure fresh data
+    await queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
+    setPlanJobId(null);
+
+    // Small delay to ensure query invalidation completes before redirect
+    setTimeout(() => {
+      setLocation('/meal-plan');
+    }, 100);
+  };
+
+  useEffect(() => {
+    if (!planJob || !isPlanFinished) return;
+
+    if (planJob.status === 'failed') {
+      toast({
+        title: "Error",
+        description: planJob.error || "Failed to create meal plan",
+        variant: "destructive",
+      });
+      setPlanJobId(null);
+    } else if (planJob.failed === 0) {
+      toast({
+        title: "Meal Plan Created!",
+        description: "Your weekly meal plan has been generated successfully.",
+      });
+      openMealPlan();
+    }
+    // With failed recipes the dialog stays open so they can be retried
+  }, [isPlanFinished, planJob?.failed]);
+
   // Create meal plan mutation
   const createMealPlanMutation = useMutation({
-    mutationFn: async ({ selectedRecipes, preferences }: { selectedRecipes: SelectedRecipes; preferences: Preferences }) => {
-      const response = await fetch('/api/weekly-planner/create-plan', {
+    mutationFn: async ({ selectedRecipes, preferences }: { selectedRecipes: SelectedRecipes; preferences: Preferences }): Promise<MealPlanJob> => {
+      const response = await fetch('/api/weekly-planner/plan-jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -276,19 +314,8 @@ export default function WeeklyPlanner() {
 
       return response.json();
     },
-    onSuccess: async () => {
-      // Invalidate and refetch the current meal plan query to ensure fresh data
-      await queryClient.invalidateQueries({ queryKey: ['current-meal-plan'] });
-      
-      toast({
-        title: "Meal Plan Created!",
-        description: "Your weekly meal plan has been generated successfully.",
-      });
-      
-      // Small delay to ensure query invalidation completes before redirect
-      setTimeout(() => {
-        setLocation('/meal-plan');
-      }, 100);
+    onSuccess: (job) => {
+      setPlanJobId(job.id);
     },
     onError: (error: Error) => {
       // Check if this is an upgrade required error
@@ -810,6 +837,34 @@ export default function WeeklyPlanner() {
         />
       )}
 
+      {/* Meal Plan Progress - recipes appear as they're written */}
+      <Dialog
+        open={planJobId !== null}
+        onOpenChange={(open) => {
+          // Generation carries on server-side, but the dialog stays until there's a plan to show
+          if (!open && isPlanFinished) setPlanJobId(null);
+        }}
+      >
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Creating your {planJob?.days ?? selectedDays}-day meal plan</DialogTitle>
+            <DialogDescription>
+              Recipes appear here as soon as they're written. You can retry any that didn't work out.
+            </DialogDescription>
+          </DialogHeader>
+          <MealPlanJobProgress
+            job={planJob}
+            startDate={planJob ? new Date(planJob.created_at) : new Date()}
+            onRetry={retryPlanSlot}
+          />
+          <DialogFooter>
+            <Button onClick={openMealPlan} disabled={!planJob?.meal_plan_id}>
+              View Meal Plan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Subscription Modal */}
       <SubscriptionModal
         open={showSubscriptionModal}
@@ -0,0 +1,133 @@
+// Allergen detection from ingredient names, shared by the server and the client.
+// Each allergen lists the words that signal it and the phrases that look like a match
+// but aren't ("peanut butter" isn't dairy, "coconut milk" isn't milk).
+
+import { PREDEFINED_ALLERGENS } from "./schema";
+
+export type Allergen = typeof PREDEFINED_ALLERGENS[number] | "Fish" | "Sesame";
+
+interface AllergenDefinition {
+  aliases: string[]; // other names people use for the allergen itself
+  terms: string[];
+  exceptions: string[];
+}
+
+export const ALLERGEN_LEXICON: Record<Allergen, AllergenDefinition> = {
+  Dairy: {
+    aliases: ["milk", "lactose", "dairy products"],
+    terms: [
+      "milk", "buttermilk", "butter", "ghee", "cream", "creme fraiche", "sour cream", "half and half", "half-and-half",
+      "cheese", "cheddar", "mozzarella", "parmesan", "parmigiano", "pecorino", "ricotta", "feta", "brie", "gouda",
+      "gruyere", "mascarpone", "cottage cheese", "cream cheese", "queso", "paneer", "burrata", "provolone", "swiss cheese",
+      "yogurt", "yoghurt", "kefir", "whey", "casein", "custard", "ice cream",
+    ],
+    exceptions: [
+      "coconut milk", "coconut cream", "almond milk", "oat milk", "soy milk", "rice milk", "cashew milk",
+      "peanut butter", "almond butter", "cashew butter", "nut butter", "sunflower butter", "apple butter", "cocoa butter",
+      "shea butter", "cream of tartar", "dairy-free", "dairy free", "vegan cheese", "vegan butter", "nutritional yeast",
+    ],
+  },
+  Eggs: {
+    aliases: ["egg"],
+    terms: ["egg", "eggs", "egg white", "egg whites", "egg yolk", "egg yolks", "mayonnaise", "mayo", "aioli", "meringue", "egg noodles"],
+    exceptions: ["eggplant", "eggplants", "vegan mayo", "vegan mayonnaise", "egg-free", "egg free"],
+  },
+  "Tree Nuts": {
+    aliases: ["nuts", "tree nut", "nut"],
+    terms: [
+      "almond", "almonds", "cashew", "cashews", "walnut", "walnuts", "pecan", "pecans", "pistachio", "pistachios",
+      "hazelnut", "hazelnuts", "macadamia", "brazil nut", "brazil nuts", "pine nut", "pine nuts", "praline",
+      "marzipan", "nutella", "almond flour", "almond milk", "pesto",
+    ],
+    exceptions: ["nut-free", "nut free", "butternut", "butternut squash", "nutmeg", "water chestnut", "water chestnuts"],
+  },
+  Peanuts: {
+    aliases: ["peanut"],
+    terms: ["peanut", "peanuts", "peanut butter", "peanut oil", "groundnut", "satay"],
+    exceptions: ["peanut-free", "peanut free"],
+  },
+  Shellfish: {
+    aliases: ["crustaceans", "mollusks", "molluscs"],
+    terms: [
+      "shrimp", "prawn", "prawns", "crab", "lobster", "crawfish", "crayfish", "langoustine", "scallop", "scallops",
+      "clam", "clams", "mussel", "mussels", "oyster", "oysters", "squid", "calamari", "octopus", "oyster sauce",
+    ],
+    exceptions: ["crab apple", "crab apples", "imitation crab"],
+  },
+  Wheat: {
+    aliases: ["gluten", "wheat flour"],
+    terms: [
+      "wheat", "flour", "all-purpose flour", "bread", "breadcrumbs", "bread crumbs", "panko", "pasta", "spaghetti",
+      "penne", "fettuccine", "linguine", "macaroni", "lasagna", "noodles", "couscous", "bulgur", "farro", "semolina",
+      "seitan", "tortilla", "tortillas", "pita", "naan", "croutons", "cracker", "crackers", "soy sauce", "barley", "rye",
+      "spelt", "bun", "buns", "bagel", "baguette", "pie crust", "puff pastry", "phyllo",
+    ],
+    exceptions: [
+      "gluten-free", "gluten free", "rice flour", "almond flour", "coconut flour", "corn flour", "cornflour",
+      "oat flour", "chickpea flour", "tapioca flour", "buckwheat", "corn tortilla", "corn tortillas", "rice noodles",
+      "glass noodles", "rice paper",
+    ],
+  },
+  Soy: {
+    aliases: ["soya", "soybean", "soybeans"],
+    terms: ["soy", "soya", "soybean", "soybeans", "soy sauce", "tofu", "tempeh", "edamame", "miso", "tamari", "soy milk"],
+    exceptions: ["soy-free", "soy free", "coconut aminos"],
+  },
+  Fish: {
+    aliases: ["finfish"],
+    terms: [
+      "fish", "salmon", "tuna", "cod", "tilapia", "halibut", "trout", "anchovy", "anchovies", "sardine", "sardines",
+      "mackerel", "haddock", "snapper", "bass", "catfish", "swordfish", "mahi mahi", "pollock", "fish sauce",
+      "worcestershire sauce",
+    ],
+    exceptions: [],
+  },
+  Sesame: {
+    aliases: ["sesame seed", "sesame seeds"],
+    terms: ["sesame", "sesame oil", "sesame seeds", "tahini", "hummus", "za'atar", "furikake", "gomasio"],
+    exceptions: [],
+  },
+};
+
+const ALLERGENS = Object.keys(ALLERGEN_LEXICON) as Allergen[];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-word, case-insensitive match so "egg" doesn't find "eggplant"
+function containsPhrase(text: string, phrase: string): boolean {
+  return new RegExp(`(^|[^a-z])${escapeRegExp(phrase)}($|[^a-z])`, "i").test(text);
+}
+
+// The ingredient text left once phrases that only look like the allergen are taken out
+function withoutExceptions(text: string, allergen: Allergen): string {
+  return ALLERGEN_LEXICON[allergen].exceptions.reduce(
+    (remaining, exception) => remaining.replace(new RegExp(escapeRegExp(exception), "gi"), " "),
+    text.toLowerCase()
+  );
+}
+
+// The lexicon allergen a user-entered allergy refers to ("milk" → Dairy), if any
+export function resolveAllergen(allergy: string): Allergen | null {
+  const key = allergy.trim().toLowerCase();
+  return ALLERGENS.find(allergen =>
+    allergen.toLowerCase() === key || ALLERGEN_LEXICON[allergen].aliases.includes(key)
+  ) ?? null;
+}
+
+// Whether an ingredient name contains an allergen. Allergies outside the lexicon match by name.
+export function ingredientContainsAllergen(ingredientName: string, allergy: string): boolean {
+  const allergen = resolveAllergen(allergy);
+  if (!allergen) return containsPhrase(ingredientName, allergy.trim().toLowerCase());
+
+  const text = withoutExceptions(ingredientName, allergen);
+  return ALLERGEN_LEXICON[allergen].terms.some(term => containsPhrase(text, term));
+}
+
+// Every lexicon allergen present in a recipe's ingredients, in lexicon order
+export function detectAllergens(ingredients: Array<{ name?: unknown }> | null | undefined): Allergen[] {
+  const names = (ingredients ?? [])
+    .map(ingredient => typeof ingredient?.name === "string" ? ingredient.name : "")
+    .filter(Boolean);
+
+  return ALLERGENS.filter(allergen => names.some(name => ingredientContainsAllergen(name, allergen)));
+}
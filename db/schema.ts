@@ -1,4 +1,4 @@
-import { pgTable, integer, text, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, integer, text, timestamp, jsonb, boolean, real } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -46,11 +46,25 @@ export const RecipeIngredientSchema = z.object({
   unit: z.string()
 });
 
+// Per serving. Macros are in grams; sodium is in milligrams. The extra detail is optional
+// because recipes generated before it was tracked only have the first four.
 export const RecipeNutritionSchema = z.object({
   calories: z.number(),
   protein: z.number(),
   carbs: z.number(),
-  fat: z.number()
+  fat: z.number(),
+  saturated_fat: z.number().optional(),
+  fiber: z.number().optional(),
+  sugar: z.number().optional(),
+  sodium: z.number().optional()
+});
+
+// Daily per-person targets set on the profile; any of them may be left unset
+export const NutritionTargetsSchema = z.object({
+  calories: z.number().positive().max(10000).nullable(),
+  protein: z.number().nonnegative().max(1000).nullable(),
+  carbs: z.number().nonnegative().max(2000).nullable(),
+  fat: z.number().nonnegative().max(1000).nullable(),
 });
 
 // Define tag-related schemas
@@ -62,6 +76,9 @@ export const DifficultyEnum = z.enum(["Easy", "Moderate", "Advanced"]);
 // Define pantry-related schemas
 export const PantryCategoryEnum = z.enum(["produce", "dairy", "meat", "pantry", "frozen", "condiments", "spices", "beverages", "other"]);
 export const QuantityStatusEnum = z.enum(["full", "half", "running_low", "empty"]);
+export const PantryLocationEnum = z.enum(["pantry", "fridge", "freezer"]);
+export const DiscardReasonEnum = z.enum(["spoiled", "expired", "didnt_like", "other"]);
+export const PriceSourceEnum = z.enum(["receipt", "manual"]);
 
 export const PantryItemSchema = z.object({
   name: z.string(),
@@ -69,6 +86,7 @@ export const PantryItemSchema = z.object({
   quantity: z.number().optional(),
   unit: z.string().optional(),
   quantityStatus: QuantityStatusEnum.default("full"),
+  location: PantryLocationEnum.optional(),
   estimatedShelfLifeDays: z.number().optional(),
   userNotes: z.string().optional(),
   isStaple: z.boolean().default(false),
@@ -93,6 +111,8 @@ export const users = pgTable("users", {
   created_at: timestamp("created_at", { mode: 'date' }).defaultNow().notNull(),
   is_partial_registration: boolean("is_partial_registration").default(false),
   is_admin: boolean("is_admin").default(false).notNull(),
+  weekly_budget: real("weekly_budget"), // grocery budget in dollars that meal plan generation aims for
+  nutrition_targets: jsonb("nutrition_targets").$type<z.infer<typeof NutritionTargetsSchema>>(),
 });
 
 export const recipes = pgTable("recipes", {
@@ -108,6 +128,16 @@ export const recipes = pgTable("recipes", {
   instructions: jsonb("instructions").$type<string[]>(),
   tags: jsonb("tags").$type<string[]>(),
   nutrition: jsonb("nutrition").$type<z.infer<typeof RecipeNutritionSchema>>(),
+  meal_type: text("meal_type").$type<z.infer<typeof MealTypeEnum>>(),
+  cuisine_type: text("cuisine_type").$type<z.infer<typeof CuisineTypeEnum>>(),
+  dietary_restrictions: jsonb("dietary_restrictions").$type<z.infer<typeof DietaryTypeEnum>[]>(),
+  difficulty: text("difficulty").$type<z.infer<typeof DifficultyEnum>>(),
+  allergens: jsonb("allergens").$type<string[]>(),
+  // Saving the same recipe twice reuses the library copy, see server/services/recipeLibrary.ts
+  content_hash: text("content_hash").unique(),
+  // Set on recipes a user wrote or edited, which only they can change and which are never deduped
+  author_id: integer("author_id").references(() => users.id),
+  forked_from_id: integer("forked_from_id"), // the temporary or library recipe an edit started from
   complexity: integer("complexity").notNull(),
   favorites_count: integer("favorites_count").default(0).notNull(),
   created_at: timestamp("created_at").defaultNow().notNull()
@@ -128,9 +158,11 @@ export const mealPlans = pgTable("meal_plans", {
 export const mealPlanRecipes = pgTable("meal_plan_recipes", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   meal_plan_id: integer("meal_plan_id").notNull().references(() => mealPlans.id),
-  recipe_id: integer("recipe_id").notNull().references(() => temporaryRecipes.id),
+  // A temporary recipe, or the library recipe it was saved as (the id ranges don't overlap)
+  recipe_id: integer("recipe_id").notNull(),
   day: timestamp("day").notNull(),
   meal: text("meal").notNull(),
+  servings: integer("servings"),
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -138,6 +170,7 @@ export const userRecipes = pgTable("user_recipes", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   user_id: integer("user_id").notNull().references(() => users.id),
   recipe_id: integer("recipe_id").notNull().references(() => recipes.id),
+  favorited: boolean("favorited").default(false).notNull(),
   created_at: timestamp("created_at").defaultNow().notNull()
 });
 
@@ -162,6 +195,7 @@ export const temporaryRecipes = pgTable("temporary_recipes", {
   // Keep original tags for backward compatibility and miscellaneous tags
   tags: jsonb("tags"),
   nutrition: jsonb("nutrition"),
+  allergens: jsonb("allergens").$type<string[]>(), // derived from ingredient names, see db/allergens.ts
   complexity: integer("complexity").notNull(),
   favorites_count: integer("favorites_count").default(0).notNull(),
   created_at: timestamp("created_at").defaultNow().notNull(),
@@ -171,11 +205,26 @@ export const temporaryRecipes = pgTable("temporary_recipes", {
 export const groceryLists = pgTable("grocery_lists", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   user_id: integer("user_id").notNull().references(() => users.id),
-  meal_plan_id: integer("meal_plan_id").references(() => mealPlans.id),
+  meal_plan_id: integer("meal_plan_id").unique().references(() => mealPlans.id), // one list per meal plan
   items: jsonb("items").notNull(),
   created: timestamp("created").notNull(),
 });
 
+// Grocery List Items table (one row per line so check-off state and edits persist)
+export const groceryListItems = pgTable("grocery_list_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  grocery_list_id: integer("grocery_list_id").notNull().references(() => groceryLists.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  amount: real("amount"),
+  unit: text("unit"),
+  is_checked: boolean("is_checked").default(false).notNull(),
+  is_organic: boolean("is_organic").default(false).notNull(),
+  is_manual: boolean("is_manual").default(false).notNull(), // added by hand rather than derived from recipes
+  checked_by: integer("checked_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const mealPlanFeedback = pgTable("meal_plan_feedback", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   user_id: integer("user_id").notNull().references(() => users.id),
@@ -185,22 +234,87 @@ export const mealPlanFeedback = pgTable("meal_plan_feedback", {
   created_at: timestamp("created_at", { mode: 'date' }).defaultNow().notNull(),
 });
 
+export const AllergenGuardActionEnum = z.enum(["regenerated", "rejected"]);
+
+// Generated recipes that contained one of the user's allergens, for admins to review
+export const allergenRejections = pgTable("allergen_rejections", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // which generation flow produced the recipe
+  recipe_name: text("recipe_name").notNull(),
+  allergies: jsonb("allergies").$type<string[]>().notNull(),
+  violations: jsonb("violations").$type<Array<{ allergy: string; ingredient: string }>>().notNull(),
+  action: text("action").$type<z.infer<typeof AllergenGuardActionEnum>>().notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const MealPlanJobStatusEnum = z.enum(["queued", "running", "complete", "failed"]);
+export const MealPlanJobItemStatusEnum = z.enum(["pending", "complete", "failed"]);
+export const MealPlanJobSourceEnum = z.enum(["meal_plan", "weekly_planner"]);
+
+// What a meal plan job was asked to generate, resolved when it was queued
+export interface MealPlanJobParams {
+  preferences: {
+    dietary: string[];
+    allergies: string[];
+    cuisine: string[];
+    meatTypes: string[];
+    chefPreferences: Record<string, unknown>;
+  };
+  budgetPerServing: number | null;
+  mealTargets: Record<"breakfast" | "lunch" | "dinner", z.infer<typeof NutritionTargetsSchema>> | null;
+}
+
+// Meal plan generation runs in the background; each job has one item per recipe so progress and
+// finished recipes survive a restart
+export const mealPlanJobs = pgTable("meal_plan_jobs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  status: text("status").$type<z.infer<typeof MealPlanJobStatusEnum>>().notNull().default("queued"), // one queued or running job per user
+  source: text("source").$type<z.infer<typeof MealPlanJobSourceEnum>>().notNull().default("meal_plan"),
+  days: integer("days").notNull(),
+  params: jsonb("params").$type<MealPlanJobParams>().notNull(),
+  meal_plan_id: integer("meal_plan_id").references(() => mealPlans.id),
+  error: text("error"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  started_at: timestamp("started_at"),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+  finished_at: timestamp("finished_at"),
+});
+
+export const mealPlanJobItems = pgTable("meal_plan_job_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  job_id: integer("job_id").notNull().references(() => mealPlanJobs.id, { onDelete: "cascade" }),
+  task_id: text("task_id").notNull(), // e.g. day-0-breakfast
+  day: integer("day").notNull(), // offset from the plan's start date
+  meal: text("meal").$type<"breakfast" | "lunch" | "dinner">().notNull(),
+  cuisine: text("cuisine"), // for generated meals
+  title: text("title"), // for dishes picked in the weekly planner
+  status: text("status").$type<z.infer<typeof MealPlanJobItemStatusEnum>>().notNull().default("pending"),
+  recipe_id: integer("recipe_id").references(() => temporaryRecipes.id),
+  error: text("error"),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // MyPantry tables
 export const pantryItems = pgTable("pantry_items", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   user_id: integer("user_id").notNull().references(() => users.id),
   name: text("name").notNull(),
   category: text("category").$type<z.infer<typeof PantryCategoryEnum>>(),
-  quantity: integer("quantity"),
+  quantity: real("quantity"),
   unit: text("unit"),
   quantity_status: text("quantity_status").$type<z.infer<typeof QuantityStatusEnum>>().default("full"),
+  location: text("location").$type<z.infer<typeof PantryLocationEnum>>(),
   added_date: timestamp("added_date").defaultNow().notNull(),
   last_used_date: timestamp("last_used_date"),
   estimated_shelf_life_days: integer("estimated_shelf_life_days"),
+  best_before_date: timestamp("best_before_date"),
   user_notes: text("user_notes"),
   barcode: text("barcode"),
   image_url: text("image_url"),
   is_staple: boolean("is_staple").default(false),
+  price: real("price"), // what was paid for the item as stocked
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -215,17 +329,53 @@ export const ingredientDefaults = pgTable("ingredient_defaults", {
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Products known by barcode (UPC/EAN), seeded or cached from an external lookup provider
+export const productCatalog = pgTable("product_catalog", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  barcode: text("barcode").notNull().unique(), // normalized to 13+ digits, see normalizeBarcode()
+  name: text("name").notNull(),
+  brand: text("brand"),
+  category: text("category").$type<z.infer<typeof PantryCategoryEnum>>().notNull().default("other"),
+  default_quantity: real("default_quantity"),
+  default_unit: text("default_unit"),
+  shelf_life_days: integer("shelf_life_days"),
+  source: text("source").notNull().default("seed"), // 'seed' or the provider it was looked up from
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const pantryUsageLog = pgTable("pantry_usage_log", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   user_id: integer("user_id").notNull().references(() => users.id),
-  pantry_item_id: integer("pantry_item_id").notNull().references(() => pantryItems.id),
-  action: text("action").notNull(), // 'added', 'used', 'updated', 'removed'
-  quantity_used: integer("quantity_used"),
+  // Kept (as null) when the item is deleted so waste history survives
+  pantry_item_id: integer("pantry_item_id").references(() => pantryItems.id, { onDelete: "set null" }),
+  item_name: text("item_name"),
+  category: text("category"),
+  action: text("action").notNull(), // 'added', 'used', 'updated', 'removed', 'moved', 'discarded'
+  quantity_used: real("quantity_used"),
+  reason: text("reason").$type<z.infer<typeof DiscardReasonEnum>>(), // why a discarded item was thrown out
+  cost: real("cost"), // value of what was discarded, when the user knows it
   recipe_id: integer("recipe_id").references(() => temporaryRecipes.id),
   notes: text("notes"),
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Price paid for an ingredient, from a receipt or typed in, so costs can be estimated over time
+export const ingredientPrices = pgTable("ingredient_prices", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  pantry_item_id: integer("pantry_item_id").references(() => pantryItems.id, { onDelete: "set null" }),
+  ingredient_key: text("ingredient_key").notNull(), // canonical name from ingredientKey()
+  name: text("name").notNull(),
+  price: real("price").notNull(), // total paid for quantity/unit
+  quantity: real("quantity"),
+  unit: text("unit"),
+  store: text("store"),
+  source: text("source").$type<z.infer<typeof PriceSourceEnum>>().notNull().default("manual"),
+  purchased_at: timestamp("purchased_at").defaultNow().notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Meal Prep Mode schemas
 export const MealPrepGoalEnum = z.enum(["high_protein", "budget_friendly", "time_saving", "kid_friendly", "low_carb"]);
 export const MealPrepComponentTypeEnum = z.enum(["protein", "carb", "vegetable"]);
@@ -271,6 +421,40 @@ export const mealPrepAssemblies = pgTable("meal_prep_assemblies", {
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Household schemas
+export const HouseholdRoleEnum = z.enum(["owner", "editor", "viewer"]);
+export const HouseholdInvitationStatusEnum = z.enum(["pending", "accepted", "declined", "revoked"]);
+
+// Households table (members share meal plans, pantry and grocery lists)
+export const households = pgTable("households", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").notNull(),
+  created_by: integer("created_by").notNull().references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Household Members table (a user belongs to at most one household)
+export const householdMembers = pgTable("household_members", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  household_id: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  user_id: integer("user_id").notNull().unique().references(() => users.id),
+  role: text("role").$type<z.infer<typeof HouseholdRoleEnum>>().notNull(),
+  joined_at: timestamp("joined_at").defaultNow().notNull(),
+});
+
+// Household Invitations table
+export const householdInvitations = pgTable("household_invitations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  household_id: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role").$type<z.infer<typeof HouseholdRoleEnum>>().notNull(),
+  token: text("token").notNull().unique(),
+  invited_by: integer("invited_by").notNull().references(() => users.id),
+  status: text("status").$type<z.infer<typeof HouseholdInvitationStatusEnum>>().default("pending").notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  expires_at: timestamp("expires_at").notNull(),
+});
+
 // Create validation schemas for inserting/selecting data
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
@@ -282,8 +466,16 @@ export const insertUserRecipeSchema = createInsertSchema(userRecipes);
 export const selectUserRecipeSchema = createSelectSchema(userRecipes);
 export const insertGroceryListSchema = createInsertSchema(groceryLists);
 export const selectGroceryListSchema = createSelectSchema(groceryLists);
+export const insertGroceryListItemSchema = createInsertSchema(groceryListItems);
+export const selectGroceryListItemSchema = createSelectSchema(groceryListItems);
 export const insertMealPlanFeedbackSchema = createInsertSchema(mealPlanFeedback);
 export const selectMealPlanFeedbackSchema = createSelectSchema(mealPlanFeedback);
+export const insertAllergenRejectionSchema = createInsertSchema(allergenRejections);
+export const selectAllergenRejectionSchema = createSelectSchema(allergenRejections);
+export const insertMealPlanJobSchema = createInsertSchema(mealPlanJobs);
+export const selectMealPlanJobSchema = createSelectSchema(mealPlanJobs);
+export const insertMealPlanJobItemSchema = createInsertSchema(mealPlanJobItems);
+export const selectMealPlanJobItemSchema = createSelectSchema(mealPlanJobItems);
 
 // Pantry schemas
 export const insertPantryItemSchema = createInsertSchema(pantryItems);
@@ -292,6 +484,10 @@ export const insertIngredientDefaultSchema = createInsertSchema(ingredientDefaul
 export const selectIngredientDefaultSchema = createSelectSchema(ingredientDefaults);
 export const insertPantryUsageLogSchema = createInsertSchema(pantryUsageLog);
 export const selectPantryUsageLogSchema = createSelectSchema(pantryUsageLog);
+export const insertProductCatalogSchema = createInsertSchema(productCatalog);
+export const selectProductCatalogSchema = createSelectSchema(productCatalog);
+export const insertIngredientPriceSchema = createInsertSchema(ingredientPrices);
+export const selectIngredientPriceSchema = createSelectSchema(ingredientPrices);
 
 // Meal Prep schemas
 export const insertMealPrepPlanSchema = createInsertSchema(mealPrepPlans);
@@ -301,6 +497,14 @@ export const selectMealPrepComponentSchema = createSelectSchema(mealPrepComponen
 export const insertMealPrepAssemblySchema = createInsertSchema(mealPrepAssemblies);
 export const selectMealPrepAssemblySchema = createSelectSchema(mealPrepAssemblies);
 
+// Household schemas
+export const insertHouseholdSchema = createInsertSchema(households);
+export const selectHouseholdSchema = createSelectSchema(households);
+export const insertHouseholdMemberSchema = createInsertSchema(householdMembers);
+export const selectHouseholdMemberSchema = createSelectSchema(householdMembers);
+export const insertHouseholdInvitationSchema = createInsertSchema(householdInvitations);
+export const selectHouseholdInvitationSchema = createSelectSchema(householdInvitations);
+
 export const insertTemporaryRecipeSchema = z.object({
   user_id: z.number(),
   name: z.string(),
@@ -318,6 +522,7 @@ export const insertTemporaryRecipeSchema = z.object({
   difficulty: DifficultyEnum.nullable(),
   tags: z.array(z.string()),
   nutrition: RecipeNutritionSchema,
+  allergens: z.array(z.string()).nullable().optional(),
   complexity: z.number(),
   created_at: z.date(),
   expires_at: z.date(),
@@ -327,15 +532,59 @@ export const insertTemporaryRecipeSchema = z.object({
 
 export const selectTemporaryRecipeSchema = createSelectSchema(temporaryRecipes);
 
+// A recipe as a user writes or edits it
+export const UserRecipeInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(5000).nullable().optional(),
+  prep_time: z.number().int().nonnegative().max(1440).nullable().optional(),
+  cook_time: z.number().int().nonnegative().max(1440).nullable().optional(),
+  servings: z.number().int().positive().max(100),
+  ingredients: z.array(RecipeIngredientSchema.extend({ name: z.string().trim().min(1) })).min(1),
+  instructions: z.array(z.string().trim().min(1)).min(1),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  meal_type: MealTypeEnum.nullable().optional(),
+  cuisine_type: CuisineTypeEnum.nullable().optional(),
+  dietary_restrictions: z.array(DietaryTypeEnum).nullable().optional(),
+  difficulty: DifficultyEnum.nullable().optional(),
+  nutrition: RecipeNutritionSchema.nullable().optional(),
+});
+
+// Where an imported recipe comes from: a page to fetch, pasted page HTML, a schema.org Recipe
+// JSON-LD document (as text or parsed), or plain text. Exactly one is given.
+export const RecipeImportSchema = z.object({
+  url: z.string().url().optional(),
+  html: z.string().min(1).optional(),
+  json_ld: z.union([z.string().min(1), z.record(z.unknown()), z.array(z.unknown())]).optional(),
+  text: z.string().trim().min(1).max(20000).optional(),
+}).refine(
+  source => [source.url, source.html, source.json_ld, source.text].filter(value => value !== undefined).length === 1,
+  { message: "Provide exactly one of url, html, json_ld or text" }
+);
+
+// Formats a recipe, meal plan or meal prep plan can be exported in. Paprika is that app's gzipped
+// JSON recipe file, which other recipe managers import too.
+export const RecipeExportFormatEnum = z.enum(["pdf", "markdown", "json-ld", "paprika"]);
+
 // Export types
 export type User = z.infer<typeof selectUserSchema>;
 export type Recipe = z.infer<typeof selectRecipeSchema>;
 export type UserRecipe = z.infer<typeof selectUserRecipeSchema>;
 export type MealPlan = z.infer<typeof selectMealPlanSchema>;
 export type GroceryList = z.infer<typeof selectGroceryListSchema>;
+export type GroceryListItem = z.infer<typeof selectGroceryListItemSchema>;
 export type MealPlanFeedback = z.infer<typeof selectMealPlanFeedbackSchema>;
+export type AllergenRejection = z.infer<typeof selectAllergenRejectionSchema>;
+export type AllergenGuardAction = z.infer<typeof AllergenGuardActionEnum>;
+export type MealPlanJob = z.infer<typeof selectMealPlanJobSchema>;
+export type MealPlanJobItem = z.infer<typeof selectMealPlanJobItemSchema>;
+export type MealPlanJobStatus = z.infer<typeof MealPlanJobStatusEnum>;
+export type MealPlanJobSource = z.infer<typeof MealPlanJobSourceEnum>;
 export type Preferences = z.infer<typeof PreferenceSchema>;
 export type TemporaryRecipe = z.infer<typeof selectTemporaryRecipeSchema>;
+export type UserRecipeInput = z.infer<typeof UserRecipeInputSchema>;
+export type RecipeImport = z.infer<typeof RecipeImportSchema>;
+export type RecipeExportFormat = z.infer<typeof RecipeExportFormatEnum>;
+export type RecipeNutrition = z.infer<typeof RecipeNutritionSchema>;
 export type SubscriptionTier = z.infer<typeof SubscriptionTierEnum>;
 export type SubscriptionStatus = z.infer<typeof SubscriptionStatusEnum>;
 
@@ -345,6 +594,12 @@ export type IngredientDefault = z.infer<typeof selectIngredientDefaultSchema>;
 export type PantryUsageLog = z.infer<typeof selectPantryUsageLogSchema>;
 export type PantryCategory = z.infer<typeof PantryCategoryEnum>;
 export type QuantityStatus = z.infer<typeof QuantityStatusEnum>;
+export type PantryLocation = z.infer<typeof PantryLocationEnum>;
+export type DiscardReason = z.infer<typeof DiscardReasonEnum>;
+export type IngredientPrice = z.infer<typeof selectIngredientPriceSchema>;
+export type CatalogProduct = z.infer<typeof selectProductCatalogSchema>;
+export type NutritionTargets = z.infer<typeof NutritionTargetsSchema>;
+export type PriceSource = z.infer<typeof PriceSourceEnum>;
 
 // Meal Prep types
 export type MealPrepPlan = z.infer<typeof selectMealPrepPlanSchema>;
@@ -352,4 +607,10 @@ export type MealPrepComponent = z.infer<typeof selectMealPrepComponentSchema>;
 export type MealPrepAssembly = z.infer<typeof selectMealPrepAssemblySchema>;
 export type MealPrepGoal = z.infer<typeof MealPrepGoalEnum>;
 export type MealPrepComponentType = z.infer<typeof MealPrepComponentTypeEnum>;
-export type PrepDay = z.infer<typeof PrepDayEnum>;
\ No newline at end of file
+export type PrepDay = z.infer<typeof PrepDayEnum>;
+
+// Household types
+export type Household = z.infer<typeof selectHouseholdSchema>;
+export type HouseholdMember = z.infer<typeof selectHouseholdMemberSchema>;
+export type HouseholdInvitation = z.infer<typeof selectHouseholdInvitationSchema>;
+export type HouseholdRole = z.infer<typeof HouseholdRoleEnum>;
@@ -0,0 +1,419 @@
+// Unit conversion and quantity normalization shared by the server and the client.
+// Volume amounts convert through milliliters, weights through grams, and the two
+// meet through per-ingredient densities ("1 cup flour ≈ 120 g").
+
+export type UnitDimension = "volume" | "weight" | "count";
+
+export interface Quantity {
+  amount: number;
+  unit: string;
+}
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  toBase: number; // milliliters, grams or items
+  singular: string;
+  plural: string;
+  aliases: string[];
+}
+
+// Canonical unit keys are the short forms cooks write ("tbsp", "cup", "lb")
+const UNITS: Record<string, UnitDefinition> = {
+  tsp: { dimension: "volume", toBase: 4.92892, singular: "teaspoon", plural: "teaspoons", aliases: ["tsp.", "tsps", "teaspoon", "teaspoons"] },
+  tbsp: { dimension: "volume", toBase: 14.7868, singular: "tablespoon", plural: "tablespoons", aliases: ["tbsp.", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons"] },
+  "fl oz": { dimension: "volume", toBase: 29.5735, singular: "fluid ounce", plural: "fluid ounces", aliases: ["fl. oz", "fl oz.", "floz", "fluid ounce", "fluid ounces"] },
+  cup: { dimension: "volume", toBase: 236.588, singular: "cup", plural: "cups", aliases: ["c", "c.", "cups"] },
+  pint: { dimension: "volume", toBase: 473.176, singular: "pint", plural: "pints", aliases: ["pt", "pts", "pints"] },
+  quart: { dimension: "volume", toBase: 946.353, singular: "quart", plural: "quarts", aliases: ["qt", "qts", "quarts"] },
+  gallon: { dimension: "volume", toBase: 3785.41, singular: "gallon", plural: "gallons", aliases: ["gal", "gals", "gallons"] },
+  ml: { dimension: "volume", toBase: 1, singular: "milliliter", plural: "milliliters", aliases: ["mls", "milliliter", "milliliters", "millilitre", "millilitres"] },
+  l: { dimension: "volume", toBase: 1000, singular: "liter", plural: "liters", aliases: ["liter", "liters", "litre", "litres", "ltr"] },
+  g: { dimension: "weight", toBase: 1, singular: "gram", plural: "grams", aliases: ["gr", "gram", "grams"] },
+  kg: { dimension: "weight", toBase: 1000, singular: "kilogram", plural: "kilograms", aliases: ["kgs", "kilogram", "kilograms"] },
+  oz: { dimension: "weight", toBase: 28.3495, singular: "ounce", plural: "ounces", aliases: ["oz.", "ounce", "ounces"] },
+  lb: { dimension: "weight", toBase: 453.592, singular: "pound", plural: "pounds", aliases: ["lb.", "lbs", "lbs.", "pound", "pounds"] },
+  each: { dimension: "count", toBase: 1, singular: "each", plural: "each", aliases: ["", "ea", "piece", "pieces", "pc", "pcs", "whole", "item", "items", "unit", "units"] },
+};
+
+// Package and produce units that only combine with themselves ("2 cloves" + "1 clove")
+const COUNTABLE_UNITS: Record<string, string> = {
+  cloves: "clove", slices: "slice", cans: "can", bunches: "bunch", heads: "head",
+  stalks: "stalk", sprigs: "sprig", leaves: "leaf", jars: "jar", bottles: "bottle",
+  packages: "package", pkg: "package", bags: "bag", boxes: "box", pinches: "pinch",
+  dashes: "dash", handfuls: "handful", fillets: "fillet", strips: "strip", sticks: "stick",
+};
+
+const UNIT_ALIASES: Record<string, string> = Object.entries(UNITS).reduce((aliases, [key, definition]) => {
+  aliases[key] = key;
+  definition.aliases.forEach(alias => { aliases[alias] = key; });
+  return aliases;
+}, {} as Record<string, string>);
+
+// Grams per cup for ingredients commonly measured both ways
+const GRAMS_PER_CUP: Record<string, number> = {
+  "flour": 120,
+  "bread flour": 127,
+  "whole wheat flour": 113,
+  "almond flour": 96,
+  "sugar": 200,
+  "brown sugar": 213,
+  "powdered sugar": 120,
+  "butter": 227,
+  "water": 237,
+  "milk": 245,
+  "buttermilk": 245,
+  "heavy cream": 238,
+  "yogurt": 245,
+  "sour cream": 230,
+  "honey": 340,
+  "maple syrup": 315,
+  "oil": 218,
+  "olive oil": 216,
+  "vegetable oil": 218,
+  "salt": 292,
+  "kosher salt": 145,
+  "rice": 185,
+  "oat": 90,
+  "rolled oat": 90,
+  "cocoa powder": 85,
+  "cornstarch": 128,
+  "breadcrumb": 108,
+  "panko": 50,
+  "shredded cheese": 113,
+  "parmesan cheese": 100,
+  "chocolate chip": 170,
+  "peanut butter": 258,
+  "quinoa": 170,
+  "lentil": 192,
+};
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export function roundQuantity(amount: number, decimals = 2): number {
+  return roundTo(amount, decimals);
+}
+
+// Map any spelling of a unit onto its canonical key ("Tablespoons" -> "tbsp")
+export function normalizeUnit(unit?: string | null): string {
+  const cleaned = (unit ?? "").toLowerCase().trim().replace(/\s+/g, " ");
+  if (cleaned in UNIT_ALIASES) return UNIT_ALIASES[cleaned];
+  if (cleaned in COUNTABLE_UNITS) return COUNTABLE_UNITS[cleaned];
+  return cleaned;
+}
+
+export function getUnitDimension(unit?: string | null): UnitDimension | null {
+  return UNITS[normalizeUnit(unit)]?.dimension ?? null;
+}
+
+// Spell a unit out for display, e.g. unitName("tbsp", 2) -> "tablespoons"
+export function unitName(unit: string | null | undefined, amount = 1): string {
+  const key = normalizeUnit(unit);
+  const definition = UNITS[key];
+  if (!definition) {
+    const plural = Object.keys(COUNTABLE_UNITS).find(form => COUNTABLE_UNITS[form] === key && form !== "pkg");
+    return amount !== 1 && plural ? plural : key;
+  }
+  if (key === "each") return "";
+  return amount === 1 ? definition.singular : definition.plural;
+}
+
+// Lowercase an ingredient name and strip prep notes and descriptors
+// ("Fresh Basil Leaves (packed), chopped" -> "basil leaves")
+export function normalizeIngredientName(name: string): string {
+  return name.toLowerCase()
+    .replace(/\([^)]*\)/g, "")
+    .replace(/,.*$/, "")
+    .replace(/^((fresh|dried|frozen|canned|diced|sliced|chopped|minced|ground|cooked|raw|organic|large|medium|small|boneless|skinless|unsalted|salted)\s+)+/, "")
+    .replace(/\b(extra|premium|quality|pure|natural)\b\s*/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Names that refer to the same thing on a shopping list
+const INGREDIENT_SYNONYMS: Record<string, string> = {
+  "all-purpose flour": "flour",
+  "all purpose flour": "flour",
+  "plain flour": "flour",
+  "granulated sugar": "sugar",
+  "white sugar": "sugar",
+  "caster sugar": "sugar",
+  "confectioners sugar": "powdered sugar",
+  "icing sugar": "powdered sugar",
+  "heavy whipping cream": "heavy cream",
+  "whole milk": "milk",
+  "scallion": "green onion",
+  "garlic clove": "garlic",
+  "extra virgin olive oil": "olive oil",
+  "virgin olive oil": "olive oil",
+};
+
+// Normalized, singular form used to decide whether two ingredient lines are the same thing
+export function ingredientKey(name: string): string {
+  const singular = normalizeIngredientName(name)
+    .replace(/oes$/, "o")
+    .replace(/(ch|sh|x|ss)es$/, "$1")
+    .replace(/ies$/, "y")
+    .replace(/([^s])s$/, "$1");
+  return INGREDIENT_SYNONYMS[singular] ?? singular;
+}
+
+// Grams per milliliter for an ingredient, matching on the most specific known name
+export function getDensity(ingredientName?: string | null): number | null {
+  if (!ingredientName) return null;
+  const key = ingredientKey(ingredientName);
+  if (key in GRAMS_PER_CUP) return GRAMS_PER_CUP[key] / UNITS.cup.toBase;
+
+  // "all-purpose flour" and "unbleached flour" fall back to "flour"
+  const match = Object.keys(GRAMS_PER_CUP)
+    .filter(known => key.endsWith(` ${known}`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? GRAMS_PER_CUP[match] / UNITS.cup.toBase : null;
+}
+
+// Convert an amount between units. Volume and weight convert through the ingredient's
+// density when one is known; returns null when the units can't be compared.
+export function convertQuantity(amount: number, fromUnit: string | null | undefined, toUnit: string | null | undefined, ingredientName?: string | null): number | null {
+  const fromKey = normalizeUnit(fromUnit);
+  const toKey = normalizeUnit(toUnit);
+  if (fromKey === toKey) return amount;
+
+  const from = UNITS[fromKey];
+  const to = UNITS[toKey];
+  if (!from || !to) return null;
+
+  if (from.dimension === to.dimension) {
+    return (amount * from.toBase) / to.toBase;
+  }
+
+  const density = getDensity(ingredientName);
+  if (!density) return null;
+
+  if (from.dimension === "volume" && to.dimension === "weight") {
+    return (amount * from.toBase * density) / to.toBase;
+  }
+  if (from.dimension === "weight" && to.dimension === "volume") {
+    return (amount * from.toBase) / density / to.toBase;
+  }
+  return null;
+}
+
+// Merge quantities that can be expressed in a common unit. Amounts of the same
+// dimension collapse into the largest unit used, so "2 tbsp + 1/4 cup" -> "0.375 cup".
+export function combineQuantities(quantities: Quantity[], ingredientName?: string | null): Quantity[] {
+  const combined: Quantity[] = [];
+
+  for (const quantity of quantities) {
+    if (!isFinite(quantity.amount)) continue;
+    const unit = normalizeUnit(quantity.unit);
+    let merged = false;
+
+    for (const existing of combined) {
+      const existingDef = UNITS[existing.unit];
+      const incomingDef = UNITS[unit];
+
+      // Promote the running total to the larger unit when both share a dimension
+      if (existingDef && incomingDef && existingDef.dimension === incomingDef.dimension && incomingDef.toBase > existingDef.toBase) {
+        existing.amount = (existing.amount * existingDef.toBase) / incomingDef.toBase + quantity.amount;
+        existing.unit = unit;
+        merged = true;
+        break;
+      }
+
+      const converted = convertQuantity(quantity.amount, unit, existing.unit, ingredientName);
+      if (converted !== null) {
+        existing.amount += converted;
+        merged = true;
+        break;
+      }
+    }
+
+    if (!merged) combined.push({ amount: quantity.amount, unit });
+  }
+
+  return combined.map(quantity => ({ ...quantity, amount: roundTo(quantity.amount, 4) }));
+}
+
+export interface AggregatedIngredient {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+}
+
+// Combine an ingredient list into one line per ingredient and compatible unit
+export function aggregateIngredients(ingredients: Array<{ name?: unknown; amount?: unknown; unit?: unknown }>): AggregatedIngredient[] {
+  const groups = new Map<string, { name: string; quantities: Quantity[]; unmeasured: boolean }>();
+
+  for (const ingredient of ingredients) {
+    if (typeof ingredient?.name !== "string" || !ingredient.name.trim()) continue;
+
+    const key = ingredientKey(ingredient.name);
+    const group = groups.get(key) ?? { name: ingredient.name.trim(), quantities: [], unmeasured: false };
+    const amount = Number(ingredient.amount);
+
+    if (ingredient.amount === null || ingredient.amount === undefined || isNaN(amount)) {
+      group.unmeasured = true;
+    } else {
+      group.quantities.push({ amount, unit: typeof ingredient.unit === "string" ? ingredient.unit : "" });
+    }
+    groups.set(key, group);
+  }
+
+  const lines: AggregatedIngredient[] = [];
+  groups.forEach(group => {
+    const combined = combineQuantities(group.quantities, group.name);
+    combined.forEach(quantity => lines.push({
+      name: group.name,
+      amount: roundTo(quantity.amount, 2),
+      unit: quantity.unit || null,
+    }));
+    if (combined.length === 0 && group.unmeasured) {
+      lines.push({ name: group.name, amount: null, unit: null });
+    }
+  });
+
+  return lines;
+}
+
+const FRACTIONS: Array<[number, string]> = [
+  [1 / 8, "⅛"],
+  [1 / 4, "¼"],
+  [1 / 3, "⅓"],
+  [3 / 8, "⅜"],
+  [1 / 2, "½"],
+  [5 / 8, "⅝"],
+  [2 / 3, "⅔"],
+  [3 / 4, "¾"],
+  [7 / 8, "⅞"],
+];
+
+// Render an amount the way a recipe card would: 0.333 -> "⅓", 1.5 -> "1 ½", 2.37 -> "2.37"
+export function formatQuantity(amount: number | null | undefined): string {
+  if (amount === null || amount === undefined || !isFinite(amount)) return "";
+  if (amount <= 0) return "0";
+
+  let whole = Math.floor(amount);
+  const remainder = amount - whole;
+  if (remainder < 0.03) return String(whole);
+  if (remainder > 0.97) return String(whole + 1);
+
+  const [value, glyph] = FRACTIONS.reduce((closest, fraction) =>
+    Math.abs(fraction[0] - remainder) < Math.abs(closest[0] - remainder) ? fraction : closest
+  );
+  if (Math.abs(value - remainder) > 0.03) return String(roundTo(amount, 2));
+
+  return whole > 0 ? `${whole} ${glyph}` : glyph;
+}
+
+// Move an amount into the unit a cook would reach for (6 tsp -> 2 tbsp, 24 oz -> 1.5 lb)
+export function toKitchenUnit(amount: number, unit: string | null | undefined): Quantity {
+  const key = normalizeUnit(unit);
+
+  if (key === "tsp" || key === "tbsp" || key === "cup") {
+    const teaspoons = convertQuantity(amount, key, "tsp") ?? amount;
+    if (teaspoons >= 12) return { amount: teaspoons / 48, unit: "cup" };
+    if (teaspoons >= 3) return { amount: teaspoons / 3, unit: "tbsp" };
+    return { amount: teaspoons, unit: "tsp" };
+  }
+  if (key === "oz" && amount >= 16) return { amount: amount / 16, unit: "lb" };
+  if (key === "lb" && amount < 0.5) return { amount: amount * 16, unit: "oz" };
+  if (key === "g" && amount >= 1000) return { amount: amount / 1000, unit: "kg" };
+  if (key === "ml" && amount >= 1000) return { amount: amount / 1000, unit: "l" };
+
+  return { amount, unit: key };
+}
+
+// Scale a recipe's ingredients from its base servings to the servings being cooked
+export function scaleIngredients<T extends { amount: number | null; unit: string | null }>(
+  ingredients: T[],
+  baseServings: number | null | undefined,
+  targetServings: number | null | undefined
+): T[] {
+  if (!baseServings || !targetServings || baseServings === targetServings) return ingredients;
+  const factor = targetServings / baseServings;
+
+  return ingredients.map(ingredient => {
+    if (ingredient.amount === null || !isFinite(ingredient.amount)) return ingredient;
+    const scaled = toKitchenUnit(ingredient.amount * factor, ingredient.unit);
+    return { ...ingredient, amount: roundTo(scaled.amount, 3), unit: ingredient.unit && scaled.unit ? scaled.unit : ingredient.unit };
+  });
+}
+
+export interface ParsedIngredient {
+  name: string;
+  amount: number; // 0 when the line has no amount ("salt to taste")
+  unit: string;   // canonical unit key, or "" when the line has none
+}
+
+const FRACTION_GLYPHS = FRACTIONS.map(([, glyph]) => glyph).join("");
+const NUMBER_PATTERN = `(?:\\d+\\s*[${FRACTION_GLYPHS}]|\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|[${FRACTION_GLYPHS}])`;
+// An amount, or the low end of a range ("2-3", "2 to 3")
+const AMOUNT_PATTERN = new RegExp(`^(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*${NUMBER_PATTERN})?\\s*`, "i");
+
+// "1 1/2", "1½" and "1.5" all read as 1.5
+function parseAmount(text: string): number {
+  return text.trim().split(new RegExp(`\\s+|(?=[${FRACTION_GLYPHS}])`)).reduce((total, part) => {
+    const glyph = FRACTIONS.find(([, candidate]) => candidate === part);
+    if (glyph) return total + glyph[0];
+    const [numerator, denominator] = part.split("/");
+    return total + (denominator ? Number(numerator) / Number(denominator) : Number(numerator));
+  }, 0);
+}
+
+// The canonical unit a word names, or null. Count words like "whole" stay part of the name.
+function unitKey(word: string): string | null {
+  const cleaned = word.toLowerCase();
+  for (const candidate of [cleaned, cleaned.replace(/\.$/, "")]) {
+    if (candidate === "") continue;
+    if (candidate in UNIT_ALIASES) return UNIT_ALIASES[candidate] === "each" ? null : UNIT_ALIASES[candidate];
+    if (candidate in COUNTABLE_UNITS) return COUNTABLE_UNITS[candidate];
+    if (Object.values(COUNTABLE_UNITS).includes(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Split an ingredient line as a recipe prints it into its parts:
+// "1 1/2 cups diced onion" -> { amount: 1.5, unit: "cup", name: "diced onion" }
+export function parseIngredientLine(line: string): ParsedIngredient {
+  const text = line.replace(/^[\s•*▢-]+/, "").replace(/\s+/g, " ").trim();
+  let rest = text;
+  let amount = 0;
+
+  const amountMatch = rest.match(AMOUNT_PATTERN);
+  const articleMatch = rest.match(/^an?\s+/i);
+  if (amountMatch) {
+    amount = roundTo(parseAmount(amountMatch[1]), 3);
+    rest = rest.slice(amountMatch[0].length);
+  } else if (articleMatch && unitKey(rest.slice(articleMatch[0].length).split(" ")[0])) {
+    // "a pinch of salt"
+    amount = 1;
+    rest = rest.slice(articleMatch[0].length);
+  }
+
+  // A package size between the amount and the unit: "1 (14 oz) can tomatoes"
+  const sizeMatch = amount > 0 ? rest.match(/^\(([^)]*)\)\s*/) : null;
+  if (sizeMatch) rest = rest.slice(sizeMatch[0].length);
+
+  let unit = "";
+  if (amount > 0) {
+    const words = rest.split(" ");
+    const twoWordUnit = words.length > 2 ? unitKey(`${words[0]} ${words[1]}`) : null;
+    const oneWordUnit = words.length > 1 ? unitKey(words[0]) : null;
+    if (twoWordUnit) {
+      unit = twoWordUnit;
+      rest = words.slice(2).join(" ");
+    } else if (oneWordUnit) {
+      unit = oneWordUnit;
+      rest = words.slice(1).join(" ");
+    }
+  }
+
+  const name = rest.replace(/^of\s+/i, "").trim();
+  return {
+    name: sizeMatch ? `${name} (${sizeMatch[1]})` : name || text,
+    amount,
+    unit,
+  };
+}
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS "grocery_list_items" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "grocery_list_items_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"grocery_list_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"amount" real,
+	"unit" text,
+	"is_checked" boolean DEFAULT false NOT NULL,
+	"is_organic" boolean DEFAULT false NOT NULL,
+	"is_manual" boolean DEFAULT false NOT NULL,
+	"checked_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "grocery_list_items" ADD CONSTRAINT "grocery_list_items_grocery_list_id_grocery_lists_id_fk" FOREIGN KEY ("grocery_list_id") REFERENCES "public"."grocery_lists"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "grocery_list_items" ADD CONSTRAINT "grocery_list_items_checked_by_users_id_fk" FOREIGN KEY ("checked_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "grocery_list_items_grocery_list_id_idx" ON "grocery_list_items" ("grocery_list_id");
+--> statement-breakpoint
+-- Backfill rows for lists created before items were stored individually
+INSERT INTO "grocery_list_items" ("grocery_list_id", "name", "amount", "unit", "is_checked")
+SELECT gl."id",
+  item->>'name',
+  CASE WHEN item->>'amount' ~ '^[0-9]+(\.[0-9]+)?$' THEN (item->>'amount')::real END,
+  item->>'unit',
+  COALESCE(item->>'checked' = 'true', false)
+FROM "grocery_lists" gl, jsonb_array_elements(CASE WHEN jsonb_typeof(gl."items") = 'array' THEN gl."items" ELSE '[]'::jsonb END) AS item
+WHERE item->>'name' IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "grocery_list_items" gli WHERE gli."grocery_list_id" = gl."id");
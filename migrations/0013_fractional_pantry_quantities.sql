@@ -0,0 +1,3 @@
+ALTER TABLE "pantry_items" ALTER COLUMN "quantity" SET DATA TYPE real;
+--> statement-breakpoint
+ALTER TABLE "pantry_usage_log" ALTER COLUMN "quantity_used" SET DATA TYPE real;
@@ -0,0 +1,2 @@
+-- Servings a meal plan cooks a recipe for, when different from the recipe's own yield
+ALTER TABLE "meal_plan_recipes" ADD COLUMN IF NOT EXISTS "servings" integer;
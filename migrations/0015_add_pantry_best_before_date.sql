@@ -0,0 +1,2 @@
+-- User-entered best-before date; when absent, expiry is estimated from shelf life and storage
+ALTER TABLE "pantry_items" ADD COLUMN IF NOT EXISTS "best_before_date" timestamp;
@@ -0,0 +1,9 @@
+-- Where an item is stored: pantry shelf, fridge or freezer
+ALTER TABLE "pantry_items" ADD COLUMN IF NOT EXISTS "location" text;
+--> statement-breakpoint
+UPDATE "pantry_items" SET "location" = CASE
+  WHEN "category" = 'frozen' THEN 'freezer'
+  WHEN "category" IN ('produce', 'dairy', 'meat') THEN 'fridge'
+  ELSE 'pantry'
+END
+WHERE "location" IS NULL;
@@ -0,0 +1,25 @@
+-- Discarded items record why they were thrown out and, optionally, what they cost
+ALTER TABLE "pantry_usage_log" ADD COLUMN IF NOT EXISTS "reason" text;
+--> statement-breakpoint
+ALTER TABLE "pantry_usage_log" ADD COLUMN IF NOT EXISTS "cost" real;
+--> statement-breakpoint
+-- Snapshot the item so history survives the item being deleted
+ALTER TABLE "pantry_usage_log" ADD COLUMN IF NOT EXISTS "item_name" text;
+--> statement-breakpoint
+ALTER TABLE "pantry_usage_log" ADD COLUMN IF NOT EXISTS "category" text;
+--> statement-breakpoint
+UPDATE "pantry_usage_log" pul SET "item_name" = pi."name", "category" = pi."category"
+FROM "pantry_items" pi
+WHERE pul."pantry_item_id" = pi."id" AND pul."item_name" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "pantry_usage_log" ALTER COLUMN "pantry_item_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "pantry_usage_log" DROP CONSTRAINT IF EXISTS "pantry_usage_log_pantry_item_id_pantry_items_id_fk";
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pantry_usage_log" ADD CONSTRAINT "pantry_usage_log_pantry_item_id_pantry_items_id_fk" FOREIGN KEY ("pantry_item_id") REFERENCES "public"."pantry_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pantry_usage_log_user_id_created_at_idx" ON "pantry_usage_log" ("user_id", "created_at");
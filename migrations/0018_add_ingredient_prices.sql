@@ -0,0 +1,33 @@
+-- What was paid for ingredients, captured from receipts or entered by hand
+CREATE TABLE IF NOT EXISTS "ingredient_prices" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "ingredient_prices_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"pantry_item_id" integer,
+	"ingredient_key" text NOT NULL,
+	"name" text NOT NULL,
+	"price" real NOT NULL,
+	"quantity" real,
+	"unit" text,
+	"store" text,
+	"source" text DEFAULT 'manual' NOT NULL,
+	"purchased_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingredient_prices" ADD CONSTRAINT "ingredient_prices_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingredient_prices" ADD CONSTRAINT "ingredient_prices_pantry_item_id_pantry_items_id_fk" FOREIGN KEY ("pantry_item_id") REFERENCES "public"."pantry_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ingredient_prices_user_id_ingredient_key_idx" ON "ingredient_prices" ("user_id", "ingredient_key");
+--> statement-breakpoint
+ALTER TABLE "pantry_items" ADD COLUMN IF NOT EXISTS "price" real;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "weekly_budget" real;
@@ -0,0 +1,18 @@
+-- Local product catalog for barcode lookups, seeded with scripts/seed-product-catalog.ts and
+-- filled in from the external lookup provider as new codes are scanned
+CREATE TABLE IF NOT EXISTS "product_catalog" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "product_catalog_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"barcode" text NOT NULL,
+	"name" text NOT NULL,
+	"brand" text,
+	"category" text DEFAULT 'other' NOT NULL,
+	"default_quantity" real,
+	"default_unit" text,
+	"shelf_life_days" integer,
+	"source" text DEFAULT 'seed' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "product_catalog_barcode_unique" UNIQUE("barcode")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pantry_items_barcode_idx" ON "pantry_items" ("barcode");
@@ -0,0 +1,2 @@
+-- Daily calorie and macro targets used by the meal plan nutrition summary
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "nutrition_targets" jsonb;
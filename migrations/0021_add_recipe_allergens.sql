@@ -0,0 +1,2 @@
+-- Allergens detected from each recipe's ingredient names
+ALTER TABLE "temporary_recipes" ADD COLUMN IF NOT EXISTS "allergens" jsonb;
@@ -0,0 +1,19 @@
+-- Generated recipes the allergen guardrail caught, kept for admins to review
+CREATE TABLE IF NOT EXISTS "allergen_rejections" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "allergen_rejections_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"source" text NOT NULL,
+	"recipe_name" text NOT NULL,
+	"allergies" jsonb NOT NULL,
+	"violations" jsonb NOT NULL,
+	"action" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "allergen_rejections" ADD CONSTRAINT "allergen_rejections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "allergen_rejections_created_at_idx" ON "allergen_rejections" ("created_at");
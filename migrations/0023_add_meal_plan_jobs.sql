@@ -0,0 +1,55 @@
+-- Background meal plan generation, one item per recipe so progress survives a restart
+CREATE TABLE IF NOT EXISTS "meal_plan_jobs" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "meal_plan_jobs_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"days" integer NOT NULL,
+	"params" jsonb NOT NULL,
+	"meal_plan_id" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "meal_plan_job_items" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "meal_plan_job_items_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"job_id" integer NOT NULL,
+	"task_id" text NOT NULL,
+	"day" integer NOT NULL,
+	"meal" text NOT NULL,
+	"cuisine" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"recipe_id" integer,
+	"error" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "meal_plan_jobs" ADD CONSTRAINT "meal_plan_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "meal_plan_jobs" ADD CONSTRAINT "meal_plan_jobs_meal_plan_id_meal_plans_id_fk" FOREIGN KEY ("meal_plan_id") REFERENCES "public"."meal_plans"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "meal_plan_job_items" ADD CONSTRAINT "meal_plan_job_items_job_id_meal_plan_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."meal_plan_jobs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "meal_plan_job_items" ADD CONSTRAINT "meal_plan_job_items_recipe_id_temporary_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."temporary_recipes"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "meal_plan_jobs_user_id_status_idx" ON "meal_plan_jobs" ("user_id","status");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "meal_plan_job_items_job_id_idx" ON "meal_plan_job_items" ("job_id");
@@ -0,0 +1,6 @@
+-- Weekly planner plans run as meal plan jobs too, generating the dishes the user picked
+ALTER TABLE "meal_plan_jobs" ADD COLUMN IF NOT EXISTS "source" text DEFAULT 'meal_plan' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "meal_plan_job_items" ADD COLUMN IF NOT EXISTS "title" text;
+--> statement-breakpoint
+ALTER TABLE "meal_plan_job_items" ALTER COLUMN "cuisine" DROP NOT NULL;
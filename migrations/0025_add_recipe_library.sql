@@ -0,0 +1,23 @@
+-- Saving a recipe to the cookbook copies it from temporary_recipes into the permanent library
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "meal_type" text;
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "cuisine_type" text;
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "dietary_restrictions" jsonb;
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "difficulty" text;
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "allergens" jsonb;
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "content_hash" text;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "recipes_content_hash_unique" ON "recipes" ("content_hash");
+--> statement-breakpoint
+ALTER TABLE "user_recipes" ADD COLUMN IF NOT EXISTS "favorited" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "user_recipes_user_id_recipe_id_idx" ON "user_recipes" ("user_id", "recipe_id");
+--> statement-breakpoint
+-- Meal plan slots point at either table once their recipe is saved, so the expiring temporary row can go
+ALTER TABLE "meal_plan_recipes" DROP CONSTRAINT IF EXISTS "meal_plan_recipes_recipe_id_recipes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "meal_plan_recipes" DROP CONSTRAINT IF EXISTS "meal_plan_recipes_recipe_id_temporary_recipes_id_fk";
@@ -0,0 +1,12 @@
+-- Recipes users write themselves, or edit from a generated one
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "author_id" integer;
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "forked_from_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recipes" ADD CONSTRAINT "recipes_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "recipes_author_id_idx" ON "recipes" ("author_id");
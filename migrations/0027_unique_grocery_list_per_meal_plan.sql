@@ -0,0 +1,7 @@
+-- A meal plan has one grocery list. Keep the newest of any duplicates (their items cascade away).
+DELETE FROM "grocery_lists" AS older
+USING "grocery_lists" AS newer
+WHERE older."meal_plan_id" = newer."meal_plan_id"
+  AND (older."created" < newer."created" OR (older."created" = newer."created" AND older."id" < newer."id"));
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "grocery_lists_meal_plan_id_unique" ON "grocery_lists" ("meal_plan_id");
@@ -0,0 +1,10 @@
+-- A user has at most one meal plan generating. Older duplicates are marked failed before the index goes on.
+UPDATE "meal_plan_jobs" AS older
+SET "status" = 'failed', "error" = 'Superseded by a newer meal plan', "finished_at" = now()
+FROM "meal_plan_jobs" AS newer
+WHERE older."user_id" = newer."user_id"
+  AND older."status" IN ('queued', 'running')
+  AND newer."status" IN ('queued', 'running')
+  AND older."id" < newer."id";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "meal_plan_jobs_user_id_active_unique" ON "meal_plan_jobs" ("user_id") WHERE "status" IN ('queued', 'running');
@@ -0,0 +1,127 @@
+/**
+ * Seed the local product catalog used for barcode lookups from a CSV file
+ *
+ * The CSV needs a header row with these columns (only barcode and name are required):
+ *   barcode,name,brand,category,default_quantity,default_unit,shelf_life_days
+ *
+ * Barcodes are normalized the same way scans are (UPC-A and EAN-8 padded to EAN-13) and rows
+ * with an invalid check digit are skipped. Existing rows for a barcode are replaced, so the file
+ * can be re-run after corrections. Only add codes checked against the physical packaging; a wrong
+ * code auto-fills the wrong product.
+ *
+ * Usage:
+ *   npm run seed:product-catalog -- path/to/products.csv
+ */
+
+import { readFileSync } from 'fs';
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { productCatalog, PantryCategoryEnum } from '../db/schema';
+import { normalizeBarcode } from '../server/services/barcode';
+
+// Split one CSV line, honouring double-quoted fields ("Milk, whole" and "say ""cheese""")
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+const optionalNumber = (value: string | undefined) => {
+  const number = Number(value);
+  return value && isFinite(number) && number > 0 ? number : null;
+};
+
+async function seedProductCatalog(file: string) {
+  const [header, ...lines] = readFileSync(file, 'utf8').split(/\r?\n/).filter(line => line.trim());
+  const columns = parseCsvLine(header ?? '').map(column => column.toLowerCase());
+  if (!columns.includes('barcode') || !columns.includes('name')) {
+    throw new Error('The CSV needs a header row with at least barcode and name columns');
+  }
+
+  // A barcode listed twice keeps its last row; one insert can't update the same row twice
+  const rowsByBarcode = new Map<string, typeof productCatalog.$inferInsert>();
+  for (let index = 0; index < lines.length; index++) {
+    const values = parseCsvLine(lines[index]);
+    const field = (column: string) => values[columns.indexOf(column)] || undefined;
+
+    const barcode = normalizeBarcode(field('barcode') ?? '');
+    const name = field('name');
+    if (!barcode || !name) {
+      console.warn(`⏭️  Skipping line ${index + 2}: ${!barcode ? 'invalid barcode' : 'missing name'}`);
+      continue;
+    }
+
+    const category = PantryCategoryEnum.safeParse(field('category')?.toLowerCase());
+    const shelfLife = optionalNumber(field('shelf_life_days'));
+    rowsByBarcode.set(barcode, {
+      barcode,
+      name,
+      brand: field('brand') ?? null,
+      category: category.success ? category.data : 'other' as const,
+      default_quantity: optionalNumber(field('default_quantity')),
+      default_unit: field('default_unit') ?? null,
+      shelf_life_days: shelfLife === null ? null : Math.round(shelfLife),
+      source: 'seed',
+    });
+  }
+
+  const rows = Array.from(rowsByBarcode.values());
+  if (rows.length === 0) {
+    console.log('No valid rows to seed.');
+    return;
+  }
+
+  await db.insert(productCatalog)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: productCatalog.barcode,
+      set: {
+        name: sql`excluded.name`,
+        brand: sql`excluded.brand`,
+        category: sql`excluded.category`,
+        default_quantity: sql`excluded.default_quantity`,
+        default_unit: sql`excluded.default_unit`,
+        shelf_life_days: sql`excluded.shelf_life_days`,
+        source: 'seed',
+        updated_at: new Date(),
+      },
+    });
+
+  console.log(`✅ Seeded ${rows.length} product${rows.length === 1 ? '' : 's'} (${lines.length - rows.length} skipped)`);
+}
+
+const file = process.argv[2];
+if (!file) {
+  console.error('Usage: npm run seed:product-catalog -- path/to/products.csv');
+  process.exit(1);
+}
+
+seedProductCatalog(file)
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Seeding the product catalog failed:', error);
+    process.exit(1);
+  });
@@ -927,6 +927,8 @@ export function setupAuth(app: Express) {
         firebase_uid: user.firebase_uid || null,
         is_admin: user.is_admin || false,
         is_partial_registration: user.is_partial_registration ?? false,
+        weekly_budget: user.weekly_budget ?? null,
+        nutrition_targets: user.nutrition_targets ?? null,
         created_at: user.created_at,
       });
     }
@@ -30,6 +30,14 @@ interface EnvironmentConfig {
   cloudinaryApiKey: string;
   cloudinaryApiSecret: string;
   
+  // Barcode lookup provider for products missing from the local catalog ('openfoodfacts' or 'none')
+  barcodeLookupProvider: string;
+  
+  // AI providers ('openai', 'gemini' or 'fixture'): text for recipes, previews and substitutions,
+  // vision for receipt scanning and recipe images
+  aiProvider: string;
+  aiVisionProvider: string;
+  
   // Database
   databaseUrl: string;
 }
@@ -85,6 +93,13 @@ export const config: EnvironmentConfig = {
   cloudinaryApiKey: getEnvironmentVariable('CLOUDINARY_API_KEY_DEV', 'CLOUDINARY_API_KEY_PROD'),
   cloudinaryApiSecret: getEnvironmentVariable('CLOUDINARY_API_SECRET_DEV', 'CLOUDINARY_API_SECRET_PROD'),
   
+  // Barcode lookup
+  barcodeLookupProvider: process.env.BARCODE_LOOKUP_PROVIDER || 'none',
+  
+  // AI providers - AI_PROVIDER=fixture runs everything offline unless a vision provider is set
+  aiProvider: process.env.AI_PROVIDER || 'openai',
+  aiVisionProvider: process.env.AI_VISION_PROVIDER || (process.env.AI_PROVIDER === 'fixture' ? 'fixture' : 'gemini'),
+  
   // Database
   databaseUrl: getEnvironmentVariable('DATABASE_URL_DEV', 'DATABASE_URL_PROD'),
 };
@@ -100,6 +115,9 @@ console.log('Environment Configuration:', {
   hasStripeKey: !!config.stripeSecretKey,
   hasFirebaseConfig: !!(config.firebaseProjectId && config.firebaseClientEmail && config.firebasePrivateKey),
   hasCloudinaryConfig: !!(config.cloudinaryCloudName && config.cloudinaryApiKey && config.cloudinaryApiSecret),
+  barcodeLookupProvider: config.barcodeLookupProvider,
+  aiProvider: config.aiProvider,
+  aiVisionProvider: config.aiVisionProvider,
   hasDatabaseUrl: !!config.databaseUrl,
   // Debug database URL selection
   databaseUrlSource: config.isProduction ? 'DATABASE_URL_PROD' : 'DATABASE_URL_DEV',
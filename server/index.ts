@@ -10,6 +10,7 @@ import { setupAuth } from "./auth";
 import { sql } from "drizzle-orm";
 import { db } from "../db";
 import { startExpirationJob } from "./jobs/checkMealPlanExpiration";
+import { resumeMealPlanJobs } from "./jobs/resumeMealPlanJobs";
 import { config } from "./config/environment";
 
 const app = express();
@@ -90,6 +91,9 @@ async function startServer() {
     // Start the expiration check job
     startExpirationJob();
 
+    // Finish any meal plans that were generating when the server stopped
+    resumeMealPlanJobs();
+
     // Error handling middleware
     app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
       console.error('[express] Server error:', err);
@@ -0,0 +1,13 @@
+import { MealPlanJobService } from "../services/mealPlanJobs";
+
+// Meal plan jobs run in the server process, so any a restart interrupted are picked up on startup
+export async function resumeMealPlanJobs() {
+  try {
+    const resumed = await MealPlanJobService.resumeUnfinished();
+    if (resumed > 0) {
+      console.log(`Resumed ${resumed} unfinished meal plan job(s)`);
+    }
+  } catch (error) {
+    console.error("Error resuming meal plan jobs:", error);
+  }
+}
@@ -1,4 +1,5 @@
 import { config } from '../config/environment';
+import { aggregateIngredients, unitName } from '@db/units';
 
 interface InstacartIngredient {
   name: string;
@@ -249,137 +250,24 @@ class InstacartService {
     return ingredientMappings[normalized] || normalized;
   }
 
-  private standardizeUnit(unit: string): string {
-    const unitMap: Record<string, string> = {
-      // Weight units
-      'g': 'grams',
-      'gram': 'grams',
-      'grams': 'grams',
-      'kg': 'kilograms',
-      'kilogram': 'kilograms',
-      'kilograms': 'kilograms',
-      'oz': 'ounces',
-      'ounce': 'ounces',
-      'ounces': 'ounces',
-      'lb': 'pounds',
-      'lbs': 'pounds',
-      'pound': 'pounds',
-      'pounds': 'pounds',
-      
-      // Volume units
-      'ml': 'milliliters',
-      'milliliter': 'milliliters',
-      'milliliters': 'milliliters',
-      'l': 'liters',
-      'liter': 'liters',
-      'liters': 'liters',
-      'fl oz': 'fluid ounces',
-      'fluid ounce': 'fluid ounces',
-      'fluid ounces': 'fluid ounces',
-      'pt': 'pints',
-      'pint': 'pints',
-      'pints': 'pints',
-      'qt': 'quarts',
-      'quart': 'quarts',
-      'quarts': 'quarts',
-      'gal': 'gallons',
-      'gallon': 'gallons',
-      'gallons': 'gallons',
-      
-      // Cooking measurements
-      'tsp': 'teaspoons',
-      'teaspoon': 'teaspoons',
-      'teaspoons': 'teaspoons',
-      'tbsp': 'tablespoons',
-      'tablespoon': 'tablespoons',
-      'tablespoons': 'tablespoons',
-      'cup': 'cups',
-      'cups': 'cups',
-      
-      // Count units
-      'piece': 'pieces',
-      'pieces': 'pieces',
-      'item': 'items',
-      'items': 'items',
-      'each': 'each',
-      'whole': 'whole',
-      'clove': 'cloves',
-      'cloves': 'cloves',
-      'slice': 'slices',
-      'slices': 'slices',
-      'bunch': 'bunches',
-      'bunches': 'bunches',
-      'head': 'heads',
-      'heads': 'heads',
-      'stalk': 'stalks',
-      'stalks': 'stalks',
-      'sprig': 'sprigs',
-      'sprigs': 'sprigs',
-      'leaf': 'leaves',
-      'leaves': 'leaves',
-      'can': 'cans',
-      'cans': 'cans',
-      'jar': 'jars',
-      'jars': 'jars',
-      'bottle': 'bottles',
-      'bottles': 'bottles',
-      'package': 'packages',
-      'packages': 'packages',
-      'bag': 'bags',
-      'bags': 'bags',
-      'box': 'boxes',
-      'boxes': 'boxes',
-      
-      // Size descriptors
-      'large': 'large',
-      'medium': 'medium',
-      'small': 'small',
-      'extra large': 'extra large',
-      'extra small': 'extra small',
-    };
-    
-    const normalized = unit.toLowerCase().trim();
-    return unitMap[normalized] || normalized;
-  }
-
+  // Merge duplicate ingredients through the shared unit engine, so "2 tbsp + 1/4 cup butter"
+  // becomes a single line item, then map each line onto Instacart's product naming
   private aggregateIngredients(ingredients: Array<{ name: string; amount: number; unit: string }>): InstacartIngredient[] {
-    const aggregated: Record<string, { 
-      originalName: string; 
-      normalizedName: string; 
-      amount: number; 
-      unit: string;
-      displayText: string;
-    }> = {};
-    
-    ingredients.forEach(ingredient => {
-      const normalizedName = this.normalizeIngredientName(ingredient.name);
-      const standardUnit = this.standardizeUnit(ingredient.unit);
-      const key = `${normalizedName}-${standardUnit}`;
-      
-      if (!aggregated[key]) {
-        aggregated[key] = {
-          originalName: ingredient.name,
-          normalizedName: normalizedName,
-          amount: ingredient.amount,
-          unit: standardUnit,
-          displayText: this.generateDisplayText(ingredient.name, ingredient.amount, standardUnit)
+    return aggregateIngredients(ingredients)
+      .map(line => {
+        const amount = line.amount ?? 1;
+        const unit = unitName(line.unit, amount) || 'each';
+        return {
+          normalizedName: this.normalizeIngredientName(line.name),
+          originalName: line.name,
+          amount,
+          unit,
         };
-      } else {
-        aggregated[key].amount += ingredient.amount;
-        // Update display text with new amount
-        aggregated[key].displayText = this.generateDisplayText(
-          aggregated[key].originalName, 
-          aggregated[key].amount, 
-          standardUnit
-        );
-      }
-    });
-
-    return Object.values(aggregated)
+      })
       .filter(item => item.normalizedName && item.normalizedName.trim().length > 0)
       .map(item => ({
         name: item.normalizedName,
-        display_text: item.displayText,
+        display_text: this.generateDisplayText(item.originalName, item.amount, item.unit),
         line_item_measurements: [{
           quantity: item.amount.toString(),
           unit: item.unit
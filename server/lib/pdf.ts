@@ -0,0 +1,232 @@
+// A small PDF writer for printable text documents: Helvetica and Helvetica-Bold, word-wrapped onto
+// US Letter pages. It covers recipes, plans and print sheets without pulling in a PDF library;
+// there are no images, only text, tables, checkboxes and rules.
+
+const LETTER_SHORT_SIDE = 612;
+const LETTER_LONG_SIDE = 792;
+const MARGIN = 54;
+const CELL_PADDING = 4;
+const LINE_SPACING = 1.35;
+
+// Helvetica advance widths for ASCII 32-126, in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Bold runs a little wider; wrapping against this keeps bold lines inside the margin
+const BOLD_FACTOR = 1.1;
+
+// Characters outside the standard fonts' WinAnsi encoding, spelled with ones inside it
+const REPLACEMENTS: Record<string, string> = {
+  "⅛": "1/8", "⅓": "1/3", "⅜": "3/8", "⅝": "5/8", "⅔": "2/3", "⅞": "7/8",
+  "‘": "'", "’": "'", "“": '"', "”": '"', "–": "-", "—": "-", "…": "...", "•": "-",
+};
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  indent?: number;
+  color?: "text" | "muted";
+  checkbox?: boolean; // an empty box to tick before the text
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // relative to the other columns
+}
+
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map(char => REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff ? char : "?"))
+    .join("")
+    .replace(/[\r\t]/g, " ");
+}
+
+function escapeText(text: string): string {
+  return Array.from(text).map(char => {
+    const code = char.charCodeAt(0);
+    if (char === "\\" || char === "(" || char === ")") return `\\${char}`;
+    if (code < 32 || code > 126) return `\\${code.toString(8).padStart(3, "0")}`;
+    return char;
+  }).join("");
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  const units = Array.from(text).reduce((total, char) => total + (HELVETICA_WIDTHS[char.charCodeAt(0) - 32] ?? 556), 0);
+  return units / 1000 * size * (bold ? BOLD_FACTOR : 1);
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+  private pageWidth: number;
+  private pageHeight: number;
+
+  constructor(private title: string, options: { landscape?: boolean } = {}) {
+    this.pageWidth = options.landscape ? LETTER_LONG_SIDE : LETTER_SHORT_SIDE;
+    this.pageHeight = options.landscape ? LETTER_SHORT_SIDE : LETTER_LONG_SIDE;
+    this.addPage();
+  }
+
+  // Write a paragraph, wrapping it to the page width. Newlines start new lines.
+  text(content: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 11;
+    const bold = options.bold ?? false;
+    const boxWidth = options.checkbox ? size * 1.4 : 0;
+    const indent = (options.indent ?? 0) + boxWidth;
+    const lineHeight = size * LINE_SPACING;
+    const width = this.textWidth - indent;
+    const lines = toWinAnsi(content).split("\n").flatMap(paragraph => this.wrap(paragraph, width, size, bold));
+
+    lines.forEach((line, index) => {
+      if (this.y - lineHeight < MARGIN) this.addPage();
+      this.y -= lineHeight;
+      if (index === 0 && options.checkbox) {
+        const box = size * 0.8;
+        this.current.push(`0.3 G 0.7 w ${MARGIN + indent - boxWidth} ${(this.y - 1).toFixed(2)} ${box.toFixed(2)} ${box.toFixed(2)} re S`);
+      }
+      this.drawText(line, MARGIN + indent, this.y, size, bold, options.color);
+    });
+    return this;
+  }
+
+  // A bordered table with a shaded header row, repeated at the top of each page it runs onto.
+  // Cells wrap, and a newline in a cell starts a new line.
+  table(columns: PdfTableColumn[], rows: string[][], options: { size?: number } = {}): this {
+    const size = options.size ?? 10;
+    const lineHeight = size * LINE_SPACING;
+    const totalWeight = columns.reduce((total, column) => total + column.width, 0);
+    const widths = columns.map(column => column.width / totalWeight * this.textWidth);
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const wrapped = cells.map((cell, index) =>
+        toWinAnsi(cell).split("\n").flatMap(paragraph => this.wrap(paragraph, widths[index] - CELL_PADDING * 2, size, header))
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+      if (this.y - height < MARGIN) {
+        this.addPage();
+        if (!header) drawRow(columns.map(column => column.header), true);
+      }
+
+      const top = this.y;
+      if (header) {
+        this.current.push(`0.92 g ${MARGIN} ${(top - height).toFixed(2)} ${this.textWidth} ${height.toFixed(2)} re f`);
+      }
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          this.drawText(line, x + CELL_PADDING, top - CELL_PADDING - lineIndex * lineHeight - size, size, header);
+        });
+        this.current.push(`0.6 G 0.5 w ${x.toFixed(2)} ${(top - height).toFixed(2)} ${widths[index].toFixed(2)} ${height.toFixed(2)} re S`);
+        x += widths[index];
+      });
+      this.y = top - height;
+    };
+
+    drawRow(columns.map(column => column.header), true);
+    rows.forEach(row => drawRow(row, false));
+    return this;
+  }
+
+  space(points = 8): this {
+    this.y -= points;
+    return this;
+  }
+
+  // A thin horizontal line across the text width
+  rule(): this {
+    if (this.y - 8 < MARGIN) this.addPage();
+    this.y -= 6;
+    this.current.push(`0.8 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${this.pageWidth - MARGIN} ${this.y.toFixed(2)} l S`);
+    this.y -= 6;
+    return this;
+  }
+
+  // Start a new page unless the current one is still blank
+  pageBreak(): this {
+    if (this.current.length > 0) this.addPage();
+    return this;
+  }
+
+  // Leave at least this many points on the page, so a heading doesn't end up alone at the bottom
+  keepTogether(points: number): this {
+    if (this.y - points < MARGIN) this.addPage();
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    add(`<< /Title (${escapeText(toWinAnsi(this.title))}) /Producer (DineN) >>`);
+    this.pages.forEach((operations, index) => {
+      const content = operations.join("\n");
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.pageWidth} ${this.pageHeight}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`);
+      add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Every byte written is ASCII, so string lengths are byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(output, "latin1");
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private get textWidth(): number {
+    return this.pageWidth - MARGIN * 2;
+  }
+
+  private addPage() {
+    this.pages.push([]);
+    this.y = this.pageHeight - MARGIN;
+  }
+
+  private drawText(line: string, x: number, y: number, size: number, bold: boolean, color: PdfTextOptions["color"] = "text") {
+    const gray = color === "muted" ? "0.4 g" : "0 g";
+    this.current.push(`BT ${gray} /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(line)}) Tj ET`);
+  }
+
+  private wrap(paragraph: string, width: number, size: number, bold: boolean): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word too long for a line on its own (a URL, say) is broken wherever it fills one
+      let rest = word;
+      while (textWidth(rest, size, bold) > width) {
+        let fits = rest.length - 1;
+        while (fits > 1 && textWidth(rest.slice(0, fits), size, bold) > width) fits--;
+        lines.push(rest.slice(0, fits));
+        rest = rest.slice(fits);
+      }
+      line = rest;
+    }
+    lines.push(line);
+    return lines;
+  }
+}
@@ -0,0 +1,84 @@
+import { config } from '../config/environment';
+
+export interface ProductLookupResult {
+  name: string;
+  brand: string | null;
+  category: string | null; // pantry category, when the provider's categories map onto one
+  quantity: number | null;
+  unit: string | null;
+  shelfLifeDays: number | null;
+}
+
+// An external source of product data by barcode. Implementations return null for unknown codes
+// and throw only on transport errors.
+export interface ProductLookupProvider {
+  name: string;
+  lookup(barcode: string): Promise<ProductLookupResult | null>;
+}
+
+// Open Food Facts category tags checked in order, most specific first
+const OPEN_FOOD_FACTS_CATEGORIES: Array<[string, string]> = [
+  ['frozen', 'frozen'],
+  ['spices', 'spices'],
+  ['condiments', 'condiments'],
+  ['sauces', 'condiments'],
+  ['dairies', 'dairy'],
+  ['cheeses', 'dairy'],
+  ['eggs', 'dairy'],
+  ['meats', 'meat'],
+  ['poultry', 'meat'],
+  ['seafood', 'meat'],
+  ['fishes', 'meat'],
+  ['fruits', 'produce'],
+  ['vegetables', 'produce'],
+  ['beverages', 'beverages'],
+  ['cereals', 'pantry'],
+  ['pastas', 'pantry'],
+  ['canned-foods', 'pantry'],
+  ['snacks', 'pantry'],
+];
+
+class OpenFoodFactsProvider implements ProductLookupProvider {
+  name = 'openfoodfacts';
+  private baseUrl = 'https://world.openfoodfacts.org/api/v2/product';
+
+  async lookup(barcode: string): Promise<ProductLookupResult | null> {
+    const fields = 'product_name,brands,categories_tags,product_quantity,product_quantity_unit';
+    const response = await fetch(`${this.baseUrl}/${barcode}.json?fields=${fields}`, {
+      headers: { 'User-Agent': 'DineN/1.0 (https://dinen.ai)' },
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Open Food Facts lookup failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    const product = data?.product;
+    if (data?.status !== 1 || !product?.product_name) return null;
+
+    const tags: string[] = Array.isArray(product.categories_tags) ? product.categories_tags : [];
+    const category = OPEN_FOOD_FACTS_CATEGORIES.find(([tag]) => tags.some(t => t.endsWith(`:${tag}`)))?.[1] ?? null;
+    const quantity = parseFloat(product.product_quantity);
+
+    return {
+      name: String(product.product_name).trim(),
+      brand: typeof product.brands === 'string' ? product.brands.split(',')[0].trim() || null : null,
+      category,
+      quantity: isFinite(quantity) && quantity > 0 ? quantity : null,
+      unit: product.product_quantity_unit ? String(product.product_quantity_unit) : null,
+      shelfLifeDays: null,
+    };
+  }
+}
+
+const PROVIDERS: Record<string, () => ProductLookupProvider> = {
+  openfoodfacts: () => new OpenFoodFactsProvider(),
+};
+
+// The provider named by BARCODE_LOOKUP_PROVIDER, or null to rely on the local catalog only
+export function getProductLookupProvider(): ProductLookupProvider | null {
+  const create = PROVIDERS[config.barcodeLookupProvider];
+  return create ? create() : null;
+}
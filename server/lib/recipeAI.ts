@@ -0,0 +1,242 @@
+import OpenAI from 'openai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { config } from '../config/environment';
+import { FixtureRecipeAIProvider } from './recipeAIFixtures';
+
+// What a text request asks for, so the fixture provider can answer in the shape the prompt describes
+export type RecipeTask =
+  | 'recipe'               // one recipe, snake_case keys
+  | 'recipe_from_title'    // one recipe, camelCase keys
+  | 'pantry_recipes'       // { recipes: [...] }, camelCase keys
+  | 'meal_prep_component'  // one recipe plus storage and reheat instructions
+  | 'meal_prep_assemblies' // { assemblies: [...] }
+  | 'recipe_import';        // one recipe transcribed from text, ingredients as the lines read
+
+export type PreviewTask =
+  | 'meal_previews'        // { recipes: [{ title, description, estimatedTime }] }
+  | 'recipe_titles'        // { recipes: [title, ...] }
+  | 'title_suggestion';    // { title, cuisineType, difficulty, estimatedTime, tags }
+
+// Structured details the prompt already spells out. Live providers read the prompt; the fixture
+// provider reads these.
+export interface RecipeAIHints {
+  mealType?: string;
+  mealTypes?: string[]; // per preview, in order
+  count?: number;
+  servings?: number;
+  allergies?: string[];
+  title?: string;      // the requested dish, for recipes from a title
+  ingredient?: string; // the ingredient to replace, for substitutions
+  componentType?: 'protein' | 'carb' | 'vegetable';
+  components?: Array<{ id: number; name: string; type: 'protein' | 'carb' | 'vegetable' }>;
+  text?: string;       // the document to transcribe, for imports
+}
+
+export interface RecipeAIRequest<Task extends string> {
+  task: Task;
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  hints?: RecipeAIHints;
+}
+
+export interface ReceiptImage {
+  data: string; // base64
+  mimeType: string;
+}
+
+// A source of AI-generated recipe content. Text methods resolve to the parsed JSON object the
+// prompt asks for and leave validating it to the caller; they throw on transport errors and
+// unparseable responses.
+export interface RecipeAIProvider {
+  name: string;
+  generateRecipes(request: RecipeAIRequest<RecipeTask>): Promise<any>;
+  generatePreviews(request: RecipeAIRequest<PreviewTask>): Promise<any>;
+  suggestSubstitutions(request: RecipeAIRequest<'substitution'>): Promise<any>;
+  parseReceipt(image: ReceiptImage, prompt: string): Promise<any>;
+  // A data URL, or null when the model answered without an image
+  generateImage(prompt: string): Promise<string | null>;
+}
+
+const OPENAI_TEXT_MODEL = 'gpt-4o-2024-08-06';
+const GEMINI_TEXT_MODEL = 'gemini-2.0-flash';
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+function parseJSON(content: string | null | undefined, providerName: string): any {
+  if (!content) {
+    throw new Error(`Empty response from ${providerName}`);
+  }
+  return JSON.parse(content);
+}
+
+class OpenAIRecipeProvider implements RecipeAIProvider {
+  name = 'openai';
+  private client = new OpenAI({ apiKey: config.openaiApiKey });
+
+  generateRecipes(request: RecipeAIRequest<RecipeTask>) {
+    return this.completeJSON(request);
+  }
+
+  generatePreviews(request: RecipeAIRequest<PreviewTask>) {
+    return this.completeJSON(request);
+  }
+
+  suggestSubstitutions(request: RecipeAIRequest<'substitution'>) {
+    return this.completeJSON(request);
+  }
+
+  async parseReceipt(image: ReceiptImage, prompt: string) {
+    this.requireKey();
+    const completion = await this.client.chat.completions.create({
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+          { type: 'text', text: prompt },
+        ],
+      }],
+      model: OPENAI_TEXT_MODEL,
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      max_tokens: 3000,
+    });
+    return parseJSON(completion.choices?.[0]?.message?.content, 'OpenAI API');
+  }
+
+  async generateImage(prompt: string) {
+    this.requireKey();
+    const result = await this.client.images.generate({
+      model: 'gpt-image-1',
+      prompt,
+      size: '1024x1024',
+      n: 1,
+    });
+    const data = result.data?.[0]?.b64_json;
+    return data ? `data:image/png;base64,${data}` : null;
+  }
+
+  private async completeJSON(request: RecipeAIRequest<string>) {
+    this.requireKey();
+    const completion = await this.client.chat.completions.create({
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      model: OPENAI_TEXT_MODEL,
+      response_format: { type: 'json_object' },
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+    return parseJSON(completion.choices?.[0]?.message?.content, 'OpenAI API');
+  }
+
+  private requireKey() {
+    if (!config.openaiApiKey) {
+      throw new Error('OpenAI API key is not configured');
+    }
+  }
+}
+
+class GeminiRecipeProvider implements RecipeAIProvider {
+  name = 'gemini';
+  private client = new GoogleGenerativeAI(config.googleAiApiKey);
+
+  generateRecipes(request: RecipeAIRequest<RecipeTask>) {
+    return this.completeJSON(request);
+  }
+
+  generatePreviews(request: RecipeAIRequest<PreviewTask>) {
+    return this.completeJSON(request);
+  }
+
+  suggestSubstitutions(request: RecipeAIRequest<'substitution'>) {
+    return this.completeJSON(request);
+  }
+
+  async parseReceipt(image: ReceiptImage, prompt: string) {
+    this.requireKey();
+    const model = this.client.getGenerativeModel({
+      model: GEMINI_TEXT_MODEL,
+      generationConfig: { responseMimeType: 'application/json' },
+    });
+    const result = await model.generateContent([
+      { inlineData: { mimeType: image.mimeType, data: image.data } },
+      { text: prompt },
+    ]);
+    return parseJSON(result?.response?.text(), 'Gemini');
+  }
+
+  async generateImage(prompt: string) {
+    this.requireKey();
+    const model = this.client.getGenerativeModel({ model: GEMINI_IMAGE_MODEL });
+    const result = await model.generateContent(prompt);
+
+    for (const part of result?.response?.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData?.data) {
+        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+    }
+    return null;
+  }
+
+  private async completeJSON(request: RecipeAIRequest<string>) {
+    this.requireKey();
+    const model = this.client.getGenerativeModel({
+      model: GEMINI_TEXT_MODEL,
+      systemInstruction: request.system,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    });
+    const result = await model.generateContent(request.prompt);
+    return parseJSON(result?.response?.text(), 'Gemini');
+  }
+
+  private requireKey() {
+    if (!config.googleAiApiKey) {
+      throw new Error('Google AI API key is not configured');
+    }
+  }
+}
+
+const PROVIDERS: Record<string, () => RecipeAIProvider> = {
+  openai: () => new OpenAIRecipeProvider(),
+  gemini: () => new GeminiRecipeProvider(),
+  fixture: () => new FixtureRecipeAIProvider(),
+};
+
+function createProvider(name: string): RecipeAIProvider {
+  const create = PROVIDERS[name];
+  if (!create) {
+    throw new Error(`Unknown AI provider "${name}" (expected one of: ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return create();
+}
+
+let activeProvider: RecipeAIProvider | null = null;
+
+// Text generation comes from AI_PROVIDER and receipts and images from AI_VISION_PROVIDER,
+// so the defaults keep OpenAI for recipes and Gemini for photos
+export function getRecipeAIProvider(): RecipeAIProvider {
+  if (activeProvider) return activeProvider;
+
+  const text = createProvider(config.aiProvider);
+  const vision = config.aiVisionProvider === config.aiProvider ? text : createProvider(config.aiVisionProvider);
+  activeProvider = text === vision ? text : {
+    name: `${text.name}+${vision.name}`,
+    generateRecipes: request => text.generateRecipes(request),
+    generatePreviews: request => text.generatePreviews(request),
+    suggestSubstitutions: request => text.suggestSubstitutions(request),
+    parseReceipt: (image, prompt) => vision.parseReceipt(image, prompt),
+    generateImage: prompt => vision.generateImage(prompt),
+  };
+  return activeProvider;
+}
+
+// Swap the provider for the rest of the process, e.g. a fixture provider in integration tests
+export function setRecipeAIProvider(provider: RecipeAIProvider | null): void {
+  activeProvider = provider;
+}
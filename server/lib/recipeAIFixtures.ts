@@ -0,0 +1,801 @@
+import type { RecipeNutrition } from '@db/schema';
+import { ingredientContainsAllergen } from '@db/allergens';
+import type { PreviewTask, ReceiptImage, RecipeAIHints, RecipeAIProvider, RecipeAIRequest, RecipeTask } from './recipeAI';
+
+// Canned answers for AI_PROVIDER=fixture. Every answer is a pure function of the request, so the
+// same prompt always gets the same recipe, and each has the shape the matching prompt asks for.
+
+type ComponentType = 'protein' | 'carb' | 'vegetable';
+
+interface FixtureIngredient {
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+interface FixtureRecipe {
+  name: string;
+  description: string;
+  mealType: 'Breakfast' | 'Lunch' | 'Dinner';
+  cuisine: string;
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  ingredients: FixtureIngredient[];
+  instructions: string[];
+  tags: string[];
+  nutrition: RecipeNutrition;
+  complexity: 1 | 2 | 3;
+}
+
+interface FixtureComponent {
+  type: ComponentType;
+  name: string;
+  description: string;
+  prepTime: number;
+  cookTime: number;
+  ingredients: FixtureIngredient[];
+  instructions: string[];
+  nutrition: RecipeNutrition;
+  storage: string;
+  reheat: string;
+}
+
+interface FixtureAssembly {
+  name: string;
+  flavorProfile: string;
+  sauce: string;
+  sauceIngredients: FixtureIngredient[];
+  nutrition: RecipeNutrition;
+}
+
+const RECIPES: FixtureRecipe[] = [
+  {
+    name: 'Veggie Egg Scramble',
+    description: 'Soft scrambled eggs with spinach, blistered tomatoes and feta',
+    mealType: 'Breakfast',
+    cuisine: 'American',
+    prepTime: 5,
+    cookTime: 10,
+    servings: 2,
+    ingredients: [
+      { name: 'eggs', amount: 6, unit: 'whole' },
+      { name: 'baby spinach', amount: 2, unit: 'cups' },
+      { name: 'cherry tomatoes', amount: 1, unit: 'cup' },
+      { name: 'feta cheese', amount: 0.25, unit: 'cup' },
+      { name: 'olive oil', amount: 1, unit: 'tbsp' },
+      { name: 'salt', amount: 0.5, unit: 'tsp' },
+    ],
+    instructions: [
+      'Heat the olive oil in a nonstick skillet over medium heat and blister the tomatoes for 3 minutes.',
+      'Add the spinach and stir until wilted.',
+      'Whisk the eggs with the salt, pour them in and stir gently until just set.',
+      'Top with the feta and serve.',
+    ],
+    tags: ['Quick', 'High Protein'],
+    nutrition: { calories: 310, protein: 21, carbs: 8, fat: 22, saturated_fat: 7, fiber: 2, sugar: 4, sodium: 520 },
+    complexity: 1,
+  },
+  {
+    name: 'Sweet Potato Breakfast Hash',
+    description: 'Crispy sweet potatoes with turkey sausage, peppers and smoked paprika',
+    mealType: 'Breakfast',
+    cuisine: 'American',
+    prepTime: 10,
+    cookTime: 20,
+    servings: 4,
+    ingredients: [
+      { name: 'sweet potatoes', amount: 1, unit: 'lb' },
+      { name: 'turkey sausage', amount: 8, unit: 'oz' },
+      { name: 'bell pepper', amount: 1, unit: 'whole' },
+      { name: 'yellow onion', amount: 1, unit: 'whole' },
+      { name: 'olive oil', amount: 2, unit: 'tbsp' },
+      { name: 'smoked paprika', amount: 1, unit: 'tsp' },
+    ],
+    instructions: [
+      'Dice the sweet potatoes, pepper and onion.',
+      'Brown the sausage in the olive oil, then set it aside.',
+      'Cook the sweet potatoes in the same pan for 12 minutes until crisp, adding the pepper and onion halfway.',
+      'Stir in the sausage and paprika and cook 2 more minutes.',
+    ],
+    tags: ['Gluten-Free', 'Dairy-Free'],
+    nutrition: { calories: 330, protein: 17, carbs: 32, fat: 15, saturated_fat: 3.5, fiber: 5, sugar: 9, sodium: 480 },
+    complexity: 1,
+  },
+  {
+    name: 'Blueberry Overnight Oats',
+    description: 'Creamy make-ahead oats with chia, blueberries and a touch of maple',
+    mealType: 'Breakfast',
+    cuisine: 'American',
+    prepTime: 5,
+    cookTime: 0,
+    servings: 2,
+    ingredients: [
+      { name: 'rolled oats', amount: 1, unit: 'cup' },
+      { name: 'almond milk', amount: 1, unit: 'cup' },
+      { name: 'chia seeds', amount: 2, unit: 'tbsp' },
+      { name: 'blueberries', amount: 1, unit: 'cup' },
+      { name: 'maple syrup', amount: 1, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Stir the oats, almond milk, chia seeds and maple syrup together in a jar.',
+      'Fold in the blueberries, cover and refrigerate overnight.',
+    ],
+    tags: ['Vegan', 'Make Ahead'],
+    nutrition: { calories: 380, protein: 10, carbs: 62, fat: 11, saturated_fat: 1, fiber: 11, sugar: 18, sodium: 90 },
+    complexity: 1,
+  },
+  {
+    name: 'Chicken Quinoa Bowl',
+    description: 'Lemon-oregano chicken over quinoa with cucumber and tomatoes',
+    mealType: 'Lunch',
+    cuisine: 'Mediterranean',
+    prepTime: 15,
+    cookTime: 20,
+    servings: 4,
+    ingredients: [
+      { name: 'chicken breast', amount: 1, unit: 'lb' },
+      { name: 'quinoa', amount: 1, unit: 'cup' },
+      { name: 'cucumber', amount: 1, unit: 'whole' },
+      { name: 'cherry tomatoes', amount: 1, unit: 'cup' },
+      { name: 'red onion', amount: 0.5, unit: 'cup' },
+      { name: 'lemon juice', amount: 2, unit: 'tbsp' },
+      { name: 'olive oil', amount: 3, unit: 'tbsp' },
+      { name: 'dried oregano', amount: 1, unit: 'tsp' },
+    ],
+    instructions: [
+      'Cook the quinoa according to the package directions.',
+      'Season the chicken with oregano and sear in 1 tbsp olive oil for 6 minutes per side, then slice.',
+      'Chop the cucumber, tomatoes and onion.',
+      'Whisk the remaining olive oil with the lemon juice and toss everything together.',
+    ],
+    tags: ['Gluten-Free', 'Dairy-Free', 'High Protein'],
+    nutrition: { calories: 450, protein: 36, carbs: 38, fat: 16, saturated_fat: 2.5, fiber: 5, sugar: 4, sodium: 380 },
+    complexity: 2,
+  },
+  {
+    name: 'Turkey Avocado Wrap',
+    description: 'Sliced turkey, avocado and crisp romaine rolled in a soft tortilla',
+    mealType: 'Lunch',
+    cuisine: 'American',
+    prepTime: 10,
+    cookTime: 0,
+    servings: 4,
+    ingredients: [
+      { name: 'flour tortillas', amount: 4, unit: 'whole' },
+      { name: 'sliced turkey', amount: 8, unit: 'oz' },
+      { name: 'avocado', amount: 1, unit: 'whole' },
+      { name: 'romaine lettuce', amount: 2, unit: 'cups' },
+      { name: 'tomato', amount: 1, unit: 'whole' },
+      { name: 'dijon mustard', amount: 2, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Spread each tortilla with mustard.',
+      'Layer with turkey, sliced avocado, lettuce and tomato.',
+      'Roll tightly and cut in half.',
+    ],
+    tags: ['Quick', 'No Cook'],
+    nutrition: { calories: 390, protein: 24, carbs: 34, fat: 17, saturated_fat: 3.5, fiber: 6, sugar: 3, sodium: 890 },
+    complexity: 1,
+  },
+  {
+    name: 'Lentil Vegetable Soup',
+    description: 'Hearty lentils simmered with carrots, celery and cumin',
+    mealType: 'Lunch',
+    cuisine: 'Mediterranean',
+    prepTime: 15,
+    cookTime: 35,
+    servings: 4,
+    ingredients: [
+      { name: 'green lentils', amount: 1, unit: 'cup' },
+      { name: 'carrots', amount: 2, unit: 'whole' },
+      { name: 'celery', amount: 2, unit: 'stalks' },
+      { name: 'yellow onion', amount: 1, unit: 'whole' },
+      { name: 'diced tomatoes', amount: 14, unit: 'oz' },
+      { name: 'vegetable broth', amount: 4, unit: 'cups' },
+      { name: 'ground cumin', amount: 1, unit: 'tsp' },
+      { name: 'olive oil', amount: 1, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Saute the diced onion, carrots and celery in the olive oil for 6 minutes.',
+      'Add the cumin, lentils, tomatoes and broth and bring to a boil.',
+      'Simmer covered for 30 minutes until the lentils are tender.',
+    ],
+    tags: ['Vegan', 'Gluten-Free', 'Dairy-Free'],
+    nutrition: { calories: 290, protein: 16, carbs: 45, fat: 5, saturated_fat: 0.7, fiber: 15, sugar: 8, sodium: 640 },
+    complexity: 1,
+  },
+  {
+    name: 'Lemon Herb Salmon',
+    description: 'Roasted salmon with garlic, dill and lemon over tender asparagus',
+    mealType: 'Dinner',
+    cuisine: 'Mediterranean',
+    prepTime: 10,
+    cookTime: 15,
+    servings: 4,
+    ingredients: [
+      { name: 'salmon fillets', amount: 1.5, unit: 'lb' },
+      { name: 'asparagus', amount: 1, unit: 'lb' },
+      { name: 'lemon', amount: 1, unit: 'whole' },
+      { name: 'garlic', amount: 3, unit: 'cloves' },
+      { name: 'olive oil', amount: 2, unit: 'tbsp' },
+      { name: 'fresh dill', amount: 2, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Heat the oven to 400°F.',
+      'Toss the asparagus with half the olive oil on a sheet pan and set the salmon on top.',
+      'Mix the remaining oil with minced garlic, dill and lemon zest and spread it over the salmon.',
+      'Roast for 12 to 15 minutes and finish with lemon juice.',
+    ],
+    tags: ['Gluten-Free', 'Dairy-Free', 'High Protein'],
+    nutrition: { calories: 420, protein: 35, carbs: 8, fat: 27, saturated_fat: 4.5, fiber: 3, sugar: 3, sodium: 150 },
+    complexity: 1,
+  },
+  {
+    name: 'Beef and Broccoli Stir-Fry',
+    description: 'Tender flank steak and broccoli in a garlic ginger sauce over jasmine rice',
+    mealType: 'Dinner',
+    cuisine: 'Chinese',
+    prepTime: 15,
+    cookTime: 15,
+    servings: 4,
+    ingredients: [
+      { name: 'flank steak', amount: 1, unit: 'lb' },
+      { name: 'broccoli florets', amount: 4, unit: 'cups' },
+      { name: 'soy sauce', amount: 3, unit: 'tbsp' },
+      { name: 'garlic', amount: 3, unit: 'cloves' },
+      { name: 'fresh ginger', amount: 1, unit: 'tbsp' },
+      { name: 'cornstarch', amount: 1, unit: 'tbsp' },
+      { name: 'jasmine rice', amount: 1.5, unit: 'cups' },
+      { name: 'vegetable oil', amount: 2, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Cook the rice according to the package directions.',
+      'Slice the steak thinly against the grain and toss with the cornstarch.',
+      'Sear the steak in hot oil for 2 minutes, then remove it.',
+      'Stir-fry the broccoli, garlic and ginger for 4 minutes, return the steak, add the soy sauce and toss until glossy.',
+    ],
+    tags: ['Dairy-Free'],
+    nutrition: { calories: 510, protein: 32, carbs: 52, fat: 18, saturated_fat: 5, fiber: 4, sugar: 3, sodium: 820 },
+    complexity: 2,
+  },
+  {
+    name: 'Chicken Fajitas',
+    description: 'Chili-lime chicken with charred peppers and onions in warm corn tortillas',
+    mealType: 'Dinner',
+    cuisine: 'Mexican',
+    prepTime: 15,
+    cookTime: 15,
+    servings: 4,
+    ingredients: [
+      { name: 'chicken breast', amount: 1.5, unit: 'lb' },
+      { name: 'bell peppers', amount: 3, unit: 'whole' },
+      { name: 'yellow onion', amount: 1, unit: 'whole' },
+      { name: 'corn tortillas', amount: 8, unit: 'whole' },
+      { name: 'lime', amount: 1, unit: 'whole' },
+      { name: 'chili powder', amount: 2, unit: 'tsp' },
+      { name: 'ground cumin', amount: 1, unit: 'tsp' },
+      { name: 'olive oil', amount: 2, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Slice the chicken, peppers and onion into strips.',
+      'Toss the chicken with the chili powder, cumin and half the oil.',
+      'Sear the chicken in a hot skillet for 6 minutes, then char the peppers and onion in the remaining oil.',
+      'Squeeze over the lime and serve in warmed tortillas.',
+    ],
+    tags: ['Gluten-Free', 'Dairy-Free'],
+    nutrition: { calories: 460, protein: 40, carbs: 36, fat: 16, saturated_fat: 3, fiber: 6, sugar: 6, sodium: 420 },
+    complexity: 2,
+  },
+  {
+    name: 'Spaghetti with Turkey Meatballs',
+    description: 'Baked turkey meatballs in marinara over spaghetti with parmesan',
+    mealType: 'Dinner',
+    cuisine: 'Italian',
+    prepTime: 20,
+    cookTime: 25,
+    servings: 4,
+    ingredients: [
+      { name: 'spaghetti', amount: 12, unit: 'oz' },
+      { name: 'ground turkey', amount: 1, unit: 'lb' },
+      { name: 'marinara sauce', amount: 24, unit: 'oz' },
+      { name: 'eggs', amount: 1, unit: 'whole' },
+      { name: 'breadcrumbs', amount: 0.5, unit: 'cup' },
+      { name: 'parmesan cheese', amount: 0.5, unit: 'cup' },
+      { name: 'garlic', amount: 2, unit: 'cloves' },
+    ],
+    instructions: [
+      'Heat the oven to 400°F.',
+      'Mix the turkey, egg, breadcrumbs, half the parmesan and minced garlic, roll into 16 meatballs and bake for 18 minutes.',
+      'Cook the spaghetti and warm the marinara.',
+      'Toss the meatballs in the sauce and serve over the pasta with the remaining parmesan.',
+    ],
+    tags: ['Family Friendly'],
+    nutrition: { calories: 620, protein: 38, carbs: 74, fat: 18, saturated_fat: 6, fiber: 6, sugar: 10, sodium: 900 },
+    complexity: 2,
+  },
+];
+
+const COMPONENTS: FixtureComponent[] = [
+  {
+    type: 'protein',
+    name: 'Garlic Herb Chicken Breast',
+    description: 'Juicy baked chicken breast seasoned with garlic and thyme',
+    prepTime: 10,
+    cookTime: 25,
+    ingredients: [
+      { name: 'chicken breast', amount: 3, unit: 'lb' },
+      { name: 'olive oil', amount: 2, unit: 'tbsp' },
+      { name: 'garlic powder', amount: 2, unit: 'tsp' },
+      { name: 'dried thyme', amount: 1, unit: 'tsp' },
+      { name: 'salt', amount: 1, unit: 'tsp' },
+    ],
+    instructions: [
+      'Heat the oven to 425°F.',
+      'Rub the chicken with oil, garlic powder, thyme and salt.',
+      'Bake for 22 to 25 minutes until it reaches 165°F, then rest and slice.',
+    ],
+    nutrition: { calories: 220, protein: 38, carbs: 1, fat: 7, saturated_fat: 1.5, fiber: 0, sugar: 0, sodium: 340 },
+    storage: 'Store sliced in airtight containers, refrigerate up to 4 days',
+    reheat: 'Microwave covered 1-2 minutes with a splash of water',
+  },
+  {
+    type: 'protein',
+    name: 'Chili Lime Ground Turkey',
+    description: 'Savory ground turkey with chili powder, cumin and fresh lime',
+    prepTime: 5,
+    cookTime: 15,
+    ingredients: [
+      { name: 'ground turkey', amount: 3, unit: 'lb' },
+      { name: 'lime', amount: 2, unit: 'whole' },
+      { name: 'chili powder', amount: 1, unit: 'tbsp' },
+      { name: 'ground cumin', amount: 2, unit: 'tsp' },
+      { name: 'olive oil', amount: 1, unit: 'tbsp' },
+    ],
+    instructions: [
+      'Brown the turkey in the oil over medium-high heat, breaking it up.',
+      'Stir in the chili powder and cumin and cook 2 minutes.',
+      'Finish with lime juice and zest.',
+    ],
+    nutrition: { calories: 240, protein: 30, carbs: 2, fat: 13, saturated_fat: 3.5, fiber: 1, sugar: 0, sodium: 160 },
+    storage: 'Refrigerate in airtight containers up to 4 days',
+    reheat: 'Pan-heat 3-4 minutes or microwave 1-2 minutes',
+  },
+  {
+    type: 'carb',
+    name: 'Cilantro Lime Rice',
+    description: 'Fluffy white rice brightened with lime and cilantro',
+    prepTime: 5,
+    cookTime: 20,
+    ingredients: [
+      { name: 'long-grain white rice', amount: 3, unit: 'cups' },
+      { name: 'lime', amount: 2, unit: 'whole' },
+      { name: 'fresh cilantro', amount: 0.5, unit: 'cup' },
+      { name: 'salt', amount: 1, unit: 'tsp' },
+    ],
+    instructions: [
+      'Rinse the rice and cook it with 4.5 cups water and the salt.',
+      'Fluff and fold in lime juice, zest and chopped cilantro.',
+    ],
+    nutrition: { calories: 200, protein: 4, carbs: 44, fat: 0.5, saturated_fat: 0, fiber: 1, sugar: 0, sodium: 290 },
+    storage: 'Cool quickly and refrigerate up to 4 days',
+    reheat: 'Microwave covered with 1 tbsp water for 1-2 minutes',
+  },
+  {
+    type: 'carb',
+    name: 'Roasted Sweet Potatoes',
+    description: 'Caramelized sweet potato cubes with smoked paprika',
+    prepTime: 10,
+    cookTime: 30,
+    ingredients: [
+      { name: 'sweet potatoes', amount: 3, unit: 'lb' },
+      { name: 'olive oil', amount: 3, unit: 'tbsp' },
+      { name: 'smoked paprika', amount: 2, unit: 'tsp' },
+      { name: 'salt', amount: 1, unit: 'tsp' },
+    ],
+    instructions: [
+      'Heat the oven to 425°F.',
+      'Cube the sweet potatoes and toss with oil, paprika and salt.',
+      'Roast for 25 to 30 minutes, turning once.',
+    ],
+    nutrition: { calories: 180, protein: 3, carbs: 32, fat: 5, saturated_fat: 0.7, fiber: 5, sugar: 7, sodium: 310 },
+    storage: 'Refrigerate in airtight containers up to 5 days',
+    reheat: 'Reheat in a 400°F oven for 8 minutes or microwave 1-2 minutes',
+  },
+  {
+    type: 'vegetable',
+    name: 'Roasted Garlic Broccoli',
+    description: 'Crisp-tender broccoli roasted with garlic',
+    prepTime: 10,
+    cookTime: 18,
+    ingredients: [
+      { name: 'broccoli florets', amount: 8, unit: 'cups' },
+      { name: 'olive oil', amount: 3, unit: 'tbsp' },
+      { name: 'garlic', amount: 4, unit: 'cloves' },
+      { name: 'salt', amount: 1, unit: 'tsp' },
+    ],
+    instructions: [
+      'Heat the oven to 425°F.',
+      'Toss the broccoli with oil, minced garlic and salt.',
+      'Roast for 15 to 18 minutes until the edges brown.',
+    ],
+    nutrition: { calories: 90, protein: 4, carbs: 9, fat: 5, saturated_fat: 0.7, fiber: 3, sugar: 2, sodium: 300 },
+    storage: 'Refrigerate in airtight containers up to 4 days',
+    reheat: 'Microwave 1 minute or toss in a hot pan for 2 minutes',
+  },
+  {
+    type: 'vegetable',
+    name: 'Sheet Pan Peppers and Zucchini',
+    description: 'Roasted bell peppers, zucchini and red onion with Italian herbs',
+    prepTime: 10,
+    cookTime: 20,
+    ingredients: [
+      { name: 'bell peppers', amount: 4, unit: 'whole' },
+      { name: 'zucchini', amount: 3, unit: 'whole' },
+      { name: 'red onion', amount: 1, unit: 'whole' },
+      { name: 'olive oil', amount: 3, unit: 'tbsp' },
+      { name: 'italian seasoning', amount: 2, unit: 'tsp' },
+    ],
+    instructions: [
+      'Heat the oven to 425°F.',
+      'Cut the vegetables into bite-size pieces and toss with oil and seasoning.',
+      'Roast for 20 minutes, stirring halfway.',
+    ],
+    nutrition: { calories: 85, protein: 2, carbs: 10, fat: 5, saturated_fat: 0.7, fiber: 3, sugar: 6, sodium: 20 },
+    storage: 'Refrigerate in airtight containers up to 4 days',
+    reheat: 'Microwave 1 minute or pan-heat 2-3 minutes',
+  },
+];
+
+const ASSEMBLIES: FixtureAssembly[] = [
+  {
+    name: 'Teriyaki Power Bowl',
+    flavorProfile: 'Asian',
+    sauce: 'Quick teriyaki glaze',
+    sauceIngredients: [
+      { name: 'soy sauce', amount: 2, unit: 'tbsp' },
+      { name: 'honey', amount: 1, unit: 'tbsp' },
+      { name: 'rice vinegar', amount: 1, unit: 'tbsp' },
+      { name: 'sesame seeds', amount: 1, unit: 'tsp' },
+    ],
+    nutrition: { calories: 540, protein: 40, carbs: 58, fat: 14, saturated_fat: 2.5, fiber: 5, sugar: 12, sodium: 980 },
+  },
+  {
+    name: 'Mediterranean Lemon Bowl',
+    flavorProfile: 'Mediterranean',
+    sauce: 'Lemon oregano dressing with feta',
+    sauceIngredients: [
+      { name: 'lemon juice', amount: 2, unit: 'tbsp' },
+      { name: 'olive oil', amount: 2, unit: 'tbsp' },
+      { name: 'dried oregano', amount: 1, unit: 'tsp' },
+      { name: 'crumbled feta cheese', amount: 0.25, unit: 'cup' },
+    ],
+    nutrition: { calories: 560, protein: 41, carbs: 46, fat: 22, saturated_fat: 6, fiber: 5, sugar: 6, sodium: 720 },
+  },
+  {
+    name: 'Southwest Salsa Bowl',
+    flavorProfile: 'Mexican',
+    sauce: 'Fresh salsa with avocado and lime',
+    sauceIngredients: [
+      { name: 'salsa', amount: 0.5, unit: 'cup' },
+      { name: 'avocado', amount: 1, unit: 'whole' },
+      { name: 'lime', amount: 1, unit: 'whole' },
+      { name: 'chili powder', amount: 0.5, unit: 'tsp' },
+    ],
+    nutrition: { calories: 530, protein: 39, carbs: 50, fat: 19, saturated_fat: 3, fiber: 10, sugar: 7, sodium: 640 },
+  },
+  {
+    name: 'Honey Mustard Harvest Bowl',
+    flavorProfile: 'American',
+    sauce: 'Honey mustard vinaigrette',
+    sauceIngredients: [
+      { name: 'dijon mustard', amount: 2, unit: 'tbsp' },
+      { name: 'honey', amount: 1, unit: 'tbsp' },
+      { name: 'apple cider vinegar', amount: 1, unit: 'tbsp' },
+      { name: 'olive oil', amount: 1, unit: 'tbsp' },
+    ],
+    nutrition: { calories: 520, protein: 38, carbs: 52, fat: 16, saturated_fat: 2.5, fiber: 6, sugar: 14, sodium: 560 },
+  },
+];
+
+// Options checked in order, so longer names ("sour cream") win over the words inside them ("cream")
+const SUBSTITUTIONS: Array<{ ingredient: string; substitutions: string[]; reasoning: string }> = [
+  {
+    ingredient: 'sour cream',
+    substitutions: ['plain greek yogurt', 'blended cottage cheese', 'coconut cream'],
+    reasoning: 'Each brings the same tang and thick, creamy body.',
+  },
+  {
+    ingredient: 'soy sauce',
+    substitutions: ['coconut aminos', 'tamari', 'worcestershire sauce'],
+    reasoning: 'Each adds salty, savory depth in the same amount.',
+  },
+  {
+    ingredient: 'butter',
+    substitutions: ['olive oil', 'coconut oil', 'vegan butter'],
+    reasoning: 'Each provides the fat butter contributes; use about three quarters as much oil.',
+  },
+  {
+    ingredient: 'cream',
+    substitutions: ['evaporated milk', 'coconut cream', 'cashew cream'],
+    reasoning: 'Each is rich enough to thicken sauces without splitting.',
+  },
+  {
+    ingredient: 'milk',
+    substitutions: ['oat milk', 'unsweetened almond milk', 'soy milk'],
+    reasoning: 'Unsweetened plant milks swap in one for one in cooking and baking.',
+  },
+  {
+    ingredient: 'egg',
+    substitutions: ['ground flaxseed mixed with water', 'unsweetened applesauce', 'mashed banana'],
+    reasoning: 'Each binds and adds moisture the way an egg does in baking.',
+  },
+  {
+    ingredient: 'flour',
+    substitutions: ['rice flour', 'oat flour', 'almond flour'],
+    reasoning: 'Each works as a thickener or in quick breads; expect a slightly denser crumb.',
+  },
+];
+
+const RECEIPT = {
+  store: 'Fixture Market',
+  items: [
+    { name: 'Organic Milk', category: 'dairy', quantity: 1, unit: 'gallon', estimatedShelfLifeDays: 7, price: 5.49 },
+    { name: 'Bananas', category: 'produce', quantity: 6, unit: null, estimatedShelfLifeDays: 5, price: 1.38 },
+    { name: 'Chicken Breast', category: 'meat', quantity: 2, unit: 'lb', estimatedShelfLifeDays: 2, price: 9.98 },
+    { name: 'Baby Spinach', category: 'produce', quantity: 5, unit: 'oz', estimatedShelfLifeDays: 5, price: 3.99 },
+    { name: 'Brown Rice', category: 'pantry', quantity: 2, unit: 'lb', estimatedShelfLifeDays: 365, price: 3.29 },
+    { name: 'Cheddar Cheese', category: 'dairy', quantity: 8, unit: 'oz', estimatedShelfLifeDays: 30, price: 4.29 },
+  ],
+};
+
+const PLACEHOLDER_IMAGE = `data:image/svg+xml;base64,${Buffer.from(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">' +
+  '<rect width="512" height="512" fill="#f4ede4"/>' +
+  '<circle cx="256" cy="256" r="150" fill="#ffffff" stroke="#e0d6c8" stroke-width="12"/>' +
+  '</svg>'
+).toString('base64')}`;
+
+const DIFFICULTY = { 1: 'Easy', 2: 'Moderate', 3: 'Advanced' } as const;
+
+// FNV-1a, so the starting recipe depends on the whole prompt
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function rotate<T>(items: T[], seed: number): T[] {
+  if (items.length === 0) return items;
+  const start = seed % items.length;
+  return [...items.slice(start), ...items.slice(0, start)];
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+const mentions = (text: string, phrase: string) => new RegExp(`(^|[^a-z])${phrase}($|[^a-z])`, 'i').test(text);
+
+function isSafe(ingredients: FixtureIngredient[], allergies: string[] = []): boolean {
+  return !ingredients.some(ingredient => allergies.some(allergy => ingredientContainsAllergen(ingredient.name, allergy)));
+}
+
+// Safe options first, falling back to everything when nothing is, so the allergen guard still sees misses
+function preferSafe<T>(items: T[], ingredientsOf: (item: T) => FixtureIngredient[], allergies?: string[]): T[] {
+  const safe = items.filter(item => isSafe(ingredientsOf(item), allergies));
+  return safe.length > 0 ? safe : items;
+}
+
+// Recipes for each requested meal type, skipping names the prompt already mentions (the recipes
+// it says not to repeat) or already picked. Once every name is used, variations are numbered.
+function pickRecipes(prompt: string, hints: RecipeAIHints, count: number, mealTypeAt: (index: number) => string | undefined): FixtureRecipe[] {
+  const picked: FixtureRecipe[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const mealType = mealTypeAt(index)?.toLowerCase();
+    const forMeal = RECIPES.filter(recipe => recipe.mealType.toLowerCase() === mealType);
+    const pool = preferSafe(
+      rotate(forMeal.length > 0 ? forMeal : RECIPES, hash(prompt) + index),
+      recipe => recipe.ingredients,
+      hints.allergies
+    );
+
+    picked.push(firstUnused(pool, name => prompt.includes(name) || picked.some(other => other.name === name)));
+  }
+
+  return picked;
+}
+
+function firstUnused(pool: FixtureRecipe[], isUsed: (name: string) => boolean): FixtureRecipe {
+  for (let round = 1; ; round++) {
+    for (const recipe of pool) {
+      const name = round === 1 ? recipe.name : `${recipe.name}, Variation ${round}`;
+      if (!isUsed(name)) return { ...recipe, name };
+    }
+  }
+}
+
+function toSnakeCase(recipe: FixtureRecipe, mealType?: string) {
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    prep_time: recipe.prepTime,
+    cook_time: recipe.cookTime,
+    servings: recipe.servings,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    meal_type: mealType ? capitalize(mealType) : recipe.mealType,
+    tags: [recipe.cuisine, ...recipe.tags],
+    nutrition: recipe.nutrition,
+    complexity: recipe.complexity,
+  };
+}
+
+// The camelCase shape, with meal type and cuisine carried in the tags
+function toCamelCase(recipe: FixtureRecipe) {
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    tags: [recipe.mealType, recipe.cuisine, ...recipe.tags],
+    nutrition: recipe.nutrition,
+    complexity: recipe.complexity,
+  };
+}
+
+function mealPrepComponent(prompt: string, hints: RecipeAIHints) {
+  const type = hints.componentType ?? 'protein';
+  const [component] = preferSafe(
+    rotate(COMPONENTS.filter(option => option.type === type), hash(prompt)),
+    option => option.ingredients,
+    hints.allergies
+  );
+
+  return {
+    name: component.name,
+    description: component.description,
+    prep_time: component.prepTime,
+    cook_time: component.cookTime,
+    servings: hints.servings ?? 6,
+    ingredients: component.ingredients,
+    instructions: component.instructions,
+    tags: ['Meal Prep', type],
+    nutrition: component.nutrition,
+    complexity: 1,
+    storage_instructions: component.storage,
+    reheat_instructions: component.reheat,
+  };
+}
+
+function mealPrepAssemblies(prompt: string, hints: RecipeAIHints) {
+  const components = hints.components ?? [];
+  const ofType = (type: ComponentType) => components.filter(component => component.type === type);
+  const proteins = ofType('protein');
+  const carbs = ofType('carb');
+  const vegetables = ofType('vegetable');
+  const templates = preferSafe(rotate(ASSEMBLIES, hash(prompt)), template => template.sauceIngredients, hints.allergies);
+
+  return Array.from({ length: hints.count ?? 3 }, (_, index) => {
+    const template = templates[index % templates.length];
+    const round = Math.floor(index / templates.length) + 1;
+    const used = [proteins[index % proteins.length], carbs[index % carbs.length], vegetables[index % vegetables.length]]
+      .filter((component): component is NonNullable<typeof component> => Boolean(component));
+
+    return {
+      name: round === 1 ? template.name : `${template.name}, Variation ${round}`,
+      description: `${used.map(component => component.name).join(', ')} finished with ${template.sauce.toLowerCase()}`,
+      component_ids: used.map(component => component.id),
+      sauce_suggestion: template.sauce,
+      flavor_profile: template.flavorProfile,
+      prep_time: 5,
+      ingredients: [
+        ...used.map(component => ({ name: component.name, amount: 1, unit: 'cup' })),
+        ...template.sauceIngredients,
+      ],
+      instructions: [
+        `Reheat the ${used.map(component => component.name.toLowerCase()).join(' and ')}.`,
+        `Whisk together the ${template.sauceIngredients.map(ingredient => ingredient.name).join(', ')}.`,
+        'Arrange everything in a bowl and drizzle with the sauce.',
+      ],
+      nutrition: template.nutrition,
+    };
+  });
+}
+
+// Read text as a recipe card: the first line is the title, lines that open with an amount are
+// ingredients and the rest are steps
+function transcribeRecipe(text: string) {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const [title, ...body] = lines;
+  const isIngredient = (line: string) => /^[\d½¼¾⅓⅔⅛]/.test(line);
+
+  if (!title || !body.some(isIngredient)) {
+    return { error: 'No recipe found in the text' };
+  }
+  return {
+    name: title,
+    description: null,
+    prep_time: null,
+    cook_time: null,
+    servings: 4,
+    ingredients: body.filter(isIngredient),
+    instructions: body.filter(line => !isIngredient(line)),
+  };
+}
+
+export class FixtureRecipeAIProvider implements RecipeAIProvider {
+  name = 'fixture';
+
+  async generateRecipes({ task, prompt, hints = {} }: RecipeAIRequest<RecipeTask>) {
+    switch (task) {
+      case 'recipe':
+        return toSnakeCase(pickRecipes(prompt, hints, 1, () => hints.mealType)[0], hints.mealType);
+      case 'recipe_from_title': {
+        // A title that names a fixture recipe (e.g. from a preview) gets that recipe under the same title
+        const title = hints.title ?? '';
+        const named = RECIPES.find(recipe => title.includes(recipe.name));
+        return toCamelCase(named ? { ...named, name: title } : pickRecipes(prompt, hints, 1, () => hints.mealType)[0]);
+      }
+      case 'pantry_recipes':
+        return { recipes: pickRecipes(prompt, hints, hints.count ?? 1, () => hints.mealType).map(toCamelCase) };
+      case 'meal_prep_component':
+        return mealPrepComponent(prompt, hints);
+      case 'meal_prep_assemblies':
+        return { assemblies: mealPrepAssemblies(prompt, hints) };
+      case 'recipe_import':
+        return transcribeRecipe(hints.text ?? '');
+    }
+  }
+
+  async generatePreviews({ task, prompt, hints = {} }: RecipeAIRequest<PreviewTask>) {
+    switch (task) {
+      case 'meal_previews': {
+        const recipes = pickRecipes(prompt, hints, hints.count ?? 1, index => hints.mealTypes?.[index] ?? hints.mealType);
+        return {
+          recipes: recipes.map(recipe => ({
+            title: recipe.name,
+            description: recipe.description,
+            estimatedTime: recipe.prepTime + recipe.cookTime,
+          })),
+        };
+      }
+      case 'recipe_titles':
+        return { recipes: pickRecipes(prompt, hints, hints.count ?? 3, () => hints.mealType).map(recipe => recipe.name) };
+      case 'title_suggestion': {
+        const [recipe] = pickRecipes(prompt, hints, 1, () => hints.mealType);
+        return {
+          title: recipe.name,
+          cuisineType: recipe.cuisine,
+          difficulty: DIFFICULTY[recipe.complexity],
+          estimatedTime: `${recipe.prepTime + recipe.cookTime} minutes`,
+          tags: recipe.tags,
+        };
+      }
+    }
+  }
+
+  async suggestSubstitutions({ hints = {} }: RecipeAIRequest<'substitution'>) {
+    const match = SUBSTITUTIONS.find(option => mentions(hints.ingredient ?? '', option.ingredient));
+    if (!match) {
+      return { substitutions: [], reasoning: `No offline substitutions are available for ${hints.ingredient ?? 'this ingredient'}.` };
+    }
+
+    return {
+      substitutions: match.substitutions.filter(name => isSafe([{ name, amount: 1, unit: '' }], hints.allergies)),
+      reasoning: match.reasoning,
+    };
+  }
+
+  async parseReceipt(_image: ReceiptImage, _prompt: string) {
+    return RECEIPT;
+  }
+
+  async generateImage(_prompt: string) {
+    return PLACEHOLDER_IMAGE;
+  }
+}
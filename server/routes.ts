@@ -2,8 +2,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import { eq, and, gt, or, sql, inArray, desc, isNotNull, isNull, lt } from "drizzle-orm";
 import { generateRecipeRecommendation, generateIngredientSubstitution, generateRecipeSuggestionsFromIngredients, generateRecipeFromTitleAI, parseReceiptWithVision, generateMealPrepComponent, generateMealPrepAssemblies, generateRecipeImage } from "./utils/ai";
 import { instacartService, getInstacartService } from "./lib/instacart";
+import { getRecipeAIProvider } from "./lib/recipeAI";
 import { config } from "./config/environment";
-import { recipes, mealPlans, groceryLists, users, userRecipes, temporaryRecipes, mealPlanRecipes, mealPlanFeedback, pantryItems, ingredientDefaults, pantryUsageLog, mealPrepPlans, mealPrepComponents, mealPrepAssemblies, type Recipe, type PantryItem, type IngredientDefault, PreferenceSchema, insertTemporaryRecipeSchema, insertMealPlanFeedbackSchema, insertPantryItemSchema, selectPantryItemSchema } from "@db/schema";
+import { recipes, mealPlans, groceryLists, groceryListItems, users, PantryLocationEnum, DiscardReasonEnum, userRecipes, temporaryRecipes, mealPlanRecipes, mealPlanFeedback, pantryItems, ingredientDefaults, pantryUsageLog, mealPrepPlans, mealPrepComponents, mealPrepAssemblies, households, householdMembers, householdInvitations, HouseholdRoleEnum, NutritionTargetsSchema, type Recipe, type PantryItem, type IngredientDefault, PreferenceSchema, insertTemporaryRecipeSchema, insertMealPlanFeedbackSchema, insertPantryItemSchema, selectPantryItemSchema, UserRecipeInputSchema, RecipeImportSchema, RecipeExportFormatEnum } from "@db/schema";
 import { db } from "../db";
 import { requireActiveSubscription } from "./middleware/subscription";
 import { requireAdmin, checkAdminStatus } from "./middleware/admin";
@@ -14,10 +15,29 @@ import { type PublicUser } from "./types";
 import { z } from "zod";
 import { MealTypeEnum, CuisineTypeEnum, DietaryTypeEnum, DifficultyEnum } from "@db/schema";
 import { MealPlanExpirationService } from "./services/mealPlanExpiration";
+import { HouseholdService } from "./services/household";
+import { GroceryListService } from "./services/groceryList";
+import { PantryReconciliationService } from "./services/pantryReconciliation";
+import { PantryDeductionService, quantityStatusAfterUse } from "./services/pantryDeduction";
+import { PantryExpirationService, storageForCategory, storageForItem } from "./services/pantryExpiration";
+import { PantrySuggestionService } from "./services/pantrySuggestions";
+import { PantryWasteService, type AnalyticsPeriod } from "./services/pantryWaste";
+import { PriceService } from "./services/pricing";
+import { ReceiptMergeService } from "./services/receiptMerge";
+import { BarcodeService, normalizeBarcode } from "./services/barcode";
+import { NutritionService } from "./services/nutrition";
+import { MealPlanJobService } from "./services/mealPlanJobs";
+import { RecipeLibraryService } from "./services/recipeLibrary";
+import { RecipeAuthoringService, RecipeInUseError } from "./services/recipeAuthoring";
+import { RecipeImportService, RecipeImportError } from "./services/recipeImport";
+import { RecipeExportService, type ExportFile } from "./services/recipeExport";
+import { PrintSheetService } from "./services/printSheet";
+import { detectAllergens } from "@db/allergens";
+import { AllergenGuardService, AllergenViolationError } from "./services/allergenGuard";
+import { convertQuantity, roundQuantity } from "@db/units";
 import crypto from 'crypto';
 import { randomBytes, timingSafeEqual } from 'crypto';
 import { promisify } from 'util';
-import OpenAI from "openai";
 
 const scryptAsync = promisify(crypto.scrypt);
 
@@ -40,10 +60,6 @@ const cryptoUtils = {
   }
 };
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Timeout wrapper for long-running operations
 async function withTimeout<T>(
   promise: Promise<T>,
@@ -751,7 +767,7 @@ export function registerRoutes(app: express.Express) {
 
       const [savedRecipe] = await db
         .insert(temporaryRecipes)
-        .values(parseResult.data)
+        .values({ ...parseResult.data, allergens: detectAllergens(parseResult.data.ingredients) })
         .returning();
 
       // Now that we have a valid recipe ID, store the image if one exists
@@ -1104,8 +1120,11 @@ export function registerRoutes(app: express.Express) {
           )
         );
 
+      // Favorites of recipes saved to the cookbook are kept there
+      const cookbookFavorites = await RecipeLibraryService.list(req.user!.id, { favoritesOnly: true });
+
       // Add is_favorite: true to all recipes since they're from the favorites endpoint
-      const recipesWithFavorite = favoriteRecipes.map(recipe => ({
+      const recipesWithFavorite = [...cookbookFavorites, ...favoriteRecipes].map(recipe => ({
         ...recipe,
         is_favorite: true
       }));
@@ -1124,6 +1143,14 @@ export function registerRoutes(app: express.Express) {
     }
 
     try {
+      const libraryRecipeId = await RecipeLibraryService.favoriteTarget(req.user!.id, recipeId);
+      if (libraryRecipeId !== null) {
+        if (!await RecipeLibraryService.setFavorite(req.user!.id, libraryRecipeId, true)) {
+          return res.status(404).json({ error: "Recipe not found" });
+        }
+        return res.json({ message: "Recipe favorited successfully" });
+      }
+
       // Start a transaction to ensure data consistency
       await db.transaction(async (tx) => {
         // Get the recipe to favorite
@@ -1202,6 +1229,14 @@ export function registerRoutes(app: express.Express) {
     }
 
     try {
+      const libraryRecipeId = await RecipeLibraryService.favoriteTarget(req.user!.id, recipeId);
+      if (libraryRecipeId !== null) {
+        if (!await RecipeLibraryService.setFavorite(req.user!.id, libraryRecipeId, false)) {
+          return res.status(404).json({ error: "Recipe not found" });
+        }
+        return res.json({ message: "Recipe unfavorited successfully" });
+      }
+
       // Start a transaction to ensure data consistency
       await db.transaction(async (tx) => {
         // Get the recipe to unfavorite
@@ -1249,12 +1284,358 @@ export function registerRoutes(app: express.Express) {
     }
   });
 
+  // MARK: - Cookbook
+
+  // Recipes the user saved to their cookbook, which don't expire with the temporary recipes they came from
+  app.get("/api/cookbook", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const recipes = await RecipeLibraryService.list(req.user!.id);
+      res.json(recipes);
+    } catch (error) {
+      console.error("Error fetching cookbook:", error);
+      res.status(500).json({ error: "Failed to fetch cookbook" });
+    }
+  });
+
+  // Save a temporary recipe to the cookbook. Its favorite and meal plan slots move to the saved copy.
+  app.post("/api/cookbook", isAuthenticated, async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.body?.recipe_id);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+
+    try {
+      const saved = await RecipeLibraryService.save(req.user!.id, recipeId);
+      if (!saved) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+      res.status(saved.created ? 201 : 200).json(saved);
+    } catch (error) {
+      console.error("Error saving recipe to cookbook:", error);
+      res.status(500).json({ error: "Failed to save recipe to cookbook" });
+    }
+  });
+
+  app.delete("/api/cookbook/:recipeId", isAuthenticated, async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.params.recipeId);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+
+    try {
+      if (!await RecipeLibraryService.remove(req.user!.id, recipeId)) {
+        return res.status(404).json({ error: "Recipe is not in your cookbook" });
+      }
+      res.json({ message: "Recipe removed from cookbook" });
+    } catch (error) {
+      console.error("Error removing recipe from cookbook:", error);
+      res.status(500).json({ error: "Failed to remove recipe from cookbook" });
+    }
+  });
+
+  // MARK: - User Recipes
+
+  app.get("/api/my-recipes", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const recipes = await RecipeAuthoringService.list(req.user!.id);
+      res.json(recipes);
+    } catch (error) {
+      console.error("Error fetching user recipes:", error);
+      res.status(500).json({ error: "Failed to fetch your recipes" });
+    }
+  });
+
+  // Write a recipe from scratch
+  app.post("/api/my-recipes", isAuthenticated, async (req: Request, res: Response) => {
+    const parsed = UserRecipeInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid recipe", details: parsed.error.errors });
+    }
+
+    try {
+      const recipe = await RecipeAuthoringService.create(req.user!.id, parsed.data);
+      res.status(201).json(recipe);
+    } catch (error) {
+      console.error("Error creating recipe:", error);
+      res.status(500).json({ error: "Failed to create recipe" });
+    }
+  });
+
+  // Import a recipe from a link, pasted page HTML, a schema.org JSON-LD document or plain text
+  app.post("/api/my-recipes/import", isAuthenticated, async (req: Request, res: Response) => {
+    const parsed = RecipeImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid import", details: parsed.error.errors });
+    }
+
+    try {
+      const recipe = await RecipeImportService.import(req.user!.id, parsed.data);
+      res.status(201).json(recipe);
+    } catch (error) {
+      if (error instanceof RecipeImportError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error("Error importing recipe:", error);
+      res.status(500).json({ error: "Failed to import recipe" });
+    }
+  });
+
+  app.put("/api/my-recipes/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.params.id);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+    const parsed = UserRecipeInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid recipe", details: parsed.error.errors });
+    }
+
+    try {
+      const recipe = await RecipeAuthoringService.update(req.user!.id, recipeId, parsed.data);
+      if (!recipe) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+      res.json(recipe);
+    } catch (error) {
+      console.error("Error updating recipe:", error);
+      res.status(500).json({ error: "Failed to update recipe" });
+    }
+  });
+
+  app.delete("/api/my-recipes/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.params.id);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+
+    try {
+      if (!await RecipeAuthoringService.remove(req.user!.id, recipeId)) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+      res.json({ message: "Recipe deleted" });
+    } catch (error) {
+      if (error instanceof RecipeInUseError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error deleting recipe:", error);
+      res.status(500).json({ error: "Failed to delete recipe" });
+    }
+  });
+
+  // Upload a photo for one of the user's recipes, as a base64 image like receipt scanning takes
+  app.post("/api/my-recipes/:id/photo", isAuthenticated, async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.params.id);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+
+    const { image, mimeType } = req.body;
+    if (!image || typeof image !== 'string') {
+      return res.status(400).json({ error: 'Image data is required' });
+    }
+    const validMimeTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+    const actualMimeType = mimeType || 'image/jpeg';
+    if (!validMimeTypes.includes(actualMimeType)) {
+      return res.status(400).json({ error: 'Invalid image type. Supported: JPEG, PNG, WebP, GIF' });
+    }
+
+    try {
+      const dataUrl = image.startsWith('data:') ? image : `data:${actualMimeType};base64,${image}`;
+      const recipe = await RecipeAuthoringService.setPhoto(req.user!.id, recipeId, dataUrl);
+      if (!recipe) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+      res.json(recipe);
+    } catch (error) {
+      console.error("Error uploading recipe photo:", error);
+      res.status(500).json({ error: "Failed to upload photo" });
+    }
+  });
+
+  // Edit a generated (or anyone else's) recipe: the changes are saved as the user's own copy
+  app.post("/api/recipes/:id/fork", isAuthenticated, async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.params.id);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+    const parsed = UserRecipeInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid recipe", details: parsed.error.errors });
+    }
+
+    try {
+      const recipe = await RecipeAuthoringService.fork(req.user!.id, recipeId, parsed.data);
+      if (!recipe) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+      res.status(201).json(recipe);
+    } catch (error) {
+      console.error("Error forking recipe:", error);
+      res.status(500).json({ error: "Failed to save your version of this recipe" });
+    }
+  });
+
+  // MARK: - Export
+
+  // ?format= is one of pdf (the default), markdown, json-ld or paprika
+  const sendExport = (res: Response, file: ExportFile) => {
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  };
+
+  app.get("/api/recipes/:id/export", async (req: Request, res: Response) => {
+    const recipeId = parseInt(req.params.id);
+    if (isNaN(recipeId)) {
+      return res.status(400).json({ error: "Invalid recipe ID" });
+    }
+    const format = RecipeExportFormatEnum.safeParse(req.query.format ?? "pdf");
+    if (!format.success) {
+      return res.status(400).json({ error: "Invalid export format", details: format.error.errors });
+    }
+
+    try {
+      const file = await RecipeExportService.recipe(recipeId, req.user?.id ?? null, format.data);
+      if (!file) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+      sendExport(res, file);
+    } catch (error) {
+      console.error("Error exporting recipe:", error);
+      res.status(500).json({ error: "Failed to export recipe" });
+    }
+  });
+
+  app.get("/api/meal-plans/:id/export", isAuthenticated, async (req: Request, res: Response) => {
+    const mealPlanId = parseInt(req.params.id);
+    if (isNaN(mealPlanId)) {
+      return res.status(400).json({ error: "Invalid meal plan ID" });
+    }
+    const format = RecipeExportFormatEnum.safeParse(req.query.format ?? "pdf");
+    if (!format.success) {
+      return res.status(400).json({ error: "Invalid export format", details: format.error.errors });
+    }
+
+    try {
+      const mealPlan = await db.query.mealPlans.findFirst({
+        where: eq(mealPlans.id, mealPlanId),
+      });
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+
+      const { memberIds } = await HouseholdService.getAccess(req.user!.id);
+      if (!memberIds.includes(mealPlan.user_id)) {
+        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      }
+
+      sendExport(res, await RecipeExportService.mealPlan(mealPlan, req.user!.id, format.data));
+    } catch (error) {
+      console.error("Error exporting meal plan:", error);
+      res.status(500).json({ error: "Failed to export meal plan" });
+    }
+  });
+
+  app.get("/api/meal-prep/:id/export", isAuthenticated, async (req: Request, res: Response) => {
+    const mealPrepPlanId = parseInt(req.params.id);
+    if (isNaN(mealPrepPlanId)) {
+      return res.status(400).json({ error: "Invalid meal prep plan ID" });
+    }
+    const format = RecipeExportFormatEnum.safeParse(req.query.format ?? "pdf");
+    if (!format.success) {
+      return res.status(400).json({ error: "Invalid export format", details: format.error.errors });
+    }
+
+    try {
+      const file = await RecipeExportService.mealPrepPlan(req.user!.id, mealPrepPlanId, format.data);
+      if (!file) {
+        return res.status(404).json({ error: "Meal prep plan not found" });
+      }
+      sendExport(res, file);
+    } catch (error) {
+      console.error("Error exporting meal prep plan:", error);
+      res.status(500).json({ error: "Failed to export meal prep plan" });
+    }
+  });
+
+  // MARK: - Print
+
+  // ?format=pdf returns the sheet as a PDF to open and print; otherwise it's JSON for the print view
+  const PrintFormatEnum = z.enum(["json", "pdf"]);
+
+  const sendPrintPdf = (res: Response, name: string, body: Buffer) => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 80) || "plan";
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${slug}-print.pdf"`);
+    res.send(body);
+  };
+
+  app.get("/api/meal-plans/:id/print", isAuthenticated, async (req: Request, res: Response) => {
+    const mealPlanId = parseInt(req.params.id);
+    if (isNaN(mealPlanId)) {
+      return res.status(400).json({ error: "Invalid meal plan ID" });
+    }
+    const format = PrintFormatEnum.safeParse(req.query.format ?? "json");
+    if (!format.success) {
+      return res.status(400).json({ error: "Invalid print format", details: format.error.errors });
+    }
+
+    try {
+      const mealPlan = await db.query.mealPlans.findFirst({
+        where: eq(mealPlans.id, mealPlanId),
+      });
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+
+      const { memberIds } = await HouseholdService.getAccess(req.user!.id);
+      if (!memberIds.includes(mealPlan.user_id)) {
+        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      }
+
+      const sheet = await PrintSheetService.mealPlan(mealPlan, req.user!.id);
+      if (format.data === "pdf") {
+        return sendPrintPdf(res, sheet.title, PrintSheetService.mealPlanPdf(sheet));
+      }
+      res.json(sheet);
+    } catch (error) {
+      console.error("Error building meal plan print sheet:", error);
+      res.status(500).json({ error: "Failed to build print sheet" });
+    }
+  });
+
+  app.get("/api/meal-prep/:id/print", isAuthenticated, async (req: Request, res: Response) => {
+    const mealPrepPlanId = parseInt(req.params.id);
+    if (isNaN(mealPrepPlanId)) {
+      return res.status(400).json({ error: "Invalid meal prep plan ID" });
+    }
+    const format = PrintFormatEnum.safeParse(req.query.format ?? "json");
+    if (!format.success) {
+      return res.status(400).json({ error: "Invalid print format", details: format.error.errors });
+    }
+
+    try {
+      const sheet = await PrintSheetService.mealPrepPlan(req.user!.id, mealPrepPlanId);
+      if (!sheet) {
+        return res.status(404).json({ error: "Meal prep plan not found" });
+      }
+      if (format.data === "pdf") {
+        return sendPrintPdf(res, sheet.title, PrintSheetService.mealPrepPlanPdf(sheet));
+      }
+      res.json(sheet);
+    } catch (error) {
+      console.error("Error building meal prep print sheet:", error);
+      res.status(500).json({ error: "Failed to build print sheet" });
+    }
+  });
+
   // MARK: - Tasting Menu Feature
 
   // In-memory cache for preview data (in production, use Redis)
   const previewCache = new Map<string, {
     previews: any[];
     preferences: any;
+    mealTargets: ReturnType<typeof NutritionService.mealTargets>;
     days: number;
     userId: number;
     createdAt: Date;
@@ -1271,6 +1652,26 @@ export function registerRoutes(app: express.Express) {
     });
   }, 30 * 60 * 1000);
 
+  // Nutrition targets sent with the request win over the ones saved on the profile.
+  // Sends a 400 and returns undefined when the requested targets don't parse.
+  function requestedMealTargets(
+    req: Request,
+    res: Response,
+    savedTargets: Parameters<typeof NutritionService.mealTargets>[0]
+  ): ReturnType<typeof NutritionService.mealTargets> | undefined {
+    const requestedTargets = NutritionTargetsSchema.nullable().optional().safeParse(req.body.nutritionTargets);
+    if (!requestedTargets.success) {
+      res.status(400).json({
+        error: "Invalid nutrition targets",
+        details: requestedTargets.error.errors
+      });
+      return undefined;
+    }
+    return NutritionService.mealTargets(
+      requestedTargets.data !== undefined ? requestedTargets.data : savedTargets
+    );
+  }
+
   // Generate meal plan preview (lightweight title + description only)
   app.post("/api/generate-meal-plan-preview", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -1290,12 +1691,15 @@ export function registerRoutes(app: express.Express) {
       // Normalize preferences
       const normalizedPreferences = {
         dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
-        allergies: Array.isArray(preferences.allergies) ? preferences.allergies : [],
+        allergies: await AllergenGuardService.allergiesFor(user.id, preferences.allergies),
         cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
         meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : [],
         chefPreferences: preferences.chefPreferences || {}
       };
 
+      const mealTargets = requestedMealTargets(req, res, user.nutrition_targets);
+      if (mealTargets === undefined) return;
+
       const mealTypes: Array<"breakfast" | "lunch" | "dinner"> = ["breakfast", "lunch", "dinner"];
       const expectedRecipeCount = days * 3;
 
@@ -1330,6 +1734,7 @@ Requirements:
 ${normalizedPreferences.dietary.length > 0 ? `- Dietary: ${normalizedPreferences.dietary.join(", ")}` : ""}
 ${normalizedPreferences.allergies.length > 0 ? `- Avoid allergens: ${normalizedPreferences.allergies.join(", ")}` : ""}
 ${normalizedPreferences.meatTypes.length > 0 ? `- Proteins: ${normalizedPreferences.meatTypes.join(", ")}` : ""}
+${mealTargets?.dinner.calories ? `- Portions: about ${mealTargets.breakfast.calories} kcal per breakfast, ${mealTargets.lunch.calories} per lunch and ${mealTargets.dinner.calories} per dinner` : ""}
 
 Cuisine rotation plan:
 ${previewTasks.map((t, i) => `${i + 1}. ${t.mealType} (${t.cuisine})`).join('\n')}
@@ -1351,30 +1756,19 @@ Respond with valid JSON:
   ]
 }`;
 
-      const completion = await openai.chat.completions.create({
-        messages: [
-          {
-            role: "system",
-            content: "You are a creative chef. Generate appealing recipe titles and descriptions that match dietary requirements and cuisines exactly. Be concise and enticing."
-          },
-          {
-            role: "user",
-            content: previewPrompt
-          }
-        ],
-        model: "gpt-4o-2024-08-06",
-        response_format: { type: "json_object" },
+      const parsedResponse = await getRecipeAIProvider().generatePreviews({
+        task: "meal_previews",
+        system: "You are a creative chef. Generate appealing recipe titles and descriptions that match dietary requirements and cuisines exactly. Be concise and enticing.",
+        prompt: previewPrompt,
         temperature: 0.8,
-        max_tokens: 3000
+        maxTokens: 3000,
+        hints: {
+          count: expectedRecipeCount,
+          mealTypes: previewTasks.map(task => task.mealType),
+          allergies: normalizedPreferences.allergies
+        }
       });
 
-      if (!completion.choices?.[0]?.message?.content) {
-        throw new Error("Invalid response from OpenAI API");
-      }
-
-      const content = completion.choices[0].message.content;
-      const parsedResponse = JSON.parse(content);
-
       if (!Array.isArray(parsedResponse.recipes) || parsedResponse.recipes.length !== expectedRecipeCount) {
         throw new Error(`Expected ${expectedRecipeCount} recipes, got ${parsedResponse.recipes?.length || 0}`);
       }
@@ -1397,6 +1791,7 @@ Respond with valid JSON:
       previewCache.set(previewId, {
         previews,
         preferences: normalizedPreferences,
+        mealTargets,
         days,
         userId: user.id,
         createdAt: new Date()
@@ -1485,13 +1880,17 @@ Respond with valid JSON:
           console.log(`Generating recipe ${index + 1}/${selectedPreviews.length}: ${preview.title}`);
 
           // Use the stored preferences from cache
-          const fullRecipe = await generateRecipeFromTitleAI(
-            preview.title,
-            cachedData.preferences.allergies,
-            {
-              ingredients: [], // No pantry constraint
-              pantryOnlyMode: false
-            }
+          const fullRecipe = await AllergenGuardService.generate(
+            { userId: user.id, allergies: cachedData.preferences.allergies, source: "meal_plan" },
+            () => generateRecipeFromTitleAI(
+              preview.title,
+              cachedData.preferences.allergies,
+              {
+                ingredients: [], // No pantry constraint
+                pantryOnlyMode: false,
+                nutritionTarget: cachedData.mealTargets?.[String(preview.assignedMealType).toLowerCase() as "breakfast" | "lunch" | "dinner"]
+              }
+            )
           );
 
           return {
@@ -1543,6 +1942,7 @@ Respond with valid JSON:
               cook_time: recipe.cook_time || 0,
               servings: recipe.servings || 4,
               ingredients: recipe.ingredients || [],
+              allergens: detectAllergens(recipe.ingredients as any[]),
               instructions: recipe.instructions || [],
               meal_type: mealTypeCapitalized as z.infer<typeof MealTypeEnum>,
               cuisine_type: (recipe.cuisine || "Other") as z.infer<typeof CuisineTypeEnum>,
@@ -1659,340 +2059,221 @@ Respond with valid JSON:
   });
 
   // Protected Routes requiring subscription
-  app.post("/api/generate-meal-plan", isAuthenticated, async (req: Request, res: Response) => {
-    try {
-      const user = req.user!;
+  // Check a meal plan request and queue its job. Sends the error response and returns null when
+  // the request can't go ahead.
+  async function queueMealPlanJob(req: Request, res: Response): Promise<number | null> {
+    const user = req.user!;
+
+    // Check if user has remaining free generations or is premium
+    if (user.subscription_tier === 'free' && user.meal_plans_generated > 0) {
+      res.status(403).json({
+        error: "Free plan limit reached",
+        message: "You've reached your free meal plan limit. Please upgrade to premium for unlimited meal plans.",
+        code: "UPGRADE_REQUIRED"
+      });
+      return null;
+    }
 
-      // Check if user has remaining free generations or is premium
-      const isFreeTier = user.subscription_tier === 'free';
-      const hasUsedFreePlan = user.meal_plans_generated > 0;
+    const { preferences, days } = req.body;
 
-      if (isFreeTier && hasUsedFreePlan) {
-        return res.status(403).json({
-          error: "Free plan limit reached",
-          message: "You've reached your free meal plan limit. Please upgrade to premium for unlimited meal plans.",
-          code: "UPGRADE_REQUIRED"
-        });
-      }
+    console.log('Received meal plan generation request:', {
+      preferences: JSON.stringify(preferences, null, 2),
+      days,
+      userId: user.id
+    });
 
-      const { preferences, days } = req.body;
+    // Validate input parameters
+    if (!preferences || !days) {
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Missing required parameters: preferences and days"
+      });
+      return null;
+    }
 
-      // Add detailed logging of received preferences
-      console.log('Received meal plan generation request:', {
-        preferences: JSON.stringify(preferences, null, 2),
-        days,
-        userId: user.id
+    // Every day is three AI calls, so hold the request to what the subscription allows
+    const requestedDays = Number(days);
+    if (!MealPlanExpirationService.validateRequestedDays(requestedDays, user.subscription_tier)) {
+      res.status(400).json({
+        error: "Invalid number of days for your subscription tier"
       });
+      return null;
+    }
 
-      // Validate input parameters
-      if (!preferences || !days) {
-        return res.status(400).json({
-          error: "Bad Request",
-          message: "Missing required parameters: preferences and days"
-        });
-      }
+    const mealTargets = requestedMealTargets(req, res, user.nutrition_targets);
+    if (mealTargets === undefined) return null;
 
-      // Ensure all preference arrays exist and are properly formatted
-      const normalizedPreferences = {
-        dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
-        allergies: Array.isArray(preferences.allergies) ? preferences.allergies : [],
-        cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
-        meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : [],
-        chefPreferences: preferences.chefPreferences || {}
-      };
+    // Ensure all preference arrays exist and are properly formatted
+    const normalizedPreferences = {
+      dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
+      allergies: await AllergenGuardService.allergiesFor(user.id, preferences.allergies),
+      cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
+      meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : [],
+      chefPreferences: preferences.chefPreferences || {}
+    };
 
-      // Log normalized preferences
-      console.log('Normalized preferences:', JSON.stringify(normalizedPreferences, null, 2));
+    // Spread the weekly grocery budget (if any) over every serving the household eats in a week
+    const { memberIds: householdMemberIds } = await HouseholdService.getAccess(user.id);
 
-      const mealTypes: Array<"breakfast" | "lunch" | "dinner"> = ["breakfast", "lunch", "dinner"];
-      const usedRecipeNames = new Set<string>();
-      const missingMeals: Array<{ day: number; meal: string }> = [];
+    return MealPlanJobService.create(user.id, requestedDays, {
+      preferences: normalizedPreferences,
+      budgetPerServing: PriceService.budgetPerServing(user.weekly_budget, householdMemberIds.length),
+      mealTargets,
+    });
+  }
 
-      // Track cuisine usage to ensure variety
-      const cuisineUsage: Record<string, number> = {};
-      normalizedPreferences.cuisine.forEach((cuisine: string) => {
-        cuisineUsage[cuisine] = 0;
+  // Start generating a meal plan in the background; poll the job for progress
+  app.post("/api/meal-plan-jobs", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = await queueMealPlanJob(req, res);
+      if (jobId === null) return;
+
+      MealPlanJobService.run(jobId);
+      res.status(202).json(await MealPlanJobService.getStatus(req.user!.id, jobId));
+    } catch (error: any) {
+      console.error("Error starting meal plan job:", error);
+      res.status(500).json({
+        error: "Failed to start meal plan generation",
+        details: error.message
       });
+    }
+  });
 
-      // Count existing cuisines to prioritize less-used ones
-      // Only select the fields we actually use (not full recipes with large JSONB data)
-      const allUserRecipes = await db
-        .select({
-          cuisine_type: temporaryRecipes.cuisine_type
-        })
-        .from(temporaryRecipes)
-        .where(eq(temporaryRecipes.user_id, user.id));
+  // The user's meal plan that is still generating, if any, so a reload can pick up its progress
+  app.get("/api/meal-plan-jobs/active", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const job = await MealPlanJobService.getActive(req.user!.id);
+      res.json(job ? await MealPlanJobService.getStatus(req.user!.id, job.id) : null);
+    } catch (error: any) {
+      console.error("Error fetching active meal plan job:", error);
+      res.status(500).json({ error: "Failed to fetch meal plan job" });
+    }
+  });
 
-      allUserRecipes.forEach(recipe => {
-        if (recipe.cuisine_type && normalizedPreferences.cuisine.includes(recipe.cuisine_type)) {
-          cuisineUsage[recipe.cuisine_type] = (cuisineUsage[recipe.cuisine_type] || 0) + 1;
-        }
-      });
-
-      // Generate recipes in parallel for each day and meal - OPTIMIZED APPROACH
-      const expectedRecipeCount = days * 3; // 3 meals per day
-      console.log(`Starting parallel generation of ${expectedRecipeCount} recipes for ${days} days`);
-
-      // Create all recipe generation tasks upfront for maximum parallelization
-      const recipeGenerationTasks = [];
-
-      // Pre-assign cuisines in round-robin fashion for variety
-      const availableCuisines = normalizedPreferences.cuisine.length > 0
-        ? normalizedPreferences.cuisine
-        : ['Italian', 'Mexican', 'Chinese', 'American'];
-
-      let cuisineIndex = 0;
-
-      for (let day = 0; day < days; day++) {
-        for (const mealType of mealTypes) {
-          // Rotate through cuisines for variety
-          const assignedCuisine = availableCuisines[cuisineIndex % availableCuisines.length];
-          cuisineIndex++;
-
-          const task = {
-            day,
-            mealType,
-            cuisines: [assignedCuisine], // Single cuisine for this recipe
-            taskId: `day-${day}-${mealType}`
-          };
-
-          recipeGenerationTasks.push(task);
-        }
+  app.get("/api/meal-plan-jobs/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
       }
 
-      console.log('Cuisine rotation plan:', recipeGenerationTasks.map(t => `${t.taskId}: ${t.cuisines[0]}`).join(', '));
-
-      // Execute all recipe generations in parallel with improved error handling
-      console.log(`Executing ${recipeGenerationTasks.length} recipe generation tasks in parallel`);
-      const startTime = Date.now();
-      
-      const recipePromises = recipeGenerationTasks.map(async (task, index) => {
-        try {
-          console.log(`Starting generation for ${task.taskId} (${index + 1}/${recipeGenerationTasks.length})`);
-          
-          // Get current used names at the time of generation (thread-safe approach)
-          const currentUsedNames = Array.from(usedRecipeNames);
-          
-          const recipe = await generateRecipeRecommendation({
-            dietary: normalizedPreferences.dietary,
-            allergies: normalizedPreferences.allergies,
-            cuisine: task.cuisines,
-            meatTypes: normalizedPreferences.meatTypes,
-            mealType: task.mealType,
-            excludeNames: currentUsedNames,
-            maxRetries: 2 // Reduced retries for faster parallel execution
-          });
-
-          // Add to used names immediately to prevent duplicates in parallel execution
-          if (recipe?.name) {
-            usedRecipeNames.add(recipe.name);
-          }
-
-          console.log(`Completed generation for ${task.taskId}: ${recipe?.name || 'FAILED'}`);
-          return {
-            ...recipe,
-            day: task.day,
-            mealType: task.mealType,
-            taskId: task.taskId
-          };
-        } catch (error) {
-          console.error(`Failed to generate recipe for ${task.taskId}:`, error);
-          missingMeals.push({ day: task.day, meal: task.mealType });
-          return null;
-        }
-      });
-
-      // Wait for all recipes to be generated with timeout protection
-      console.log('Waiting for all recipe generations to complete...');
-      const generatedRecipes = await Promise.all(recipePromises);
-      const generationTime = Date.now() - startTime;
-      console.log(`Parallel generation completed in ${generationTime}ms`);
-
-      // Filter out failed generations and process successful ones
-      const successfulRecipes = generatedRecipes.filter(recipe => recipe !== null && recipe?.name);
-      console.log(`Successfully generated ${successfulRecipes.length} out of ${expectedRecipeCount} recipes`);
-
-      // Allow partial success if we have at least one recipe per day
-      const minimumRequired = days; // At least one meal per day
-      if (successfulRecipes.length < minimumRequired) {
-        console.error(`Failed to generate minimum required recipes. Expected at least ${minimumRequired}, got ${successfulRecipes.length}`);
-        return res.status(500).json({
-          error: "Failed to generate meal plan",
-          message: "Could not generate enough recipes for a viable meal plan"
-        });
+      const status = await MealPlanJobService.getStatus(req.user!.id, jobId);
+      if (!status) {
+        return res.status(404).json({ error: "Meal plan job not found" });
       }
+      res.json(status);
+    } catch (error: any) {
+      console.error("Error fetching meal plan job:", error);
+      res.status(500).json({ error: "Failed to fetch meal plan job" });
+    }
+  });
 
-      // Save generated recipes to temporary_recipes table in parallel
-      const expirationDate = new Date();
-      expirationDate.setDate(expirationDate.getDate() + 2);
-
-      console.log('Starting parallel recipe saving...');
-      const saveStartTime = Date.now();
-      
-      const savePromises = successfulRecipes.map(async (recipe, index) => {
-        if (!recipe) return null;
-
-        try {
-          const mealTypeCapitalized = recipe.mealType.charAt(0).toUpperCase() + recipe.mealType.slice(1);
-
-          const insertData = {
-            user_id: user.id,
-            name: recipe.name || '',
-            description: recipe.description || null,
-            image_url: recipe.image_url || null,
-            permanent_url: null,
-            prep_time: recipe.prep_time || 0,
-            cook_time: recipe.cook_time || 0,
-            servings: recipe.servings || 4,
-            ingredients: recipe.ingredients || [],
-            instructions: recipe.instructions || [],
-            meal_type: mealTypeCapitalized as z.infer<typeof MealTypeEnum>,
-            cuisine_type: (Array.isArray(recipe.tags)
-              ? (recipe.tags.find((tag): tag is z.infer<typeof CuisineTypeEnum> => 
-                  ["Italian", "Mexican", "Chinese", "Japanese", "Indian", "Thai", "Mediterranean", "American", "French"].includes(tag as string)
-                ) || "Other")
-              : "Other") as z.infer<typeof CuisineTypeEnum>,
-            dietary_restrictions: (Array.isArray(recipe.tags)
-              ? recipe.tags.filter((tag): tag is z.infer<typeof DietaryTypeEnum> => 
-                  ["Vegetarian", "Vegan", "Gluten-Free", "Dairy-Free", "Keto", "Paleo", "Low-Carb"].includes(tag as string)
-                )
-              : []) as z.infer<typeof DietaryTypeEnum>[],
-            difficulty: (() => {
-              switch(recipe.complexity) {
-                case 1: return "Easy" as const;
-                case 2: return "Moderate" as const;
-                case 3: return "Advanced" as const;
-                default: return "Moderate" as const;
-              }
-            })() as z.infer<typeof DifficultyEnum>,
-            tags: recipe.tags || [],
-            nutrition: recipe.nutrition || { calories: 0, protein: 0, carbs: 0, fat: 0 },
-            complexity: recipe.complexity || 2,
-            created_at: new Date(),
-            expires_at: expirationDate,
-            favorited: false,
-            favorites_count: 0
-          };
+  // Stream a job as Server-Sent Events: a snapshot of where it is, then each slot as it changes,
+  // each image as it's stored and the job whenever it finishes. The stream stays open so retried
+  // slots arrive too; the client closes it when it's done.
+  app.get("/api/meal-plan-jobs/:id/events", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
 
-          const parseResult = insertTemporaryRecipeSchema.safeParse(insertData);
-          
-          if (!parseResult.success) {
-            console.error('Invalid recipe data:', parseResult.error.issues);
-            missingMeals.push({ 
-              day: recipe.day, 
-              meal: recipe.mealType 
-            });
-            return null;
-          }
+      const status = await MealPlanJobService.getStatus(req.user!.id, jobId);
+      if (!status) {
+        return res.status(404).json({ error: "Meal plan job not found" });
+      }
 
-          const [savedRecipe] = await db
-            .insert(temporaryRecipes)
-            .values(parseResult.data)
-            .returning();
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+      });
 
-          // Upload image to Cloudinary and update permanent_url (await to ensure images are ready)
-          if (savedRecipe.image_url) {
-            try {
-              console.log(`Uploading image for recipe ${savedRecipe.id}...`);
-              const permanentUrl = await downloadAndStoreImage(savedRecipe.image_url, String(savedRecipe.id));
-              if (permanentUrl) {
-                const [updatedRecipe] = await db
-                  .update(temporaryRecipes)
-                  .set({ permanent_url: permanentUrl })
-                  .where(eq(temporaryRecipes.id, savedRecipe.id))
-                  .returning();
-                console.log(`Successfully uploaded image for recipe ${savedRecipe.id}`);
-                return updatedRecipe;
-              }
-            } catch (error) {
-              console.error('Failed to store image:', error);
-              // Continue with recipe even if image fails
-            }
-          }
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
 
-          return savedRecipe;
-        } catch (error) {
-          console.error('Failed to save recipe:', error);
-          missingMeals.push({ 
-            day: recipe.day, 
-            meal: recipe.mealType 
-          });
-          return null;
-        }
+      send("snapshot", status);
+      const unsubscribe = MealPlanJobService.subscribe(jobId, event => {
+        const { type, ...data } = event;
+        send(type, data);
       });
 
-      const savedRecipes = (await Promise.all(savePromises)).filter(recipe => recipe !== null);
-      const saveTime = Date.now() - saveStartTime;
-      console.log(`Parallel recipe saving completed in ${saveTime}ms`);
+      // Keep proxies from closing an idle stream
+      const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
 
-      // After successfully saving recipes, increment the meal_plans_generated counter
-      if (savedRecipes.length > 0) {
-        await db
-          .update(users)
-          .set({ meal_plans_generated: user.meal_plans_generated + 1 })
-          .where(eq(users.id, user.id));
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error: any) {
+      console.error("Error streaming meal plan job:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to stream meal plan job" });
+      } else {
+        res.end();
       }
+    }
+  });
 
-      // Create meal plan record and associate recipes
-      let mealPlanId: number | null = null;
-      if (savedRecipes.length > 0) {
-        const startDate = new Date();
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + days - 1);
-
-        const expirationDate = MealPlanExpirationService.calculateExpirationDate(startDate, days);
+  // Generate a failed slot again; the stream reports it like any other
+  app.post("/api/meal-plan-jobs/:id/items/:taskId/retry", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
 
-        // Create the meal plan
-        const [mealPlan] = await db.insert(mealPlans).values({
-          user_id: user.id,
-          name: `${days}-Day Meal Plan`,
-          start_date: startDate,
-          end_date: endDate,
-          expiration_date: expirationDate,
-          days_generated: days,
-          is_expired: false,
-          created_at: new Date()
-        }).returning();
+      const item = await MealPlanJobService.retryItem(req.user!.id, jobId, req.params.taskId);
+      if (!item) {
+        return res.status(404).json({ error: "No failed recipe to retry" });
+      }
+      res.status(202).json(item);
+    } catch (error: any) {
+      console.error("Error retrying meal plan recipe:", error);
+      res.status(500).json({ error: "Failed to retry recipe" });
+    }
+  });
 
-        mealPlanId = mealPlan.id;
+  // Generate a meal plan and wait for it; runs the same job as /api/meal-plan-jobs
+  app.post("/api/generate-meal-plan", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      const isFreeTier = user.subscription_tier === 'free';
+      const hasUsedFreePlan = user.meal_plans_generated > 0;
+      const startTime = Date.now();
 
-        // Associate recipes with the meal plan
-        const mealPlanRecipeValues = savedRecipes.map((recipe, index) => {
-          const dayOffset = Math.floor(index / 3);
-          const recipeDate = new Date(startDate);
-          recipeDate.setDate(recipeDate.getDate() + dayOffset);
+      const jobId = await queueMealPlanJob(req, res);
+      if (jobId === null) return;
 
-          const mealIndex = index % 3;
-          const mealType = mealTypes[mealIndex];
+      await MealPlanJobService.run(jobId);
+      const job = await MealPlanJobService.getStatus(user.id, jobId);
 
-          return {
-            meal_plan_id: mealPlan.id,
-            recipe_id: recipe.id,
-            day: recipeDate,
-            meal: mealType,
-            created_at: new Date()
-          };
+      if (!job || job.status !== 'complete') {
+        return res.status(500).json({
+          error: "Failed to generate meal plan",
+          message: job?.error || "Could not generate any recipes for this meal plan"
         });
-
-        await db.insert(mealPlanRecipes).values(mealPlanRecipeValues);
-        console.log(`Created meal plan ${mealPlan.id} with ${savedRecipes.length} recipes`);
       }
 
+      const missingMeals = job.items
+        .filter(item => item.status === 'failed')
+        .map(item => ({ day: item.day, meal: item.meal }));
       const totalTime = Date.now() - startTime;
       console.log(`Total meal plan generation completed in ${totalTime}ms`);
 
       // Return partial success response if we have some recipes but not all
       res.json({
-        recipes: savedRecipes,
-        status: savedRecipes.length === days * 3 ? 'success' : 'partial',
+        recipes: job.recipes,
+        status: job.completed === job.total ? 'success' : 'partial',
         missingMeals: missingMeals.length > 0 ? missingMeals : undefined,
-        message: savedRecipes.length === days * 3 
+        message: job.completed === job.total
           ? 'Successfully generated all recipes'
-          : `Generated ${savedRecipes.length} out of ${days * 3} recipes`,
+          : `Generated ${job.completed} out of ${job.total} recipes`,
         remaining_free_plans: isFreeTier ? (hasUsedFreePlan ? 0 : 1) : null,
+        job_id: job.id,
         performance: {
-          generationTimeMs: generationTime,
-          saveTimeMs: saveTime,
           totalTimeMs: totalTime
         }
       });
@@ -2067,12 +2348,9 @@ Respond with valid JSON:
         .from(mealPlanRecipes)
         .where(eq(mealPlanRecipes.meal_plan_id, mealPlan.id));
 
-      // Fetch the associated temporary recipes
+      // Fetch the associated recipes, temporary or saved to the cookbook
       const recipeIds = mealPlanRecipesList.map(mpr => mpr.recipe_id);
-      const tempRecipes = await db
-        .select()
-        .from(temporaryRecipes)
-        .where(inArray(temporaryRecipes.id, recipeIds));
+      const tempRecipes = await RecipeLibraryService.findByIds(recipeIds, req.user!.id);
 
       // Combine the meal plan recipes with their full recipe data
       const recipesWithDetails = mealPlanRecipesList.map(mpr => {
@@ -2110,6 +2388,82 @@ Respond with valid JSON:
     }
   });
 
+  // Set how many servings a meal plan cooks one of its recipes for; the plan's grocery list follows
+  app.patch("/api/meal-plans/:id/recipes/:recipe_id/servings", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const mealPlanId = parseInt(req.params.id);
+      const recipeId = parseInt(req.params.recipe_id);
+      const servings = Number(req.body.servings);
+
+      if (isNaN(mealPlanId) || isNaN(recipeId)) {
+        return res.status(400).json({ error: "Invalid meal plan or recipe ID" });
+      }
+      if (!Number.isInteger(servings) || servings < 1 || servings > 50) {
+        return res.status(400).json({ error: "Servings must be a whole number between 1 and 50" });
+      }
+
+      const mealPlan = await db.query.mealPlans.findFirst({
+        where: eq(mealPlans.id, mealPlanId),
+      });
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+
+      const access = await HouseholdService.getAccess(req.user!.id);
+      if (!access.memberIds.includes(mealPlan.user_id)) {
+        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      }
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: "Viewers cannot change the household meal plan" });
+      }
+
+      const [updated] = await db
+        .update(mealPlanRecipes)
+        .set({ servings })
+        .where(and(eq(mealPlanRecipes.meal_plan_id, mealPlanId), eq(mealPlanRecipes.recipe_id, recipeId)))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ error: "Recipe is not part of this meal plan" });
+      }
+
+      await GroceryListService.refreshRecipeItems(mealPlanId);
+
+      res.json({ meal_plan_id: mealPlanId, recipe_id: recipeId, servings: updated.servings });
+    } catch (error) {
+      console.error("Error updating planned servings:", error);
+      res.status(500).json({ error: "Failed to update servings" });
+    }
+  });
+
+  // Estimated grocery cost of a meal plan from the household's price history, against the weekly budget
+  app.get("/api/meal-plans/:id/cost", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const mealPlanId = parseInt(req.params.id);
+      if (isNaN(mealPlanId)) {
+        return res.status(400).json({ error: "Invalid meal plan ID" });
+      }
+
+      const mealPlan = await db.query.mealPlans.findFirst({
+        where: eq(mealPlans.id, mealPlanId),
+      });
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+
+      const { memberIds } = await HouseholdService.getAccess(req.user!.id);
+      if (!memberIds.includes(mealPlan.user_id)) {
+        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      }
+
+      const cost = await PriceService.getMealPlanCost(mealPlanId, req.user!.id, req.user!.weekly_budget ?? null);
+      res.json(cost);
+    } catch (error) {
+      console.error("Error estimating meal plan cost:", error);
+      res.status(500).json({ error: "Failed to estimate meal plan cost" });
+    }
+  });
+
   // Grocery Lists - Protected Routes
   app.get("/api/grocery-lists/:meal_plan_id", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -2128,15 +2482,15 @@ Respond with valid JSON:
         return res.status(404).json({ error: "Meal plan not found" });
       }
 
-      if (mealPlan.user_id !== req.user!.id) {
+      const { memberIds } = await HouseholdService.getAccess(req.user!.id);
+      if (!memberIds.includes(mealPlan.user_id)) {
         return res.status(403).json({ error: "Not authorized to access this meal plan" });
       }
 
-      const groceryList = await db.query.groceryLists.findFirst({
-        where: eq(groceryLists.meal_plan_id, parsedMealPlanId),
-      });
+      const groceryList = await GroceryListService.getOrCreateForMealPlan(mealPlan, req.user!.id);
+      const items = await GroceryListService.getItemsWithCoverage(groceryList.id, req.user!.id);
 
-      res.json(groceryList);
+      res.json({ ...groceryList, items });
     } catch (error: any) {
       console.error("Error fetching grocery list:", error);
       res.status(500).json({ error: "Failed to fetch grocery list" });
@@ -2155,27 +2509,155 @@ Respond with valid JSON:
         return res.status(404).json({ error: "Meal plan not found" });
       }
 
-      if (mealPlan.user_id !== req.user!.id) {
+      const access = await HouseholdService.getAccess(req.user!.id);
+      if (!access.memberIds.includes(mealPlan.user_id) || !HouseholdService.canEdit(access.role)) {
         return res.status(403).json({ error: "Not authorized to create grocery list for this meal plan" });
       }
 
-      const [newGroceryList] = await db
-        .insert(groceryLists)
-        .values({
-          user_id: req.user!.id,
-          meal_plan_id,
-          items,
-          created: new Date(),
-        })
-        .returning();
+      // Fall back to the meal plan's recipes when the client doesn't send explicit items
+      const lines = Array.isArray(items)
+        ? items
+            .filter((item: any) => typeof item?.name === 'string' && item.name.trim())
+            .map((item: any) => ({
+              name: item.name.trim(),
+              amount: item.amount !== undefined && item.amount !== null && !isNaN(Number(item.amount)) ? Number(item.amount) : null,
+              unit: item.unit || null,
+            }))
+        : await GroceryListService.buildLinesFromMealPlan(mealPlan.id);
+
+      // A plan has one list, so posting again replaces its contents rather than adding another
+      const groceryList = await GroceryListService.replaceList(mealPlan.id, req.user!.id, lines);
+      const listItems = await GroceryListService.getItemsWithCoverage(groceryList.id, req.user!.id);
 
-      res.json(newGroceryList);
+      res.json({ ...groceryList, items: listItems });
     } catch (error: any) {
       console.error("Error creating grocery list:", error);
       res.status(500).json({ error: "Failed to create grocery list" });
     }
   });
 
+  // POST /api/grocery-lists/:list_id/items - Add a manual item ("paper towels")
+  app.post("/api/grocery-lists/:list_id/items", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const listId = parseInt(req.params.list_id);
+      const { name, amount, unit } = req.body;
+
+      if (isNaN(listId)) {
+        return res.status(400).json({ error: "Invalid grocery list ID" });
+      }
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: "Item name is required" });
+      }
+
+      const access = await GroceryListService.getAccessibleList(listId, req.user!.id);
+      if (!access) {
+        return res.status(404).json({ error: "Grocery list not found" });
+      }
+      if (!access.canEdit) {
+        return res.status(403).json({ error: "Viewers cannot modify the grocery list" });
+      }
+
+      const [item] = await db.insert(groceryListItems).values({
+        grocery_list_id: listId,
+        name: name.trim(),
+        amount: amount !== undefined && amount !== null && amount !== '' && !isNaN(Number(amount)) ? Number(amount) : null,
+        unit: unit || null,
+        is_manual: true,
+      }).returning();
+
+      res.json(item);
+    } catch (error) {
+      console.error("Error adding grocery list item:", error);
+      res.status(500).json({ error: "Failed to add grocery list item" });
+    }
+  });
+
+  // PATCH /api/grocery-lists/:list_id/items/:item_id - Check off or edit an item
+  app.patch("/api/grocery-lists/:list_id/items/:item_id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const listId = parseInt(req.params.list_id);
+      const itemId = parseInt(req.params.item_id);
+      const { name, amount, unit, is_checked, is_organic } = req.body;
+
+      if (isNaN(listId) || isNaN(itemId)) {
+        return res.status(400).json({ error: "Invalid grocery list or item ID" });
+      }
+
+      const access = await GroceryListService.getAccessibleList(listId, req.user!.id);
+      if (!access) {
+        return res.status(404).json({ error: "Grocery list not found" });
+      }
+      if (!access.canEdit) {
+        return res.status(403).json({ error: "Viewers cannot modify the grocery list" });
+      }
+
+      const updateData: any = {
+        updated_at: new Date(),
+      };
+
+      if (typeof name === 'string' && name.trim()) updateData.name = name.trim();
+      if (amount !== undefined) {
+        if (amount !== null && isNaN(Number(amount))) {
+          return res.status(400).json({ error: "Amount must be a number" });
+        }
+        updateData.amount = amount === null ? null : Number(amount);
+      }
+      if (unit !== undefined) updateData.unit = unit || null;
+      if (typeof is_organic === 'boolean') updateData.is_organic = is_organic;
+      if (typeof is_checked === 'boolean') {
+        updateData.is_checked = is_checked;
+        updateData.checked_by = is_checked ? req.user!.id : null;
+      }
+
+      const [updatedItem] = await db.update(groceryListItems)
+        .set(updateData)
+        .where(and(eq(groceryListItems.id, itemId), eq(groceryListItems.grocery_list_id, listId)))
+        .returning();
+
+      if (!updatedItem) {
+        return res.status(404).json({ error: "Grocery list item not found" });
+      }
+
+      res.json(updatedItem);
+    } catch (error) {
+      console.error("Error updating grocery list item:", error);
+      res.status(500).json({ error: "Failed to update grocery list item" });
+    }
+  });
+
+  // DELETE /api/grocery-lists/:list_id/items/:item_id - Remove an item
+  app.delete("/api/grocery-lists/:list_id/items/:item_id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const listId = parseInt(req.params.list_id);
+      const itemId = parseInt(req.params.item_id);
+
+      if (isNaN(listId) || isNaN(itemId)) {
+        return res.status(400).json({ error: "Invalid grocery list or item ID" });
+      }
+
+      const access = await GroceryListService.getAccessibleList(listId, req.user!.id);
+      if (!access) {
+        return res.status(404).json({ error: "Grocery list not found" });
+      }
+      if (!access.canEdit) {
+        return res.status(403).json({ error: "Viewers cannot modify the grocery list" });
+      }
+
+      const deleted = await db.delete(groceryListItems)
+        .where(and(eq(groceryListItems.id, itemId), eq(groceryListItems.grocery_list_id, listId)))
+        .returning();
+
+      if (!deleted.length) {
+        return res.status(404).json({ error: "Grocery list item not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting grocery list item:", error);
+      res.status(500).json({ error: "Failed to delete grocery list item" });
+    }
+  });
+
   // Ingredient Substitution endpoint
   app.post("/api/substitute-ingredient", isAuthenticated, requireActiveSubscription, async (req: Request, res: Response) => {
     try {
@@ -2213,7 +2695,7 @@ Respond with valid JSON:
   // Instacart Integration - Create Shopping List
   app.post("/api/instacart/shopping-list", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { meal_plan_id, title } = req.body;
+      const { meal_plan_id, title, include_pantry_items = false } = req.body;
 
       if (!meal_plan_id) {
         return res.status(400).json({
@@ -2231,7 +2713,8 @@ Respond with valid JSON:
         return res.status(404).json({ error: "Meal plan not found" });
       }
 
-      if (mealPlan.user_id !== req.user!.id) {
+      const { memberIds } = await HouseholdService.getAccess(req.user!.id);
+      if (!memberIds.includes(mealPlan.user_id)) {
         return res.status(403).json({ error: "Not authorized to access this meal plan" });
       }
 
@@ -2255,13 +2738,10 @@ Respond with valid JSON:
       
       console.log('Recipe IDs to fetch:', recipeIds);
       
-      // Get recipe details from temporary_recipes
+      // Get recipe details, temporary or saved to the cookbook
       let recipes: any[] = [];
       if (recipeIds.length > 0) {
-        recipes = await db
-          .select()
-          .from(temporaryRecipes)
-          .where(inArray(temporaryRecipes.id, recipeIds));
+        recipes = await RecipeLibraryService.findByIds(recipeIds, req.user!.id);
       } else {
         console.warn('No recipe IDs found for meal plan:', meal_plan_id);
       }
@@ -2372,16 +2852,33 @@ Respond with valid JSON:
         });
       }
 
+      // Leave out whatever the household pantry already covers unless the client asks for everything
+      let shoppingIngredients = ingredients;
+      if (!include_pantry_items) {
+        const coverage = await PantryReconciliationService.reconcile(req.user!.id, ingredients);
+        shoppingIngredients = coverage
+          .filter(line => (line.buy_amount ?? 0) > 0)
+          .map(line => ({ name: line.name, amount: line.buy_amount!, unit: line.unit ?? '' }));
+
+        if (shoppingIngredients.length === 0) {
+          return res.status(400).json({
+            error: "Nothing to buy",
+            message: "Your pantry already has everything this meal plan needs"
+          });
+        }
+      }
+
       // Create Instacart shopping list
       const instacartResponse = await instacartService.createShoppingList(
-        ingredients,
+        shoppingIngredients,
         title || `${mealPlan.name} - Shopping List`
       );
 
       res.json({
         success: true,
         instacart_url: instacartResponse.products_link_url,
-        ingredient_count: ingredients.length
+        ingredient_count: shoppingIngredients.length,
+        skipped_pantry_count: ingredients.length - shoppingIngredients.length
       });
     } catch (error: any) {
       console.error("Error creating Instacart shopping list:", error);
@@ -2404,10 +2901,8 @@ Respond with valid JSON:
         });
       }
 
-      // Get the recipe from temporary recipes table (no user ownership check for community sharing)
-      const recipe = await db.query.temporaryRecipes.findFirst({
-        where: eq(temporaryRecipes.id, recipe_id)
-      });
+      // Get the recipe, temporary or from the library (no user ownership check for community sharing)
+      const recipe = await RecipeLibraryService.findById(Number(recipe_id), req.user?.id ?? null);
 
       if (!recipe) {
         return res.status(404).json({ error: "Recipe not found" });
@@ -2587,6 +3082,70 @@ Respond with valid JSON:
     }
   });
 
+  // Set (or clear, with null) the weekly grocery budget that meal plan generation aims for
+  app.put("/api/user/budget", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({
+        weeklyBudget: z.number().positive().max(10000).nullable(),
+      }).safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid budget",
+          details: parsed.error.errors
+        });
+      }
+
+      const [updated] = await db
+        .update(users)
+        .set({ weekly_budget: parsed.data.weeklyBudget })
+        .where(eq(users.id, req.user!.id))
+        .returning({ weekly_budget: users.weekly_budget });
+
+      res.json({ weeklyBudget: updated.weekly_budget });
+    } catch (error: any) {
+      console.error("Error updating weekly budget:", error);
+      res.status(500).json({ error: "Failed to update weekly budget" });
+    }
+  });
+
+  // Set (or clear, with null) the daily calorie and macro targets used by the nutrition summary
+  app.put("/api/user/nutrition-targets", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = NutritionTargetsSchema.nullable().safeParse(req.body.targets);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid nutrition targets",
+          details: parsed.error.errors
+        });
+      }
+
+      const targets = parsed.data && Object.values(parsed.data).some(value => value !== null) ? parsed.data : null;
+
+      await db
+        .update(users)
+        .set({ nutrition_targets: targets })
+        .where(eq(users.id, req.user!.id));
+
+      res.json({ targets });
+    } catch (error: any) {
+      console.error("Error updating nutrition targets:", error);
+      res.status(500).json({ error: "Failed to update nutrition targets" });
+    }
+  });
+
+  // Per-day and per-week nutrition for the current meal plan and meal prep plan, against the user's targets
+  app.get("/api/nutrition/summary", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const summary = await NutritionService.getSummary(req.user!.id, req.user!.nutrition_targets ?? null);
+      res.json(summary);
+    } catch (error: any) {
+      console.error("Error building nutrition summary:", error);
+      res.status(500).json({ error: "Failed to build nutrition summary" });
+    }
+  });
+
   app.post('/api/auth/google', async (req, res) => {
     try {
       const { idToken, isNewUser: firebaseIsNewUser } = req.body;
@@ -2912,13 +3471,19 @@ Respond with valid JSON:
         });
       }
 
-      const suggestions = await generateRecipeSuggestionsFromIngredients({
+      const blockedAllergies = await AllergenGuardService.allergiesFor(user.id, allergies);
+      const generated = await generateRecipeSuggestionsFromIngredients({
         ingredients,
         dietary: Array.isArray(dietary) ? dietary : undefined,
-        allergies: Array.isArray(allergies) ? allergies : undefined,
+        allergies: blockedAllergies,
         pantryOnlyMode: Boolean(pantryOnlyMode)
       });
 
+      const suggestions = await AllergenGuardService.filterTitles(
+        { userId: user.id, allergies: blockedAllergies, source: "ingredient_suggestions" },
+        generated
+      );
+
       res.json({ suggestions });
     } catch (error: any) {
       console.error("Error generating recipe suggestions:", error);
@@ -2962,13 +3527,17 @@ Respond with valid JSON:
       }
 
       // Generate the recipe using the title-specific function
-      const recipeData = await generateRecipeFromTitleAI(
-        title, 
-        Array.isArray(allergies) ? allergies : [],
-        {
-          ingredients: Array.isArray(ingredients) ? ingredients : undefined,
-          pantryOnlyMode: Boolean(pantryOnlyMode)
-        }
+      const recipeAllergies = await AllergenGuardService.allergiesFor(user.id, allergies);
+      const recipeData = await AllergenGuardService.generate(
+        { userId: user.id, allergies: recipeAllergies, source: "ingredient_recipe" },
+        () => generateRecipeFromTitleAI(
+          title, 
+          recipeAllergies,
+          {
+            ingredients: Array.isArray(ingredients) ? ingredients : undefined,
+            pantryOnlyMode: Boolean(pantryOnlyMode)
+          }
+        )
       );
 
       // Save as a temporary recipe
@@ -3035,7 +3604,7 @@ Respond with valid JSON:
 
       const [savedRecipe] = await db
         .insert(temporaryRecipes)
-        .values(parseResult.data)
+        .values({ ...parseResult.data, allergens: detectAllergens(parseResult.data.ingredients) })
         .returning();
 
       // Add image storage
@@ -3059,6 +3628,13 @@ Respond with valid JSON:
       res.json({ recipe: savedRecipe });
     } catch (error: any) {
       console.error("Error generating recipe:", error);
+      if (error instanceof AllergenViolationError) {
+        return res.status(422).json({
+          error: "Recipe contained an allergen",
+          message: "We couldn't generate a version of this recipe without your allergens. Try a different request.",
+          violations: error.violations
+        });
+      }
       res.status(500).json({
         error: "Failed to generate recipe",
         details: error.message
@@ -3087,19 +3663,15 @@ Respond with valid JSON:
         return res.status(400).json({ error: "Invalid recipe ID" });
       }
 
-      // Search in temporary recipes only
-      console.log('Searching in temporary recipes:', { recipeId });
-      const tempRecipeResults = await db
-        .select()
-        .from(temporaryRecipes)
-        .where(eq(temporaryRecipes.id, recipeId));
+      // Search in temporary recipes, or the library for recipes saved to a cookbook
+      console.log('Searching for recipe:', { recipeId });
+      const tempRecipe = await RecipeLibraryService.findById(recipeId, req.user?.id ?? null);
 
-      if (tempRecipeResults.length > 0) {
-        console.log('Found in temporary recipes:', {
-          recipe: tempRecipeResults[0].id,
+      if (tempRecipe) {
+        console.log('Found recipe:', {
+          recipe: tempRecipe.id,
           timestamp: new Date().toISOString()
         });
-        const tempRecipe = tempRecipeResults[0];
         // Transform temporary recipe to match permanent recipe structure
         const transformedRecipe = {
           id: tempRecipe.id,
@@ -3119,9 +3691,14 @@ Respond with valid JSON:
             ...(Array.isArray(tempRecipe.dietary_restrictions) ? tempRecipe.dietary_restrictions : []),
           ].filter(Boolean),
           nutrition: tempRecipe.nutrition,
+          // Recipes saved before allergens were stored get them worked out on the way out
+          allergens: tempRecipe.allergens ?? detectAllergens(tempRecipe.ingredients as any[]),
           complexity: tempRecipe.complexity,
           favorites_count: tempRecipe.favorites_count,
-          created_at: tempRecipe.created_at
+          created_at: tempRecipe.created_at,
+          // Only library recipes can have been written or edited by a user
+          author_id: 'author_id' in tempRecipe ? tempRecipe.author_id : null,
+          forked_from_id: 'forked_from_id' in tempRecipe ? tempRecipe.forked_from_id : null
         };
         return res.json(transformedRecipe);
       }
@@ -3155,9 +3732,12 @@ Respond with valid JSON:
       const user = req.user!;
 
       // Get the most recent non-expired traditional meal plan
+      // Household members share the most recent plan created by any of them
+      const { memberIds } = await HouseholdService.getAccess(user.id);
+
       const currentMealPlan = await db.query.mealPlans.findFirst({
         where: and(
-          eq(mealPlans.user_id, user.id),
+          inArray(mealPlans.user_id, memberIds),
           eq(mealPlans.is_expired, false),
           gt(mealPlans.expiration_date, new Date())
         ),
@@ -3167,7 +3747,7 @@ Respond with valid JSON:
       // Get the most recent active meal prep plan
       const currentMealPrepPlan = await db.query.mealPrepPlans.findFirst({
         where: and(
-          eq(mealPrepPlans.user_id, user.id),
+          inArray(mealPrepPlans.user_id, memberIds),
           eq(mealPrepPlans.is_active, true),
           gt(mealPrepPlans.expires_at, new Date())
         ),
@@ -3200,18 +3780,16 @@ Respond with valid JSON:
           .select({
             recipe_id: mealPlanRecipes.recipe_id,
             meal: mealPlanRecipes.meal,
-            day: mealPlanRecipes.day
+            day: mealPlanRecipes.day,
+            servings: mealPlanRecipes.servings
           })
           .from(mealPlanRecipes)
           .where(eq(mealPlanRecipes.meal_plan_id, currentMealPlan!.id));
 
         const recipeIds = mealPlanRecipesList.map(mpr => mpr.recipe_id);
 
-        // Get recipe details from temporary_recipes
-        const recipes = await db
-          .select()
-          .from(temporaryRecipes)
-          .where(inArray(temporaryRecipes.id, recipeIds));
+        // Get recipe details, temporary or saved to the cookbook
+        const recipes = await RecipeLibraryService.findByIds(recipeIds, user.id);
 
         res.json({
           ...currentMealPlan,
@@ -3219,7 +3797,8 @@ Respond with valid JSON:
           recipes: recipes.map(recipe => ({
             ...recipe,
             meal: mealPlanRecipesList.find(mpr => mpr.recipe_id === recipe.id)?.meal,
-            day: mealPlanRecipesList.find(mpr => mpr.recipe_id === recipe.id)?.day
+            day: mealPlanRecipesList.find(mpr => mpr.recipe_id === recipe.id)?.day,
+            planned_servings: mealPlanRecipesList.find(mpr => mpr.recipe_id === recipe.id)?.servings ?? null
           }))
         });
       } else {
@@ -3324,7 +3903,7 @@ Respond with valid JSON:
       // Normalize preferences
       const normalizedPreferences = {
         dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
-        allergies: Array.isArray(preferences.allergies) ? preferences.allergies : [],
+        allergies: await AllergenGuardService.allergiesFor(user.id, preferences.allergies),
         cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
         meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : [],
       };
@@ -3365,16 +3944,23 @@ Respond with valid JSON:
 
       // Generate a new recipe
       const mealType = meal.toLowerCase() as "breakfast" | "lunch" | "dinner";
+      const { memberIds: householdMemberIds } = await HouseholdService.getAccess(user.id);
+      const budgetPerServing = PriceService.budgetPerServing(user.weekly_budget, householdMemberIds.length);
       
-      const newRecipe = await generateRecipeRecommendation({
-        dietary: normalizedPreferences.dietary,
-        allergies: normalizedPreferences.allergies,
-        cuisine: prioritizedCuisines, // Use prioritized cuisines
-        meatTypes: normalizedPreferences.meatTypes,
-        mealType,
-        excludeNames: Array.from(usedRecipeNames),
-        maxRetries: 5 // More retries for single recipe regeneration
-      });
+      const newRecipe = await AllergenGuardService.generate(
+        { userId: user.id, allergies: normalizedPreferences.allergies, source: "regenerate" },
+        () => generateRecipeRecommendation({
+          dietary: normalizedPreferences.dietary,
+          allergies: normalizedPreferences.allergies,
+          cuisine: prioritizedCuisines, // Use prioritized cuisines
+          meatTypes: normalizedPreferences.meatTypes,
+          mealType,
+          excludeNames: Array.from(usedRecipeNames),
+          budgetPerServing,
+          nutritionTarget: NutritionService.mealTargets(user.nutrition_targets)?.[mealType],
+          maxRetries: 5 // More retries for single recipe regeneration
+        })
+      );
 
       if (!newRecipe?.name) {
         return res.status(500).json({
@@ -3440,7 +4026,7 @@ Respond with valid JSON:
 
       const [savedRecipe] = await db
         .insert(temporaryRecipes)
-        .values(parseResult.data)
+        .values({ ...parseResult.data, allergens: detectAllergens(parseResult.data.ingredients) })
         .returning();
 
       // Find the current meal plan
@@ -3492,6 +4078,13 @@ Respond with valid JSON:
       });
     } catch (error: any) {
       console.error("Error regenerating recipe:", error);
+      if (error instanceof AllergenViolationError) {
+        return res.status(422).json({
+          error: "Recipe contained an allergen",
+          message: "We couldn't generate a replacement without your allergens. Please try again.",
+          violations: error.violations
+        });
+      }
       res.status(500).json({
         error: "Failed to regenerate recipe",
         details: error.message
@@ -3560,7 +4153,7 @@ Respond with valid JSON:
       // Normalize preferences
       const normalizedPreferences = {
         dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
-        allergies: Array.isArray(preferences.allergies) ? preferences.allergies : [],
+        allergies: await AllergenGuardService.allergiesFor(user.id, preferences.allergies),
         cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
         meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : []
       };
@@ -3581,7 +4174,7 @@ Respond with valid JSON:
 
         for (let i = 0; i < suggestionsPerMealType; i++) {
           try {
-            // Generate title-only suggestion using OpenAI
+            // Generate title-only suggestion
             const prompt = `Generate a single ${mealType} recipe title that is:
 - Appropriate for ${mealType}
 - ${normalizedPreferences.dietary.length > 0 ? `Following dietary restrictions: ${normalizedPreferences.dietary.join(", ")}` : "No specific dietary restrictions"}
@@ -3600,36 +4193,24 @@ Respond with a JSON object containing:
 
 Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
 
-            const completion = await openai.chat.completions.create({
-              messages: [
-                {
-                  role: "system",
-                  content: "You are a professional chef who creates recipe suggestions. Always respond with valid JSON containing the requested fields.",
-                },
-                {
-                  role: "user",
-                  content: prompt,
-                },
-              ],
-              model: "gpt-4o-2024-08-06",
-              response_format: { type: "json_object" },
+            const suggestionData = await getRecipeAIProvider().generatePreviews({
+              task: "title_suggestion",
+              system: "You are a professional chef who creates recipe suggestions. Always respond with valid JSON containing the requested fields.",
+              prompt,
               temperature: 0.8,
-              max_tokens: 200,
+              maxTokens: 200,
+              hints: { mealType, allergies: normalizedPreferences.allergies },
             });
 
-            if (completion.choices?.[0]?.message?.content) {
-              const suggestionData = JSON.parse(completion.choices[0].message.content);
-              
-              if (suggestionData.title && !usedTitles.has(suggestionData.title)) {
-                usedTitles.add(suggestionData.title);
-                mealSuggestions.push({
-                  title: suggestionData.title,
-                  cuisineType: suggestionData.cuisineType || "Other",
-                  difficulty: suggestionData.difficulty || "Moderate",
-                  estimatedTime: suggestionData.estimatedTime || "30 minutes",
-                  tags: Array.isArray(suggestionData.tags) ? suggestionData.tags : []
-                });
-              }
+            if (suggestionData?.title && !usedTitles.has(suggestionData.title)) {
+              usedTitles.add(suggestionData.title);
+              mealSuggestions.push({
+                title: suggestionData.title,
+                cuisineType: suggestionData.cuisineType || "Other",
+                difficulty: suggestionData.difficulty || "Moderate",
+                estimatedTime: suggestionData.estimatedTime || "30 minutes",
+                tags: Array.isArray(suggestionData.tags) ? suggestionData.tags : []
+              });
             }
           } catch (error) {
             console.error(`Error generating ${mealType} suggestion ${i + 1}:`, error);
@@ -3652,359 +4233,182 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
-  app.post("/api/weekly-planner/create-plan", isAuthenticated, async (req: Request, res: Response) => {
-    try {
-      const user = req.user!;
-      const { selectedRecipes, preferences, days } = req.body;
-
-      // Check subscription limits
-      const isFreeTier = user.subscription_tier === 'free';
-      const hasUsedFreePlan = user.meal_plans_generated > 0;
+  // Check a weekly planner request and queue a job for the picked dishes. Sends the error response
+  // and returns null when the request can't go ahead.
+  async function queueWeeklyPlanJob(req: Request, res: Response): Promise<number | null> {
+    const user = req.user!;
+    const { selectedRecipes, preferences, days } = req.body;
 
-      if (isFreeTier && hasUsedFreePlan) {
-        return res.status(403).json({
-          error: "Free plan limit reached",
-          message: "You've reached your free meal plan limit. Please upgrade to premium for unlimited meal plans.",
-          code: "UPGRADE_REQUIRED"
-        });
-      }
+    // Check subscription limits
+    if (user.subscription_tier === 'free' && user.meal_plans_generated > 0) {
+      res.status(403).json({
+        error: "Free plan limit reached",
+        message: "You've reached your free meal plan limit. Please upgrade to premium for unlimited meal plans.",
+        code: "UPGRADE_REQUIRED"
+      });
+      return null;
+    }
 
-      // Check cooldown period - user must wait until their last meal plan expires
-      const lastMealPlan = await db
-        .select()
-        .from(mealPlans)
-        .where(eq(mealPlans.user_id, user.id))
-        .orderBy(desc(mealPlans.created_at))
-        .limit(1);
+    // Check cooldown period - user must wait until their last meal plan expires
+    const lastMealPlan = await db
+      .select()
+      .from(mealPlans)
+      .where(eq(mealPlans.user_id, user.id))
+      .orderBy(desc(mealPlans.created_at))
+      .limit(1);
 
-      if (lastMealPlan.length > 0) {
-        const lastPlan = lastMealPlan[0];
-        const now = new Date();
-        const planEndDate = new Date(lastPlan.end_date);
+    if (lastMealPlan.length > 0) {
+      const lastPlan = lastMealPlan[0];
+      const now = new Date();
+      const planEndDate = new Date(lastPlan.end_date);
+      
+      if (now < planEndDate) {
+        const timeRemaining = planEndDate.getTime() - now.getTime();
+        const daysRemaining = Math.ceil(timeRemaining / (1000 * 60 * 60 * 24));
+        const hoursRemaining = Math.ceil(timeRemaining / (1000 * 60 * 60));
         
-        if (now < planEndDate) {
-          const timeRemaining = planEndDate.getTime() - now.getTime();
-          const daysRemaining = Math.ceil(timeRemaining / (1000 * 60 * 60 * 24));
-          const hoursRemaining = Math.ceil(timeRemaining / (1000 * 60 * 60));
-          
-          return res.status(429).json({
-            error: "Cooldown active",
-            message: `You must wait until your current meal plan expires before creating a new one.`,
-            code: "COOLDOWN_ACTIVE",
-            cooldownInfo: {
-              lastPlanEndDate: planEndDate.toISOString(),
-              timeRemainingMs: timeRemaining,
-              daysRemaining,
-              hoursRemaining,
-              lastPlanName: lastPlan.name,
-              lastPlanDays: lastPlan.days_generated
-            }
-          });
-        }
-      }
-
-      // Validate input
-      if (!selectedRecipes || !preferences || !days) {
-        return res.status(400).json({
-          error: "Bad Request",
-          message: "Missing required parameters: selectedRecipes, preferences, days"
+        res.status(429).json({
+          error: "Cooldown active",
+          message: `You must wait until your current meal plan expires before creating a new one.`,
+          code: "COOLDOWN_ACTIVE",
+          cooldownInfo: {
+            lastPlanEndDate: planEndDate.toISOString(),
+            timeRemainingMs: timeRemaining,
+            daysRemaining,
+            hoursRemaining,
+            lastPlanName: lastPlan.name,
+            lastPlanDays: lastPlan.days_generated
+          }
         });
+        return null;
       }
+    }
 
-      console.log('Creating weekly meal plan:', {
-        selectedRecipes,
-        preferences: JSON.stringify(preferences, null, 2),
-        days,
-        userId: user.id
+    // Validate input
+    if (!selectedRecipes || !preferences || !days) {
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Missing required parameters: selectedRecipes, preferences, days"
       });
+      return null;
+    }
 
-      // Normalize preferences
-      const normalizedPreferences = {
-        dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
-        allergies: Array.isArray(preferences.allergies) ? preferences.allergies : [],
-        cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
-        meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : []
-      };
-
-      // Collect all selected recipe titles with their meal types
-      const allSelectedTitles = [
-        ...selectedRecipes.breakfast,
-        ...selectedRecipes.lunch,
-        ...selectedRecipes.dinner
-      ];
-
-      console.log('Processing selected recipes:', allSelectedTitles);
-
-      // Check if any of these titles correspond to existing PantryPal recipes
-      const existingRecipes = await db
-        .select()
-        .from(temporaryRecipes)
-        .where(
-          and(
-            eq(temporaryRecipes.user_id, user.id),
-            isNull(temporaryRecipes.meal_type), // PantryPal recipes don't have meal_type
-            inArray(temporaryRecipes.name, allSelectedTitles)
-          )
-        );
-
-      console.log('Found existing PantryPal recipes:', existingRecipes.length);
-
-      // Separate existing recipes from titles that need generation
-      const existingRecipeNames = new Set(existingRecipes.map(r => r.name));
-      const titlesToGenerate = allSelectedTitles.filter(title => !existingRecipeNames.has(title));
-
-      console.log('Titles to generate:', titlesToGenerate);
-      console.log('Existing recipes to reuse:', existingRecipes.map(r => r.name));
-
-      // Generate full recipes for titles that don't exist yet
-      const generatedRecipes = [];
-      const recipesByMealType: {
-        breakfast: any[];
-        lunch: any[];
-        dinner: any[];
-      } = {
-        breakfast: [],
-        lunch: [],
-        dinner: []
-      };
-      const expirationDate = new Date();
-      expirationDate.setDate(expirationDate.getDate() + 2);
-
-      // Process existing recipes first
-      for (const existingRecipe of existingRecipes) {
-        // Determine meal type based on which array the title came from
-        let mealType: "breakfast" | "lunch" | "dinner" = "dinner";
-        if (selectedRecipes.breakfast.includes(existingRecipe.name)) {
-          mealType = "breakfast";
-        } else if (selectedRecipes.lunch.includes(existingRecipe.name)) {
-          mealType = "lunch";
-        }
-
-        // Update the existing recipe with the new meal type and expiration
-        const [updatedRecipe] = await db
-          .update(temporaryRecipes)
-          .set({
-            meal_type: mealType.charAt(0).toUpperCase() + mealType.slice(1) as z.infer<typeof MealTypeEnum>,
-            expires_at: expirationDate
-          })
-          .where(eq(temporaryRecipes.id, existingRecipe.id))
-          .returning();
-
-        generatedRecipes.push(updatedRecipe);
-        recipesByMealType[mealType].push(updatedRecipe);
-        console.log(`Reused existing ${mealType} recipe: ${existingRecipe.name}`);
-      }
+    console.log('Creating weekly meal plan:', {
+      selectedRecipes,
+      preferences: JSON.stringify(preferences, null, 2),
+      days,
+      userId: user.id
+    });
 
-      // Generate new recipes for titles that don't exist yet
-      if (titlesToGenerate.length > 0) {
-        console.log(`Starting parallel generation of ${titlesToGenerate.length} new recipes`);
-        const startTime = Date.now();
+    // Every day is three AI calls, so hold the request to what the subscription allows
+    const requestedDays = Number(days);
+    if (!MealPlanExpirationService.validateRequestedDays(requestedDays, user.subscription_tier)) {
+      res.status(400).json({
+        error: "Invalid number of days for your subscription tier"
+      });
+      return null;
+    }
 
-        const recipeGenerationPromises = titlesToGenerate.map(async (title) => {
-          try {
-            console.log(`Generating full recipe for: ${title}`);
-            
-            const fullRecipe = await generateRecipeFromTitleAI(title, normalizedPreferences.allergies);
-            
-            if (fullRecipe && fullRecipe.name) {
-              // Determine meal type based on which array the title came from
-              let mealType: "breakfast" | "lunch" | "dinner" = "dinner";
-              if (selectedRecipes.breakfast.includes(title)) {
-                mealType = "breakfast";
-              } else if (selectedRecipes.lunch.includes(title)) {
-                mealType = "lunch";
-              }
+    const mealTargets = requestedMealTargets(req, res, user.nutrition_targets);
+    if (mealTargets === undefined) return null;
 
-              return {
-                recipe: fullRecipe,
-                mealType,
-                title
-              };
-            }
-            return null;
-          } catch (error) {
-            console.error(`Error generating recipe for title "${title}":`, error);
-            return null;
-          }
-        });
+    // Normalize preferences
+    const normalizedPreferences = {
+      dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
+      allergies: await AllergenGuardService.allergiesFor(user.id, preferences.allergies),
+      cuisine: Array.isArray(preferences.cuisine) ? preferences.cuisine : [],
+      meatTypes: Array.isArray(preferences.meatTypes) ? preferences.meatTypes : [],
+      chefPreferences: {}
+    };
 
-        // Wait for all recipe generations to complete
-        const recipeResults = await Promise.all(recipeGenerationPromises);
-        const generationTime = Date.now() - startTime;
-        console.log(`Parallel recipe generation completed in ${generationTime}ms`);
+    // Each meal's picks fill that meal's slots in order, one per day
+    const mealTypes: Array<"breakfast" | "lunch" | "dinner"> = ["breakfast", "lunch", "dinner"];
+    const picks = mealTypes.flatMap(meal =>
+      (Array.isArray(selectedRecipes[meal]) ? selectedRecipes[meal] as string[] : [])
+        .slice(0, requestedDays)
+        .map((title, day) => ({ day, meal, title }))
+    );
+
+    // Check if any of these titles correspond to existing PantryPal recipes
+    const existingRecipes = picks.length > 0 ? await db
+      .select()
+      .from(temporaryRecipes)
+      .where(
+        and(
+          eq(temporaryRecipes.user_id, user.id),
+          isNull(temporaryRecipes.meal_type), // PantryPal recipes don't have meal_type
+          inArray(temporaryRecipes.name, picks.map(pick => pick.title))
+        )
+      ) : [];
 
-        // Filter successful results and prepare for database insertion
-        const successfulResults = recipeResults.filter(result => result !== null);
-        
-        // OPTIMIZED: Save all new recipes to database in parallel
-        console.log('Starting parallel recipe saving...');
-        const saveStartTime = Date.now();
+    console.log('Existing recipes to reuse:', existingRecipes.map(r => r.name));
 
-        const savePromises = successfulResults.map(async (result) => {
-          if (!result) return null;
+    const expirationDate = new Date();
+    expirationDate.setDate(expirationDate.getDate() + 2);
 
-          const { recipe: fullRecipe, mealType } = result;
+    // Reused recipes take the meal they were picked for and expire with the new plan
+    const slots = await Promise.all(picks.map(async pick => {
+      const existingRecipe = existingRecipes.find(recipe => recipe.name === pick.title);
+      if (!existingRecipe) return pick;
 
-          try {
-            const insertData = {
-              user_id: user.id,
-              name: fullRecipe.name || "Untitled Recipe",
-              description: fullRecipe.description || null,
-              image_url: fullRecipe.image_url || null,
-              permanent_url: null,
-              prep_time: fullRecipe.prep_time || 0,
-              cook_time: fullRecipe.cook_time || 0,
-              servings: fullRecipe.servings || 4,
-              ingredients: fullRecipe.ingredients || [],
-              instructions: fullRecipe.instructions || [],
-              meal_type: mealType.charAt(0).toUpperCase() + mealType.slice(1) as z.infer<typeof MealTypeEnum>,
-              cuisine_type: (Array.isArray(fullRecipe.tags)
-                ? (fullRecipe.tags.find((tag): tag is z.infer<typeof CuisineTypeEnum> => 
-                    ["Italian", "Mexican", "Chinese", "Japanese", "Indian", "Thai", "Mediterranean", "American", "French"].includes(tag as string)
-                  ) || "Other")
-                : "Other") as z.infer<typeof CuisineTypeEnum>,
-              dietary_restrictions: (Array.isArray(fullRecipe.tags)
-                ? fullRecipe.tags.filter((tag): tag is z.infer<typeof DietaryTypeEnum> => 
-                    ["Vegetarian", "Vegan", "Gluten-Free", "Dairy-Free", "Keto", "Paleo", "Low-Carb"].includes(tag as string)
-                  )
-                : []) as z.infer<typeof DietaryTypeEnum>[],
-              difficulty: (() => {
-                switch(fullRecipe.complexity) {
-                  case 1: return "Easy" as const;
-                  case 2: return "Moderate" as const;
-                  case 3: return "Advanced" as const;
-                  default: return "Moderate" as const;
-                }
-              })() as z.infer<typeof DifficultyEnum>,
-              tags: fullRecipe.tags || [],
-              nutrition: fullRecipe.nutrition || { calories: 0, protein: 0, carbs: 0, fat: 0 },
-              complexity: fullRecipe.complexity || 1,
-              created_at: new Date(),
-              expires_at: expirationDate,
-              favorited: false,
-              favorites_count: 0
-            };
+      await db
+        .update(temporaryRecipes)
+        .set({
+          meal_type: pick.meal.charAt(0).toUpperCase() + pick.meal.slice(1) as z.infer<typeof MealTypeEnum>,
+          expires_at: expirationDate
+        })
+        .where(eq(temporaryRecipes.id, existingRecipe.id));
+      return { ...pick, recipe_id: existingRecipe.id };
+    }));
+
+    return MealPlanJobService.createFromSlots(user.id, requestedDays, {
+      preferences: normalizedPreferences,
+      budgetPerServing: null,
+      mealTargets,
+    }, slots);
+  }
 
-            const [savedRecipe] = await db.insert(temporaryRecipes).values(insertData).returning();
-            
-            // Handle image storage asynchronously (don't block the response)
-            if (savedRecipe.image_url) {
-              downloadAndStoreImage(savedRecipe.image_url, String(savedRecipe.id))
-                .then(permanentUrl => {
-                  if (permanentUrl) {
-                    db.update(temporaryRecipes)
-                      .set({ permanent_url: permanentUrl })
-                      .where(eq(temporaryRecipes.id, savedRecipe.id))
-                      .catch(error => console.error('Failed to update permanent URL:', error));
-                  }
-                })
-                .catch(error => console.error('Failed to store image:', error));
-            }
+  // Start building a plan from the picked dishes in the background; stream or poll the job
+  app.post("/api/weekly-planner/plan-jobs", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = await queueWeeklyPlanJob(req, res);
+      if (jobId === null) return;
 
-            return {
-              savedRecipe,
-              mealType
-            };
-          } catch (error) {
-            console.error(`Error saving recipe for "${fullRecipe.name}":`, error);
-            return null;
-          }
-        });
+      MealPlanJobService.run(jobId);
+      res.status(202).json(await MealPlanJobService.getStatus(req.user!.id, jobId));
+    } catch (error: any) {
+      console.error("Error starting weekly meal plan job:", error);
+      res.status(500).json({
+        error: "Failed to create meal plan",
+        message: error.message
+      });
+    }
+  });
 
-        const saveResults = await Promise.all(savePromises);
-        const saveTime = Date.now() - saveStartTime;
-        console.log(`Parallel recipe saving completed in ${saveTime}ms`);
+  // Build a plan from the picked dishes and wait for it; runs the same job as /api/weekly-planner/plan-jobs
+  app.post("/api/weekly-planner/create-plan", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const jobId = await queueWeeklyPlanJob(req, res);
+      if (jobId === null) return;
 
-        // Process saved results and organize by meal type
-        const successfulSaves = saveResults.filter(result => result !== null);
-        
-        for (const result of successfulSaves) {
-          if (result) {
-            generatedRecipes.push(result.savedRecipe);
-            recipesByMealType[result.mealType].push(result.savedRecipe);
-            console.log(`Successfully generated ${result.mealType} recipe: ${result.savedRecipe.name}`);
-          }
-        }
-      }
+      await MealPlanJobService.run(jobId);
+      const job = await MealPlanJobService.getStatus(req.user!.id, jobId);
+      const mealPlan = job?.meal_plan_id
+        ? await db.query.mealPlans.findFirst({ where: eq(mealPlans.id, job.meal_plan_id) })
+        : null;
 
-      if (generatedRecipes.length === 0) {
+      if (!job || !mealPlan) {
         return res.status(500).json({
           error: "Failed to generate meal plan",
           message: "Could not generate or reuse any recipes from the selected titles"
         });
       }
 
-      // Create meal plan
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + days - 1);
-
-      const [mealPlan] = await db.insert(mealPlans).values({
-        user_id: user.id,
-        name: `Weekly Plan - ${days} Days`,
-        start_date: startDate,
-        end_date: endDate,
-        expiration_date: expirationDate,
-        days_generated: days,
-        is_expired: false,
-        created_at: new Date()
-      }).returning();
-
-      // Create meal plan recipe associations with proper meal type mapping
-      const mealPlanRecipeValues = [];
-
-      for (let day = 0; day < days; day++) {
-        const dayDate = new Date(startDate);
-        dayDate.setDate(dayDate.getDate() + day);
-
-        // Add breakfast for this day
-        if (recipesByMealType.breakfast[day]) {
-          mealPlanRecipeValues.push({
-            meal_plan_id: mealPlan.id,
-            recipe_id: recipesByMealType.breakfast[day].id,
-            day: dayDate,
-            meal: "breakfast",
-            created_at: new Date()
-          });
-        }
-
-        // Add lunch for this day
-        if (recipesByMealType.lunch[day]) {
-          mealPlanRecipeValues.push({
-            meal_plan_id: mealPlan.id,
-            recipe_id: recipesByMealType.lunch[day].id,
-            day: dayDate,
-            meal: "lunch",
-            created_at: new Date()
-          });
-        }
-
-        // Add dinner for this day
-        if (recipesByMealType.dinner[day]) {
-          mealPlanRecipeValues.push({
-            meal_plan_id: mealPlan.id,
-            recipe_id: recipesByMealType.dinner[day].id,
-            day: dayDate,
-            meal: "dinner",
-            created_at: new Date()
-          });
-        }
-      }
-
-      if (mealPlanRecipeValues.length > 0) {
-        await db.insert(mealPlanRecipes).values(mealPlanRecipeValues);
-      }
-
-      // Update user's meal plan counter
-      await db
-        .update(users)
-        .set({ meal_plans_generated: user.meal_plans_generated + 1 })
-        .where(eq(users.id, user.id));
-
-      console.log(`Created weekly meal plan with ${generatedRecipes.length} recipes`);
+      console.log(`Created weekly meal plan with ${job.completed} recipes`);
       res.json({
         mealPlan,
-        recipesGenerated: generatedRecipes.length,
+        recipesGenerated: job.completed,
+        job_id: job.id,
         message: "Weekly meal plan created successfully"
       });
     } catch (error: any) {
@@ -4315,6 +4719,9 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         });
       }
 
+      // Meal prep feeds the whole household, so avoid every member's allergens
+      const householdAllergies = await AllergenGuardService.allergiesFor(user.id, allergies);
+
       console.log(`🍱 Generating meal prep plan for user ${user.id} with goal: ${goal}, servings: ${servings}`);
 
       // Deactivate any existing active meal prep plans for this user
@@ -4398,68 +4805,41 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
 
         const componentPromises: Array<Promise<{ type: "protein" | "carb" | "vegetable"; ingredient: string; result: any }>> = [];
 
+        // Every component is checked against the household's allergens before it's used
+        const generateComponent = (type: "protein" | "carb" | "vegetable", ingredient: string) =>
+          AllergenGuardService.generate(
+            { userId: user.id, allergies: householdAllergies, source: "meal_prep_component" },
+            () => generateMealPrepComponent({
+              componentType: type,
+              goal,
+              servings,
+              selectedIngredients: [ingredient], // One recipe per ingredient!
+              dietaryRestrictions: dietaryRestrictions || [],
+              allergies: householdAllergies,
+              cuisinePreferences: cuisinePreferences || [],
+              skipImage: true
+            }),
+            result => result.recipe
+          ).then(result => ({ type, ingredient, result }));
+
         // Generate one protein component for EACH protein selection
         if (proteinSelections.length > 0) {
           for (const protein of proteinSelections) {
-            componentPromises.push(
-              generateMealPrepComponent({
-                componentType: "protein",
-                goal,
-                servings,
-                selectedIngredients: [protein], // One recipe per ingredient!
-                dietaryRestrictions: dietaryRestrictions || [],
-                allergies: allergies || [],
-                cuisinePreferences: cuisinePreferences || [],
-                skipImage: true
-              }).then(result => ({ type: "protein" as const, ingredient: protein, result }))
-            );
+            componentPromises.push(generateComponent("protein", protein));
           }
         } else {
           // Default protein if none selected
-          componentPromises.push(
-            generateMealPrepComponent({
-              componentType: "protein",
-              goal,
-              servings,
-              selectedIngredients: ["Chicken Breast"],
-              dietaryRestrictions: dietaryRestrictions || [],
-              allergies: allergies || [],
-              cuisinePreferences: cuisinePreferences || [],
-              skipImage: true
-            }).then(result => ({ type: "protein" as const, ingredient: "Chicken Breast", result }))
-          );
+          componentPromises.push(generateComponent("protein", "Chicken Breast"));
         }
 
         // Generate one carb component for EACH carb selection
         for (const carb of carbSelections) {
-          componentPromises.push(
-            generateMealPrepComponent({
-              componentType: "carb",
-              goal,
-              servings,
-              selectedIngredients: [carb], // One recipe per ingredient!
-              dietaryRestrictions: dietaryRestrictions || [],
-              allergies: allergies || [],
-              cuisinePreferences: cuisinePreferences || [],
-              skipImage: true
-            }).then(result => ({ type: "carb" as const, ingredient: carb, result }))
-          );
+          componentPromises.push(generateComponent("carb", carb));
         }
 
         // Generate one vegetable component for EACH vegetable selection
         for (const vegetable of vegetableSelections) {
-          componentPromises.push(
-            generateMealPrepComponent({
-              componentType: "vegetable",
-              goal,
-              servings,
-              selectedIngredients: [vegetable], // One recipe per ingredient!
-              dietaryRestrictions: dietaryRestrictions || [],
-              allergies: allergies || [],
-              cuisinePreferences: cuisinePreferences || [],
-              skipImage: true
-            }).then(result => ({ type: "vegetable" as const, ingredient: vegetable, result }))
-          );
+          componentPromises.push(generateComponent("vegetable", vegetable));
         }
 
         // Wait for all component recipes to complete
@@ -4471,7 +4851,7 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         const componentImagePromises = componentResults.map(async (comp, index) => {
           try {
             // Generate image with Gemini (returns base64 data URL)
-            const base64ImageUrl = await generateRecipeImage(comp.result.recipe.name, allergies || []);
+            const base64ImageUrl = await generateRecipeImage(comp.result.recipe.name, householdAllergies);
 
             if (!base64ImageUrl || !base64ImageUrl.startsWith('data:')) {
               console.log(`⚠️ No valid image generated for ${comp.result.recipe.name}, using fallback`);
@@ -4554,6 +4934,7 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
             cook_time: comp.recipe.cook_time,
             servings: comp.recipe.servings,
             ingredients: comp.recipe.ingredients,
+            allergens: detectAllergens(comp.recipe.ingredients as any[]),
             instructions: comp.recipe.instructions,
             meal_type: comp.recipe.meal_type || "Dinner",
             tags: comp.recipe.tags,
@@ -4628,6 +5009,13 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
 
     } catch (error) {
       console.error('Error generating meal prep components:', error);
+      if (error instanceof AllergenViolationError) {
+        return res.status(422).json({
+          error: "Recipe contained an allergen",
+          message: `We couldn't make ${error.recipeName} without your household's allergens. Try a different selection.`,
+          violations: error.violations
+        });
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Failed to generate meal prep components",
@@ -4651,6 +5039,8 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       }
 
       console.log(`🍱 Generating assemblies for meal prep plan ${meal_prep_plan_id}`);
+      const preferences = (user.preferences || {}) as any;
+      const householdAllergies = await AllergenGuardService.allergiesFor(user.id, preferences.allergies);
 
       // Get the meal prep plan and verify ownership
       const [mealPrepPlan] = await db
@@ -4741,10 +5131,18 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
           goal: mealPrepPlan.goal,
           servings: mealPrepPlan.total_servings,
           numberOfAssemblies: 3,
+          allergies: householdAllergies,
           skipImages: true // Skip images for parallel processing
         };
 
-        const assemblyResults = await generateMealPrepAssemblies(assemblyParams);
+        // Sauces and toppings can bring in allergens the components were made without
+        const guardContext = { userId: user.id, allergies: householdAllergies, source: "meal_prep_assembly" as const };
+        const generatedAssemblies = await generateMealPrepAssemblies(assemblyParams);
+        const assemblyResults = await AllergenGuardService.filter(guardContext, generatedAssemblies, assembly => assembly.recipe);
+        if (assemblyResults.length === 0 && generatedAssemblies.length > 0) {
+          const [first] = generatedAssemblies;
+          throw new AllergenViolationError(first.name, AllergenGuardService.findViolations(first.recipe.ingredients, householdAllergies));
+        }
         console.log(`✅ Generated ${assemblyResults.length} assembly recipes`);
 
         // ===== Generate all assembly images in parallel =====
@@ -4815,6 +5213,7 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
             cook_time: assembly.recipe.cook_time || 5,
             servings: assembly.recipe.servings || mealPrepPlan.total_servings,
             ingredients: assembly.recipe.ingredients || [],
+            allergens: detectAllergens(assembly.recipe.ingredients as any[]),
             instructions: assembly.recipe.instructions || [],
             meal_type: "Dinner",
             tags: assembly.recipe.tags || [],
@@ -4891,6 +5290,13 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
 
     } catch (error) {
       console.error('Error generating meal prep assemblies:', error);
+      if (error instanceof AllergenViolationError) {
+        return res.status(422).json({
+          error: "Recipe contained an allergen",
+          message: "We couldn't put together meals without your household's allergens. Please try again.",
+          violations: error.violations
+        });
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Failed to generate meal prep assemblies",
@@ -5301,6 +5707,17 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
+  // Admin - Generated recipes rejected by the allergen guard
+  app.get('/api/admin/allergen-rejections', requireAdmin, async (req, res) => {
+    try {
+      const rejections = await AllergenGuardService.getRecentRejections();
+      res.json({ ...rejections, generated_at: new Date() });
+    } catch (error) {
+      console.error('Error fetching allergen rejections:', error);
+      res.status(500).json({ error: 'Failed to fetch allergen rejections' });
+    }
+  });
+
   // Admin - Search users
   app.get('/api/admin/users/search', requireAdmin, async (req, res) => {
     try {
@@ -5708,7 +6125,10 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         )
         .orderBy(desc(temporaryRecipes.created_at));
 
-      res.json(favoriteRecipes);
+      // Favorites saved to the cookbook, which outlive the temporary recipes they came from
+      const cookbookRecipes = await RecipeLibraryService.list(user.id, { favoritesOnly: true });
+
+      res.json([...cookbookRecipes, ...favoriteRecipes]);
     } catch (error) {
       console.error("Error fetching user favorite recipes:", error);
       res.status(500).json({ error: "Failed to fetch user favorite recipes" });
@@ -5961,10 +6381,7 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       // Get actual recipes
       let recipes: any[] = [];
       if (recipeIds.length > 0) {
-        recipes = await db
-          .select()
-          .from(temporaryRecipes)
-          .where(inArray(temporaryRecipes.id, recipeIds));
+        recipes = await RecipeLibraryService.findByIds(recipeIds, req.user!.id);
       }
       
       res.json({
@@ -6012,6 +6429,337 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
+  // ============================================================================
+  // HOUSEHOLD API ENDPOINTS
+  // ============================================================================
+
+  // GET /api/household - Get the user's household, members and pending invitations
+  app.get("/api/household", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const access = await HouseholdService.getAccess(user.id);
+
+      if (!access.householdId) {
+        return res.json({ household: null, role: null, members: [], invitations: [] });
+      }
+
+      const household = await db.query.households.findFirst({
+        where: eq(households.id, access.householdId),
+      });
+
+      const members = await db
+        .select({
+          user_id: householdMembers.user_id,
+          role: householdMembers.role,
+          joined_at: householdMembers.joined_at,
+          name: users.name,
+          email: users.email,
+        })
+        .from(householdMembers)
+        .innerJoin(users, eq(householdMembers.user_id, users.id))
+        .where(eq(householdMembers.household_id, access.householdId))
+        .orderBy(householdMembers.joined_at);
+
+      // Only owners see outstanding invitations (and their tokens)
+      const invitations = HouseholdService.canManage(access.role)
+        ? await db.select().from(householdInvitations)
+            .where(and(
+              eq(householdInvitations.household_id, access.householdId),
+              eq(householdInvitations.status, 'pending'),
+              gt(householdInvitations.expires_at, new Date())
+            ))
+            .orderBy(desc(householdInvitations.created_at))
+        : [];
+
+      res.json({ household, role: access.role, members, invitations });
+    } catch (error) {
+      console.error('Error fetching household:', error);
+      res.status(500).json({ error: 'Failed to fetch household' });
+    }
+  });
+
+  // POST /api/household - Create a household with the current user as owner
+  app.post("/api/household", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const { name } = req.body;
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Household name is required' });
+      }
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (access.householdId) {
+        return res.status(400).json({ error: 'You already belong to a household' });
+      }
+
+      const household = await db.transaction(async (tx) => {
+        const [newHousehold] = await tx.insert(households).values({
+          name: name.trim(),
+          created_by: user.id,
+        }).returning();
+
+        await tx.insert(householdMembers).values({
+          household_id: newHousehold.id,
+          user_id: user.id,
+          role: 'owner',
+        });
+
+        return newHousehold;
+      });
+
+      res.json(household);
+    } catch (error) {
+      console.error('Error creating household:', error);
+      res.status(500).json({ error: 'Failed to create household' });
+    }
+  });
+
+  // POST /api/household/invitations - Invite someone to the household by email
+  app.post("/api/household/invitations", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const { email, role = 'editor' } = req.body;
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!access.householdId) {
+        return res.status(400).json({ error: 'Create a household before inviting members' });
+      }
+      if (!HouseholdService.canManage(access.role)) {
+        return res.status(403).json({ error: 'Only the household owner can invite members' });
+      }
+
+      const parsedEmail = z.string().email().safeParse(typeof email === 'string' ? email.trim().toLowerCase() : email);
+      if (!parsedEmail.success) {
+        return res.status(400).json({ error: 'A valid email address is required' });
+      }
+
+      const parsedRole = HouseholdRoleEnum.exclude(['owner']).safeParse(role);
+      if (!parsedRole.success) {
+        return res.status(400).json({ error: 'Role must be editor or viewer' });
+      }
+
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + 7);
+
+      const [invitation] = await db.insert(householdInvitations).values({
+        household_id: access.householdId,
+        email: parsedEmail.data,
+        role: parsedRole.data,
+        token: randomBytes(24).toString('hex'),
+        invited_by: user.id,
+        expires_at: expiresAt,
+      }).returning();
+
+      res.json(invitation);
+    } catch (error) {
+      console.error('Error creating household invitation:', error);
+      res.status(500).json({ error: 'Failed to create household invitation' });
+    }
+  });
+
+  // GET /api/household/invitations/pending - Invitations addressed to the current user
+  app.get("/api/household/invitations/pending", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+
+      const invitations = await db
+        .select({
+          id: householdInvitations.id,
+          token: householdInvitations.token,
+          role: householdInvitations.role,
+          created_at: householdInvitations.created_at,
+          expires_at: householdInvitations.expires_at,
+          household_name: households.name,
+        })
+        .from(householdInvitations)
+        .innerJoin(households, eq(householdInvitations.household_id, households.id))
+        .where(and(
+          eq(householdInvitations.email, user.email.toLowerCase()),
+          eq(householdInvitations.status, 'pending'),
+          gt(householdInvitations.expires_at, new Date())
+        ))
+        .orderBy(desc(householdInvitations.created_at));
+
+      res.json({ invitations });
+    } catch (error) {
+      console.error('Error fetching pending invitations:', error);
+      res.status(500).json({ error: 'Failed to fetch pending invitations' });
+    }
+  });
+
+  // POST /api/household/invitations/:token/accept - Join a household
+  app.post("/api/household/invitations/:token/accept", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+
+      const invitation = await db.query.householdInvitations.findFirst({
+        where: eq(householdInvitations.token, req.params.token),
+      });
+
+      if (!invitation || invitation.status !== 'pending' || invitation.expires_at < new Date()) {
+        return res.status(404).json({ error: 'Invitation not found or expired' });
+      }
+      if (invitation.email !== user.email.toLowerCase()) {
+        return res.status(403).json({ error: 'This invitation was sent to a different email address' });
+      }
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (access.householdId) {
+        return res.status(400).json({ error: 'Leave your current household before joining another' });
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.insert(householdMembers).values({
+          household_id: invitation.household_id,
+          user_id: user.id,
+          role: invitation.role,
+        });
+
+        await tx.update(householdInvitations)
+          .set({ status: 'accepted' })
+          .where(eq(householdInvitations.id, invitation.id));
+      });
+
+      res.json({ success: true, householdId: invitation.household_id });
+    } catch (error) {
+      console.error('Error accepting household invitation:', error);
+      res.status(500).json({ error: 'Failed to accept household invitation' });
+    }
+  });
+
+  // POST /api/household/invitations/:token/decline - Decline an invitation
+  app.post("/api/household/invitations/:token/decline", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+
+      const updated = await db.update(householdInvitations)
+        .set({ status: 'declined' })
+        .where(and(
+          eq(householdInvitations.token, req.params.token),
+          eq(householdInvitations.email, user.email.toLowerCase()),
+          eq(householdInvitations.status, 'pending')
+        ))
+        .returning();
+
+      if (!updated.length) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error declining household invitation:', error);
+      res.status(500).json({ error: 'Failed to decline household invitation' });
+    }
+  });
+
+  // DELETE /api/household/invitations/:id - Revoke an outstanding invitation
+  app.delete("/api/household/invitations/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const invitationId = parseInt(req.params.id);
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!access.householdId || !HouseholdService.canManage(access.role)) {
+        return res.status(403).json({ error: 'Only the household owner can revoke invitations' });
+      }
+
+      const updated = await db.update(householdInvitations)
+        .set({ status: 'revoked' })
+        .where(and(
+          eq(householdInvitations.id, invitationId),
+          eq(householdInvitations.household_id, access.householdId),
+          eq(householdInvitations.status, 'pending')
+        ))
+        .returning();
+
+      if (!updated.length) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error revoking household invitation:', error);
+      res.status(500).json({ error: 'Failed to revoke household invitation' });
+    }
+  });
+
+  // PATCH /api/household/members/:userId - Change a member's role
+  app.patch("/api/household/members/:userId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const memberId = parseInt(req.params.userId);
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!access.householdId || !HouseholdService.canManage(access.role)) {
+        return res.status(403).json({ error: 'Only the household owner can change roles' });
+      }
+
+      const parsedRole = HouseholdRoleEnum.safeParse(req.body.role);
+      if (!parsedRole.success) {
+        return res.status(400).json({ error: 'Invalid role' });
+      }
+      if (!access.memberIds.includes(memberId)) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+      if (memberId === user.id) {
+        return res.status(400).json({ error: 'Transfer ownership by promoting another member to owner' });
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.update(householdMembers)
+          .set({ role: parsedRole.data })
+          .where(eq(householdMembers.user_id, memberId));
+
+        // A household has exactly one owner, so promoting someone demotes the current owner
+        if (parsedRole.data === 'owner') {
+          await tx.update(householdMembers)
+            .set({ role: 'editor' })
+            .where(eq(householdMembers.user_id, user.id));
+        }
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error updating household member:', error);
+      res.status(500).json({ error: 'Failed to update household member' });
+    }
+  });
+
+  // DELETE /api/household/members/:userId - Remove a member, or leave when removing yourself
+  app.delete("/api/household/members/:userId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const memberId = parseInt(req.params.userId);
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!access.householdId || !access.memberIds.includes(memberId)) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      const isLeaving = memberId === user.id;
+      if (!isLeaving && !HouseholdService.canManage(access.role)) {
+        return res.status(403).json({ error: 'Only the household owner can remove members' });
+      }
+
+      if (isLeaving && access.role === 'owner' && access.memberIds.length > 1) {
+        return res.status(400).json({ error: 'Transfer ownership to another member before leaving' });
+      }
+
+      // The last member leaving dissolves the household (members and invitations cascade)
+      if (access.memberIds.length === 1) {
+        await db.delete(households).where(eq(households.id, access.householdId));
+      } else {
+        await db.delete(householdMembers).where(eq(householdMembers.user_id, memberId));
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing household member:', error);
+      res.status(500).json({ error: 'Failed to remove household member' });
+    }
+  });
+
   // ============================================================================
   // MYPANTRY API ENDPOINTS
   // ============================================================================
@@ -6020,20 +6768,24 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
   app.get("/api/pantry", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
-      const { category, status, sort = 'added_date' } = req.query;
+      const { category, status, location, sort = 'added_date' } = req.query;
 
-      let query = db.select().from(pantryItems).where(eq(pantryItems.user_id, user.id));
+      // Household members share a single pantry
+      const { memberIds } = await HouseholdService.getAccess(user.id);
 
       // Apply filters
-      const conditions = [eq(pantryItems.user_id, user.id)];
+      const conditions = [inArray(pantryItems.user_id, memberIds)];
       if (category && category !== 'all') {
         conditions.push(sql`${pantryItems.category} = ${category}`);
       }
       if (status && status !== 'all') {
         conditions.push(sql`${pantryItems.quantity_status} = ${status}`);
       }
+      if (location && location !== 'all') {
+        conditions.push(sql`${pantryItems.location} = ${location}`);
+      }
 
-      const items = await db.select().from(pantryItems)
+      const rows = await db.select().from(pantryItems)
         .where(and(...conditions))
         .orderBy(
           sort === 'name' ? pantryItems.name :
@@ -6041,16 +6793,29 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
           desc(pantryItems.added_date)
         );
 
+      const items = await PantryExpirationService.annotate(rows);
+      if (sort === 'expiry') {
+        // Soonest to expire first; items without any expiry estimate go last
+        items.sort((a, b) => (a.days_remaining ?? Infinity) - (b.days_remaining ?? Infinity));
+      }
+
       // Get unique categories for filter options
-      const allItems = await db.select({ category: pantryItems.category })
+      const allItems = await db.select({ category: pantryItems.category, location: pantryItems.location })
         .from(pantryItems)
-        .where(eq(pantryItems.user_id, user.id));
+        .where(inArray(pantryItems.user_id, memberIds));
       
       const categories = Array.from(new Set(allItems.map(item => item.category).filter(Boolean)));
 
+      // Item counts per storage location, for the location filter and grouping
+      const locations = PantryLocationEnum.options.map(name => ({
+        location: name,
+        count: allItems.filter(item => storageForItem(item) === name).length
+      }));
+
       res.json({
         items,
         categories,
+        locations,
         totalItems: items.length
       });
     } catch (error) {
@@ -6063,7 +6828,12 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
   app.post("/api/pantry", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
-      const { name, category, quantity, quantity_status, unit, estimated_shelf_life_days, notes, isStaple } = req.body;
+      const { name, category, quantity, quantity_status, unit, location, estimated_shelf_life_days, estimatedShelfLifeDays, bestBeforeDate, notes, isStaple, price, store, barcode } = req.body;
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
 
       // Check if user is on free tier and has reached limit
       const currentCount = await db.select({ count: sql<number>`count(*)` })
@@ -6084,19 +6854,36 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         quantity: quantity || null,
         quantity_status: quantity_status || 'full',
         unit: unit || null,
-        estimated_shelf_life_days: estimated_shelf_life_days || null,
+        location: PantryLocationEnum.safeParse(location).success ? location : storageForCategory(category),
+        estimated_shelf_life_days: estimated_shelf_life_days || estimatedShelfLifeDays || null,
+        best_before_date: bestBeforeDate ? new Date(bestBeforeDate) : null,
         user_notes: notes || null,
         is_staple: isStaple || false,
+        price: typeof price === 'number' && price > 0 ? price : null,
+        barcode: typeof barcode === 'string' ? normalizeBarcode(barcode) : null,
       }).returning();
 
       // Log the addition
       await db.insert(pantryUsageLog).values({
         user_id: user.id,
         pantry_item_id: newItem[0].id,
+        item_name: newItem[0].name,
+        category: newItem[0].category,
         action: 'added',
         notes: `Added ${name} to pantry`
       });
 
+      if (newItem[0].price !== null) {
+        await PriceService.recordPrices(user.id, [{
+          name: newItem[0].name,
+          price: newItem[0].price,
+          quantity: newItem[0].quantity,
+          unit: newItem[0].unit,
+          store: store || null,
+          pantry_item_id: newItem[0].id,
+        }], 'manual');
+      }
+
       res.json(newItem[0]);
     } catch (error) {
       console.error('Error adding pantry item:', error);
@@ -6109,17 +6896,22 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     try {
       const user = req.user as any;
       const itemId = parseInt(req.params.id);
-      const { quantity, quantityStatus, notes, lastUsedDate } = req.body;
+      const { quantity, quantityStatus, notes, lastUsedDate, bestBeforeDate, location, price, store } = req.body;
 
-      // Verify item belongs to user
+      // Verify item belongs to the user's household
+      const access = await HouseholdService.getAccess(user.id);
       const existingItem = await db.select().from(pantryItems)
-        .where(and(eq(pantryItems.id, itemId), eq(pantryItems.user_id, user.id)))
+        .where(and(eq(pantryItems.id, itemId), inArray(pantryItems.user_id, access.memberIds)))
         .limit(1);
 
       if (!existingItem.length) {
         return res.status(404).json({ error: 'Pantry item not found' });
       }
 
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
       const updateData: any = {
         updated_at: new Date(),
       };
@@ -6128,6 +6920,27 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       if (quantityStatus) updateData.quantity_status = quantityStatus;
       if (notes !== undefined) updateData.user_notes = notes;
       if (lastUsedDate) updateData.last_used_date = new Date(lastUsedDate);
+      if (bestBeforeDate !== undefined) updateData.best_before_date = bestBeforeDate ? new Date(bestBeforeDate) : null;
+      if (price !== undefined) {
+        if (price !== null && (typeof price !== 'number' || price < 0)) {
+          return res.status(400).json({ error: 'Price must be a positive number' });
+        }
+        updateData.price = price || null;
+      }
+
+      // A location change is a move, which also adjusts a fixed best-before date
+      const previousLocation = storageForItem(existingItem[0]);
+      const isMove = location !== undefined && location !== previousLocation;
+      if (isMove) {
+        const parsedLocation = PantryLocationEnum.safeParse(location);
+        if (!parsedLocation.success) {
+          return res.status(400).json({ error: 'Invalid location' });
+        }
+        Object.assign(updateData, PantryExpirationService.relocate(
+          { ...existingItem[0], best_before_date: updateData.best_before_date ?? existingItem[0].best_before_date },
+          parsedLocation.data
+        ));
+      }
 
       const updatedItem = await db.update(pantryItems)
         .set(updateData)
@@ -6138,9 +6951,25 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       await db.insert(pantryUsageLog).values({
         user_id: user.id,
         pantry_item_id: itemId,
-        action: 'updated',
-        notes: `Updated ${existingItem[0].name}`
-      });
+        item_name: existingItem[0].name,
+        category: existingItem[0].category,
+        action: isMove ? 'moved' : 'updated',
+        notes: isMove
+          ? `Moved ${existingItem[0].name} from ${previousLocation} to ${location}`
+          : `Updated ${existingItem[0].name}`
+      });
+
+      // A newly entered price goes into the ingredient's price history
+      if (updateData.price && updateData.price !== existingItem[0].price) {
+        await PriceService.recordPrices(user.id, [{
+          name: updatedItem[0].name,
+          price: updateData.price,
+          quantity: updatedItem[0].quantity,
+          unit: updatedItem[0].unit,
+          store: store || null,
+          pantry_item_id: itemId,
+        }], 'manual');
+      }
 
       res.json(updatedItem[0]);
     } catch (error) {
@@ -6155,25 +6984,23 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       const user = req.user as any;
       const itemId = parseInt(req.params.id);
 
-      // Verify item belongs to user
+      // Verify item belongs to the user's household
+      const access = await HouseholdService.getAccess(user.id);
       const existingItem = await db.select().from(pantryItems)
-        .where(and(eq(pantryItems.id, itemId), eq(pantryItems.user_id, user.id)))
+        .where(and(eq(pantryItems.id, itemId), inArray(pantryItems.user_id, access.memberIds)))
         .limit(1);
 
       if (!existingItem.length) {
         return res.status(404).json({ error: 'Pantry item not found' });
       }
 
-      // Use a transaction to ensure data consistency
-      await db.transaction(async (tx) => {
-        // First, delete all usage log entries for this item
-        // This removes the foreign key constraint issue
-        await tx.delete(pantryUsageLog)
-          .where(eq(pantryUsageLog.pantry_item_id, itemId));
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
 
-        // Then delete the pantry item
-        await tx.delete(pantryItems).where(eq(pantryItems.id, itemId));
-      });
+      // Usage log entries keep their item snapshot and are detached by the foreign key (ON DELETE SET NULL),
+      // so usage and waste history outlive the item
+      await db.delete(pantryItems).where(eq(pantryItems.id, itemId));
 
       res.json({ success: true });
     } catch (error) {
@@ -6187,20 +7014,35 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     try {
       const user = req.user as any;
       const itemId = parseInt(req.params.id);
-      const { quantityUsed, recipeId, notes, useAll = false } = req.body;
+      const { quantityUsed: rawQuantityUsed, unit, recipeId, notes, useAll = false } = req.body;
 
-      // Verify item belongs to user
+      // Verify item belongs to the user's household
+      const access = await HouseholdService.getAccess(user.id);
       const existingItem = await db.select().from(pantryItems)
-        .where(and(eq(pantryItems.id, itemId), eq(pantryItems.user_id, user.id)))
+        .where(and(eq(pantryItems.id, itemId), inArray(pantryItems.user_id, access.memberIds)))
         .limit(1);
 
       if (!existingItem.length) {
         return res.status(404).json({ error: 'Pantry item not found' });
       }
 
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
       const item = existingItem[0];
       const currentQuantity = item.quantity || 0;
 
+      // Usage may be given in another unit than the item is stocked in (e.g. "2 tbsp" of a 1 lb block of butter)
+      let quantityUsed = rawQuantityUsed;
+      if (rawQuantityUsed && unit && item.unit) {
+        const converted = convertQuantity(Number(rawQuantityUsed), unit, item.unit, item.name);
+        if (converted === null) {
+          return res.status(400).json({ error: `Cannot convert ${unit} to ${item.unit} for ${item.name}` });
+        }
+        quantityUsed = roundQuantity(converted);
+      }
+
       // Calculate new quantity and status
       let newQuantity: number;
       let newQuantityStatus: string;
@@ -6212,19 +7054,7 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       } else if (quantityUsed && quantityUsed > 0) {
         // Partial usage
         newQuantity = currentQuantity - quantityUsed;
-        
-        // Calculate percentage remaining to determine status
-        const percentageRemaining = (newQuantity / currentQuantity) * 100;
-        
-        if (percentageRemaining <= 0) {
-          newQuantityStatus = 'empty';
-        } else if (percentageRemaining <= 25) {
-          newQuantityStatus = 'running_low';
-        } else if (percentageRemaining <= 50) {
-          newQuantityStatus = 'half';
-        } else {
-          newQuantityStatus = 'full';
-        }
+        newQuantityStatus = quantityStatusAfterUse(currentQuantity, newQuantity);
       } else {
         // No quantity specified, just mark as used without changing quantity
         newQuantity = currentQuantity;
@@ -6246,6 +7076,8 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       await db.insert(pantryUsageLog).values({
         user_id: user.id,
         pantry_item_id: itemId,
+        item_name: item.name,
+        category: item.category,
         action: 'used',
         quantity_used: quantityUsed || null,
         recipe_id: recipeId || null,
@@ -6267,78 +7099,305 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
-  // GET /api/pantry/suggestions - Get recipe suggestions based on pantry
-  app.get("/api/pantry/suggestions", isAuthenticated, async (req: Request, res: Response) => {
+  // POST /api/pantry/:id/discard - Throw out some or all of an item, recording why
+  app.post("/api/pantry/:id/discard", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
-      const { prioritize, meal_type, limit = 5 } = req.query;
+      const itemId = parseInt(req.params.id);
 
-      // Get user's pantry items
-      const userPantryItems = await db.select().from(pantryItems)
-        .where(eq(pantryItems.user_id, user.id));
+      const parsed = z.object({
+        reason: DiscardReasonEnum,
+        quantity: z.number().positive().optional(),
+        cost: z.number().nonnegative().nullable().optional(),
+        notes: z.string().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid discard', details: parsed.error.errors });
+      }
 
-      if (!userPantryItems.length) {
-        return res.json({
-          recipes: [],
-          usableIngredients: [],
-          missingIngredients: [],
-          priorityItems: []
-        });
+      // Verify item belongs to the user's household
+      const access = await HouseholdService.getAccess(user.id);
+      const [item] = await db.select().from(pantryItems)
+        .where(and(eq(pantryItems.id, itemId), inArray(pantryItems.user_id, access.memberIds)))
+        .limit(1);
+
+      if (!item) {
+        return res.status(404).json({ error: 'Pantry item not found' });
       }
 
-      // Get items that should be prioritized (older items or running low)
-      const priorityItems = userPantryItems.filter(item => {
-        if (prioritize === 'expiring') {
-          const daysOld = Math.floor((Date.now() - new Date(item.added_date).getTime()) / (1000 * 60 * 60 * 24));
-          return daysOld >= 7 || item.quantity_status === 'running_low';
-        }
-        return item.quantity_status === 'running_low';
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
+      const updatedItem = await PantryWasteService.discard(user.id, item, parsed.data);
+      res.json(updatedItem);
+    } catch (error) {
+      console.error('Error discarding pantry item:', error);
+      res.status(500).json({ error: 'Failed to discard pantry item' });
+    }
+  });
+
+  // POST /api/pantry/:id/move - Move an item to another storage location (e.g. into the freezer)
+  app.post("/api/pantry/:id/move", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const itemId = parseInt(req.params.id);
+
+      const parsedLocation = PantryLocationEnum.safeParse(req.body.location);
+      if (!parsedLocation.success) {
+        return res.status(400).json({ error: 'Location must be pantry, fridge or freezer' });
+      }
+
+      // Verify item belongs to the user's household
+      const access = await HouseholdService.getAccess(user.id);
+      const [item] = await db.select().from(pantryItems)
+        .where(and(eq(pantryItems.id, itemId), inArray(pantryItems.user_id, access.memberIds)))
+        .limit(1);
+
+      if (!item) {
+        return res.status(404).json({ error: 'Pantry item not found' });
+      }
+
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
+      const previousLocation = storageForItem(item);
+      if (previousLocation === parsedLocation.data) {
+        return res.status(400).json({ error: `${item.name} is already in the ${previousLocation}` });
+      }
+
+      const [updatedItem] = await db.update(pantryItems)
+        .set({
+          ...PantryExpirationService.relocate(item, parsedLocation.data),
+          updated_at: new Date()
+        })
+        .where(eq(pantryItems.id, itemId))
+        .returning();
+
+      await db.insert(pantryUsageLog).values({
+        user_id: user.id,
+        pantry_item_id: itemId,
+        item_name: item.name,
+        category: item.category,
+        action: 'moved',
+        notes: `Moved ${item.name} from ${previousLocation} to ${parsedLocation.data}`
       });
 
-      // Create ingredient list for AI
-      const availableIngredients = userPantryItems.map(item => item.name);
-      const priorityIngredientNames = priorityItems.map(item => item.name);
+      const [annotated] = await PantryExpirationService.annotate([updatedItem]);
+      res.json(annotated);
+    } catch (error) {
+      console.error('Error moving pantry item:', error);
+      res.status(500).json({ error: 'Failed to move pantry item' });
+    }
+  });
 
-      // Generate AI recipe suggestions
-      const prompt = `Based on these available ingredients: ${availableIngredients.join(', ')}
-      ${priorityIngredientNames.length > 0 ? `Please prioritize using these ingredients: ${priorityIngredientNames.join(', ')}` : ''}
-      ${meal_type ? `Meal type: ${meal_type}` : ''}
-      
-      Generate ${limit} recipe suggestions that use as many of these ingredients as possible. 
-      Focus on practical, home-cooking recipes.`;
+  // GET /api/pantry/use-soon - Household items ranked by days until they expire
+  app.get("/api/pantry/use-soon", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const days = req.query.days ? parseInt(req.query.days as string) : 7;
+      if (isNaN(days) || days < 0) {
+        return res.status(400).json({ error: 'Invalid days parameter' });
+      }
 
-      try {
-        const aiResponse = await openai.chat.completions.create({
-          model: "gpt-3.5-turbo",
-          messages: [{ role: "user", content: prompt }],
-          max_tokens: 1000,
-        });
+      const items = await PantryExpirationService.getUseSoonQueue(user.id, days);
+      res.json({ items, withinDays: days });
+    } catch (error) {
+      console.error('Error getting use-soon queue:', error);
+      res.status(500).json({ error: 'Failed to get use-soon items' });
+    }
+  });
 
-        // For now, return a structured response
-        // In a full implementation, you'd parse the AI response into proper recipe objects
-        res.json({
-          recipes: [], // Would contain parsed recipe objects
-          usableIngredients: availableIngredients,
-          missingIngredients: [],
-          priorityItems: priorityItems,
-          aiSuggestion: aiResponse.choices[0]?.message?.content || ''
-        });
-      } catch (aiError) {
-        console.error('AI suggestion error:', aiError);
-        res.json({
-          recipes: [],
-          usableIngredients: availableIngredients,
-          missingIngredients: [],
-          priorityItems: priorityItems,
-          aiSuggestion: 'AI suggestions temporarily unavailable'
-        });
+  // POST /api/recipes/:id/cooked/preview - Propose pantry deductions for a cooked recipe
+  app.post("/api/recipes/:id/cooked/preview", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const recipeId = parseInt(req.params.id);
+      if (isNaN(recipeId)) {
+        return res.status(400).json({ error: 'Invalid recipe ID' });
+      }
+
+      const parsed = z.object({
+        servings: z.number().positive().nullable().optional(),
+      }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid servings', details: parsed.error.errors });
       }
+
+      const recipe = await RecipeLibraryService.findById(recipeId, user.id);
+      if (!recipe) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+
+      const servings = parsed.data.servings ?? recipe.servings;
+      const deductions = await PantryDeductionService.proposeForRecipe(user.id, recipe, servings);
+
+      res.json({
+        recipe_id: recipe.id,
+        recipe_name: recipe.name,
+        servings,
+        deductions
+      });
+    } catch (error) {
+      console.error('Error previewing cooked recipe deductions:', error);
+      res.status(500).json({ error: 'Failed to preview pantry deductions' });
+    }
+  });
+
+  // POST /api/recipes/:id/cooked - Deduct the confirmed ingredients from the pantry in one go
+  app.post("/api/recipes/:id/cooked", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const recipeId = parseInt(req.params.id);
+      if (isNaN(recipeId)) {
+        return res.status(400).json({ error: 'Invalid recipe ID' });
+      }
+
+      const parsed = z.object({
+        deductions: z.array(z.object({
+          pantryItemId: z.number().int(),
+          quantityUsed: z.number().positive(),
+        })),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid deductions', details: parsed.error.errors });
+      }
+
+      const recipe = await RecipeLibraryService.findById(recipeId, user.id);
+      if (!recipe) {
+        return res.status(404).json({ error: 'Recipe not found' });
+      }
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
+      if (parsed.data.deductions.length === 0) {
+        return res.json({ success: true, updatedItems: [] });
+      }
+
+      // Every item must be in the household pantry, or the deduction would fail halfway
+      const itemIds = Array.from(new Set(parsed.data.deductions.map(deduction => deduction.pantryItemId)));
+      const found = await db.select({ id: pantryItems.id })
+        .from(pantryItems)
+        .where(and(inArray(pantryItems.id, itemIds), inArray(pantryItems.user_id, access.memberIds)));
+      const foundIds = new Set(found.map(item => item.id));
+      const missing = itemIds.filter(id => !foundIds.has(id));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: 'Pantry item not found', details: { pantryItemIds: missing } });
+      }
+
+      const updatedItems = await PantryDeductionService.applyForRecipe(user.id, recipe, parsed.data.deductions);
+      res.json({ success: true, updatedItems });
+    } catch (error) {
+      console.error('Error applying cooked recipe deductions:', error);
+      res.status(500).json({ error: 'Failed to update pantry' });
+    }
+  });
+
+  // GET /api/pantry/suggestions - Get recipe suggestions based on pantry
+  app.get("/api/pantry/suggestions", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      const { prioritize, meal_type } = req.query;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 3, 1), 5);
+
+      const preferences = (user.preferences || {}) as any;
+
+      const suggestions = await PantrySuggestionService.fromLibrary(user.id, {
+        prioritize: typeof prioritize === 'string' ? prioritize : undefined,
+        mealType: typeof meal_type === 'string' ? meal_type : undefined,
+        limit,
+        dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
+        allergies: await AllergenGuardService.allergiesFor(user.id)
+      });
+
+      res.json(suggestions);
     } catch (error) {
       console.error('Error getting pantry suggestions:', error);
       res.status(500).json({ error: 'Failed to get pantry suggestions' });
     }
   });
 
+  // POST /api/pantry/suggestions/generate - Generate new recipes from what's in the pantry
+  app.post("/api/pantry/suggestions/generate", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      const parsed = z.object({
+        prioritize: z.enum(['expiring', 'running_low']).optional(),
+        meal_type: z.string().optional(),
+        limit: z.number().int().min(1).max(5).default(3),
+      }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid suggestion options', details: parsed.error.errors });
+      }
+
+      const preferences = (user.preferences || {}) as any;
+
+      const suggestions = await PantrySuggestionService.generate(user.id, {
+        prioritize: parsed.data.prioritize,
+        mealType: parsed.data.meal_type,
+        limit: parsed.data.limit,
+        dietary: Array.isArray(preferences.dietary) ? preferences.dietary : [],
+        allergies: await AllergenGuardService.allergiesFor(user.id)
+      });
+
+      res.json(suggestions);
+    } catch (error) {
+      console.error('Error generating pantry suggestions:', error);
+      res.status(500).json({ error: 'Failed to generate pantry suggestions' });
+    }
+  });
+
+  // POST /api/pantry/suggestions/add-missing - Put a suggestion's missing ingredients on the current grocery list
+  app.post("/api/pantry/suggestions/add-missing", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      const parsed = z.object({
+        items: z.array(z.object({
+          name: z.string().trim().min(1),
+          amount: z.number().positive().nullable().optional(),
+          unit: z.string().nullable().optional(),
+        })).min(1),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid ingredients', details: parsed.error.errors });
+      }
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the grocery list' });
+      }
+
+      const mealPlan = await db.query.mealPlans.findFirst({
+        where: and(
+          inArray(mealPlans.user_id, access.memberIds),
+          eq(mealPlans.is_expired, false),
+          gt(mealPlans.expiration_date, new Date())
+        ),
+        orderBy: desc(mealPlans.created_at)
+      });
+      if (!mealPlan) {
+        return res.status(404).json({ error: 'Create a meal plan first to start a grocery list' });
+      }
+
+      const groceryList = await GroceryListService.getOrCreateForMealPlan(mealPlan, user.id);
+      const added = await GroceryListService.addManualItems(groceryList.id, parsed.data.items);
+
+      res.json({
+        grocery_list_id: groceryList.id,
+        meal_plan_id: mealPlan.id,
+        added,
+        skipped: parsed.data.items.length - added.length
+      });
+    } catch (error) {
+      console.error('Error adding missing ingredients to grocery list:', error);
+      res.status(500).json({ error: 'Failed to add missing ingredients' });
+    }
+  });
+
   // GET /api/pantry/autocomplete - Ingredient name autocomplete
   app.get("/api/pantry/autocomplete", async (req: Request, res: Response) => {
     try {
@@ -6384,6 +7443,11 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         return res.status(400).json({ error: 'Items array is required' });
       }
 
+      const access = await HouseholdService.getAccess(user.id);
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
       // Check subscription limits for bulk operations (premium feature)
       if (user.subscription_tier === 'free' && source === 'receipt') {
         return res.status(403).json({ 
@@ -6406,29 +7470,49 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       }
 
       const addedItems = [];
+      const prices = [];
       for (const item of items) {
+        const price = typeof item.price === 'number' && item.price > 0 ? item.price : null;
         const newItem = await db.insert(pantryItems).values({
           user_id: user.id,
           name: item.name.trim(),
           category: item.category || 'other',
           quantity: item.quantity || null,
           unit: item.unit || null,
+          location: PantryLocationEnum.safeParse(item.location).success ? item.location : storageForCategory(item.category),
           estimated_shelf_life_days: item.estimatedShelfLifeDays || null,
+          best_before_date: item.bestBeforeDate ? new Date(item.bestBeforeDate) : null,
           user_notes: item.notes || null,
           is_staple: item.isStaple || false,
+          price,
+          barcode: typeof item.barcode === 'string' ? normalizeBarcode(item.barcode) : null,
         }).returning();
 
         addedItems.push(newItem[0]);
+        if (price !== null) {
+          prices.push({
+            name: newItem[0].name,
+            price,
+            quantity: newItem[0].quantity,
+            unit: newItem[0].unit,
+            store: item.store || (typeof req.body.store === 'string' ? req.body.store : null),
+            pantry_item_id: newItem[0].id,
+          });
+        }
 
         // Log the addition
         await db.insert(pantryUsageLog).values({
           user_id: user.id,
           pantry_item_id: newItem[0].id,
+          item_name: newItem[0].name,
+          category: newItem[0].category,
           action: 'added',
           notes: `Bulk added ${item.name} via ${source || 'manual'}`
         });
       }
 
+      await PriceService.recordPrices(user.id, prices, source === 'receipt' ? 'receipt' : 'manual');
+
       res.json({
         success: true,
         addedItems,
@@ -6440,6 +7524,63 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
+  // GET /api/prices?ingredient= - Price history for an ingredient across the household
+  app.get("/api/prices", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const ingredient = typeof req.query.ingredient === 'string' ? req.query.ingredient.trim() : '';
+      if (!ingredient) {
+        return res.status(400).json({ error: 'ingredient query parameter is required' });
+      }
+
+      const history = await PriceService.getPriceHistory(req.user!.id, ingredient);
+      const unitPrices = history.filter(entry => entry.quantity).map(entry => entry.price / entry.quantity!);
+
+      res.json({
+        ingredient,
+        prices: history,
+        latest: history[history.length - 1] ?? null,
+        lowestUnitPrice: unitPrices.length > 0 ? Math.min(...unitPrices) : null,
+      });
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      res.status(500).json({ error: 'Failed to fetch price history' });
+    }
+  });
+
+  // POST /api/prices - Record prices typed in by hand (e.g. from a paper receipt)
+  app.post("/api/prices", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({
+        items: z.array(z.object({
+          name: z.string().min(1).max(100),
+          price: z.number().positive(),
+          quantity: z.number().positive().nullable().optional(),
+          unit: z.string().max(20).nullable().optional(),
+          purchasedAt: z.string().datetime().optional(),
+        })).min(1).max(100),
+        store: z.string().max(100).nullable().optional(),
+      }).safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid prices', details: parsed.error.errors });
+      }
+
+      const recorded = await PriceService.recordPrices(req.user!.id, parsed.data.items.map(item => ({
+        name: item.name,
+        price: item.price,
+        quantity: item.quantity ?? null,
+        unit: item.unit ?? null,
+        store: parsed.data.store ?? null,
+        purchased_at: item.purchasedAt ? new Date(item.purchasedAt) : undefined,
+      })), 'manual');
+
+      res.json({ prices: recorded, count: recorded.length });
+    } catch (error) {
+      console.error('Error recording prices:', error);
+      res.status(500).json({ error: 'Failed to record prices' });
+    }
+  });
+
   // POST /api/pantry/scan-receipt - Scan receipt with Gemini Vision (Premium feature)
   app.post("/api/pantry/scan-receipt", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -6468,14 +7609,19 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       console.log(`📸 Receipt scan requested by user ${user.id}`);
 
       // Call Gemini Vision to parse the receipt
-      const scannedItems = await parseReceiptWithVision(image, actualMimeType);
+      const receipt = await parseReceiptWithVision(image, actualMimeType);
+
+      console.log(`✅ Scanned ${receipt.items.length} items from receipt`);
 
-      console.log(`✅ Scanned ${scannedItems.length} items from receipt`);
+      // Proposed restock/new actions for the user to review before anything is saved
+      const proposals = await ReceiptMergeService.propose(user.id, receipt.items);
 
       res.json({
         success: true,
-        items: scannedItems,
-        itemCount: scannedItems.length
+        items: receipt.items,
+        store: receipt.store,
+        proposals,
+        itemCount: receipt.items.length
       });
     } catch (error) {
       console.error('Error scanning receipt:', error);
@@ -6483,6 +7629,110 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
+  // POST /api/pantry/barcode - Resolve a scanned or typed UPC/EAN to product details for the add form
+  app.post("/api/pantry/barcode", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const barcode = typeof req.body.barcode === 'string' ? normalizeBarcode(req.body.barcode) : null;
+      if (!barcode) {
+        return res.status(400).json({ error: 'Enter a valid 8, 12, 13 or 14 digit barcode' });
+      }
+
+      const product = await BarcodeService.lookup(req.user!.id, barcode);
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found', barcode });
+      }
+
+      res.json({ product });
+    } catch (error) {
+      console.error('Error looking up barcode:', error);
+      res.status(500).json({ error: 'Failed to look up barcode' });
+    }
+  });
+
+  // A receipt line as scanned, possibly corrected by the user
+  const receiptLineSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    category: z.string().nullable().default(null),
+    quantity: z.number().positive().nullable().default(null),
+    unit: z.string().max(20).nullable().default(null),
+    estimatedShelfLifeDays: z.number().int().positive().nullable().default(null),
+    price: z.number().positive().nullable().default(null),
+  });
+
+  // POST /api/pantry/receipt/preview - Propose restocking existing items or adding new ones for edited receipt lines
+  app.post("/api/pantry/receipt/preview", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ items: z.array(receiptLineSchema).min(1).max(200) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid receipt items', details: parsed.error.errors });
+      }
+
+      const proposals = await ReceiptMergeService.propose(req.user!.id, parsed.data.items);
+      res.json({ proposals });
+    } catch (error) {
+      console.error('Error previewing receipt merge:', error);
+      res.status(500).json({ error: 'Failed to match receipt items to your pantry' });
+    }
+  });
+
+  // POST /api/pantry/receipt/apply - Restock or add each confirmed receipt line in one transaction
+  app.post("/api/pantry/receipt/apply", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const parsed = z.object({
+        lines: z.array(receiptLineSchema.extend({
+          action: z.enum(['restock', 'new']),
+          pantryItemId: z.number().int().nullable().optional(),
+        })).min(1).max(200),
+        source: z.string().max(50).default('receipt'),
+        store: z.string().max(100).nullable().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid receipt lines', details: parsed.error.errors });
+      }
+
+      const { lines, source, store } = parsed.data;
+      if (lines.some(line => line.action === 'restock' && !line.pantryItemId)) {
+        return res.status(400).json({ error: 'Restocked lines need a pantryItemId' });
+      }
+
+      const access = await HouseholdService.getAccess(user.id);
+      if (!HouseholdService.canEdit(access.role)) {
+        return res.status(403).json({ error: 'Viewers cannot modify the household pantry' });
+      }
+
+      if (user.subscription_tier === 'free' && source === 'receipt') {
+        return res.status(403).json({
+          error: 'Receipt upload is a Premium feature. Upgrade to access bulk import.'
+        });
+      }
+
+      // Restocks don't add rows, so only new lines count towards the free item limit
+      const newCount = lines.filter(line => line.action === 'new').length;
+      const currentCount = await db.select({ count: sql<number>`count(*)` })
+        .from(pantryItems)
+        .where(eq(pantryItems.user_id, user.id));
+
+      if (user.subscription_tier === 'free' && Number(currentCount[0]?.count || 0) + newCount > 50) {
+        return res.status(403).json({
+          error: `Adding ${newCount} items would exceed the 50-item limit for free accounts. Upgrade to Premium for unlimited items.`
+        });
+      }
+
+      const result = await ReceiptMergeService.apply(user.id, lines, { source, store });
+
+      res.json({
+        success: true,
+        restocked: result.restocked,
+        added: result.added,
+        count: result.restocked.length + result.added.length
+      });
+    } catch (error) {
+      console.error('Error applying receipt merge:', error);
+      res.status(500).json({ error: 'Failed to update pantry from receipt' });
+    }
+  });
+
   // GET /api/recipes/recent - Get user's recent recipes for dropdowns
   app.get("/api/recipes/recent", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -6507,7 +7757,7 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
     }
   });
 
-  // GET /api/pantry/analytics - Usage analytics (Premium feature)
+  // GET /api/pantry/analytics - Usage and waste analytics (Premium feature)
   app.get("/api/pantry/analytics", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const user = req.user as any;
@@ -6519,10 +7769,17 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         });
       }
 
+      const period = (req.query.period || 'month') as string;
+      if (!['week', 'month', 'quarter', 'year'].includes(period)) {
+        return res.status(400).json({ error: 'Period must be week, month, quarter or year' });
+      }
+
+      const { memberIds } = await HouseholdService.getAccess(user.id);
+
       // Get total items
       const totalItems = await db.select({ count: sql<number>`count(*)` })
         .from(pantryItems)
-        .where(eq(pantryItems.user_id, user.id));
+        .where(inArray(pantryItems.user_id, memberIds));
 
       // Get categories breakdown
       const categoriesData = await db.select({ 
@@ -6530,31 +7787,14 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
         count: sql<number>`count(*)` 
       })
         .from(pantryItems)
-        .where(eq(pantryItems.user_id, user.id))
+        .where(inArray(pantryItems.user_id, memberIds))
         .groupBy(pantryItems.category);
 
-      // Get items to use soon (7+ days old or running low)
-      const useSoonItems = await db.select().from(pantryItems)
-        .where(and(
-          eq(pantryItems.user_id, user.id),
-          or(
-            lt(pantryItems.added_date, sql`NOW() - INTERVAL '7 days'`),
-            eq(pantryItems.quantity_status, 'running_low')
-          )
-        ));
+      // Get items to use soon, ranked by days until they expire
+      const useSoonItems = await PantryExpirationService.getUseSoonQueue(user.id);
 
-      // Get usage stats for this month
-      const thisMonth = new Date();
-      thisMonth.setDate(1);
-      thisMonth.setHours(0, 0, 0, 0);
-
-      const monthlyUsage = await db.select({ count: sql<number>`count(*)` })
-        .from(pantryUsageLog)
-        .where(and(
-          eq(pantryUsageLog.user_id, user.id),
-          eq(pantryUsageLog.action, 'used'),
-          gt(pantryUsageLog.created_at, thisMonth)
-        ));
+      const analytics = await PantryWasteService.getAnalytics(user.id, period as AnalyticsPeriod);
+      const thisMonth = analytics.trends.monthly[analytics.trends.monthly.length - 1];
 
       res.json({
         totalItems: Number(totalItems[0]?.count || 0),
@@ -6563,9 +7803,10 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
           count: Number(c.count)
         })),
         useSoonItems,
+        ...analytics,
         wasteReduction: {
-          itemsUsedThisMonth: Number(monthlyUsage[0]?.count || 0),
-          estimatedWastePrevented: `$${(Number(monthlyUsage[0]?.count || 0) * 3.50).toFixed(2)}`
+          itemsUsedThisMonth: thisMonth?.used ?? 0,
+          estimatedWastePrevented: `$${(thisMonth?.moneySaved ?? 0).toFixed(2)}`
         }
       });
     } catch (error) {
@@ -6573,4 +7814,23 @@ Make sure the title is unique and not: ${Array.from(usedTitles).join(", ")}`;
       res.status(500).json({ error: 'Failed to get pantry analytics' });
     }
   });
+
+  // GET /api/pantry/analytics/waste-history - Recently discarded items (Premium feature)
+  app.get("/api/pantry/analytics/waste-history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+
+      if (user.subscription_tier !== 'premium') {
+        return res.status(403).json({ 
+          error: 'Analytics is a Premium feature. Upgrade to access detailed insights.' 
+        });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      res.json(await PantryWasteService.getWasteHistory(user.id, limit));
+    } catch (error) {
+      console.error('Error getting waste history:', error);
+      res.status(500).json({ error: 'Failed to get waste history' });
+    }
+  });
 }
\ No newline at end of file
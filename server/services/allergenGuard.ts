@@ -0,0 +1,165 @@
+import { db } from "../../db";
+import { allergenRejections, users, type AllergenGuardAction, type AllergenRejection } from "@db/schema";
+import { desc, eq, sql } from "drizzle-orm";
+import { ingredientContainsAllergen } from "@db/allergens";
+import { HouseholdService } from "./household";
+
+export type AllergenGuardSource =
+  | "meal_plan"
+  | "regenerate"
+  | "weekly_planner"
+  | "ingredient_recipe"
+  | "ingredient_suggestions"
+  | "pantry_suggestions"
+  | "meal_prep_component"
+  | "meal_prep_assembly";
+
+export interface AllergenViolation {
+  allergy: string;
+  ingredient: string;
+}
+
+export interface AllergenGuardContext {
+  userId: number;
+  allergies: string[];
+  source: AllergenGuardSource;
+}
+
+interface GeneratedRecipe {
+  name?: string | null;
+  ingredients?: unknown;
+}
+
+// How many times a recipe is generated before one with an allergen is given up on
+const GENERATION_ATTEMPTS = 2;
+
+export class AllergenViolationError extends Error {
+  constructor(public recipeName: string, public violations: AllergenViolation[]) {
+    super(`${recipeName} contains ${violations.map(v => `${v.allergy} (${v.ingredient})`).join(", ")}`);
+    this.name = "AllergenViolationError";
+  }
+}
+
+export class AllergenGuardService {
+  // The allergies to guard against for a user: their saved profile allergies and every household
+  // member's, plus any extra ones the request names. What the client sends can only add to the set.
+  static async allergiesFor(userId: number, requested: unknown = []): Promise<string[]> {
+    const [user] = await db
+      .select({ preferences: users.preferences })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    const extra = Array.isArray(requested) ? requested.filter((allergy): allergy is string => typeof allergy === "string") : [];
+    return HouseholdService.getCombinedAllergies(userId, [...(user?.preferences?.allergies ?? []), ...extra]);
+  }
+
+  // Every ingredient that contains one of the allergies, including known derivatives
+  // ("Dairy" catches butter, whey and ghee); custom allergies match by name
+  static findViolations(ingredients: unknown, allergies: string[]): AllergenViolation[] {
+    if (!Array.isArray(ingredients) || allergies.length === 0) return [];
+
+    return ingredients.flatMap(ingredient => {
+      const name = typeof ingredient === "string" ? ingredient : ingredient?.name;
+      if (typeof name !== "string" || !name.trim()) return [];
+
+      return allergies
+        .filter(allergy => allergy.trim() && ingredientContainsAllergen(name, allergy))
+        .map(allergy => ({ allergy, ingredient: name }));
+    });
+  }
+
+  // Run a generator until it produces a recipe free of the user's allergens. Each unsafe recipe is
+  // logged; once the attempts run out the last one is rejected with an AllergenViolationError.
+  static async generate<T>(
+    context: AllergenGuardContext,
+    generateRecipe: () => Promise<T>,
+    recipeOf: (result: T) => GeneratedRecipe = result => result as GeneratedRecipe
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const result = await generateRecipe();
+      const recipe = recipeOf(result);
+      const violations = this.findViolations(recipe.ingredients, context.allergies);
+      if (violations.length === 0) return result;
+
+      const finalAttempt = attempt >= GENERATION_ATTEMPTS;
+      await this.log(context, recipe.name || "Untitled Recipe", violations, finalAttempt ? "rejected" : "regenerated");
+      if (finalAttempt) {
+        throw new AllergenViolationError(recipe.name || "Untitled Recipe", violations);
+      }
+    }
+  }
+
+  // Drop unsafe recipes from a batch, logging each one
+  static async filter<T>(
+    context: AllergenGuardContext,
+    results: T[],
+    recipeOf: (result: T) => GeneratedRecipe = result => result as GeneratedRecipe
+  ): Promise<T[]> {
+    const safe: T[] = [];
+    for (const result of results) {
+      const recipe = recipeOf(result);
+      const violations = this.findViolations(recipe.ingredients, context.allergies);
+      if (violations.length === 0) {
+        safe.push(result);
+      } else {
+        await this.log(context, recipe.name || "Untitled Recipe", violations, "rejected");
+      }
+    }
+    return safe;
+  }
+
+  // Drop recipe titles that name an allergen outright ("Shrimp Scampi" for a shellfish allergy)
+  static async filterTitles(context: AllergenGuardContext, titles: string[]): Promise<string[]> {
+    return this.filter(context, titles, title => ({ name: title, ingredients: [title] }));
+  }
+
+  // Most recent rejections with who they were for, and counts by source
+  static async getRecentRejections(limit = 50) {
+    const [rejections, bySource] = await Promise.all([
+      db.select({
+        rejection: allergenRejections,
+        user_email: users.email,
+      })
+        .from(allergenRejections)
+        .innerJoin(users, eq(allergenRejections.user_id, users.id))
+        .orderBy(desc(allergenRejections.created_at))
+        .limit(limit),
+      db.select({
+        source: allergenRejections.source,
+        regenerated: sql<number>`count(*) filter (where ${allergenRejections.action} = 'regenerated')`,
+        rejected: sql<number>`count(*) filter (where ${allergenRejections.action} = 'rejected')`,
+      })
+        .from(allergenRejections)
+        .where(sql`${allergenRejections.created_at} > now() - interval '30 days'`)
+        .groupBy(allergenRejections.source),
+    ]);
+
+    return {
+      rejections: rejections.map(({ rejection, user_email }) => ({ ...rejection as AllergenRejection, user_email })),
+      by_source: bySource.map(row => ({ ...row, regenerated: Number(row.regenerated), rejected: Number(row.rejected) })),
+    };
+  }
+
+  // A failed log write shouldn't cost the user their recipe
+  private static async log(
+    context: AllergenGuardContext,
+    recipeName: string,
+    violations: AllergenViolation[],
+    action: AllergenGuardAction
+  ): Promise<void> {
+    console.warn(`Allergen guard: ${action} "${recipeName}" from ${context.source} for user ${context.userId}:`, violations);
+    try {
+      await db.insert(allergenRejections).values({
+        user_id: context.userId,
+        source: context.source,
+        recipe_name: recipeName,
+        allergies: context.allergies,
+        violations,
+        action,
+      });
+    } catch (error) {
+      console.error("Failed to log allergen rejection:", error);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { db } from "../../db";
+import { pantryItems, productCatalog, PantryCategoryEnum, type PantryCategory } from "@db/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { ingredientKey } from "@db/units";
+import { HouseholdService } from "./household";
+import { PantryExpirationService, storageForCategory, storageForItem, type StorageLocation } from "./pantryExpiration";
+import { getProductLookupProvider, type ProductLookupProvider, type ProductLookupResult } from "../lib/productLookup";
+
+export type BarcodeSource = "history" | "catalog" | "provider";
+
+export interface BarcodeProduct {
+  barcode: string;
+  source: BarcodeSource;
+  name: string;
+  brand: string | null;
+  category: PantryCategory;
+  quantity: number | null;
+  unit: string | null;
+  shelfLifeDays: number | null;
+  location: StorageLocation;
+}
+
+// Strip spaces and dashes and bring UPC-A / EAN-8 up to EAN-13 so the same product always has
+// the same key. Returns null unless it's a GTIN of a valid length with a correct check digit.
+export function normalizeBarcode(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits) || ![8, 12, 13, 14].includes(digits.length)) return null;
+
+  const body = digits.slice(0, -1);
+  const sum = body.split("").reverse().reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  if ((10 - (sum % 10)) % 10 !== Number(digits[digits.length - 1])) return null;
+
+  return digits.length < 13 ? digits.padStart(13, "0") : digits;
+}
+
+const toCategory = (category: string | null | undefined): PantryCategory => {
+  const parsed = PantryCategoryEnum.safeParse(category);
+  return parsed.success ? parsed.data : "other";
+};
+
+export class BarcodeService {
+  // Resolve a barcode to product details, preferring what the household entered last time,
+  // then the local catalog, then the external provider (whose answer is cached in the catalog)
+  static async lookup(
+    userId: number,
+    barcode: string,
+    provider: ProductLookupProvider | null = getProductLookupProvider()
+  ): Promise<BarcodeProduct | null> {
+    const fromHistory = await this.fromHistory(userId, barcode);
+    if (fromHistory) return fromHistory;
+
+    const cataloged = await db.query.productCatalog.findFirst({
+      where: eq(productCatalog.barcode, barcode),
+    });
+    if (cataloged) {
+      return this.describe(barcode, "catalog", {
+        name: cataloged.name,
+        brand: cataloged.brand,
+        category: cataloged.category,
+        quantity: cataloged.default_quantity,
+        unit: cataloged.default_unit,
+        shelfLifeDays: cataloged.shelf_life_days,
+      });
+    }
+
+    if (!provider) return null;
+
+    let found: ProductLookupResult | null;
+    try {
+      found = await provider.lookup(barcode);
+    } catch (error) {
+      console.error(`Barcode lookup via ${provider.name} failed:`, error);
+      return null;
+    }
+    if (!found) return null;
+
+    // Fill in what the provider doesn't know from our ingredient defaults
+    const defaults = await PantryExpirationService.loadDefaultsIndex();
+    const fallback = defaults.get(ingredientKey(found.name));
+    const product = this.describe(barcode, "provider", {
+      ...found,
+      category: found.category ?? fallback?.category ?? null,
+      shelfLifeDays: found.shelfLifeDays ?? fallback?.typical_shelf_life_days ?? null,
+    });
+
+    await db.insert(productCatalog).values({
+      barcode,
+      name: product.name,
+      brand: product.brand,
+      category: product.category,
+      default_quantity: product.quantity,
+      default_unit: product.unit,
+      shelf_life_days: product.shelfLifeDays,
+      source: provider.name,
+    }).onConflictDoNothing();
+
+    return product;
+  }
+
+  // The most recent pantry item anyone in the household added with this barcode
+  private static async fromHistory(userId: number, barcode: string): Promise<BarcodeProduct | null> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const [previous] = await db.select().from(pantryItems)
+      .where(and(inArray(pantryItems.user_id, memberIds), eq(pantryItems.barcode, barcode)))
+      .orderBy(desc(pantryItems.created_at))
+      .limit(1);
+    if (!previous) return null;
+
+    return {
+      ...this.describe(barcode, "history", {
+        name: previous.name,
+        brand: null,
+        category: previous.category,
+        quantity: previous.quantity,
+        unit: previous.unit,
+        shelfLifeDays: previous.estimated_shelf_life_days,
+      }),
+      location: storageForItem(previous),
+    };
+  }
+
+  private static describe(
+    barcode: string,
+    source: BarcodeSource,
+    product: { name: string; brand: string | null; category: string | null; quantity: number | null; unit: string | null; shelfLifeDays: number | null }
+  ): BarcodeProduct {
+    const category = toCategory(product.category);
+    return {
+      barcode,
+      source,
+      name: product.name,
+      brand: product.brand,
+      category,
+      quantity: product.quantity,
+      unit: product.unit,
+      shelfLifeDays: product.shelfLifeDays,
+      location: storageForCategory(category),
+    };
+  }
+}
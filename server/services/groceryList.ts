@@ -0,0 +1,240 @@
+import { db } from "../../db";
+import { groceryLists, groceryListItems, mealPlans, type GroceryListItem, type MealPlan } from "@db/schema";
+import { eq, asc, desc, inArray } from "drizzle-orm";
+import { HouseholdService } from "./household";
+import { PantryReconciliationService, type PantryCoverage } from "./pantryReconciliation";
+import { RecipeLibraryService } from "./recipeLibrary";
+import { aggregateIngredients, ingredientKey, normalizeUnit, scaleIngredients, type AggregatedIngredient } from "@db/units";
+
+type GroceryListRow = typeof groceryLists.$inferSelect;
+
+export interface GroceryItemWithCoverage extends GroceryListItem {
+  have_amount: number | null;
+  buy_amount: number | null;
+  pantry_status: PantryCoverage;
+}
+
+export type GroceryLine = AggregatedIngredient;
+
+// An ingredient bought in units that don't convert (2 cloves and 1 tbsp of garlic) is one line per unit
+const lineKey = (line: { name: string; unit: string | null }) => `${ingredientKey(line.name)}|${normalizeUnit(line.unit)}`;
+
+export class GroceryListService {
+  // Collect and aggregate the ingredients of every recipe in a meal plan,
+  // scaled to the servings the plan cooks each recipe for
+  static async buildLinesFromMealPlan(mealPlanId: number): Promise<GroceryLine[]> {
+    const planSlots = await RecipeLibraryService.planSlots(mealPlanId);
+
+    const ingredients = planSlots.flatMap(({ slot, recipe }) => {
+      const recipeIngredients = Array.isArray(recipe.ingredients) ? recipe.ingredients as Array<{ name: string; amount: number | null; unit: string | null }> : [];
+      return scaleIngredients(recipeIngredients, recipe.servings, slot.servings);
+    });
+    return aggregateIngredients(ingredients);
+  }
+
+  // Bring the recipe-derived rows of a meal plan's list up to date after the plan changes (e.g. servings).
+  // Rows are updated in place, matched by ingredient and unit, so item ids, check-offs and the user's own edits
+  // survive. The list's last derived lines tell user changes apart from plan changes: an amount that
+  // still matches them follows the plan, and a line the user deleted isn't brought back. Only
+  // ingredients new to the plan are added, and only ones the plan no longer uses are removed.
+  static async refreshRecipeItems(mealPlanId: number): Promise<void> {
+    const list = await this.findForMealPlan(mealPlanId);
+    if (!list) return;
+
+    const lines = await this.buildLinesFromMealPlan(mealPlanId);
+    const linesByKey = new Map(lines.map(line => [lineKey(line), line]));
+    const previousLines = Array.isArray(list.items) ? list.items as GroceryLine[] : [];
+    const previousByKey = new Map(previousLines.map(line => [lineKey(line), line]));
+    const rows = (await this.getItems(list.id)).filter(item => !item.is_manual);
+    const rowsByKey = new Map<string, GroceryListItem>();
+    rows.forEach(row => {
+      const key = lineKey(row);
+      if (!rowsByKey.has(key)) rowsByKey.set(key, row);
+    });
+
+    await db.transaction(async (tx) => {
+      const removed = rows
+        .filter(row => previousByKey.has(lineKey(row)) && !linesByKey.has(lineKey(row)))
+        .map(row => row.id);
+      if (removed.length > 0) {
+        await tx.delete(groceryListItems).where(inArray(groceryListItems.id, removed));
+      }
+
+      const added: GroceryLine[] = [];
+      for (const [key, line] of Array.from(linesByKey)) {
+        const row = rowsByKey.get(key);
+        const previous = previousByKey.get(key);
+        if (!row) {
+          if (!previous) added.push(line);
+          continue;
+        }
+
+        const edited = !previous || row.amount !== (previous.amount ?? null) || row.unit !== (previous.unit ?? null);
+        if (edited || (row.amount === line.amount && row.unit === line.unit)) continue;
+        await tx.update(groceryListItems)
+          .set({ amount: line.amount, unit: line.unit, updated_at: new Date() })
+          .where(eq(groceryListItems.id, row.id));
+      }
+
+      if (added.length > 0) {
+        await tx.insert(groceryListItems).values(added.map(line => ({
+          grocery_list_id: list.id,
+          name: line.name,
+          amount: line.amount,
+          unit: line.unit,
+        })));
+      }
+
+      await tx.update(groceryLists).set({ items: lines }).where(eq(groceryLists.id, list.id));
+    });
+  }
+
+  // The meal plan's grocery list, if it has one
+  static async findForMealPlan(mealPlanId: number): Promise<GroceryListRow | undefined> {
+    return db.query.groceryLists.findFirst({
+      where: eq(groceryLists.meal_plan_id, mealPlanId),
+      orderBy: desc(groceryLists.created),
+    });
+  }
+
+  // Create a grocery list for a meal plan along with one row per item. A plan has at most one
+  // list, so if a concurrent request created it first, that list is returned as it is.
+  static async createList(mealPlanId: number, userId: number, lines: GroceryLine[]): Promise<GroceryListRow> {
+    const created = await db.transaction(async (tx) => {
+      const [list] = await tx.insert(groceryLists).values({
+        user_id: userId,
+        meal_plan_id: mealPlanId,
+        items: lines,
+        created: new Date(),
+      }).onConflictDoNothing({ target: groceryLists.meal_plan_id }).returning();
+
+      if (list && lines.length > 0) {
+        await tx.insert(groceryListItems).values(lines.map(line => ({
+          grocery_list_id: list.id,
+          name: line.name,
+          amount: line.amount,
+          unit: line.unit,
+        })));
+      }
+
+      return list;
+    });
+    if (created) return created;
+
+    const existing = await this.findForMealPlan(mealPlanId);
+    if (!existing) throw new Error(`Grocery list for meal plan ${mealPlanId} was neither created nor found`);
+    return existing;
+  }
+
+  // Replace the meal plan's grocery list with these lines, creating the list if the plan has none
+  static async replaceList(mealPlanId: number, userId: number, lines: GroceryLine[]): Promise<GroceryListRow> {
+    return db.transaction(async (tx) => {
+      const [list] = await tx.insert(groceryLists).values({
+        user_id: userId,
+        meal_plan_id: mealPlanId,
+        items: lines,
+        created: new Date(),
+      }).onConflictDoUpdate({
+        target: groceryLists.meal_plan_id,
+        set: { items: lines },
+      }).returning();
+
+      await tx.delete(groceryListItems).where(eq(groceryListItems.grocery_list_id, list.id));
+      if (lines.length > 0) {
+        await tx.insert(groceryListItems).values(lines.map(line => ({
+          grocery_list_id: list.id,
+          name: line.name,
+          amount: line.amount,
+          unit: line.unit,
+        })));
+      }
+
+      return list;
+    });
+  }
+
+  // Return the meal plan's grocery list, deriving it from the plan's recipes the first time it's requested
+  static async getOrCreateForMealPlan(mealPlan: MealPlan, userId: number): Promise<GroceryListRow> {
+    const existing = await this.findForMealPlan(mealPlan.id);
+    if (existing) return existing;
+
+    const lines = await this.buildLinesFromMealPlan(mealPlan.id);
+    return this.createList(mealPlan.id, userId, lines);
+  }
+
+  static async getItems(groceryListId: number): Promise<GroceryListItem[]> {
+    return db
+      .select()
+      .from(groceryListItems)
+      .where(eq(groceryListItems.grocery_list_id, groceryListId))
+      .orderBy(asc(groceryListItems.created_at), asc(groceryListItems.id));
+  }
+
+  // Attach have / need / buy figures from the household pantry to each item.
+  // Manual additions ("paper towels") are never matched against the pantry.
+  static async getItemsWithCoverage(groceryListId: number, userId: number): Promise<GroceryItemWithCoverage[]> {
+    const items = await this.getItems(groceryListId);
+    const recipeItems = items.filter(item => !item.is_manual);
+    const coverage = await PantryReconciliationService.reconcile(userId, recipeItems);
+    const coverageById = new Map(recipeItems.map((item, index) => [item.id, coverage[index]]));
+
+    return items.map(item => {
+      const line = coverageById.get(item.id);
+      return {
+        ...item,
+        have_amount: line ? line.have_amount : 0,
+        buy_amount: line ? line.buy_amount : item.amount,
+        pantry_status: line ? line.status : 'buy',
+      };
+    });
+  }
+
+  // Add manual rows to a list, skipping anything already on it (or repeated in the batch)
+  static async addManualItems(
+    groceryListId: number,
+    lines: Array<{ name: string; amount?: number | null; unit?: string | null }>
+  ): Promise<GroceryListItem[]> {
+    const existing = await this.getItems(groceryListId);
+    const onList = new Set(existing.map(item => ingredientKey(item.name)));
+
+    const rows = lines.filter(line => {
+      const key = ingredientKey(line.name);
+      if (onList.has(key)) return false;
+      onList.add(key);
+      return true;
+    });
+    if (rows.length === 0) return [];
+
+    return db.insert(groceryListItems).values(rows.map(line => ({
+      grocery_list_id: groceryListId,
+      name: line.name.trim(),
+      amount: line.amount ?? null,
+      unit: line.unit || null,
+      is_manual: true,
+    }))).returning();
+  }
+
+  // Load a grocery list the user can see through their household, and whether they may change it
+  static async getAccessibleList(groceryListId: number, userId: number): Promise<{ list: GroceryListRow; canEdit: boolean } | null> {
+    const list = await db.query.groceryLists.findFirst({
+      where: eq(groceryLists.id, groceryListId),
+    });
+    if (!list) return null;
+
+    const access = await HouseholdService.getAccess(userId);
+    let ownerId = list.user_id;
+
+    if (list.meal_plan_id) {
+      const [mealPlan] = await db
+        .select({ user_id: mealPlans.user_id })
+        .from(mealPlans)
+        .where(eq(mealPlans.id, list.meal_plan_id))
+        .limit(1);
+      if (mealPlan) ownerId = mealPlan.user_id;
+    }
+
+    if (!access.memberIds.includes(ownerId) && !access.memberIds.includes(list.user_id)) return null;
+
+    return { list, canEdit: HouseholdService.canEdit(access.role) };
+  }
+}
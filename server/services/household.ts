@@ -0,0 +1,70 @@
+import { db } from "../../db";
+import { householdMembers, users, type HouseholdRole } from "@db/schema";
+import { eq, inArray } from "drizzle-orm";
+
+export interface HouseholdAccess {
+  householdId: number | null;
+  role: HouseholdRole;
+  memberIds: number[];
+}
+
+export class HouseholdService {
+  // Resolve the household a user belongs to and the user IDs whose data they share.
+  // Users without a household are treated as the owner of a household of one.
+  static async getAccess(userId: number): Promise<HouseholdAccess> {
+    const membership = await db.query.householdMembers.findFirst({
+      where: eq(householdMembers.user_id, userId),
+    });
+
+    if (!membership) {
+      return { householdId: null, role: 'owner', memberIds: [userId] };
+    }
+
+    const members = await db
+      .select({ user_id: householdMembers.user_id })
+      .from(householdMembers)
+      .where(eq(householdMembers.household_id, membership.household_id));
+
+    return {
+      householdId: membership.household_id,
+      role: membership.role,
+      memberIds: members.map(m => m.user_id),
+    };
+  }
+
+  // Owners and editors can change shared data, viewers are read-only
+  static canEdit(role: HouseholdRole): boolean {
+    return role === 'owner' || role === 'editor';
+  }
+
+  // Only owners can invite, remove members or change roles
+  static canManage(role: HouseholdRole): boolean {
+    return role === 'owner';
+  }
+
+  // Merge the requester's allergies with the saved allergies of every other household member
+  static async getCombinedAllergies(userId: number, allergies: string[] = []): Promise<string[]> {
+    const { memberIds } = await this.getAccess(userId);
+    const otherIds = memberIds.filter(id => id !== userId);
+
+    const combined = new Map<string, string>();
+    const addAllergy = (allergy: unknown) => {
+      if (typeof allergy !== 'string' || !allergy.trim()) return;
+      const key = allergy.trim().toLowerCase();
+      if (!combined.has(key)) combined.set(key, allergy.trim());
+    };
+
+    allergies.forEach(addAllergy);
+
+    if (otherIds.length > 0) {
+      const members = await db
+        .select({ preferences: users.preferences })
+        .from(users)
+        .where(inArray(users.id, otherIds));
+
+      members.forEach(member => member.preferences?.allergies?.forEach(addAllergy));
+    }
+
+    return Array.from(combined.values());
+  }
+}
@@ -44,6 +44,6 @@ export class MealPlanExpirationService {
   // Validate requested days against subscription tier
   static validateRequestedDays(days: number, subscriptionTier: 'free' | 'premium'): boolean {
     const maxDays = this.getAllowedDays(subscriptionTier);
-    return days <= maxDays;
+    return Number.isInteger(days) && days >= 1 && days <= maxDays;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,545 @@
+import { EventEmitter } from "events";
+import { db } from "../../db";
+import {
+  mealPlanJobs,
+  mealPlanJobItems,
+  mealPlans,
+  mealPlanRecipes,
+  temporaryRecipes,
+  users,
+  insertTemporaryRecipeSchema,
+  type MealPlanJobParams,
+  type MealPlanJobSource,
+  type MealPlanJobStatus,
+  type TemporaryRecipe,
+  MealTypeEnum,
+  CuisineTypeEnum,
+  DietaryTypeEnum,
+  DifficultyEnum,
+} from "@db/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { detectAllergens } from "@db/allergens";
+import { generateRecipeRecommendation, generateRecipeFromTitleAI, generateRecipeImage } from "../utils/ai";
+import { downloadAndStoreImage } from "./imageStorage";
+import { MealPlanExpirationService } from "./mealPlanExpiration";
+import { AllergenGuardService } from "./allergenGuard";
+
+type MealType = "breakfast" | "lunch" | "dinner";
+// Rows as drizzle returns them, keeping the column types the schema narrows
+type MealPlanJob = typeof mealPlanJobs.$inferSelect;
+type MealPlanJobItem = typeof mealPlanJobItems.$inferSelect;
+
+export interface MealPlanJobItemStatus {
+  task_id: string;
+  day: number;
+  meal: MealType;
+  cuisine: string | null;
+  title: string | null;
+  status: "pending" | "complete" | "failed";
+  recipe: { id: number; name: string } | null;
+  error: string | null;
+}
+
+export interface MealPlanJobStatusResponse {
+  id: number;
+  status: MealPlanJobStatus;
+  source: MealPlanJobSource;
+  days: number;
+  total: number;
+  completed: number;
+  failed: number;
+  progress: number; // 0-100, counting failed recipes as done
+  meal_plan_id: number | null;
+  error: string | null;
+  created_at: Date;
+  finished_at: Date | null;
+  items: MealPlanJobItemStatus[];
+  recipes: TemporaryRecipe[]; // finished so far, in plan order
+}
+
+// A dish picked for one slot of the plan, already saved when recipe_id is set
+export interface MealPlanJobSlot {
+  day: number;
+  meal: MealType;
+  title: string;
+  recipe_id?: number | null;
+}
+
+// What subscribers hear as a job runs: each slot as it changes (with the recipe's text once it's
+// written), each recipe's image once it's stored, and the whole job whenever it finishes
+export type MealPlanJobEvent =
+  | { type: "item"; item: MealPlanJobItemStatus; recipe: TemporaryRecipe | null }
+  | { type: "image"; task_id: string; recipe_id: number; image_url: string }
+  | { type: "done"; job: MealPlanJobStatusResponse };
+
+const MEAL_TYPES: MealType[] = ["breakfast", "lunch", "dinner"];
+const DEFAULT_CUISINES = ["Italian", "Mexican", "Chinese", "American"];
+const UNFINISHED: MealPlanJobStatus[] = ["queued", "running"];
+
+const CUISINE_TAGS = ["Italian", "Mexican", "Chinese", "Japanese", "Indian", "Thai", "Mediterranean", "American", "French"];
+const DIETARY_TAGS = ["Vegetarian", "Vegan", "Gluten-Free", "Dairy-Free", "Keto", "Paleo", "Low-Carb"];
+
+// Jobs this process is working on. A job found "running" in the database but not here was
+// interrupted by a restart and is picked up again by resumeUnfinished.
+const runningJobs = new Map<number, Promise<void>>();
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0); // one per open stream
+
+export class MealPlanJobService {
+  // Queue a meal plan with one item per recipe, rotating through the preferred cuisines for
+  // variety. A user only has one plan generating at a time, so an unfinished job is returned as is.
+  static async create(userId: number, days: number, params: MealPlanJobParams): Promise<number> {
+    const cuisines = params.preferences.cuisine.length > 0 ? params.preferences.cuisine : DEFAULT_CUISINES;
+
+    const items = Array.from({ length: days }, (_, day) => MEAL_TYPES.map((meal, mealIndex) => ({
+      task_id: `day-${day}-${meal}`,
+      day,
+      meal,
+      cuisine: cuisines[(day * MEAL_TYPES.length + mealIndex) % cuisines.length],
+    }))).flat();
+
+    return this.insert(userId, days, "meal_plan", params, items);
+  }
+
+  // Queue a plan of dishes the user picked by title. Slots with a saved recipe start out complete.
+  static async createFromSlots(userId: number, days: number, params: MealPlanJobParams, slots: MealPlanJobSlot[]): Promise<number> {
+    return this.insert(userId, days, "weekly_planner", params, slots.map(slot => ({
+      task_id: `day-${slot.day}-${slot.meal}`,
+      day: slot.day,
+      meal: slot.meal,
+      title: slot.title,
+      ...(slot.recipe_id ? { status: "complete" as const, recipe_id: slot.recipe_id } : {}),
+    })));
+  }
+
+  // Generate the job's outstanding recipes, saving each as soon as it's ready, then build the
+  // meal plan from whatever succeeded. Resolves once the job has finished either way and never rejects.
+  static run(jobId: number): Promise<void> {
+    const running = runningJobs.get(jobId);
+    if (running) return running;
+
+    const run = this.process(jobId)
+      .catch(async error => {
+        console.error(`Meal plan job ${jobId} failed:`, error);
+        const message = error instanceof Error ? error.message : "Failed to generate meal plan";
+
+        // Callers don't wait on run(), so a failure to record the failure is only logged
+        try {
+          // Slots the run didn't get to can be retried, and a job that already built its plan keeps it
+          await db
+            .update(mealPlanJobItems)
+            .set({ status: "failed", error: message, updated_at: new Date() })
+            .where(and(eq(mealPlanJobItems.job_id, jobId), eq(mealPlanJobItems.status, "pending")));
+          const job = await db.query.mealPlanJobs.findFirst({ where: eq(mealPlanJobs.id, jobId) });
+          if (job?.meal_plan_id) {
+            await this.finish(jobId, "complete", { meal_plan_id: job.meal_plan_id });
+          } else {
+            await this.finish(jobId, "failed", { error: message });
+          }
+        } catch (finishError) {
+          console.error(`Meal plan job ${jobId}: couldn't record the failure:`, finishError);
+        }
+      })
+      .finally(() => runningJobs.delete(jobId));
+
+    runningJobs.set(jobId, run);
+    return run;
+  }
+
+  // Generate a failed slot again. A finished job adds the recipe to its meal plan, or creates the
+  // plan if nothing had succeeded. Returns null when the job has no failed slot by that id.
+  static async retryItem(userId: number, jobId: number, taskId: string): Promise<MealPlanJobItemStatus | null> {
+    const job = await db.query.mealPlanJobs.findFirst({
+      where: and(eq(mealPlanJobs.id, jobId), eq(mealPlanJobs.user_id, userId)),
+    });
+    if (!job) return null;
+
+    const [item] = await db
+      .update(mealPlanJobItems)
+      .set({ status: "pending", error: null, updated_at: new Date() })
+      .where(and(
+        eq(mealPlanJobItems.job_id, jobId),
+        eq(mealPlanJobItems.task_id, taskId),
+        eq(mealPlanJobItems.status, "failed")
+      ))
+      .returning();
+    if (!item) return null;
+
+    const status = this.toItemStatus(item, null);
+    this.emit(jobId, { type: "item", item: status, recipe: null });
+
+    // A running job picks the slot up before it finishes; just in case it had already checked,
+    // run again once it's done
+    const running = runningJobs.get(jobId);
+    if (running) {
+      running.then(() => this.run(jobId));
+    } else {
+      this.run(jobId);
+    }
+    return status;
+  }
+
+  // Pick up jobs a restart interrupted, keeping the recipes they'd already generated
+  static async resumeUnfinished(): Promise<number> {
+    const jobs = await db
+      .select({ id: mealPlanJobs.id })
+      .from(mealPlanJobs)
+      .where(inArray(mealPlanJobs.status, UNFINISHED))
+      .orderBy(asc(mealPlanJobs.created_at));
+
+    jobs.forEach(job => { this.run(job.id); });
+    return jobs.length;
+  }
+
+  static async getActive(userId: number) {
+    return db.query.mealPlanJobs.findFirst({
+      where: and(eq(mealPlanJobs.user_id, userId), inArray(mealPlanJobs.status, UNFINISHED)),
+      orderBy: desc(mealPlanJobs.created_at),
+    });
+  }
+
+  // Listen to a job's events; returns a function that stops listening
+  static subscribe(jobId: number, listener: (event: MealPlanJobEvent) => void): () => void {
+    jobEvents.on(String(jobId), listener);
+    return () => { jobEvents.off(String(jobId), listener); };
+  }
+
+  // Progress for one of the user's jobs, with the recipes finished so far; null if it isn't theirs
+  static async getStatus(userId: number, jobId: number): Promise<MealPlanJobStatusResponse | null> {
+    const job = await db.query.mealPlanJobs.findFirst({
+      where: and(eq(mealPlanJobs.id, jobId), eq(mealPlanJobs.user_id, userId)),
+    });
+    if (!job) return null;
+
+    const rows = await db
+      .select({ item: mealPlanJobItems, recipe: temporaryRecipes })
+      .from(mealPlanJobItems)
+      .leftJoin(temporaryRecipes, eq(mealPlanJobItems.recipe_id, temporaryRecipes.id))
+      .where(eq(mealPlanJobItems.job_id, jobId))
+      .orderBy(asc(mealPlanJobItems.id));
+
+    const completed = rows.filter(({ item }) => item.status === "complete").length;
+    const failed = rows.filter(({ item }) => item.status === "failed").length;
+
+    return {
+      id: job.id,
+      status: job.status,
+      source: job.source,
+      days: job.days,
+      total: rows.length,
+      completed,
+      failed,
+      progress: rows.length > 0 ? Math.round((completed + failed) / rows.length * 100) : 0,
+      meal_plan_id: job.meal_plan_id,
+      error: job.error,
+      created_at: job.created_at,
+      finished_at: job.finished_at,
+      items: rows.map(({ item, recipe }) => this.toItemStatus(item, recipe)),
+      recipes: rows.flatMap(({ recipe }) => recipe ? [recipe as TemporaryRecipe] : []),
+    };
+  }
+
+  private static async insert(
+    userId: number,
+    days: number,
+    source: MealPlanJobSource,
+    params: MealPlanJobParams,
+    items: Array<Omit<typeof mealPlanJobItems.$inferInsert, "job_id">>
+  ): Promise<number> {
+    const existing = await this.getActive(userId);
+    if (existing) return existing.id;
+
+    // A unique index allows one unfinished job per user, so a concurrent request that got there
+    // first wins and its job is returned instead
+    const queued = await db.transaction(async tx => {
+      const [job] = await tx.insert(mealPlanJobs).values({
+        user_id: userId,
+        source,
+        days,
+        params,
+      }).onConflictDoNothing().returning();
+      if (!job) return null;
+
+      await tx.insert(mealPlanJobItems).values(items.map(item => ({ ...item, job_id: job.id })));
+      console.log(`Queued meal plan job ${job.id} for user ${userId}:`, items.map(item => `${item.task_id}: ${item.title || item.cuisine}`).join(", "));
+      return job.id;
+    });
+    if (queued !== null) return queued;
+
+    const active = await this.getActive(userId);
+    if (!active) throw new Error(`Couldn't queue a meal plan job for user ${userId}`);
+    return active.id;
+  }
+
+  private static async process(jobId: number): Promise<void> {
+    const job = await db.query.mealPlanJobs.findFirst({ where: eq(mealPlanJobs.id, jobId) });
+    if (!job) return;
+
+    const rows = await db
+      .select({ item: mealPlanJobItems, recipe_name: temporaryRecipes.name })
+      .from(mealPlanJobItems)
+      .leftJoin(temporaryRecipes, eq(mealPlanJobItems.recipe_id, temporaryRecipes.id))
+      .where(eq(mealPlanJobItems.job_id, jobId));
+
+    let pending = rows.filter(({ item }) => item.status === "pending").map(({ item }) => item);
+    if (pending.length === 0 && !UNFINISHED.includes(job.status)) return;
+
+    // A retry on a finished job generates its slot without reopening the job: the user may have
+    // another job active by now, and only one may be
+    if (UNFINISHED.includes(job.status)) {
+      await db
+        .update(mealPlanJobs)
+        .set({ status: "running", started_at: job.started_at ?? new Date(), updated_at: new Date() })
+        .where(eq(mealPlanJobs.id, jobId));
+    }
+
+    // Recipes finished before a restart still count against duplicates
+    const usedRecipeNames = new Set(rows.flatMap(({ recipe_name }) => recipe_name ? [recipe_name] : []));
+    const generatedItemIds: number[] = [];
+    const startTime = Date.now();
+
+    // Slots retried while a batch runs are picked up by the next one
+    while (pending.length > 0) {
+      console.log(`Meal plan job ${jobId}: generating ${pending.length} of ${rows.length} recipes in parallel`);
+      const results = await Promise.all(pending.map(item => this.generateItem(job, item, usedRecipeNames)));
+      pending.forEach((item, index) => { if (results[index]) generatedItemIds.push(item.id); });
+
+      pending = await db
+        .select()
+        .from(mealPlanJobItems)
+        .where(and(eq(mealPlanJobItems.job_id, jobId), eq(mealPlanJobItems.status, "pending")));
+    }
+
+    console.log(`Meal plan job ${jobId}: generation finished in ${Date.now() - startTime}ms`);
+
+    // A job that already has its plan only adds the recipes this run generated
+    if (job.meal_plan_id) {
+      const added = await this.completedItems(jobId, generatedItemIds);
+      await this.addToMealPlan(job.meal_plan_id, added);
+      await this.finish(jobId, "complete", { meal_plan_id: job.meal_plan_id });
+      return;
+    }
+
+    // Failed slots can be retried later, so a plan only fails when nothing at all was generated
+    const items = await this.completedItems(jobId);
+    if (items.length === 0) {
+      console.error(`Meal plan job ${jobId}: no recipes were generated`);
+      await this.finish(jobId, "failed", { error: "Could not generate any recipes for this meal plan" });
+      return;
+    }
+
+    const mealPlanId = await db.transaction(async tx => {
+      await tx
+        .update(users)
+        .set({ meal_plans_generated: sql`${users.meal_plans_generated} + 1` })
+        .where(eq(users.id, job.user_id));
+
+      const startDate = new Date();
+      const endDate = new Date(startDate);
+      endDate.setDate(endDate.getDate() + job.days - 1);
+
+      const [mealPlan] = await tx.insert(mealPlans).values({
+        user_id: job.user_id,
+        name: job.source === "weekly_planner" ? `Weekly Plan - ${job.days} Days` : `${job.days}-Day Meal Plan`,
+        start_date: startDate,
+        end_date: endDate,
+        expiration_date: MealPlanExpirationService.calculateExpirationDate(startDate, job.days),
+        days_generated: job.days,
+        is_expired: false,
+        created_at: new Date()
+      }).returning();
+
+      return mealPlan.id;
+    });
+
+    await this.addToMealPlan(mealPlanId, items);
+    console.log(`Meal plan job ${jobId}: created meal plan ${mealPlanId} with ${items.length} recipes`);
+    await this.finish(jobId, "complete", { meal_plan_id: mealPlanId, error: null });
+  }
+
+  // Generate and save one slot's recipe, announcing its text as soon as it's saved and its image
+  // once that's stored. Resolves to whether the slot succeeded.
+  private static async generateItem(job: MealPlanJob, item: MealPlanJobItem, usedRecipeNames: Set<string>): Promise<boolean> {
+    const { preferences, budgetPerServing, mealTargets } = job.params;
+    const context = { userId: job.user_id, allergies: preferences.allergies, source: job.source };
+
+    try {
+      const recipe: Partial<TemporaryRecipe> = item.title
+        ? await AllergenGuardService.generate(context, () => generateRecipeFromTitleAI(item.title!, preferences.allergies, {
+            nutritionTarget: mealTargets?.[item.meal],
+            skipImage: true
+          }))
+        : await AllergenGuardService.generate(context, () => generateRecipeRecommendation({
+            dietary: preferences.dietary,
+            allergies: preferences.allergies,
+            cuisine: item.cuisine ? [item.cuisine] : [],
+            meatTypes: preferences.meatTypes,
+            mealType: item.meal,
+            excludeNames: Array.from(usedRecipeNames),
+            budgetPerServing,
+            nutritionTarget: mealTargets?.[item.meal],
+            maxRetries: 2, // Reduced retries for faster parallel execution
+            skipImage: true
+          }));
+      if (!recipe?.name) throw new Error("Generated recipe has no name");
+
+      // Add to used names immediately to prevent duplicates in parallel execution
+      usedRecipeNames.add(recipe.name);
+
+      const saved = await this.saveRecipe(job.user_id, item.meal, recipe);
+      const [updated] = await db
+        .update(mealPlanJobItems)
+        .set({ status: "complete", recipe_id: saved.id, error: null, updated_at: new Date() })
+        .where(eq(mealPlanJobItems.id, item.id))
+        .returning();
+      console.log(`Meal plan job ${job.id}: completed ${item.task_id}: ${saved.name}`);
+      this.emit(job.id, { type: "item", item: this.toItemStatus(updated, saved), recipe: saved });
+
+      await this.addImage(job.id, item.task_id, saved, preferences.allergies);
+      return true;
+    } catch (error) {
+      console.error(`Meal plan job ${job.id}: failed to generate recipe for ${item.task_id}:`, error);
+      const [updated] = await db
+        .update(mealPlanJobItems)
+        .set({ status: "failed", error: error instanceof Error ? error.message : "Failed to generate recipe", updated_at: new Date() })
+        .where(eq(mealPlanJobItems.id, item.id))
+        .returning();
+      this.emit(job.id, { type: "item", item: this.toItemStatus(updated, null), recipe: null });
+      return false;
+    }
+  }
+
+  // A missing image shouldn't cost the user their recipe
+  private static async addImage(jobId: number, taskId: string, recipe: TemporaryRecipe, allergies: string[]): Promise<void> {
+    try {
+      const imageUrl = await generateRecipeImage(recipe.name, allergies);
+      if (!imageUrl) return;
+
+      let permanentUrl: string | null = null;
+      try {
+        permanentUrl = await downloadAndStoreImage(imageUrl, String(recipe.id));
+      } catch (error) {
+        console.error('Failed to store image:', error);
+      }
+
+      await db
+        .update(temporaryRecipes)
+        .set({ image_url: imageUrl, permanent_url: permanentUrl })
+        .where(eq(temporaryRecipes.id, recipe.id));
+      this.emit(jobId, { type: "image", task_id: taskId, recipe_id: recipe.id, image_url: permanentUrl || imageUrl });
+    } catch (error) {
+      console.error(`Meal plan job ${jobId}: failed to add image for ${taskId}:`, error);
+    }
+  }
+
+  private static async completedItems(jobId: number, itemIds?: number[]): Promise<MealPlanJobItem[]> {
+    if (itemIds && itemIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(mealPlanJobItems)
+      .where(and(
+        eq(mealPlanJobItems.job_id, jobId),
+        eq(mealPlanJobItems.status, "complete"),
+        itemIds ? inArray(mealPlanJobItems.id, itemIds) : undefined
+      ))
+      .orderBy(asc(mealPlanJobItems.day), asc(mealPlanJobItems.id));
+  }
+
+  // Each recipe keeps the day and meal it was generated for, even when others failed
+  private static async addToMealPlan(mealPlanId: number, items: MealPlanJobItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const mealPlan = await db.query.mealPlans.findFirst({ where: eq(mealPlans.id, mealPlanId) });
+    if (!mealPlan) return;
+
+    await db.insert(mealPlanRecipes).values(items.map(item => {
+      const recipeDate = new Date(mealPlan.start_date);
+      recipeDate.setDate(recipeDate.getDate() + item.day);
+      return {
+        meal_plan_id: mealPlanId,
+        recipe_id: item.recipe_id!,
+        day: recipeDate,
+        meal: item.meal,
+        created_at: new Date()
+      };
+    }));
+  }
+
+  private static async finish(
+    jobId: number,
+    status: "complete" | "failed",
+    result: { meal_plan_id?: number; error?: string | null }
+  ): Promise<void> {
+    const [job] = await db
+      .update(mealPlanJobs)
+      .set({ status, ...result, updated_at: new Date(), finished_at: new Date() })
+      .where(eq(mealPlanJobs.id, jobId))
+      .returning();
+
+    const finished = job ? await this.getStatus(job.user_id, jobId) : null;
+    if (finished) this.emit(jobId, { type: "done", job: finished });
+  }
+
+  private static emit(jobId: number, event: MealPlanJobEvent): void {
+    jobEvents.emit(String(jobId), event);
+  }
+
+  private static toItemStatus(item: MealPlanJobItem, recipe: { id: number; name: string } | null): MealPlanJobItemStatus {
+    return {
+      task_id: item.task_id,
+      day: item.day,
+      meal: item.meal,
+      cuisine: item.cuisine,
+      title: item.title,
+      status: item.status,
+      recipe: recipe ? { id: recipe.id, name: recipe.name } : null,
+      error: item.error,
+    };
+  }
+
+  // Store a generated recipe for two days. Its image is added once the text is on its way.
+  private static async saveRecipe(userId: number, mealType: MealType, recipe: Partial<TemporaryRecipe>): Promise<TemporaryRecipe> {
+    const expirationDate = new Date();
+    expirationDate.setDate(expirationDate.getDate() + 2);
+    const tags = (Array.isArray(recipe.tags) ? recipe.tags : []).filter((tag): tag is string => typeof tag === "string");
+
+    const parseResult = insertTemporaryRecipeSchema.safeParse({
+      user_id: userId,
+      name: recipe.name || '',
+      description: recipe.description || null,
+      image_url: null,
+      permanent_url: null,
+      prep_time: recipe.prep_time || 0,
+      cook_time: recipe.cook_time || 0,
+      servings: recipe.servings || 4,
+      ingredients: recipe.ingredients || [],
+      instructions: recipe.instructions || [],
+      meal_type: (mealType.charAt(0).toUpperCase() + mealType.slice(1)) as z.infer<typeof MealTypeEnum>,
+      cuisine_type: (tags.find(tag => CUISINE_TAGS.includes(tag)) || "Other") as z.infer<typeof CuisineTypeEnum>,
+      dietary_restrictions: tags.filter(tag => DIETARY_TAGS.includes(tag)) as z.infer<typeof DietaryTypeEnum>[],
+      difficulty: (recipe.complexity === 1 ? "Easy" : recipe.complexity === 3 ? "Advanced" : "Moderate") as z.infer<typeof DifficultyEnum>,
+      tags,
+      nutrition: recipe.nutrition || { calories: 0, protein: 0, carbs: 0, fat: 0 },
+      complexity: recipe.complexity || 2,
+      created_at: new Date(),
+      expires_at: expirationDate,
+      favorited: false,
+      favorites_count: 0
+    });
+
+    if (!parseResult.success) {
+      console.error('Invalid recipe data:', parseResult.error.issues);
+      throw new Error("Generated recipe failed validation");
+    }
+
+    const [savedRecipe] = await db
+      .insert(temporaryRecipes)
+      .values({ ...parseResult.data, allergens: detectAllergens(parseResult.data.ingredients) })
+      .returning();
+
+    return savedRecipe as TemporaryRecipe;
+  }
+}
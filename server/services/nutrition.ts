@@ -0,0 +1,286 @@
+import { db } from "../../db";
+import { mealPlans, mealPrepPlans, mealPrepAssemblies, temporaryRecipes, type NutritionTargets, type RecipeNutrition } from "@db/schema";
+import { and, desc, eq, gt, inArray } from "drizzle-orm";
+import { HouseholdService } from "./household";
+import { RecipeLibraryService } from "./recipeLibrary";
+
+export type Nutrient = "calories" | "protein" | "carbs" | "fat";
+export type NutritionTotals = Record<Nutrient, number>;
+export type PlannedMealType = "breakfast" | "lunch" | "dinner";
+
+export interface PlannedMealNutrition {
+  recipe_id: number;
+  name: string;
+  meal: string;
+  servings_eaten: number; // per person
+  has_nutrition: boolean;
+  nutrition: NutritionTotals;
+}
+
+export interface NutritionWarning {
+  nutrient: Nutrient;
+  actual: number;
+  target: number;
+  difference_pct: number; // signed, e.g. -35 for 35% under target
+}
+
+export interface DayNutrition {
+  date: string; // YYYY-MM-DD
+  meals: PlannedMealNutrition[];
+  totals: NutritionTotals;
+  warnings: NutritionWarning[];
+}
+
+export interface NutritionSummary {
+  targets: NutritionTargets | null;
+  household_size: number;
+  meal_plan: { id: number; name: string } | null;
+  meal_prep: {
+    id: number;
+    name: string;
+    total_servings: number;
+    servings_per_day: number; // per person
+    daily: NutritionTotals;
+  } | null;
+  days: DayNutrition[];
+  week: {
+    totals: NutritionTotals;
+    daily_average: NutritionTotals;
+    days_planned: number;
+  };
+}
+
+const NUTRIENTS: Nutrient[] = ["calories", "protein", "carbs", "fat"];
+
+// How far a planned day can drift from a target before it's flagged
+const OFF_TARGET_TOLERANCE: NutritionTotals = {
+  calories: 0.2,
+  protein: 0.3,
+  carbs: 0.3,
+  fat: 0.3,
+};
+
+// Generated recipes are held to a tighter fit, since they can be retried or re-portioned
+const GENERATION_TOLERANCE: NutritionTotals = {
+  calories: 0.15,
+  protein: 0.25,
+  carbs: 0.25,
+  fat: 0.25,
+};
+
+// Share of the day's targets each meal should provide
+const MEAL_SHARES: Record<PlannedMealType, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.4,
+};
+
+const PREP_DAYS = 7;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const emptyTotals = (): NutritionTotals => ({ calories: 0, protein: 0, carbs: 0, fat: 0 });
+const round = (value: number) => Math.round(value * 10) / 10;
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+function addTotals(target: NutritionTotals, source: NutritionTotals, factor = 1): NutritionTotals {
+  NUTRIENTS.forEach(nutrient => { target[nutrient] = round(target[nutrient] + source[nutrient] * factor); });
+  return target;
+}
+
+// Recipe nutrition is stored per serving as loosely-typed JSON
+export function readNutrition(nutrition: unknown): NutritionTotals | null {
+  if (!nutrition || typeof nutrition !== "object") return null;
+  const values = nutrition as Record<string, unknown>;
+  const totals = emptyTotals();
+  NUTRIENTS.forEach(nutrient => { totals[nutrient] = Number(values[nutrient]) || 0; });
+  return totals.calories > 0 || totals.protein > 0 || totals.carbs > 0 || totals.fat > 0 ? totals : null;
+}
+
+export class NutritionService {
+  // Per-person nutrition for each day of the household's current meal plan, with the current meal
+  // prep plan's servings spread evenly across the week, checked against the user's daily targets
+  static async getSummary(userId: number, targets: NutritionTargets | null, now: Date = new Date()): Promise<NutritionSummary> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const householdSize = Math.max(1, memberIds.length);
+
+    const [mealPlan, mealPrepPlan] = await Promise.all([
+      db.query.mealPlans.findFirst({
+        where: and(inArray(mealPlans.user_id, memberIds), eq(mealPlans.is_expired, false), gt(mealPlans.expiration_date, now)),
+        orderBy: desc(mealPlans.created_at),
+      }),
+      db.query.mealPrepPlans.findFirst({
+        where: and(inArray(mealPrepPlans.user_id, memberIds), eq(mealPrepPlans.is_active, true), gt(mealPrepPlans.expires_at, now)),
+        orderBy: desc(mealPrepPlans.created_at),
+      }),
+    ]);
+
+    const days = new Map<string, DayNutrition>();
+    const dayFor = (key: string) => {
+      if (!days.has(key)) days.set(key, { date: key, meals: [], totals: emptyTotals(), warnings: [] });
+      return days.get(key)!;
+    };
+
+    if (mealPlan) {
+      const planned = (await RecipeLibraryService.planSlots(mealPlan.id)).map(({ slot, recipe }) => ({
+        recipe_id: recipe.id,
+        name: recipe.name,
+        nutrition: recipe.nutrition,
+        // A slot without its own servings cooks the recipe as written
+        servings: slot.servings ?? recipe.servings,
+        day: slot.day,
+        meal: slot.meal,
+      }));
+
+      for (const recipe of planned) {
+        // The servings cooked are shared by the household; if the recipe doesn't say, everyone has one
+        const servingsEaten = recipe.servings ? recipe.servings / householdSize : 1;
+        const perServing = readNutrition(recipe.nutrition);
+        const nutrition = addTotals(emptyTotals(), perServing ?? emptyTotals(), servingsEaten);
+
+        const day = dayFor(dateKey(recipe.day));
+        day.meals.push({
+          recipe_id: recipe.recipe_id,
+          name: recipe.name,
+          meal: recipe.meal,
+          servings_eaten: round(servingsEaten),
+          has_nutrition: perServing !== null,
+          nutrition,
+        });
+        addTotals(day.totals, nutrition);
+      }
+    }
+
+    let mealPrep: NutritionSummary["meal_prep"] = null;
+    if (mealPrepPlan) {
+      const assemblies = await db
+        .select({ recipe_id: temporaryRecipes.id, nutrition: temporaryRecipes.nutrition })
+        .from(mealPrepAssemblies)
+        .innerJoin(temporaryRecipes, eq(mealPrepAssemblies.recipe_id, temporaryRecipes.id))
+        .where(eq(mealPrepAssemblies.meal_prep_plan_id, mealPrepPlan.id));
+
+      // Prepped servings are split evenly between the assembled meals and eaten over a week
+      const servingsPerDay = mealPrepPlan.total_servings / householdSize / PREP_DAYS;
+      const daily = emptyTotals();
+      if (assemblies.length > 0) {
+        assemblies.forEach(assembly => {
+          addTotals(daily, readNutrition(assembly.nutrition) ?? emptyTotals(), servingsPerDay / assemblies.length);
+        });
+      }
+
+      mealPrep = {
+        id: mealPrepPlan.id,
+        name: mealPrepPlan.name,
+        total_servings: mealPrepPlan.total_servings,
+        servings_per_day: round(servingsPerDay),
+        daily,
+      };
+
+      // With no meal plan, show the prep plan's week on its own
+      if (days.size === 0) {
+        for (let offset = 0; offset < PREP_DAYS; offset++) {
+          dayFor(dateKey(new Date(now.getTime() + offset * DAY_MS)));
+        }
+      }
+
+      days.forEach(day => {
+        day.meals.push({
+          recipe_id: mealPrepPlan.id,
+          name: `${mealPrepPlan.name} (daily share)`,
+          meal: "Meal Prep",
+          servings_eaten: round(servingsPerDay),
+          has_nutrition: assemblies.length > 0,
+          nutrition: { ...daily },
+        });
+        addTotals(day.totals, daily);
+      });
+    }
+
+    const sortedDays = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+    sortedDays.forEach(day => { day.warnings = this.checkTargets(day.totals, targets); });
+
+    const weekTotals = sortedDays.reduce((totals, day) => addTotals(totals, day.totals), emptyTotals());
+    const dailyAverage = addTotals(emptyTotals(), weekTotals, sortedDays.length > 0 ? 1 / sortedDays.length : 0);
+
+    return {
+      targets,
+      household_size: householdSize,
+      meal_plan: mealPlan ? { id: mealPlan.id, name: mealPlan.name } : null,
+      meal_prep: mealPrep,
+      days: sortedDays,
+      week: {
+        totals: weekTotals,
+        daily_average: dailyAverage,
+        days_planned: sortedDays.length,
+      },
+    };
+  }
+
+  // Split daily targets into per-serving targets for each meal, or null when there are none
+  static mealTargets(daily: NutritionTargets | null | undefined): Record<PlannedMealType, NutritionTargets> | null {
+    if (!daily || NUTRIENTS.every(nutrient => !daily[nutrient])) return null;
+
+    const share = (fraction: number): NutritionTargets => ({
+      calories: daily.calories ? Math.round(daily.calories * fraction) : null,
+      protein: daily.protein ? Math.round(daily.protein * fraction) : null,
+      carbs: daily.carbs ? Math.round(daily.carbs * fraction) : null,
+      fat: daily.fat ? Math.round(daily.fat * fraction) : null,
+    });
+
+    return {
+      breakfast: share(MEAL_SHARES.breakfast),
+      lunch: share(MEAL_SHARES.lunch),
+      dinner: share(MEAL_SHARES.dinner),
+    };
+  }
+
+  // Nutrients a generated recipe's per-serving nutrition misses its meal target on
+  static checkRecipe(nutrition: unknown, target: NutritionTargets): NutritionWarning[] {
+    return this.checkTargets(readNutrition(nutrition) ?? emptyTotals(), target, GENERATION_TOLERANCE);
+  }
+
+  // Re-portion a recipe so one serving lands on the calorie target: the same dish makes more,
+  // smaller servings or fewer, larger ones. Returns null when calories can't be used to fit it.
+  static fitServings(
+    recipe: { servings: number; nutrition: unknown },
+    target: NutritionTargets
+  ): { servings: number; nutrition: RecipeNutrition } | null {
+    const perServing = readNutrition(recipe.nutrition);
+    if (!perServing || !perServing.calories || !target.calories || recipe.servings <= 0) return null;
+
+    const servings = Math.max(1, Math.round(recipe.servings * perServing.calories / target.calories));
+    if (servings === recipe.servings) return null;
+
+    // Scale every nutrient the recipe reports, not just the ones with targets
+    const factor = recipe.servings / servings;
+    const nutrition = { ...perServing } as RecipeNutrition;
+    Object.entries(recipe.nutrition as Record<string, unknown>).forEach(([key, value]) => {
+      if (typeof value === "number") (nutrition as Record<string, number>)[key] = round(value * factor);
+    });
+
+    return { servings, nutrition };
+  }
+
+  // Flag each nutrient with a target that the totals miss by more than its tolerance
+  static checkTargets(
+    totals: NutritionTotals,
+    targets: NutritionTargets | null,
+    tolerance: NutritionTotals = OFF_TARGET_TOLERANCE
+  ): NutritionWarning[] {
+    if (!targets) return [];
+
+    return NUTRIENTS.flatMap(nutrient => {
+      const target = targets[nutrient];
+      if (!target) return [];
+
+      const difference = (totals[nutrient] - target) / target;
+      if (Math.abs(difference) <= tolerance[nutrient]) return [];
+
+      return [{
+        nutrient,
+        actual: totals[nutrient],
+        target,
+        difference_pct: Math.round(difference * 100),
+      }];
+    });
+  }
+}
@@ -0,0 +1,141 @@
+import { db } from "../../db";
+import { pantryItems, pantryUsageLog, QuantityStatusEnum, type PantryItem } from "@db/schema";
+import { z } from "zod";
+import { and, eq, inArray } from "drizzle-orm";
+import { convertQuantity, roundQuantity, scaleIngredients } from "@db/units";
+import { HouseholdService } from "./household";
+import { PantryReconciliationService } from "./pantryReconciliation";
+import { RecipeLibraryService } from "./recipeLibrary";
+
+type QuantityStatus = z.infer<typeof QuantityStatusEnum>;
+
+export interface CookDeduction {
+  ingredient_name: string;
+  amount: number | null;
+  unit: string | null;
+  pantry_item: Pick<PantryItem, "id" | "name" | "quantity" | "unit" | "is_staple"> | null;
+  quantity_used: number | null; // in the pantry item's unit
+  selected: boolean;
+}
+
+export interface AppliedDeduction {
+  pantryItemId: number;
+  quantityUsed: number;
+}
+
+// Work out a pantry item's status from how much of it is left
+export function quantityStatusAfterUse(previousQuantity: number, newQuantity: number): QuantityStatus {
+  if (newQuantity <= 0 || previousQuantity <= 0) return "empty";
+
+  const percentageRemaining = (newQuantity / previousQuantity) * 100;
+  if (percentageRemaining <= 25) return "running_low";
+  if (percentageRemaining <= 50) return "half";
+  return "full";
+}
+
+export class PantryDeductionService {
+  // Match a recipe's ingredients to pantry items and propose how much to take from each.
+  // Staples and amounts we can't convert are listed but left unselected for the user to decide.
+  static async proposeForRecipe(
+    userId: number,
+    recipe: { ingredients: unknown; servings: number | null },
+    servings?: number | null
+  ): Promise<CookDeduction[]> {
+    const ingredients = (Array.isArray(recipe.ingredients) ? recipe.ingredients : [])
+      .filter((ingredient): ingredient is { name: string; amount: number | null; unit: string | null } =>
+        typeof ingredient?.name === "string" && ingredient.name.trim().length > 0
+      );
+    const scaled = scaleIngredients(ingredients, recipe.servings, servings ?? recipe.servings);
+    const { match } = await PantryReconciliationService.loadPantryIndex(userId);
+
+    return scaled.map(ingredient => {
+      const stocked = match(ingredient.name).filter(item => item.quantity_status !== "empty");
+      const base = {
+        ingredient_name: ingredient.name,
+        amount: ingredient.amount,
+        unit: ingredient.unit,
+      };
+
+      // Prefer an item whose unit we can convert the recipe amount into
+      for (const item of stocked) {
+        if (item.quantity === null || ingredient.amount === null) continue;
+        const converted = convertQuantity(ingredient.amount, ingredient.unit, item.unit, ingredient.name);
+        if (converted === null) continue;
+
+        return {
+          ...base,
+          pantry_item: this.summarize(item),
+          quantity_used: roundQuantity(Math.min(converted, item.quantity)),
+          selected: !item.is_staple,
+        };
+      }
+
+      const fallback = stocked[0];
+      return {
+        ...base,
+        pantry_item: fallback ? this.summarize(fallback) : null,
+        quantity_used: null,
+        selected: false,
+      };
+    });
+  }
+
+  // Apply every confirmed deduction in one transaction, logging each against the recipe
+  static async applyForRecipe(
+    userId: number,
+    recipe: { id: number; name: string },
+    deductions: AppliedDeduction[]
+  ): Promise<PantryItem[]> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const itemIds = deductions.map(deduction => deduction.pantryItemId);
+
+    return db.transaction(async (tx) => {
+      const items = await tx.select().from(pantryItems)
+        .where(and(inArray(pantryItems.id, itemIds), inArray(pantryItems.user_id, memberIds)));
+      const itemsById = new Map(items.map(item => [item.id, item]));
+
+      const updated: PantryItem[] = [];
+      for (const deduction of deductions) {
+        const item = itemsById.get(deduction.pantryItemId);
+        if (!item) {
+          throw new Error(`Pantry item ${deduction.pantryItemId} not found`);
+        }
+
+        const previousQuantity = item.quantity ?? 0;
+        const newQuantity = roundQuantity(Math.max(0, previousQuantity - deduction.quantityUsed));
+
+        const [result] = await tx.update(pantryItems)
+          .set({
+            quantity: newQuantity,
+            quantity_status: quantityStatusAfterUse(previousQuantity, newQuantity),
+            last_used_date: new Date(),
+            updated_at: new Date(),
+          })
+          .where(eq(pantryItems.id, item.id))
+          .returning();
+
+        await tx.insert(pantryUsageLog).values({
+          user_id: userId,
+          pantry_item_id: item.id,
+          item_name: item.name,
+          category: item.category,
+          action: "used",
+          quantity_used: deduction.quantityUsed,
+          // The log references temporary recipes; a cookbook recipe is recorded by name alone
+          recipe_id: RecipeLibraryService.isLibraryId(recipe.id) ? null : recipe.id,
+          notes: `Cooked ${recipe.name}: used ${deduction.quantityUsed} ${item.unit || "units"} of ${item.name}`,
+        });
+
+        // Keep the running quantity current if the same item is deducted twice
+        itemsById.set(item.id, result);
+        updated.push(result);
+      }
+
+      return updated;
+    });
+  }
+
+  private static summarize(item: PantryItem): CookDeduction["pantry_item"] {
+    return { id: item.id, name: item.name, quantity: item.quantity, unit: item.unit, is_staple: item.is_staple };
+  }
+}
@@ -0,0 +1,146 @@
+import { db } from "../../db";
+import { pantryItems, ingredientDefaults, PantryLocationEnum, type PantryItem, type PantryLocation } from "@db/schema";
+import { inArray } from "drizzle-orm";
+import { ingredientKey } from "@db/units";
+import { HouseholdService } from "./household";
+
+export type StorageLocation = PantryLocation;
+export type ExpirySource = 'best_before' | 'estimated';
+
+export interface PantryItemExpiry {
+  expires_at: Date | null;
+  days_remaining: number | null;
+  expiry_source: ExpirySource | null;
+  storage_location: StorageLocation;
+}
+
+export type PantryItemWithExpiry = PantryItem & PantryItemExpiry;
+
+interface ShelfLifeDefault {
+  category: string;
+  typical_shelf_life_days: number | null;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Where an item of each pantry category is normally kept
+const CATEGORY_STORAGE: Record<string, StorageLocation> = {
+  produce: 'fridge',
+  dairy: 'fridge',
+  meat: 'fridge',
+  frozen: 'freezer',
+  pantry: 'pantry',
+  condiments: 'pantry',
+  spices: 'pantry',
+  beverages: 'pantry',
+  other: 'pantry',
+};
+
+// How much longer (or shorter) an item keeps when stored somewhere other than its usual place.
+// Typical shelf lives are quoted for the usual place, e.g. 3 days for chicken in the fridge.
+const STORAGE_SHELF_LIFE_FACTORS: Record<StorageLocation, Record<StorageLocation, number>> = {
+  pantry: { pantry: 1, fridge: 2, freezer: 6 },
+  fridge: { pantry: 0.5, fridge: 1, freezer: 10 },
+  freezer: { pantry: 0.05, fridge: 0.1, freezer: 1 },
+};
+
+export function storageForCategory(category: string | null | undefined): StorageLocation {
+  return CATEGORY_STORAGE[category ?? 'other'] ?? 'pantry';
+}
+
+// Items without a recorded location are assumed to be where their category usually lives
+export function storageForItem(item: Pick<PantryItem, 'location' | 'category'>): StorageLocation {
+  const location = PantryLocationEnum.safeParse(item.location);
+  return location.success ? location.data : storageForCategory(item.category);
+}
+
+export class PantryExpirationService {
+  // Index ingredient defaults by every name and alias so pantry items can find their shelf life
+  static async loadDefaultsIndex(): Promise<Map<string, ShelfLifeDefault>> {
+    const defaults = await db
+      .select({
+        name: ingredientDefaults.name,
+        aliases: ingredientDefaults.aliases,
+        category: ingredientDefaults.category,
+        typical_shelf_life_days: ingredientDefaults.typical_shelf_life_days,
+      })
+      .from(ingredientDefaults);
+
+    const index = new Map<string, ShelfLifeDefault>();
+    for (const entry of defaults) {
+      const value = { category: entry.category, typical_shelf_life_days: entry.typical_shelf_life_days };
+      index.set(ingredientKey(entry.name), value);
+      (entry.aliases ?? []).forEach(alias => {
+        const key = ingredientKey(alias);
+        if (!index.has(key)) index.set(key, value);
+      });
+    }
+    return index;
+  }
+
+  // A best-before date entered by the user wins; otherwise estimate from shelf life and storage
+  static computeExpiry(item: PantryItem, defaults: Map<string, ShelfLifeDefault>, now: Date = new Date()): PantryItemExpiry {
+    const fallback = defaults.get(ingredientKey(item.name));
+    const storage = storageForItem(item);
+
+    let expiresAt: Date | null = null;
+    let source: ExpirySource | null = null;
+
+    if (item.best_before_date) {
+      expiresAt = new Date(item.best_before_date);
+      source = 'best_before';
+    } else {
+      const shelfLifeDays = item.estimated_shelf_life_days ?? fallback?.typical_shelf_life_days ?? null;
+      if (shelfLifeDays && shelfLifeDays > 0) {
+        const usualStorage = storageForCategory(fallback?.category ?? item.category);
+        const adjustedDays = Math.max(1, Math.round(shelfLifeDays * STORAGE_SHELF_LIFE_FACTORS[usualStorage][storage]));
+        expiresAt = new Date(new Date(item.added_date).getTime() + adjustedDays * DAY_MS);
+        source = 'estimated';
+      }
+    }
+
+    return {
+      expires_at: expiresAt,
+      days_remaining: expiresAt ? Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS) : null,
+      expiry_source: source,
+      storage_location: storage,
+    };
+  }
+
+  // Fields to update when an item moves to another location. Estimated expiry follows the new
+  // location automatically; a fixed best-before date is stretched or shortened by the same factor.
+  static relocate(item: PantryItem, to: StorageLocation, now: Date = new Date()): { location: StorageLocation; best_before_date: Date | null } {
+    const from = storageForItem(item);
+    if (!item.best_before_date || from === to) {
+      return { location: to, best_before_date: item.best_before_date };
+    }
+
+    const remainingMs = Math.max(0, new Date(item.best_before_date).getTime() - now.getTime());
+    const adjustedMs = Math.max(DAY_MS, remainingMs * STORAGE_SHELF_LIFE_FACTORS[from][to]);
+    return { location: to, best_before_date: new Date(now.getTime() + adjustedMs) };
+  }
+
+  static async annotate(items: PantryItem[]): Promise<PantryItemWithExpiry[]> {
+    if (items.length === 0) return [];
+    const defaults = await this.loadDefaultsIndex();
+    const now = new Date();
+    return items.map(item => ({ ...item, ...this.computeExpiry(item, defaults, now) }));
+  }
+
+  // Household items that expire within the window, soonest (or already expired) first
+  static async getUseSoonQueue(userId: number, withinDays: number = 7): Promise<PantryItemWithExpiry[]> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const items = await db.select().from(pantryItems).where(inArray(pantryItems.user_id, memberIds));
+    return this.selectUseSoon(await this.annotate(items), withinDays);
+  }
+
+  static selectUseSoon(annotated: PantryItemWithExpiry[], withinDays: number = 7): PantryItemWithExpiry[] {
+    return annotated
+      .filter(item => item.quantity_status !== 'empty' && item.days_remaining !== null && item.days_remaining <= withinDays)
+      .sort((a, b) => {
+        if (a.days_remaining !== b.days_remaining) return a.days_remaining! - b.days_remaining!;
+        // Within the same day, finish what's nearly gone first
+        return Number(b.quantity_status === 'running_low') - Number(a.quantity_status === 'running_low');
+      });
+  }
+}
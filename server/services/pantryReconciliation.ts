@@ -0,0 +1,119 @@
+import { db } from "../../db";
+import { pantryItems, ingredientDefaults, type PantryItem } from "@db/schema";
+import { inArray } from "drizzle-orm";
+import { HouseholdService } from "./household";
+import { convertQuantity, ingredientKey } from "@db/units";
+
+export type PantryCoverage = 'have' | 'partial' | 'buy';
+
+export interface ReconciledLine {
+  name: string;
+  need_amount: number | null;
+  unit: string | null;
+  have_amount: number | null;
+  buy_amount: number | null;
+  status: PantryCoverage;
+  pantry_item_ids: number[];
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class PantryReconciliationService {
+  // Build a lookup from every known alias to its canonical ingredient key
+  static async loadAliasMap(): Promise<Map<string, string>> {
+    const defaults = await db
+      .select({ name: ingredientDefaults.name, aliases: ingredientDefaults.aliases })
+      .from(ingredientDefaults);
+
+    const aliasMap = new Map<string, string>();
+    for (const entry of defaults) {
+      const canonical = ingredientKey(entry.name);
+      aliasMap.set(canonical, canonical);
+      (entry.aliases ?? []).forEach(alias => aliasMap.set(ingredientKey(alias), canonical));
+    }
+    return aliasMap;
+  }
+
+  // Load the household pantry grouped by canonical ingredient key, with a matcher for recipe lines
+  static async loadPantryIndex(userId: number): Promise<{ pantry: PantryItem[]; match: (name: string) => PantryItem[] }> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const [pantry, aliasMap] = await Promise.all([
+      db.select().from(pantryItems).where(inArray(pantryItems.user_id, memberIds)),
+      this.loadAliasMap(),
+    ]);
+
+    const canonicalKey = (name: string) => {
+      const key = ingredientKey(name);
+      return aliasMap.get(key) ?? key;
+    };
+
+    const pantryByKey = new Map<string, PantryItem[]>();
+    for (const item of pantry) {
+      const key = canonicalKey(item.name);
+      pantryByKey.set(key, [...(pantryByKey.get(key) ?? []), item]);
+    }
+
+    return { pantry, match: (name: string) => pantryByKey.get(canonicalKey(name)) ?? [] };
+  }
+
+  // Compare grocery lines against the household pantry and work out what still has to be bought
+  static async reconcile(userId: number, lines: Array<{ name: string; amount: number | null; unit: string | null }>): Promise<ReconciledLine[]> {
+    const { pantry, match } = await this.loadPantryIndex(userId);
+
+    // Track what's left of each pantry item so repeated lines don't count the same stock twice
+    const remaining = new Map(pantry.map(item => [item.id, item.quantity ?? 0]));
+
+    return lines.map(line => this.reconcileLine(line, match(line.name), remaining));
+  }
+
+  private static reconcileLine(
+    line: { name: string; amount: number | null; unit: string | null },
+    matches: PantryItem[],
+    remaining: Map<number, number>
+  ): ReconciledLine {
+    const stocked = matches.filter(item => item.quantity_status !== 'empty');
+    const base = {
+      name: line.name,
+      need_amount: line.amount,
+      unit: line.unit,
+      pantry_item_ids: stocked.map(item => item.id),
+    };
+
+    if (stocked.length === 0) {
+      return { ...base, have_amount: 0, buy_amount: line.amount, status: 'buy' };
+    }
+
+    // Staples and items tracked by status only (no quantity) are assumed to cover the recipe
+    if (stocked.some(item => item.is_staple || item.quantity === null) || line.amount === null) {
+      return { ...base, have_amount: line.amount, buy_amount: 0, status: 'have' };
+    }
+
+    let haveAmount = 0;
+    let stillNeeded = line.amount;
+    let comparable = false;
+    for (const item of stocked) {
+      const available = remaining.get(item.id) ?? 0;
+      const availableInLineUnit = convertQuantity(available, item.unit, line.unit, line.name);
+      if (availableInLineUnit === null) continue;
+
+      comparable = true;
+      const used = Math.min(availableInLineUnit, stillNeeded);
+      haveAmount += availableInLineUnit;
+      stillNeeded -= used;
+      remaining.set(item.id, available - (convertQuantity(used, line.unit, item.unit, line.name) ?? 0));
+    }
+
+    // Units we can't compare (e.g. "1 bunch" vs "200 g"): flag as partially covered but still buy
+    if (!comparable) {
+      return { ...base, have_amount: null, buy_amount: line.amount, status: 'partial' };
+    }
+
+    const buyAmount = Math.max(0, stillNeeded);
+    return {
+      ...base,
+      have_amount: roundAmount(haveAmount),
+      buy_amount: roundAmount(buyAmount),
+      status: buyAmount === 0 ? 'have' : haveAmount > 0 ? 'partial' : 'buy',
+    };
+  }
+}
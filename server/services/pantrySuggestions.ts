@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { db } from "../../db";
+import { temporaryRecipes, insertTemporaryRecipeSchema, type TemporaryRecipe } from "@db/schema";
+import { ingredientKey } from "@db/units";
+import { detectAllergens } from "@db/allergens";
+import { generatePantryRecipes } from "../utils/ai";
+import { PantryReconciliationService } from "./pantryReconciliation";
+import { PantryExpirationService, type PantryItemWithExpiry } from "./pantryExpiration";
+import { AllergenGuardService } from "./allergenGuard";
+import { RecipeLibraryService, type AnyRecipe } from "./recipeLibrary";
+
+export interface PantryIngredientUse {
+  ingredient_name: string;
+  pantry_item_id: number;
+  pantry_item_name: string;
+  days_remaining: number | null;
+  expiring: boolean;
+}
+
+export interface MissingIngredient {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+}
+
+export type PantrySuggestion = AnyRecipe & {
+  match_score: number; // percentage of the recipe's ingredients already in the pantry
+  pantry_items_used: PantryIngredientUse[];
+  missing_ingredients: MissingIngredient[];
+};
+
+export interface PantrySuggestionOptions {
+  prioritize?: string;
+  mealType?: string;
+  limit: number;
+  dietary: string[];
+  allergies: string[];
+}
+
+export interface PantrySuggestionsResult {
+  recipes: PantrySuggestion[];
+  usableIngredients: string[];
+  missingIngredients: string[];
+  priorityItems: PantryItemWithExpiry[];
+}
+
+// Everyone is assumed to have these, so they neither count towards nor against a match
+const ASSUMED_ON_HAND = new Set(["salt", "pepper", "black pepper", "water", "salt and pepper"]);
+
+// Generated amounts and units are often missing or sent as strings; anything without a name is dropped
+const IngredientSchema = z.object({
+  name: z.string().trim().min(1),
+  amount: z.coerce.number().catch(0),
+  unit: z.string().nullish().catch(null),
+});
+
+const parseIngredients = (ingredients: unknown) =>
+  (Array.isArray(ingredients) ? ingredients : []).flatMap(ingredient => {
+    const parsed = IngredientSchema.safeParse(ingredient);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+const EXPIRING_WITHIN_DAYS = 7;
+const SUGGESTION_TTL_DAYS = 2;
+
+export class PantrySuggestionService {
+  // Rank the recipes in the user's cookbook against the household pantry. Nothing is generated or
+  // saved, so this is safe to call as often as the pantry page loads.
+  static async fromLibrary(userId: number, options: PantrySuggestionOptions): Promise<PantrySuggestionsResult> {
+    const pantry = await this.loadPantry(userId, options.prioritize);
+    if (!pantry) {
+      return { recipes: [], usableIngredients: [], missingIngredients: [], priorityItems: [] };
+    }
+
+    const mealType = options.mealType?.toLowerCase();
+    const candidates = (await RecipeLibraryService.list(userId)).filter(recipe =>
+      (!mealType || recipe.meal_type?.toLowerCase() === mealType) &&
+      AllergenGuardService.findViolations(recipe.ingredients, options.allergies).length === 0
+    );
+
+    const recipes = this.rank(candidates, pantry.match)
+      .filter(recipe => recipe.match_score > 0)
+      .slice(0, options.limit);
+
+    return this.toResult(recipes, pantry);
+  }
+
+  // Generate recipes from the household pantry, save them as temporary recipes and rank them
+  static async generate(userId: number, options: PantrySuggestionOptions): Promise<PantrySuggestionsResult> {
+    const pantry = await this.loadPantry(userId, options.prioritize);
+    if (!pantry) {
+      return { recipes: [], usableIngredients: [], missingIngredients: [], priorityItems: [] };
+    }
+
+    const generated = await generatePantryRecipes({
+      ingredients: pantry.usableIngredients,
+      priorityIngredients: pantry.priorityItems.map(item => item.name),
+      mealType: options.mealType,
+      count: options.limit,
+      dietary: options.dietary,
+      allergies: options.allergies,
+    });
+    const safe = await AllergenGuardService.filter(
+      { userId, allergies: options.allergies, source: "pantry_suggestions" },
+      generated
+    );
+
+    const saved = await this.saveRecipes(userId, safe);
+    return this.toResult(this.rank(saved, pantry.match), pantry);
+  }
+
+  // The stocked pantry items, annotated with how long they keep, and the ones to use up first.
+  // Null when nothing is stocked.
+  private static async loadPantry(userId: number, prioritize: string | undefined) {
+    const { pantry, match } = await PantryReconciliationService.loadPantryIndex(userId);
+    const stocked = await PantryExpirationService.annotate(pantry.filter(item => item.quantity_status !== "empty"));
+    if (stocked.length === 0) return null;
+
+    const priorityItems = prioritize === "expiring"
+      ? PantryExpirationService.selectUseSoon(stocked, EXPIRING_WITHIN_DAYS)
+      : stocked.filter(item => item.quantity_status === "running_low");
+    const stockedById = new Map(stocked.map(item => [item.id, item]));
+
+    return {
+      usableIngredients: Array.from(new Set(stocked.map(item => item.name))),
+      priorityItems,
+      match: (name: string) => match(name).flatMap(item => stockedById.get(item.id) ?? []),
+    };
+  }
+
+  // Recipes that use up more near-expiry items first, then by how much of the recipe is on hand
+  private static rank(recipes: AnyRecipe[], match: (name: string) => PantryItemWithExpiry[]): PantrySuggestion[] {
+    return recipes
+      .map(recipe => ({ ...recipe, ...this.scoreRecipe(recipe, match) }))
+      .sort((a, b) => {
+        const expiringDiff = this.countExpiring(b) - this.countExpiring(a);
+        return expiringDiff !== 0 ? expiringDiff : b.match_score - a.match_score;
+      });
+  }
+
+  private static toResult(
+    recipes: PantrySuggestion[],
+    pantry: { usableIngredients: string[]; priorityItems: PantryItemWithExpiry[] }
+  ): PantrySuggestionsResult {
+    const missingIngredients = Array.from(new Set(recipes.flatMap(recipe => recipe.missing_ingredients.map(item => item.name))));
+    return { recipes, usableIngredients: pantry.usableIngredients, missingIngredients, priorityItems: pantry.priorityItems };
+  }
+
+  // Work out which pantry items a recipe uses (the soonest-expiring one when several match) and what's missing
+  static scoreRecipe(
+    recipe: Pick<AnyRecipe, "ingredients">,
+    match: (name: string) => PantryItemWithExpiry[]
+  ): Pick<PantrySuggestion, "match_score" | "pantry_items_used" | "missing_ingredients"> {
+    const counted = parseIngredients(recipe.ingredients).filter(ingredient => !ASSUMED_ON_HAND.has(ingredientKey(ingredient.name)));
+
+    const pantryItemsUsed: PantryIngredientUse[] = [];
+    const missingIngredients: MissingIngredient[] = [];
+
+    for (const ingredient of counted) {
+      const [item] = match(ingredient.name).sort((a, b) =>
+        (a.days_remaining ?? Infinity) - (b.days_remaining ?? Infinity)
+      );
+
+      if (!item) {
+        missingIngredients.push({ name: ingredient.name, amount: ingredient.amount || null, unit: ingredient.unit || null });
+        continue;
+      }
+
+      pantryItemsUsed.push({
+        ingredient_name: ingredient.name,
+        pantry_item_id: item.id,
+        pantry_item_name: item.name,
+        days_remaining: item.days_remaining,
+        expiring: item.days_remaining !== null && item.days_remaining <= EXPIRING_WITHIN_DAYS,
+      });
+    }
+
+    return {
+      match_score: counted.length > 0 ? Math.round((pantryItemsUsed.length / counted.length) * 100) : 0,
+      pantry_items_used: pantryItemsUsed.sort((a, b) => Number(b.expiring) - Number(a.expiring)),
+      missing_ingredients: missingIngredients,
+    };
+  }
+
+  private static countExpiring(suggestion: Pick<PantrySuggestion, "pantry_items_used">): number {
+    return suggestion.pantry_items_used.filter(use => use.expiring).length;
+  }
+
+  private static async saveRecipes(userId: number, generated: Partial<TemporaryRecipe>[]): Promise<AnyRecipe[]> {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + SUGGESTION_TTL_DAYS);
+
+    const rows = generated.flatMap(recipe => {
+      const parsed = insertTemporaryRecipeSchema.safeParse({
+        user_id: userId,
+        name: String(recipe.name || ""),
+        description: recipe.description?.toString() || null,
+        image_url: null,
+        permanent_url: null,
+        prep_time: Math.max(0, Number(recipe.prep_time) || 0),
+        cook_time: Math.max(0, Number(recipe.cook_time) || 0),
+        servings: Math.max(1, Number(recipe.servings) || 2),
+        ingredients: parseIngredients(recipe.ingredients).map(ingredient => ({ ...ingredient, unit: ingredient.unit ?? "" })),
+        instructions: Array.isArray(recipe.instructions) ? recipe.instructions : [],
+        meal_type: recipe.meal_type ?? null,
+        cuisine_type: recipe.cuisine_type ?? "Other",
+        dietary_restrictions: recipe.dietary_restrictions ?? [],
+        difficulty: recipe.difficulty ?? "Moderate",
+        tags: Array.isArray(recipe.tags) ? recipe.tags : [],
+        nutrition: recipe.nutrition ?? { calories: 0, protein: 0, carbs: 0, fat: 0 },
+        complexity: Math.min(3, Math.max(1, Number(recipe.complexity) || 1)),
+        created_at: new Date(),
+        expires_at: expiresAt,
+        favorited: false,
+        favorites_count: 0,
+      });
+
+      if (!parsed.success) {
+        console.error("Skipping invalid pantry suggestion:", recipe.name, parsed.error.errors);
+        return [];
+      }
+      return [{ ...parsed.data, allergens: detectAllergens(parsed.data.ingredients) }];
+    });
+
+    if (rows.length === 0) return [];
+    return db.insert(temporaryRecipes).values(rows).returning();
+  }
+}
@@ -0,0 +1,292 @@
+import { db } from "../../db";
+import { pantryItems, pantryUsageLog, type PantryItem, type PantryUsageLog, type DiscardReason } from "@db/schema";
+import { and, desc, eq, gte, inArray } from "drizzle-orm";
+import { ingredientKey, roundQuantity } from "@db/units";
+import { HouseholdService } from "./household";
+import { quantityStatusAfterUse } from "./pantryDeduction";
+import { PriceService } from "./pricing";
+
+export type AnalyticsPeriod = "week" | "month" | "quarter" | "year";
+
+// Rough value of a typical item per category, used when nothing the household paid is on record
+const ESTIMATED_COST_BY_CATEGORY: Record<string, number> = {
+  produce: 3.0,
+  dairy: 4.0,
+  meat: 8.0,
+  pantry: 3.0,
+  frozen: 5.0,
+  condiments: 4.0,
+  spices: 5.0,
+  beverages: 4.0,
+  other: 3.5,
+};
+
+const TREND_MONTHS = 6;
+
+export interface WasteBreakdown {
+  name: string;
+  count: number;
+  cost: number;
+}
+
+export interface MonthlyWaste {
+  month: string; // YYYY-MM
+  used: number;
+  discarded: number;
+  wasteRate: number;
+  moneySaved: number;
+  moneyLost: number;
+  costEstimated: boolean;
+}
+
+export interface WasteAnalytics {
+  period: AnalyticsPeriod;
+  startDate: Date;
+  endDate: Date;
+  summary: {
+    totalItemsAdded: number;
+    totalItemsUsed: number;
+    totalItemsDiscarded: number;
+    wasteRate: number; // % of finished items that were thrown out rather than used
+    wasteReductionRate: number;
+    moneySaved: number;
+    moneyLost: number;
+    costEstimated: boolean; // some items had no price on record and were valued by category
+  };
+  waste: {
+    byCategory: WasteBreakdown[];
+    byReason: Record<DiscardReason, number>;
+    mostWastedItems: WasteBreakdown[];
+    mostWastedCategory: string | null;
+  };
+  trends: {
+    monthly: MonthlyWaste[];
+  };
+}
+
+export function estimateItemCost(category: string | null | undefined): number {
+  return ESTIMATED_COST_BY_CATEGORY[category ?? "other"] ?? ESTIMATED_COST_BY_CATEGORY.other;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+const percentage = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+// What a logged item was worth, and whether that's only a category guess
+type ItemValue = (log: PantryUsageLog) => { cost: number; estimated: boolean };
+
+const sumValues = (logs: PantryUsageLog[], valueOf: ItemValue) =>
+  logs.reduce((total, log) => {
+    const value = valueOf(log);
+    return { cost: total.cost + value.cost, estimated: total.estimated || value.estimated };
+  }, { cost: 0, estimated: false });
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+export class PantryWasteService {
+  // Throw out some or all of an item, recording why and what it was worth
+  static async discard(
+    userId: number,
+    item: PantryItem,
+    discard: { reason: DiscardReason; quantity?: number; cost?: number | null; notes?: string }
+  ): Promise<PantryItem> {
+    const previousQuantity = item.quantity ?? 0;
+    const discardedQuantity = item.quantity === null
+      ? null
+      : Math.min(previousQuantity, discard.quantity ?? previousQuantity);
+    const newQuantity = discardedQuantity === null ? null : roundQuantity(previousQuantity - discardedQuantity);
+
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(pantryItems)
+        .set({
+          quantity: newQuantity,
+          quantity_status: newQuantity === null ? "empty" : quantityStatusAfterUse(previousQuantity, newQuantity),
+          updated_at: new Date(),
+        })
+        .where(eq(pantryItems.id, item.id))
+        .returning();
+
+      await tx.insert(pantryUsageLog).values({
+        user_id: userId,
+        pantry_item_id: item.id,
+        item_name: item.name,
+        category: item.category,
+        action: "discarded",
+        quantity_used: discardedQuantity,
+        reason: discard.reason,
+        cost: discard.cost ?? null,
+        notes: discard.notes || `Discarded ${item.name} (${discard.reason.replace("_", " ")})`,
+      });
+
+      return updated;
+    });
+  }
+
+  // Start of the current week / month / quarter / year
+  static periodStart(period: AnalyticsPeriod, now: Date = new Date()): Date {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    switch (period) {
+      case "week":
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+        return start;
+      case "quarter":
+        return new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+      case "year":
+        return new Date(now.getFullYear(), 0, 1);
+      default:
+        return new Date(now.getFullYear(), now.getMonth(), 1);
+    }
+  }
+
+  // Used versus discarded across the household, with money saved against money lost.
+  // An item counts as used once however many times it was dipped into.
+  static async getAnalytics(userId: number, period: AnalyticsPeriod = "month", now: Date = new Date()): Promise<WasteAnalytics> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const startDate = this.periodStart(period, now);
+    const trendStart = new Date(now.getFullYear(), now.getMonth() - (TREND_MONTHS - 1), 1);
+
+    const logs = await db.select().from(pantryUsageLog)
+      .where(and(
+        inArray(pantryUsageLog.user_id, memberIds),
+        inArray(pantryUsageLog.action, ["added", "used", "discarded"]),
+        gte(pantryUsageLog.created_at, startDate < trendStart ? startDate : trendStart)
+      ));
+
+    const inPeriod = logs.filter(log => log.created_at >= startDate);
+    const used = this.distinctUsed(inPeriod);
+    const discarded = inPeriod.filter(log => log.action === "discarded");
+
+    const valueOf = await this.itemValues(userId, logs);
+    const moneySaved = sumValues(used, valueOf);
+    const moneyLost = sumValues(discarded, valueOf);
+    const wasteRate = percentage(discarded.length, used.length + discarded.length);
+
+    const byCategory = this.breakdown(discarded, valueOf, log => log.category || "other", log => log.category || "other");
+    const byReason = { spoiled: 0, expired: 0, didnt_like: 0, other: 0 } as Record<DiscardReason, number>;
+    discarded.forEach(log => { byReason[log.reason ?? "other"] += 1; });
+
+    return {
+      period,
+      startDate,
+      endDate: now,
+      summary: {
+        totalItemsAdded: inPeriod.filter(log => log.action === "added").length,
+        totalItemsUsed: used.length,
+        totalItemsDiscarded: discarded.length,
+        wasteRate,
+        wasteReductionRate: used.length + discarded.length > 0 ? roundMoney(100 - wasteRate) : 0,
+        moneySaved: roundMoney(moneySaved.cost),
+        moneyLost: roundMoney(moneyLost.cost),
+        costEstimated: moneySaved.estimated || moneyLost.estimated,
+      },
+      waste: {
+        byCategory,
+        byReason,
+        mostWastedItems: this.breakdown(discarded, valueOf, log => ingredientKey(log.item_name ?? ""), log => log.item_name ?? "Unknown item").slice(0, 5),
+        mostWastedCategory: byCategory[0]?.name ?? null,
+      },
+      trends: {
+        monthly: this.monthlyTrend(logs, valueOf, now),
+      },
+    };
+  }
+
+  // Most recent discards, newest first, with all-time totals
+  static async getWasteHistory(userId: number, limit: number = 20): Promise<{
+    wastedItems: Array<Pick<PantryUsageLog, "id" | "pantry_item_id" | "item_name" | "category" | "quantity_used" | "reason" | "notes" | "created_at"> & { cost: number; cost_estimated: boolean }>;
+    totalWasteValue: number;
+    totalItemsWasted: number;
+  }> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const discards = await db.select().from(pantryUsageLog)
+      .where(and(inArray(pantryUsageLog.user_id, memberIds), eq(pantryUsageLog.action, "discarded")))
+      .orderBy(desc(pantryUsageLog.created_at));
+    const valueOf = await this.itemValues(userId, discards);
+
+    return {
+      wastedItems: discards.slice(0, limit).map(log => ({
+        id: log.id,
+        pantry_item_id: log.pantry_item_id,
+        item_name: log.item_name,
+        category: log.category,
+        quantity_used: log.quantity_used,
+        reason: log.reason,
+        notes: log.notes,
+        created_at: log.created_at,
+        cost: roundMoney(valueOf(log).cost),
+        cost_estimated: valueOf(log).estimated,
+      })),
+      totalWasteValue: roundMoney(sumValues(discards, valueOf).cost),
+      totalItemsWasted: discards.length,
+    };
+  }
+
+  // Value items by what the household paid: the cost entered with the log, the price the item was
+  // stocked at, or the last price paid for that ingredient. Only with none of those on record is the
+  // category guess used.
+  private static async itemValues(userId: number, logs: PantryUsageLog[]): Promise<ItemValue> {
+    const itemIds = Array.from(new Set(logs.flatMap(log => log.pantry_item_id !== null ? [log.pantry_item_id] : [])));
+    const items = itemIds.length > 0
+      ? await db.select({ id: pantryItems.id, price: pantryItems.price }).from(pantryItems).where(inArray(pantryItems.id, itemIds))
+      : [];
+    const itemPrices = new Map(items.map(item => [item.id, item.price]));
+    const prices = await PriceService.loadPriceIndex(userId);
+
+    return log => {
+      const paid = log.cost
+        ?? (log.pantry_item_id !== null ? itemPrices.get(log.pantry_item_id) : null)
+        ?? (log.item_name ? prices.lastPaid(log.item_name) : null);
+      return paid !== null && paid !== undefined
+        ? { cost: paid, estimated: false }
+        : { cost: estimateItemCost(log.category), estimated: true };
+    };
+  }
+
+  // One 'used' entry per item (or per name once the item has been deleted)
+  private static distinctUsed(logs: PantryUsageLog[]): PantryUsageLog[] {
+    const seen = new Map<string, PantryUsageLog>();
+    for (const log of logs) {
+      if (log.action !== "used") continue;
+      const key = log.pantry_item_id !== null ? `id:${log.pantry_item_id}` : `name:${ingredientKey(log.item_name ?? "")}`;
+      if (!seen.has(key)) seen.set(key, log);
+    }
+    return Array.from(seen.values());
+  }
+
+  private static breakdown(
+    discards: PantryUsageLog[],
+    valueOf: ItemValue,
+    keyOf: (log: PantryUsageLog) => string,
+    labelOf: (log: PantryUsageLog) => string
+  ): WasteBreakdown[] {
+    const groups = new Map<string, WasteBreakdown>();
+    for (const log of discards) {
+      const key = keyOf(log);
+      const group = groups.get(key) ?? { name: labelOf(log), count: 0, cost: 0 };
+      group.count += 1;
+      group.cost = roundMoney(group.cost + valueOf(log).cost);
+      groups.set(key, group);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count || b.cost - a.cost);
+  }
+
+  private static monthlyTrend(logs: PantryUsageLog[], valueOf: ItemValue, now: Date): MonthlyWaste[] {
+    return Array.from({ length: TREND_MONTHS }, (_, index) => {
+      const monthStart = new Date(now.getFullYear(), now.getMonth() - (TREND_MONTHS - 1 - index), 1);
+      const key = monthKey(monthStart);
+      const inMonth = logs.filter(log => monthKey(log.created_at) === key);
+      const used = this.distinctUsed(inMonth);
+      const discarded = inMonth.filter(log => log.action === "discarded");
+      const saved = sumValues(used, valueOf);
+      const lost = sumValues(discarded, valueOf);
+
+      return {
+        month: key,
+        used: used.length,
+        discarded: discarded.length,
+        wasteRate: percentage(discarded.length, used.length + discarded.length),
+        moneySaved: roundMoney(saved.cost),
+        moneyLost: roundMoney(lost.cost),
+        costEstimated: saved.estimated || lost.estimated,
+      };
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import { db } from "../../db";
+import { ingredientPrices, mealPlans, type IngredientPrice, type PriceSource } from "@db/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { convertQuantity, getUnitDimension, ingredientKey, scaleIngredients } from "@db/units";
+import { HouseholdService } from "./household";
+import { RecipeLibraryService } from "./recipeLibrary";
+
+const MEALS_PER_WEEK = 21;
+
+export interface PriceEntry {
+  name: string;
+  price: number;
+  quantity?: number | null;
+  unit?: string | null;
+  store?: string | null;
+  pantry_item_id?: number | null;
+  purchased_at?: Date;
+}
+
+export interface RecipeCost {
+  recipe_id: number;
+  name: string;
+  day: Date;
+  meal: string;
+  servings: number | null;
+  cost: number;
+  cost_per_serving: number | null;
+  priced_ingredients: number;
+  total_ingredients: number;
+}
+
+export interface MealPlanCost {
+  meal_plan_id: number;
+  recipes: RecipeCost[];
+  total: number;
+  per_meal: number;
+  per_week: number;
+  coverage: number; // % of planned ingredients we had a price for
+  weekly_budget: number | null;
+  over_budget: boolean;
+}
+
+// The database or an open transaction, so prices can be saved alongside the pantry changes they came with
+type PriceWriter = Pick<typeof db, "insert">;
+
+// Latest known price of each ingredient, able to price an amount in any comparable unit
+export interface PriceIndex {
+  estimate(name: string, amount: number | null, unit: string | null): number | null;
+  lastPaid(name: string): number | null; // the whole of the last purchase
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export class PriceService {
+  // Save what was paid for a batch of items, keyed by canonical ingredient name
+  static async recordPrices(userId: number, entries: PriceEntry[], source: PriceSource, writer: PriceWriter = db): Promise<IngredientPrice[]> {
+    const rows = entries
+      .filter(entry => entry.name.trim() && isFinite(entry.price) && entry.price > 0)
+      .map(entry => ({
+        user_id: userId,
+        pantry_item_id: entry.pantry_item_id ?? null,
+        ingredient_key: ingredientKey(entry.name),
+        name: entry.name.trim(),
+        price: roundMoney(entry.price),
+        quantity: entry.quantity ?? null,
+        unit: entry.unit ?? null,
+        store: entry.store ?? null,
+        source,
+        purchased_at: entry.purchased_at ?? new Date(),
+      }));
+
+    if (rows.length === 0) return [];
+    return writer.insert(ingredientPrices).values(rows).returning() as Promise<IngredientPrice[]>;
+  }
+
+  // Every price the household has paid for an ingredient, oldest first
+  static async getPriceHistory(userId: number, name: string): Promise<IngredientPrice[]> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    return db.select().from(ingredientPrices)
+      .where(and(inArray(ingredientPrices.user_id, memberIds), eq(ingredientPrices.ingredient_key, ingredientKey(name))))
+      .orderBy(asc(ingredientPrices.purchased_at)) as Promise<IngredientPrice[]>;
+  }
+
+  // Most recently paid price per ingredient across the household
+  static async loadPriceIndex(userId: number): Promise<PriceIndex> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const prices = await db.select().from(ingredientPrices)
+      .where(inArray(ingredientPrices.user_id, memberIds))
+      .orderBy(desc(ingredientPrices.purchased_at));
+
+    const latest = new Map<string, typeof prices[number]>();
+    for (const price of prices) {
+      if (!latest.has(price.ingredient_key)) latest.set(price.ingredient_key, price);
+    }
+
+    return {
+      lastPaid(name) {
+        return latest.get(ingredientKey(name))?.price ?? null;
+      },
+      estimate(name, amount, unit) {
+        const price = latest.get(ingredientKey(name));
+        if (!price) return null;
+        // A price with no quantity can't be scaled to any amount, so the ingredient stays unpriced
+        if (!price.quantity) return null;
+        if (amount === null) return null; // "salt to taste" uses too little of a purchase to count
+
+        // A price without a unit was for a count of items
+        const priceUnit = price.unit || "";
+        const recipeUnit = unit || "";
+        const converted = getUnitDimension(priceUnit) === null && getUnitDimension(recipeUnit) === null
+          ? amount
+          : convertQuantity(amount, recipeUnit, priceUnit, name);
+        if (converted === null) return null;
+
+        return (converted / price.quantity) * price.price;
+      },
+    };
+  }
+
+  // Estimated cost of a meal plan from the household's own prices, with recipes scaled to the
+  // servings the plan cooks them for. Ingredients with no price on record are left out.
+  static async getMealPlanCost(mealPlanId: number, userId: number, weeklyBudget: number | null): Promise<MealPlanCost> {
+    const mealPlan = await db.query.mealPlans.findFirst({ where: eq(mealPlans.id, mealPlanId) });
+    const planRecipes = (await RecipeLibraryService.planSlots(mealPlanId)).map(({ slot, recipe }) => ({
+      recipe_id: recipe.id,
+      name: recipe.name,
+      ingredients: recipe.ingredients,
+      recipe_servings: recipe.servings,
+      planned_servings: slot.servings,
+      day: slot.day,
+      meal: slot.meal,
+    }));
+
+    const index = await this.loadPriceIndex(userId);
+    let pricedCount = 0;
+    let ingredientCount = 0;
+
+    const recipes: RecipeCost[] = planRecipes.map(recipe => {
+      const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients as Array<{ name: string; amount: number | null; unit: string | null }> : [];
+      const scaled = scaleIngredients(ingredients, recipe.recipe_servings, recipe.planned_servings);
+      const costs = scaled.map(ingredient => index.estimate(ingredient.name, ingredient.amount, ingredient.unit));
+      const priced = costs.filter((cost): cost is number => cost !== null);
+      const servings = recipe.planned_servings ?? recipe.recipe_servings;
+      const cost = priced.reduce((sum, value) => sum + value, 0);
+
+      pricedCount += priced.length;
+      ingredientCount += scaled.length;
+
+      return {
+        recipe_id: recipe.recipe_id,
+        name: recipe.name,
+        day: recipe.day,
+        meal: recipe.meal,
+        servings,
+        cost: roundMoney(cost),
+        cost_per_serving: servings ? roundMoney(cost / servings) : null,
+        priced_ingredients: priced.length,
+        total_ingredients: scaled.length,
+      };
+    });
+
+    const total = recipes.reduce((sum, recipe) => sum + recipe.cost, 0);
+    const days = Math.max(1, mealPlan?.days_generated ?? 7);
+    const perWeek = (total / days) * 7;
+
+    return {
+      meal_plan_id: mealPlanId,
+      recipes,
+      total: roundMoney(total),
+      per_meal: recipes.length > 0 ? roundMoney(total / recipes.length) : 0,
+      per_week: roundMoney(perWeek),
+      coverage: ingredientCount > 0 ? Math.round((pricedCount / ingredientCount) * 100) : 0,
+      weekly_budget: weeklyBudget,
+      over_budget: weeklyBudget !== null && perWeek > weeklyBudget,
+    };
+  }
+
+  // What one serving can cost for the plan to stay within a weekly budget
+  static budgetPerServing(weeklyBudget: number | null | undefined, householdSize: number): number | null {
+    if (!weeklyBudget || weeklyBudget <= 0) return null;
+    return roundMoney(weeklyBudget / (MEALS_PER_WEEK * Math.max(1, householdSize)));
+  }
+}
@@ -0,0 +1,288 @@
+import { db } from "../../db";
+import {
+  mealPlans,
+  mealPrepPlans,
+  mealPrepComponents,
+  mealPrepAssemblies,
+  temporaryRecipes,
+  PantryCategoryEnum,
+  type PantryCategory,
+} from "@db/schema";
+import { and, asc, eq } from "drizzle-orm";
+import { formatQuantity, ingredientKey } from "@db/units";
+import { PdfDocument } from "../lib/pdf";
+import { GroceryListService } from "./groceryList";
+import { PantryExpirationService } from "./pantryExpiration";
+import { RecipeLibraryService } from "./recipeLibrary";
+
+type MealPlanRow = typeof mealPlans.$inferSelect;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MEALS = ["breakfast", "lunch", "dinner"] as const;
+type Meal = typeof MEALS[number];
+
+// Store sections for names missing from the ingredient defaults, checked in order so
+// "chicken broth" lands in the pantry rather than with the meat
+const SECTION_KEYWORDS: Array<[PantryCategory, string[]]> = [
+  ["frozen", ["frozen"]],
+  ["pantry", ["broth", "stock", "canned", "flour", "sugar", "rice", "pasta", "noodle", "oats", "bean", "lentil", "bread", "tortilla", "oil"]],
+  ["condiments", ["sauce", "ketchup", "mustard", "mayo", "vinegar", "dressing", "salsa", "honey", "syrup"]],
+  ["spices", ["salt", "black pepper", "cumin", "paprika", "oregano", "cinnamon", "chili powder", "seasoning", "thyme", "rosemary"]],
+  ["dairy", ["milk", "cheese", "butter", "yogurt", "cream", "egg"]],
+  ["meat", ["chicken", "beef", "pork", "turkey", "bacon", "sausage", "salmon", "shrimp", "fish", "tuna", "lamb"]],
+  ["beverages", ["juice", "coffee", "tea", "wine", "beer", "soda"]],
+  ["produce", ["onion", "garlic", "tomato", "lettuce", "spinach", "carrot", "potato", "pepper", "lemon", "lime", "apple", "banana", "berries", "herb", "cilantro", "parsley", "basil", "avocado", "broccoli", "mushroom", "zucchini", "celery", "ginger", "cucumber"]],
+];
+
+export interface PrintSheetMeal {
+  recipe_id: number;
+  name: string;
+  servings: number | null;
+}
+
+export interface PrintSheetDay {
+  date: string; // YYYY-MM-DD
+  meals: Record<Meal, PrintSheetMeal[]>;
+}
+
+export interface PrintSheetGroceryItem {
+  name: string;
+  quantity: string; // "1 ½ cup", or empty when the list doesn't say
+  checked: boolean;
+}
+
+export interface PrintSheetGrocerySection {
+  category: PantryCategory;
+  items: PrintSheetGroceryItem[];
+}
+
+export interface MealPlanPrintSheet {
+  title: string;
+  start_date: string;
+  end_date: string;
+  days: PrintSheetDay[];
+  grocery_sections: PrintSheetGrocerySection[];
+}
+
+export interface MealPrepTimelineStep {
+  name: string;
+  component_type: string;
+  start_minute: number; // after starting prep
+  prep_time_minutes: number;
+  storage_instructions: string | null;
+}
+
+export interface MealPrepAssemblyRow {
+  name: string;
+  components: string[];
+  sauce_suggestion: string | null;
+}
+
+export interface MealPrepPrintSheet {
+  title: string;
+  prep_day: string;
+  total_servings: number;
+  total_prep_minutes: number;
+  timeline: MealPrepTimelineStep[];
+  assemblies: MealPrepAssemblyRow[];
+  reheat_tips: string | null;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatDay = (key: string) =>
+  new Date(`${key}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
+
+const formatMinute = (minute: number) => {
+  const hours = Math.floor(minute / 60);
+  return `${hours}:${String(minute % 60).padStart(2, "0")}`;
+};
+
+function storeSection(name: string, defaults: Map<string, { category: string }>): PantryCategory {
+  const known = PantryCategoryEnum.safeParse(defaults.get(ingredientKey(name))?.category);
+  if (known.success) return known.data;
+
+  // Keywords match at the start of a word, so "tea" doesn't claim "steak"
+  const words = name.toLowerCase();
+  const match = SECTION_KEYWORDS.find(([, keywords]) => keywords.some(keyword => new RegExp(`\\b${keyword}`).test(words)));
+  return match ? match[0] : "other";
+}
+
+// The plan's grocery list as shopped, with manual additions and check-offs; a plan that
+// never had its list opened gets the same aggregated lines the list would start with
+async function groceryItems(mealPlanId: number): Promise<Array<{ name: string; amount: number | null; unit: string | null; checked: boolean }>> {
+  const list = await GroceryListService.findForMealPlan(mealPlanId);
+  if (list) {
+    const items = await GroceryListService.getItems(list.id);
+    return items.map(item => ({ name: item.name, amount: item.amount, unit: item.unit, checked: item.is_checked }));
+  }
+  const lines = await GroceryListService.buildLinesFromMealPlan(mealPlanId);
+  return lines.map(line => ({ name: line.name, amount: line.amount, unit: line.unit, checked: false }));
+}
+
+function renderMealPlanPdf(sheet: MealPlanPrintSheet): Buffer {
+  const pdf = new PdfDocument(sheet.title, { landscape: true });
+  pdf.text(sheet.title, { size: 18, bold: true })
+    .text(`${formatDay(sheet.start_date)} to ${formatDay(sheet.end_date)}`, { size: 10, color: "muted" })
+    .space(10);
+
+  const cell = (meals: PrintSheetMeal[]) => meals.map(meal => meal.name).join("\n");
+  pdf.table(
+    [{ header: "", width: 1 }, ...MEALS.map(meal => ({ header: capitalize(meal), width: 2 }))],
+    sheet.days.map(day => [formatDay(day.date), ...MEALS.map(meal => cell(day.meals[meal]))]),
+    { size: 10 },
+  );
+
+  pdf.pageBreak().text("Grocery list", { size: 16, bold: true }).space(4);
+  if (sheet.grocery_sections.length === 0) {
+    pdf.text("Nothing to buy for this plan.", { color: "muted" });
+  }
+  for (const section of sheet.grocery_sections) {
+    pdf.keepTogether(48).space(6).text(capitalize(section.category), { size: 12, bold: true });
+    section.items.forEach(item => {
+      pdf.text([item.quantity, item.name].filter(Boolean).join(" "), {
+        size: 10,
+        checkbox: true,
+        color: item.checked ? "muted" : "text",
+      });
+    });
+  }
+  return pdf.toBuffer();
+}
+
+function renderMealPrepPdf(sheet: MealPrepPrintSheet): Buffer {
+  const pdf = new PdfDocument(sheet.title);
+  pdf.text(sheet.title, { size: 18, bold: true })
+    .text(`Prep day: ${capitalize(sheet.prep_day)} · ${sheet.total_servings} servings · about ${sheet.total_prep_minutes} min`, { size: 10, color: "muted" })
+    .space(10);
+
+  pdf.text("Prep timeline", { size: 14, bold: true }).space(4);
+  pdf.table(
+    [{ header: "Start", width: 1 }, { header: "Component", width: 4 }, { header: "Time", width: 1 }, { header: "Store", width: 4 }],
+    sheet.timeline.map(step => [
+      formatMinute(step.start_minute),
+      `${step.name} (${step.component_type})`,
+      `${step.prep_time_minutes} min`,
+      step.storage_instructions ?? "",
+    ]),
+  );
+
+  if (sheet.assemblies.length > 0) {
+    pdf.space(16).keepTogether(60).text("Assembly", { size: 14, bold: true }).space(4);
+    pdf.table(
+      [{ header: "Meal", width: 3 }, { header: "Components", width: 4 }, { header: "Sauce", width: 3 }],
+      sheet.assemblies.map(row => [row.name, row.components.join("\n"), row.sauce_suggestion ?? ""]),
+    );
+  }
+
+  if (sheet.reheat_tips) {
+    pdf.space(16).keepTogether(40).text("Reheating", { size: 14, bold: true }).text(sheet.reheat_tips, { size: 10 });
+  }
+  return pdf.toBuffer();
+}
+
+// Printable sheets for the fridge: the week's meals in a grid followed by the grocery
+// list by store section, or a meal prep plan's timeline and assembly table
+export class PrintSheetService {
+  // Access to the plan is checked by the caller
+  static async mealPlan(mealPlan: MealPlanRow, userId: number): Promise<MealPlanPrintSheet> {
+    const [slots, items, defaults] = await Promise.all([
+      RecipeLibraryService.planSlots(mealPlan.id, userId),
+      groceryItems(mealPlan.id),
+      PantryExpirationService.loadDefaultsIndex(),
+    ]);
+
+    // A week from the start, stretched if the plan runs longer
+    const start = new Date(mealPlan.start_date);
+    const dayIndex = (day: Date) => Math.round((new Date(day).getTime() - start.getTime()) / DAY_MS);
+    const dayCount = Math.max(7, ...slots.map(({ slot }) => dayIndex(slot.day) + 1));
+    const days: PrintSheetDay[] = Array.from({ length: dayCount }, (_, index) => ({
+      date: dateKey(new Date(start.getTime() + index * DAY_MS)),
+      meals: { breakfast: [], lunch: [], dinner: [] },
+    }));
+    for (const { slot, recipe } of slots) {
+      const day = days[dayIndex(slot.day)];
+      const meal = slot.meal.toLowerCase() as Meal;
+      if (!day || !MEALS.includes(meal)) continue;
+      day.meals[meal].push({ recipe_id: recipe.id, name: recipe.name, servings: slot.servings });
+    }
+
+    const sections = new Map<PantryCategory, PrintSheetGroceryItem[]>();
+    for (const item of items) {
+      const category = storeSection(item.name, defaults);
+      const quantity = [item.amount ? formatQuantity(item.amount) : "", item.unit ?? ""].filter(Boolean).join(" ");
+      sections.set(category, [...(sections.get(category) ?? []), { name: item.name, quantity, checked: item.checked }]);
+    }
+
+    return {
+      title: mealPlan.name,
+      start_date: days[0].date,
+      end_date: days[days.length - 1].date,
+      days,
+      grocery_sections: PantryCategoryEnum.options
+        .filter(category => sections.has(category))
+        .map(category => ({
+          category,
+          items: sections.get(category)!.sort((a, b) => a.name.localeCompare(b.name)),
+        })),
+    };
+  }
+
+  static mealPlanPdf(sheet: MealPlanPrintSheet): Buffer {
+    return renderMealPlanPdf(sheet);
+  }
+
+  // Null unless the user owns the meal prep plan
+  static async mealPrepPlan(userId: number, mealPrepPlanId: number): Promise<MealPrepPrintSheet | null> {
+    const plan = await db.query.mealPrepPlans.findFirst({
+      where: and(eq(mealPrepPlans.id, mealPrepPlanId), eq(mealPrepPlans.user_id, userId)),
+    });
+    if (!plan) return null;
+
+    const [components, assemblies] = await Promise.all([
+      db.select({ component: mealPrepComponents, name: temporaryRecipes.name })
+        .from(mealPrepComponents)
+        .innerJoin(temporaryRecipes, eq(mealPrepComponents.recipe_id, temporaryRecipes.id))
+        .where(eq(mealPrepComponents.meal_prep_plan_id, plan.id))
+        .orderBy(asc(mealPrepComponents.id)),
+      db.select()
+        .from(mealPrepAssemblies)
+        .where(eq(mealPrepAssemblies.meal_prep_plan_id, plan.id))
+        .orderBy(asc(mealPrepAssemblies.id)),
+    ]);
+
+    // Components cook side by side, so each starts late enough to finish with the longest one
+    const longest = Math.max(0, ...components.map(({ component }) => component.prep_time_minutes));
+    const total = Math.max(plan.total_prep_time ?? 0, longest);
+    const timeline = components
+      .map(({ component, name }) => ({
+        name,
+        component_type: component.component_type,
+        start_minute: total - component.prep_time_minutes,
+        prep_time_minutes: component.prep_time_minutes,
+        storage_instructions: component.storage_instructions,
+      }))
+      .sort((a, b) => a.start_minute - b.start_minute);
+
+    const componentNames = new Map(components.map(({ component, name }) => [component.id, name]));
+    return {
+      title: plan.name,
+      prep_day: plan.prep_day,
+      total_servings: plan.total_servings,
+      total_prep_minutes: total,
+      timeline,
+      assemblies: assemblies.map(assembly => ({
+        name: assembly.name,
+        components: assembly.component_ids.flatMap(id => componentNames.get(id) ?? []),
+        sauce_suggestion: assembly.sauce_suggestion,
+      })),
+      reheat_tips: plan.reheat_tips,
+    };
+  }
+
+  static mealPrepPlanPdf(sheet: MealPrepPrintSheet): Buffer {
+    return renderMealPrepPdf(sheet);
+  }
+}
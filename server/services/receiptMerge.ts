@@ -0,0 +1,187 @@
+import { db } from "../../db";
+import { pantryItems, pantryUsageLog, PantryCategoryEnum, type PantryItem } from "@db/schema";
+import { and, inArray, eq } from "drizzle-orm";
+import { convertQuantity, roundQuantity } from "@db/units";
+import { HouseholdService } from "./household";
+import { PantryReconciliationService } from "./pantryReconciliation";
+import { storageForCategory } from "./pantryExpiration";
+import { PriceService, type PriceEntry } from "./pricing";
+
+export type ReceiptMergeAction = "restock" | "new";
+
+export interface ReceiptLine {
+  name: string;
+  category: string | null;
+  quantity: number | null;
+  unit: string | null;
+  estimatedShelfLifeDays: number | null;
+  price: number | null;
+}
+
+type MatchedPantryItem = Pick<PantryItem, "id" | "name" | "quantity" | "unit" | "quantity_status" | "location">;
+
+export interface ReceiptMergeProposal {
+  scanned: ReceiptLine;
+  action: ReceiptMergeAction;
+  pantry_item: MatchedPantryItem | null;
+  candidates: MatchedPantryItem[]; // every pantry item with the same name or alias
+  quantity_after: number | null; // the pantry item's quantity after a restock, in its unit
+}
+
+export interface ConfirmedReceiptLine extends ReceiptLine {
+  action: ReceiptMergeAction;
+  pantryItemId?: number | null;
+}
+
+export interface ReceiptMergeResult {
+  restocked: PantryItem[];
+  added: PantryItem[];
+}
+
+export class ReceiptMergeService {
+  // Match scanned lines to existing pantry items by normalized name and aliases and propose
+  // restocking the match (preferring one whose unit the scanned amount converts into), or a new item
+  static async propose(userId: number, lines: ReceiptLine[]): Promise<ReceiptMergeProposal[]> {
+    const { match } = await PantryReconciliationService.loadPantryIndex(userId);
+
+    return lines.map(line => {
+      const candidates = match(line.name);
+      const item = candidates.find(candidate => this.restockedQuantity(candidate, line) !== null) ?? candidates[0];
+
+      return {
+        scanned: line,
+        action: item ? "restock" : "new",
+        pantry_item: item ? this.summarize(item) : null,
+        candidates: candidates.map(candidate => this.summarize(candidate)),
+        quantity_after: item ? this.restockedQuantity(item, line) : null,
+      };
+    });
+  }
+
+  // Apply the lines the user confirmed, all or nothing: restocks top up the existing item and
+  // mark it fresh, new lines become pantry items, and any prices go into the price history
+  static async apply(
+    userId: number,
+    lines: ConfirmedReceiptLine[],
+    options: { source: string; store?: string | null }
+  ): Promise<ReceiptMergeResult> {
+    const { memberIds } = await HouseholdService.getAccess(userId);
+    const restockIds = lines.flatMap(line => line.action === "restock" && line.pantryItemId ? [line.pantryItemId] : []);
+
+    return db.transaction(async (tx) => {
+      const existing = restockIds.length > 0
+        ? await tx.select().from(pantryItems)
+          .where(and(inArray(pantryItems.id, restockIds), inArray(pantryItems.user_id, memberIds)))
+        : [];
+      const itemsById = new Map<number, PantryItem>(existing.map(item => [item.id, item]));
+
+      const restocked: PantryItem[] = [];
+      const added: PantryItem[] = [];
+      const prices: PriceEntry[] = [];
+
+      for (const line of lines) {
+        let item: PantryItem;
+
+        if (line.action === "restock") {
+          const current = line.pantryItemId ? itemsById.get(line.pantryItemId) : undefined;
+          if (!current) {
+            throw new Error(`Pantry item ${line.pantryItemId} not found`);
+          }
+
+          const quantityAfter = this.restockedQuantity(current, line);
+          const replacesUnit = quantityAfter === null && this.isUsedUp(current);
+
+          // New stock starts a new shelf life, so a best-before date from the old stock no longer applies
+          [item] = await tx.update(pantryItems)
+            .set({
+              quantity: replacesUnit ? line.quantity : quantityAfter ?? current.quantity,
+              unit: replacesUnit ? line.unit : current.unit,
+              quantity_status: "full",
+              added_date: new Date(),
+              best_before_date: null,
+              price: line.price ?? current.price,
+              updated_at: new Date(),
+            })
+            .where(eq(pantryItems.id, current.id))
+            .returning();
+
+          await tx.insert(pantryUsageLog).values({
+            user_id: userId,
+            pantry_item_id: item.id,
+            item_name: item.name,
+            category: item.category,
+            action: "added",
+            notes: `Restocked ${item.name} via ${options.source}`,
+          });
+
+          // Keep the running quantity current if the receipt lists the same item twice
+          itemsById.set(item.id, item);
+          restocked.push(item);
+        } else {
+          const category = PantryCategoryEnum.safeParse(line.category);
+          [item] = await tx.insert(pantryItems).values({
+            user_id: userId,
+            name: line.name.trim(),
+            category: category.success ? category.data : "other",
+            quantity: line.quantity,
+            unit: line.unit,
+            location: storageForCategory(line.category),
+            estimated_shelf_life_days: line.estimatedShelfLifeDays,
+            price: line.price,
+          }).returning();
+
+          await tx.insert(pantryUsageLog).values({
+            user_id: userId,
+            pantry_item_id: item.id,
+            item_name: item.name,
+            category: item.category,
+            action: "added",
+            notes: `Added ${item.name} via ${options.source}`,
+          });
+
+          added.push(item);
+        }
+
+        if (line.price !== null) {
+          prices.push({
+            name: line.name,
+            price: line.price,
+            quantity: line.quantity,
+            unit: line.unit,
+            store: options.store ?? null,
+            pantry_item_id: item.id,
+          });
+        }
+      }
+
+      await PriceService.recordPrices(userId, prices, options.source === "receipt" ? "receipt" : "manual", tx);
+
+      return { restocked, added };
+    });
+  }
+
+  // The item's quantity once the scanned amount is added, or null when the units can't be compared.
+  // Items tracked by status only stay that way.
+  private static restockedQuantity(item: PantryItem, line: ReceiptLine): number | null {
+    if (item.quantity === null || line.quantity === null) return item.quantity;
+
+    const base = this.isUsedUp(item) ? 0 : item.quantity;
+    const converted = convertQuantity(line.quantity, line.unit, item.unit, line.name);
+    return converted === null ? null : roundQuantity(base + converted);
+  }
+
+  private static isUsedUp(item: PantryItem): boolean {
+    return item.quantity_status === "empty" || (item.quantity !== null && item.quantity <= 0);
+  }
+
+  private static summarize(item: PantryItem): MatchedPantryItem {
+    return {
+      id: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      quantity_status: item.quantity_status,
+      location: item.location,
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { db } from "../../db";
+import { recipes, userRecipes, mealPlans, mealPlanRecipes, type UserRecipeInput } from "@db/schema";
+import { and, desc, eq, gt } from "drizzle-orm";
+import { detectAllergens } from "@db/allergens";
+import { uploadImage } from "./cloudinary";
+import { RecipeLibraryService, type CookbookRecipe } from "./recipeLibrary";
+
+type LibraryRecipe = typeof recipes.$inferSelect;
+
+const COMPLEXITY_BY_DIFFICULTY = { Easy: 1, Moderate: 2, Advanced: 3 } as const;
+
+export class RecipeInUseError extends Error {
+  constructor() {
+    super("This recipe is in a current meal plan");
+    this.name = "RecipeInUseError";
+  }
+}
+
+// Recipes users write themselves or edit from a generated one. They live in the library like saved
+// recipes, but belong to their author and skip the content-hash dedupe so they can keep changing.
+export class RecipeAuthoringService {
+  // The user's own recipes, most recently written first
+  static async list(userId: number): Promise<CookbookRecipe[]> {
+    const rows = await db
+      .select({ recipe: recipes, entry: userRecipes })
+      .from(recipes)
+      .leftJoin(userRecipes, and(eq(userRecipes.recipe_id, recipes.id), eq(userRecipes.user_id, userId)))
+      .where(eq(recipes.author_id, userId))
+      .orderBy(desc(recipes.created_at));
+
+    return rows.map(({ recipe, entry }) => RecipeLibraryService.toCookbookRecipe(recipe, entry, userId));
+  }
+
+  static async create(userId: number, input: UserRecipeInput, imageUrl: string | null = null): Promise<CookbookRecipe> {
+    return this.insert(userId, input, null, imageUrl);
+  }
+
+  // Edit someone else's recipe, or a generated one, by copying it with the changes. The original is
+  // left as it was. Null if there's no such recipe.
+  static async fork(userId: number, recipeId: number, input: UserRecipeInput): Promise<CookbookRecipe | null> {
+    const original = await RecipeLibraryService.findById(recipeId, userId);
+    if (!original) return null;
+
+    const imageUrl = await RecipeLibraryService.copyImage(original, `fork-${userId}-${recipeId}-${Date.now()}`);
+    return this.insert(userId, input, original.id, imageUrl);
+  }
+
+  // Null unless the user wrote the recipe
+  static async update(userId: number, recipeId: number, input: UserRecipeInput): Promise<CookbookRecipe | null> {
+    const [updated] = await db
+      .update(recipes)
+      .set(this.columns(input))
+      .where(and(eq(recipes.id, recipeId), eq(recipes.author_id, userId)))
+      .returning();
+    if (!updated) return null;
+
+    return this.withEntry(userId, updated);
+  }
+
+  // False unless the user wrote the recipe. A recipe a current meal plan still uses can't be deleted.
+  static async remove(userId: number, recipeId: number): Promise<boolean> {
+    const recipe = await db.query.recipes.findFirst({
+      where: and(eq(recipes.id, recipeId), eq(recipes.author_id, userId)),
+    });
+    if (!recipe) return false;
+
+    const [planned] = await db
+      .select({ id: mealPlanRecipes.id })
+      .from(mealPlanRecipes)
+      .innerJoin(mealPlans, eq(mealPlanRecipes.meal_plan_id, mealPlans.id))
+      .where(and(
+        eq(mealPlanRecipes.recipe_id, recipeId),
+        eq(mealPlans.is_expired, false),
+        gt(mealPlans.expiration_date, new Date())
+      ))
+      .limit(1);
+    if (planned) throw new RecipeInUseError();
+
+    await db.transaction(async (tx) => {
+      await tx.delete(userRecipes).where(eq(userRecipes.recipe_id, recipeId));
+      await tx.delete(recipes).where(eq(recipes.id, recipeId));
+    });
+    return true;
+  }
+
+  // Replace the photo of one of the user's recipes with one they took. The image is a base64 data URL.
+  static async setPhoto(userId: number, recipeId: number, image: string): Promise<CookbookRecipe | null> {
+    const recipe = await db.query.recipes.findFirst({
+      where: and(eq(recipes.id, recipeId), eq(recipes.author_id, userId)),
+    });
+    if (!recipe) return null;
+
+    const imageUrl = await uploadImage(image, `user-recipe-${recipeId}-${Date.now()}`);
+    const [updated] = await db
+      .update(recipes)
+      .set({ image_url: imageUrl, permanent_url: imageUrl })
+      .where(eq(recipes.id, recipeId))
+      .returning();
+
+    return this.withEntry(userId, updated);
+  }
+
+  private static async insert(
+    userId: number,
+    input: UserRecipeInput,
+    forkedFromId: number | null,
+    imageUrl: string | null
+  ): Promise<CookbookRecipe> {
+    return db.transaction(async (tx) => {
+      const [recipe] = await tx
+        .insert(recipes)
+        .values({
+          ...this.columns(input),
+          image_url: imageUrl,
+          permanent_url: imageUrl,
+          author_id: userId,
+          forked_from_id: forkedFromId,
+        })
+        .returning();
+
+      // A recipe the user writes goes straight into their cookbook
+      const [entry] = await tx
+        .insert(userRecipes)
+        .values({ user_id: userId, recipe_id: recipe.id })
+        .returning();
+
+      return RecipeLibraryService.toCookbookRecipe(recipe, entry, userId);
+    });
+  }
+
+  private static columns(input: UserRecipeInput) {
+    return {
+      name: input.name,
+      description: input.description ?? null,
+      prep_time: input.prep_time ?? null,
+      cook_time: input.cook_time ?? null,
+      servings: input.servings,
+      ingredients: input.ingredients,
+      instructions: input.instructions,
+      tags: input.tags ?? [],
+      nutrition: input.nutrition ?? null,
+      meal_type: input.meal_type ?? null,
+      cuisine_type: input.cuisine_type ?? null,
+      dietary_restrictions: input.dietary_restrictions ?? null,
+      difficulty: input.difficulty ?? null,
+      allergens: detectAllergens(input.ingredients),
+      complexity: input.difficulty ? COMPLEXITY_BY_DIFFICULTY[input.difficulty] : 1,
+    };
+  }
+
+  private static async withEntry(userId: number, recipe: LibraryRecipe): Promise<CookbookRecipe> {
+    const entry = await db.query.userRecipes.findFirst({
+      where: and(eq(userRecipes.user_id, userId), eq(userRecipes.recipe_id, recipe.id)),
+    });
+    return RecipeLibraryService.toCookbookRecipe(recipe, entry ?? null, userId);
+  }
+}
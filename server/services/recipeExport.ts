@@ -0,0 +1,455 @@
+import { createHash, randomUUID } from "crypto";
+import { crc32, gzipSync } from "zlib";
+import { db } from "../../db";
+import {
+  mealPrepPlans,
+  mealPrepComponents,
+  mealPrepAssemblies,
+  temporaryRecipes,
+  mealPlans,
+  RecipeNutritionSchema,
+  type RecipeExportFormat,
+  type RecipeNutrition,
+} from "@db/schema";
+import { and, asc, eq } from "drizzle-orm";
+import { formatQuantity, scaleIngredients } from "@db/units";
+import { PdfDocument } from "../lib/pdf";
+import { RecipeLibraryService, type AnyRecipe } from "./recipeLibrary";
+
+type MealPlanRow = typeof mealPlans.$inferSelect;
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+interface ExportRecipe {
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  servings: number | null;
+  ingredients: string[]; // as a cook reads them, "1 ½ cup diced onion"
+  instructions: string[];
+  nutrition: RecipeNutrition | null;
+  mealType: string | null;
+  cuisine: string | null;
+  tags: string[];
+  createdAt: Date;
+}
+
+// A recipe as it sits in the export: its slot in a plan ("Dinner") and anything to know about it there
+interface ExportEntry {
+  label: string | null;
+  notes: string[];
+  recipe: ExportRecipe;
+}
+
+interface ExportSection {
+  heading: string | null;
+  entries: ExportEntry[];
+}
+
+interface ExportDocument {
+  title: string;
+  subtitle: string | null;
+  notes: string[];
+  sections: ExportSection[];
+}
+
+const MEAL_ORDER = ["breakfast", "lunch", "dinner"];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 80) || "recipe";
+
+const formatDate = (date: Date) => date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+
+function toExportRecipe(recipe: AnyRecipe, servings: number | null = null): ExportRecipe {
+  const ingredients = (Array.isArray(recipe.ingredients) ? recipe.ingredients : []) as Array<{ name: string; amount: number | null; unit: string | null }>;
+  const nutrition = RecipeNutritionSchema.safeParse(recipe.nutrition);
+
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    imageUrl: recipe.permanent_url || recipe.image_url,
+    prepTime: recipe.prep_time,
+    cookTime: recipe.cook_time,
+    // A plan slot cooked for more or fewer people than the recipe serves is exported as cooked
+    servings: servings ?? recipe.servings,
+    ingredients: scaleIngredients(ingredients, recipe.servings, servings).map(ingredient =>
+      [ingredient.amount ? formatQuantity(ingredient.amount) : "", ingredient.unit, ingredient.name].filter(Boolean).join(" ")
+    ),
+    instructions: Array.isArray(recipe.instructions) ? recipe.instructions.map(String) : [],
+    nutrition: nutrition.success ? nutrition.data : null,
+    mealType: recipe.meal_type,
+    cuisine: recipe.cuisine_type,
+    tags: Array.isArray(recipe.tags) ? recipe.tags.map(String) : [],
+    createdAt: recipe.created_at,
+  };
+}
+
+function timeLine(recipe: ExportRecipe): string {
+  return [
+    recipe.prepTime ? `Prep ${recipe.prepTime} min` : null,
+    recipe.cookTime ? `Cook ${recipe.cookTime} min` : null,
+    recipe.servings ? `Serves ${recipe.servings}` : null,
+  ].filter(Boolean).join(" · ");
+}
+
+function nutritionLine(nutrition: RecipeNutrition): string {
+  return [
+    `${nutrition.calories} calories`,
+    `${nutrition.protein} g protein`,
+    `${nutrition.carbs} g carbs`,
+    `${nutrition.fat} g fat`,
+    nutrition.saturated_fat !== undefined ? `${nutrition.saturated_fat} g saturated fat` : null,
+    nutrition.fiber !== undefined ? `${nutrition.fiber} g fiber` : null,
+    nutrition.sugar !== undefined ? `${nutrition.sugar} g sugar` : null,
+    nutrition.sodium !== undefined ? `${nutrition.sodium} mg sodium` : null,
+  ].filter(Boolean).join(" · ");
+}
+
+const entryTitle = (entry: ExportEntry) => entry.label ? `${entry.label}: ${entry.recipe.name}` : entry.recipe.name;
+
+const isSingleRecipe = (document: ExportDocument) =>
+  document.sections.length === 1 && document.sections[0].entries.length === 1 && !document.sections[0].heading;
+
+function renderMarkdown(document: ExportDocument): string {
+  const single = isSingleRecipe(document);
+  const lines: string[] = [];
+
+  if (!single) {
+    lines.push(`# ${document.title}`, "");
+    if (document.subtitle) lines.push(`_${document.subtitle}_`, "");
+    document.notes.forEach(note => lines.push(note, ""));
+  }
+
+  for (const section of document.sections) {
+    if (section.heading) lines.push(`## ${section.heading}`, "");
+    for (const entry of section.entries) {
+      const { recipe } = entry;
+      const level = single ? "#" : "###";
+      lines.push(`${level} ${entryTitle(entry)}`, "");
+      if (recipe.imageUrl) lines.push(`![${recipe.name}](${recipe.imageUrl})`, "");
+      if (recipe.description) lines.push(recipe.description, "");
+      if (timeLine(recipe)) lines.push(`*${timeLine(recipe)}*`, "");
+      entry.notes.forEach(note => lines.push(`> ${note}`, ""));
+
+      lines.push(`${level}# Ingredients`, "");
+      recipe.ingredients.forEach(ingredient => lines.push(`- ${ingredient}`));
+      lines.push("", `${level}# Instructions`, "");
+      recipe.instructions.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+      lines.push("");
+      if (recipe.nutrition) {
+        lines.push(`${level}# Nutrition (per serving)`, "", nutritionLine(recipe.nutrition), "");
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+// The same schema.org Recipe the recipe page embeds for search engines
+function recipeJsonLd(recipe: ExportRecipe) {
+  const prepTime = recipe.prepTime ?? 0;
+  const cookTime = recipe.cookTime ?? 0;
+  return {
+    "@type": "Recipe",
+    name: recipe.name,
+    image: recipe.imageUrl ?? undefined,
+    description: recipe.description ?? undefined,
+    datePublished: recipe.createdAt.toISOString(),
+    prepTime: `PT${prepTime}M`,
+    cookTime: `PT${cookTime}M`,
+    totalTime: `PT${prepTime + cookTime}M`,
+    recipeYield: recipe.servings ? `${recipe.servings} servings` : undefined,
+    recipeCategory: recipe.mealType ?? undefined,
+    recipeCuisine: recipe.cuisine ?? undefined,
+    recipeIngredient: recipe.ingredients,
+    recipeInstructions: recipe.instructions.map(text => ({ "@type": "HowToStep", text })),
+    nutrition: recipe.nutrition ? {
+      "@type": "NutritionInformation",
+      servingSize: "1 serving",
+      calories: `${recipe.nutrition.calories} calories`,
+      proteinContent: `${recipe.nutrition.protein}g`,
+      carbohydrateContent: `${recipe.nutrition.carbs}g`,
+      fatContent: `${recipe.nutrition.fat}g`,
+      saturatedFatContent: recipe.nutrition.saturated_fat !== undefined ? `${recipe.nutrition.saturated_fat}g` : undefined,
+      fiberContent: recipe.nutrition.fiber !== undefined ? `${recipe.nutrition.fiber}g` : undefined,
+      sugarContent: recipe.nutrition.sugar !== undefined ? `${recipe.nutrition.sugar}g` : undefined,
+      sodiumContent: recipe.nutrition.sodium !== undefined ? `${recipe.nutrition.sodium}mg` : undefined,
+    } : undefined,
+    keywords: recipe.tags.length > 0 ? recipe.tags.join(",") : undefined,
+  };
+}
+
+// One Recipe on its own, or a plan as an ItemList of them in order
+function renderJsonLd(document: ExportDocument): string {
+  if (isSingleRecipe(document)) {
+    const recipe = document.sections[0].entries[0].recipe;
+    return JSON.stringify({ "@context": "https://schema.org", ...recipeJsonLd(recipe) }, null, 2);
+  }
+
+  const entries = document.sections.flatMap(section => section.entries.map(entry => ({ section, entry })));
+  return JSON.stringify({
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    name: document.title,
+    description: document.subtitle ?? undefined,
+    numberOfItems: entries.length,
+    itemListElement: entries.map(({ section, entry }, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: [section.heading, entry.label].filter(Boolean).join(", ") || undefined,
+      item: recipeJsonLd(entry.recipe),
+    })),
+  }, null, 2);
+}
+
+function renderPdf(document: ExportDocument): Buffer {
+  const pdf = new PdfDocument(document.title);
+  const single = isSingleRecipe(document);
+
+  if (!single) {
+    pdf.text(document.title, { size: 20, bold: true });
+    if (document.subtitle) pdf.text(document.subtitle, { color: "muted" });
+    document.notes.forEach(note => pdf.space(4).text(note));
+    pdf.space(12);
+  }
+
+  document.sections.forEach(section => {
+    if (section.heading) {
+      pdf.keepTogether(120).text(section.heading, { size: 16, bold: true }).rule();
+    }
+    section.entries.forEach((entry, index) => {
+      const { recipe } = entry;
+      if (index > 0) pdf.rule();
+      pdf.keepTogether(100).text(entryTitle(entry), { size: single ? 20 : 14, bold: true });
+      if (timeLine(recipe)) pdf.text(timeLine(recipe), { size: 10, color: "muted" });
+      if (recipe.imageUrl) pdf.text(`Photo: ${recipe.imageUrl}`, { size: 8, color: "muted" });
+      if (recipe.description) pdf.space(4).text(recipe.description);
+      entry.notes.forEach(note => pdf.space(4).text(note, { size: 10, color: "muted" }));
+
+      pdf.space(8).keepTogether(40).text("Ingredients", { size: 12, bold: true }).space(2);
+      recipe.ingredients.forEach(ingredient => pdf.text(`- ${ingredient}`, { size: 10, indent: 10 }));
+      pdf.space(8).keepTogether(40).text("Instructions", { size: 12, bold: true }).space(2);
+      recipe.instructions.forEach((step, stepIndex) => pdf.text(`${stepIndex + 1}. ${step}`, { size: 10, indent: 10 }).space(2));
+      if (recipe.nutrition) {
+        pdf.space(8).keepTogether(40).text("Nutrition (per serving)", { size: 12, bold: true }).space(2);
+        pdf.text(nutritionLine(recipe.nutrition), { size: 10 });
+      }
+      pdf.space(12);
+    });
+  });
+
+  return pdf.toBuffer();
+}
+
+const paprikaTime = (minutes: number | null) => minutes ? `${minutes} min` : "";
+
+// Paprika's recipe file: JSON with a content hash, gzipped
+function paprikaRecipe(entry: ExportEntry): Buffer {
+  const { recipe } = entry;
+  const fields = {
+    uid: randomUUID().toUpperCase(),
+    name: recipe.name,
+    description: recipe.description ?? "",
+    ingredients: recipe.ingredients.join("\n"),
+    directions: recipe.instructions.join("\n\n"),
+    notes: entry.notes.join("\n\n"),
+    nutritional_info: recipe.nutrition ? nutritionLine(recipe.nutrition) : "",
+    servings: recipe.servings ? String(recipe.servings) : "",
+    prep_time: paprikaTime(recipe.prepTime),
+    cook_time: paprikaTime(recipe.cookTime),
+    total_time: paprikaTime((recipe.prepTime ?? 0) + (recipe.cookTime ?? 0)),
+    difficulty: "",
+    rating: 0,
+    categories: [recipe.mealType, recipe.cuisine].filter(Boolean),
+    source: "DineN",
+    source_url: "",
+    image_url: recipe.imageUrl ?? "",
+    photo: null,
+    photo_data: null,
+    photo_hash: null,
+    photo_large: null,
+    photos: [],
+    created: recipe.createdAt.toISOString().replace("T", " ").slice(0, 19),
+  };
+  const hash = createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+  return gzipSync(JSON.stringify({ ...fields, hash }));
+}
+
+// An uncompressed zip archive; the entries are already gzipped
+function zip(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const DOS_DATE = 0x21; // 1980-01-01, zip's epoch
+  const UTF8_NAMES = 0x0800;
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const checksum = crc32(file.data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(UTF8_NAMES, 6);
+    header.writeUInt16LE(0, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    header.writeUInt32LE(checksum, 14);
+    header.writeUInt32LE(file.data.length, 18);
+    header.writeUInt32LE(file.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    local.push(header, name, file.data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(UTF8_NAMES, 8);
+    entry.writeUInt16LE(0, 10);
+    entry.writeUInt16LE(0, 12);
+    entry.writeUInt16LE(DOS_DATE, 14);
+    entry.writeUInt32LE(checksum, 16);
+    entry.writeUInt32LE(file.data.length, 20);
+    entry.writeUInt32LE(file.data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + file.data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, directory, end]);
+}
+
+function render(document: ExportDocument, format: RecipeExportFormat): ExportFile {
+  const slug = slugify(document.title);
+  switch (format) {
+    case "pdf":
+      return { filename: `${slug}.pdf`, contentType: "application/pdf", body: renderPdf(document) };
+    case "markdown":
+      return { filename: `${slug}.md`, contentType: "text/markdown; charset=utf-8", body: renderMarkdown(document) };
+    case "json-ld":
+      return { filename: `${slug}.jsonld`, contentType: "application/ld+json; charset=utf-8", body: renderJsonLd(document) };
+    case "paprika": {
+      const entries = document.sections.flatMap(section => section.entries);
+      if (isSingleRecipe(document)) {
+        return { filename: `${slug}.paprikarecipe`, contentType: "application/octet-stream", body: paprikaRecipe(entries[0]) };
+      }
+      // Numbered so two slots with the same recipe don't collide
+      const files = entries.map((entry, index) => ({
+        name: `${String(index + 1).padStart(2, "0")} ${entry.recipe.name.replace(/[\\/:*?"<>|]/g, "-")}.paprikarecipe`,
+        data: paprikaRecipe(entry),
+      }));
+      return { filename: `${slug}.paprikarecipes`, contentType: "application/zip", body: zip(files) };
+    }
+  }
+}
+
+// Recipes and plans as files that work outside the app: a printable PDF, Markdown, schema.org
+// JSON-LD, or Paprika's format for recipe managers. Every format carries the ingredients, steps,
+// nutrition and a link to the photo.
+export class RecipeExportService {
+  // Null if there's no such recipe
+  static async recipe(recipeId: number, userId: number | null, format: RecipeExportFormat): Promise<ExportFile | null> {
+    const recipe = await RecipeLibraryService.findById(recipeId, userId);
+    if (!recipe) return null;
+
+    return render({
+      title: recipe.name,
+      subtitle: null,
+      notes: [],
+      sections: [{ heading: null, entries: [{ label: null, notes: [], recipe: toExportRecipe(recipe) }] }],
+    }, format);
+  }
+
+  // The plan day by day. Access to the plan is checked by the caller.
+  static async mealPlan(mealPlan: MealPlanRow, userId: number, format: RecipeExportFormat): Promise<ExportFile> {
+    const slots = await RecipeLibraryService.planSlots(mealPlan.id, userId);
+    const sections = new Map<string, ExportSection>();
+
+    for (const { slot, recipe } of slots) {
+      const heading = formatDate(new Date(slot.day));
+      const section = sections.get(heading) ?? { heading, entries: [] };
+      section.entries.push({ label: capitalize(slot.meal), notes: [], recipe: toExportRecipe(recipe, slot.servings) });
+      sections.set(heading, section);
+    }
+    const mealIndex = (label: string | null) => {
+      const index = MEAL_ORDER.indexOf((label ?? "").toLowerCase());
+      return index === -1 ? MEAL_ORDER.length : index;
+    };
+    sections.forEach(section => section.entries.sort((a, b) => mealIndex(a.label) - mealIndex(b.label)));
+
+    return render({
+      title: mealPlan.name,
+      subtitle: `${formatDate(new Date(mealPlan.start_date))} to ${formatDate(new Date(mealPlan.end_date))}`,
+      notes: [],
+      sections: Array.from(sections.values()),
+    }, format);
+  }
+
+  // Null unless the user owns the meal prep plan
+  static async mealPrepPlan(userId: number, mealPrepPlanId: number, format: RecipeExportFormat): Promise<ExportFile | null> {
+    const plan = await db.query.mealPrepPlans.findFirst({
+      where: and(eq(mealPrepPlans.id, mealPrepPlanId), eq(mealPrepPlans.user_id, userId)),
+    });
+    if (!plan) return null;
+
+    const [components, assemblies] = await Promise.all([
+      db.select({ component: mealPrepComponents, recipe: temporaryRecipes })
+        .from(mealPrepComponents)
+        .innerJoin(temporaryRecipes, eq(mealPrepComponents.recipe_id, temporaryRecipes.id))
+        .where(eq(mealPrepComponents.meal_prep_plan_id, plan.id))
+        .orderBy(asc(mealPrepComponents.id)),
+      db.select({ assembly: mealPrepAssemblies, recipe: temporaryRecipes })
+        .from(mealPrepAssemblies)
+        .innerJoin(temporaryRecipes, eq(mealPrepAssemblies.recipe_id, temporaryRecipes.id))
+        .where(eq(mealPrepAssemblies.meal_prep_plan_id, plan.id))
+        .orderBy(asc(mealPrepAssemblies.id)),
+    ]);
+
+    return render({
+      title: plan.name,
+      subtitle: [
+        `Prep day: ${capitalize(plan.prep_day)}`,
+        `${plan.total_servings} servings`,
+        plan.total_prep_time ? `about ${plan.total_prep_time} min of prep` : null,
+      ].filter(Boolean).join(" · "),
+      notes: plan.reheat_tips ? [plan.reheat_tips] : [],
+      sections: [
+        {
+          heading: "Prep these",
+          entries: components.map(({ component, recipe }) => ({
+            label: capitalize(component.component_type),
+            notes: [
+              component.storage_instructions ? `Storage: ${component.storage_instructions}` : null,
+              component.reheat_instructions ? `Reheat: ${component.reheat_instructions}` : null,
+            ].filter((note): note is string => Boolean(note)),
+            recipe: toExportRecipe(recipe),
+          })),
+        },
+        {
+          heading: "Then assemble",
+          entries: assemblies.map(({ assembly, recipe }) => ({
+            label: null,
+            notes: assembly.sauce_suggestion ? [`Sauce: ${assembly.sauce_suggestion}`] : [],
+            recipe: { ...toExportRecipe(recipe), name: assembly.name },
+          })),
+        },
+      ].filter(section => section.entries.length > 0),
+    }, format);
+  }
+}
@@ -0,0 +1,475 @@
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from "dns";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { BlockList, isIP } from "net";
+import {
+  CuisineTypeEnum,
+  MealTypeEnum,
+  UserRecipeInputSchema,
+  type DietaryTypeEnum,
+  type RecipeImport,
+  type RecipeNutrition,
+  type UserRecipeInput,
+} from "@db/schema";
+import { parseIngredientLine } from "@db/units";
+import type { z } from "zod";
+import { getRecipeAIProvider } from "../lib/recipeAI";
+import { uploadImage } from "./cloudinary";
+import { RecipeAuthoringService } from "./recipeAuthoring";
+import type { CookbookRecipe } from "./recipeLibrary";
+
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecipeImportError";
+  }
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+const PAGE_TIMEOUT_MS = 10000;
+const MAX_PAGE_LENGTH = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_AI_TEXT_LENGTH = 20000;
+
+// Loopback, private, shared (carrier-grade NAT), link-local, benchmarking, multicast and reserved
+// addresses, which a fetched link may not reach. IPv4-mapped IPv6 addresses are checked as IPv4.
+const BLOCKED_ADDRESSES = new BlockList();
+([
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4"));
+([
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6"));
+
+const isBlockedAddress = (address: string) => BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+class BlockedAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} resolves to a non-public address`);
+    this.name = "BlockedAddressError";
+  }
+}
+
+// dns.lookup for page fetches that refuses a host if any of its addresses isn't public. The socket
+// connects to the address checked here, so a second resolution can't swap in a private one.
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new BlockedAddressError(hostname), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// recipeCategory values that mean one of our meal types
+const MEAL_TYPE_ALIASES: Record<string, z.infer<typeof MealTypeEnum>> = {
+  "main course": "Dinner",
+  "main dish": "Dinner",
+  "main": "Dinner",
+  "entree": "Dinner",
+  "supper": "Dinner",
+  "brunch": "Breakfast",
+  "appetizer": "Snack",
+  "snacks": "Snack",
+  "desserts": "Dessert",
+};
+
+// schema.org RestrictedDiet values we track
+const DIETS: Record<string, z.infer<typeof DietaryTypeEnum>> = {
+  VegetarianDiet: "Vegetarian",
+  VeganDiet: "Vegan",
+  GlutenFreeDiet: "Gluten-Free",
+  LowLactoseDiet: "Dairy-Free",
+};
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", frac12: "½", frac14: "¼", frac34: "¾" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z\d]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Plain text from a snippet of markup, keeping block breaks as newlines
+function stripTags(html: string): string {
+  return decodeEntities(html
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<\/?(br|p|div|li|ul|ol|h\d|tr|td|th|section|article)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, ""))
+    .split("\n")
+    .map(line => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+const asText = (value: unknown): string => typeof value === "string" || typeof value === "number" ? stripTags(String(value)) : "";
+
+const asList = (value: unknown): unknown[] => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+function isRecipeNode(node: JsonLdNode): boolean {
+  return asList(node["@type"]).some(type => typeof type === "string" && type.replace(/^.*[/:]/, "") === "Recipe");
+}
+
+// The first Recipe anywhere in a JSON-LD document, which sites nest in @graph, arrays or mainEntity
+function findRecipeNode(document: unknown, depth = 0): JsonLdNode | null {
+  if (depth > 6 || document === null || typeof document !== "object") return null;
+  if (Array.isArray(document)) {
+    for (const item of document) {
+      const found = findRecipeNode(item, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  const node = document as JsonLdNode;
+  if (isRecipeNode(node)) return node;
+  for (const value of Object.values(node)) {
+    const found = findRecipeNode(value, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+function jsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    try {
+      blocks.push(JSON.parse(match[1].trim()));
+    } catch {
+      // Pages sometimes ship broken JSON-LD next to a good block; skip it
+    }
+  }
+  return blocks;
+}
+
+// ISO 8601 durations as schema.org writes them ("PT1H30M", "P0DT20M") in whole minutes
+function durationMinutes(value: unknown): number | null {
+  const match = typeof value === "string" ? value.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i) : null;
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map(part => part ? parseFloat(part) : 0);
+  const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+  return total > 0 ? Math.min(total, 1440) : null;
+}
+
+// "4 servings", ["4", "4 servings"] or 4
+function servingsFrom(value: unknown): number {
+  for (const item of asList(value)) {
+    const count = parseInt(String(item).match(/\d+/)?.[0] ?? "", 10);
+    if (count > 0) return Math.min(count, 100);
+  }
+  return 4;
+}
+
+// Steps from a string, a list of strings, HowToSteps, or HowToSections of HowToSteps
+function instructionsFrom(value: unknown): string[] {
+  return asList(value).flatMap((item): string[] => {
+    if (typeof item === "string") return stripTags(item).split("\n");
+    if (!item || typeof item !== "object") return [];
+    const node = item as JsonLdNode;
+    if (node.itemListElement !== undefined) return instructionsFrom(node.itemListElement);
+    return [asText(node.text) || asText(node.name)];
+  }).map(step => step.trim()).filter(Boolean);
+}
+
+function nutritionFrom(value: unknown): RecipeNutrition | null {
+  if (!value || typeof value !== "object") return null;
+  const node = value as JsonLdNode;
+  const amount = (key: string) => {
+    const parsed = parseFloat(String(node[key] ?? "").replace(/,/g, ""));
+    return isFinite(parsed) ? parsed : undefined;
+  };
+
+  const calories = amount("calories");
+  const protein = amount("proteinContent");
+  const carbs = amount("carbohydrateContent");
+  const fat = amount("fatContent");
+  if (calories === undefined || protein === undefined || carbs === undefined || fat === undefined) return null;
+
+  return {
+    calories,
+    protein,
+    carbs,
+    fat,
+    saturated_fat: amount("saturatedFatContent"),
+    fiber: amount("fiberContent"),
+    sugar: amount("sugarContent"),
+    sodium: amount("sodiumContent"),
+  };
+}
+
+function mealTypeFrom(value: unknown): z.infer<typeof MealTypeEnum> | null {
+  for (const category of asList(value).map(item => asText(item).toLowerCase())) {
+    const exact = MealTypeEnum.options.find(option => option.toLowerCase() === category);
+    if (exact) return exact;
+    if (MEAL_TYPE_ALIASES[category]) return MEAL_TYPE_ALIASES[category];
+  }
+  return null;
+}
+
+function cuisineFrom(value: unknown): z.infer<typeof CuisineTypeEnum> | null {
+  const cuisines = asList(value).map(item => asText(item).toLowerCase());
+  return CuisineTypeEnum.options.find(option => option !== "Other" && cuisines.includes(option.toLowerCase())) ?? null;
+}
+
+function dietsFrom(value: unknown): Array<z.infer<typeof DietaryTypeEnum>> | null {
+  const diets = asList(value)
+    .map(item => DIETS[String(item).replace(/^.*\//, "")])
+    .filter((diet): diet is z.infer<typeof DietaryTypeEnum> => Boolean(diet));
+  return diets.length > 0 ? Array.from(new Set(diets)) : null;
+}
+
+function tagsFrom(node: JsonLdNode): string[] {
+  const keywords = asList(node.keywords).flatMap(item => asText(item).split(","));
+  const tags = keywords.map(tag => tag.trim()).filter(tag => tag.length > 0 && tag.length <= 50);
+  return Array.from(new Set(tags)).slice(0, 20);
+}
+
+// The first usable photo URL, resolved against the page it came from
+function imageFrom(value: unknown, baseUrl: string | null): string | null {
+  for (const item of asList(value)) {
+    const candidate = typeof item === "string" ? item : item && typeof item === "object" ? (item as JsonLdNode).url : null;
+    if (typeof candidate !== "string") continue;
+    try {
+      const url = new URL(candidate, baseUrl ?? undefined);
+      if (url.protocol === "http:" || url.protocol === "https:") return url.toString();
+    } catch {
+      // A relative URL with nothing to resolve it against
+    }
+  }
+  return null;
+}
+
+function inputFromJsonLd(node: JsonLdNode) {
+  const prepTime = durationMinutes(node.prepTime);
+  const cookTime = durationMinutes(node.cookTime);
+  const totalTime = durationMinutes(node.totalTime);
+
+  return {
+    name: asText(node.name).slice(0, 200),
+    description: asText(node.description).slice(0, 5000) || null,
+    prep_time: prepTime,
+    // Pages that only give a total time get it as cook time
+    cook_time: cookTime ?? (prepTime === null ? totalTime : null),
+    servings: servingsFrom(node.recipeYield),
+    ingredients: asList(node.recipeIngredient ?? node.ingredients)
+      .map(asText)
+      .filter(Boolean)
+      .map(parseIngredientLine),
+    instructions: instructionsFrom(node.recipeInstructions),
+    tags: tagsFrom(node),
+    meal_type: mealTypeFrom(node.recipeCategory),
+    cuisine_type: cuisineFrom(node.recipeCuisine),
+    dietary_restrictions: dietsFrom(node.suitableForDiet),
+    nutrition: nutritionFrom(node.nutrition),
+  };
+}
+
+// Recipes found elsewhere, brought in as the user's own. Structured schema.org data is read
+// offline; only text with no structure to read goes through the AI provider.
+export class RecipeImportService {
+  static async import(userId: number, source: RecipeImport): Promise<CookbookRecipe> {
+    const { input, imageUrl } = await this.read(source);
+
+    const parsed = UserRecipeInputSchema.safeParse(input);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new RecipeImportError(`The imported recipe is incomplete (${issue.path.join(".") || "recipe"}: ${issue.message})`);
+    }
+
+    return RecipeAuthoringService.create(userId, parsed.data, await this.copyImage(userId, imageUrl));
+  }
+
+  private static async read(source: RecipeImport): Promise<{ input: unknown; imageUrl: string | null }> {
+    if (source.json_ld !== undefined) {
+      const document = typeof source.json_ld === "string" ? this.parseJson(source.json_ld) : source.json_ld;
+      const node = findRecipeNode(document);
+      if (!node) throw new RecipeImportError("The JSON-LD document has no Recipe in it");
+      return { input: inputFromJsonLd(node), imageUrl: imageFrom(node.image, null) };
+    }
+
+    if (source.text !== undefined) {
+      return { input: await this.transcribe(source.text), imageUrl: null };
+    }
+
+    const pageUrl = source.url ?? null;
+    const html = source.html ?? await this.fetchPage(source.url!);
+    const node = findRecipeNode(jsonLdBlocks(html));
+    if (node) {
+      return { input: inputFromJsonLd(node), imageUrl: imageFrom(node.image, pageUrl) };
+    }
+    return { input: await this.transcribe(stripTags(html)), imageUrl: null };
+  }
+
+  private static parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new RecipeImportError("The JSON-LD document isn't valid JSON");
+    }
+  }
+
+  // Ask the AI provider to pick the recipe out of unstructured text. It copies the ingredient
+  // lines as written, and they're split by the same parser as structured imports.
+  private static async transcribe(text: string): Promise<Partial<UserRecipeInput>> {
+    const document = text.slice(0, MAX_AI_TEXT_LENGTH);
+    const prompt = `Transcribe the recipe in the text below. Copy it faithfully; don't invent or change anything.
+
+Respond with JSON in this format:
+{
+  "name": "Recipe title",
+  "description": "One or two sentences from the text, or null",
+  "prep_time": minutes or null,
+  "cook_time": minutes or null,
+  "servings": number,
+  "ingredients": ["each ingredient line exactly as written, e.g. 1 1/2 cups diced onion"],
+  "instructions": ["each step"]
+}
+
+If the text contains no recipe, respond with {"error": "No recipe found"}.
+
+Text:
+${document}`;
+
+    let data: any;
+    try {
+      data = await getRecipeAIProvider().generateRecipes({
+        task: "recipe_import",
+        system: "You transcribe recipes from web pages and notes into structured data. Always respond with complete, valid JSON.",
+        prompt,
+        temperature: 0,
+        maxTokens: 2000,
+        hints: { text: document },
+      });
+    } catch (error) {
+      console.error("Recipe import: AI transcription failed:", error);
+      throw new Error("Failed to read the recipe text");
+    }
+
+    if (!data || data.error || !data.name) {
+      throw new RecipeImportError("No recipe found in the text");
+    }
+
+    const minutes = (value: unknown) => typeof value === "number" && value > 0 ? Math.min(Math.round(value), 1440) : null;
+    return {
+      name: String(data.name).slice(0, 200),
+      description: typeof data.description === "string" ? data.description.slice(0, 5000) : null,
+      prep_time: minutes(data.prep_time),
+      cook_time: minutes(data.cook_time),
+      servings: servingsFrom(data.servings),
+      ingredients: asList(data.ingredients).map(line => parseIngredientLine(String(line))).filter(ingredient => ingredient.name),
+      instructions: asList(data.instructions).map(step => String(step).trim()).filter(Boolean),
+    };
+  }
+
+  // The page's HTML. Only public http(s) hosts are fetched, redirects included.
+  private static async fetchPage(pageUrl: string): Promise<string> {
+    let url = new URL(pageUrl);
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      this.assertFetchable(url);
+
+      let response: IncomingMessage;
+      try {
+        response = await this.request(url);
+      } catch (error) {
+        throw this.fetchError(error);
+      }
+
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        url = new URL(location, url);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new RecipeImportError(`That page answered with status ${status}`);
+      }
+
+      return this.readBody(response);
+    }
+    throw new RecipeImportError("That page redirects too many times");
+  }
+
+  private static request(url: URL): Promise<IncomingMessage> {
+    const client = url.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.get(url, {
+        headers: { "User-Agent": "DineN/1.0 (https://dinen.ai)", Accept: "text/html,application/xhtml+xml" },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+      }, resolve);
+      request.on("error", reject);
+    });
+  }
+
+  // Read the body as it streams in, giving up as soon as it passes the size cap
+  private static async readBody(response: IncomingMessage): Promise<string> {
+    const declared = Number(response.headers["content-length"]);
+    if (declared > MAX_PAGE_LENGTH) {
+      response.destroy();
+      throw new RecipeImportError("That page is too large to import");
+    }
+
+    const chunks: Buffer[] = [];
+    let length = 0;
+    try {
+      for await (const chunk of response) {
+        length += chunk.length;
+        if (length > MAX_PAGE_LENGTH) {
+          response.destroy();
+          throw new RecipeImportError("That page is too large to import");
+        }
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      throw error instanceof RecipeImportError ? error : this.fetchError(error);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  }
+
+  private static fetchError(error: unknown): RecipeImportError {
+    if (error instanceof BlockedAddressError) return new RecipeImportError("That link can't be imported");
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (code === "ENOTFOUND" || code === "EAI_AGAIN") return new RecipeImportError("Couldn't find that website");
+    console.error("Recipe import: fetching page failed:", error);
+    return new RecipeImportError("Couldn't reach that page");
+  }
+
+  // Hostnames are checked as they resolve (see publicLookup); literal addresses never resolve, so
+  // they're checked here
+  private static assertFetchable(url: URL): void {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new RecipeImportError("Only http and https links can be imported");
+    }
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(hostname) && isBlockedAddress(hostname)) {
+      throw new RecipeImportError("That link can't be imported");
+    }
+  }
+
+  // A missing photo shouldn't cost the user the recipe
+  private static async copyImage(userId: number, imageUrl: string | null): Promise<string | null> {
+    if (!imageUrl) return null;
+    try {
+      return await uploadImage(imageUrl, `import-${userId}-${Date.now()}`);
+    } catch (error) {
+      console.error("Recipe import: copying photo failed:", error);
+      return null;
+    }
+  }
+}
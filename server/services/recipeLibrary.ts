@@ -0,0 +1,316 @@
+import { createHash } from "crypto";
+import { db } from "../../db";
+import { recipes, userRecipes, temporaryRecipes, mealPlanRecipes } from "@db/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { ingredientKey, normalizeUnit } from "@db/units";
+import { uploadImage } from "./cloudinary";
+
+type LibraryRecipe = typeof recipes.$inferSelect;
+type CookbookEntry = typeof userRecipes.$inferSelect;
+type TemporaryRecipeRow = typeof temporaryRecipes.$inferSelect;
+type MealPlanSlot = typeof mealPlanRecipes.$inferSelect;
+
+// Temporary recipe ids start here (see migrations/0001_sequence_ranges.sql), so anything lower is
+// a library recipe
+const TEMPORARY_RECIPE_ID_START = 100000;
+
+// A library recipe in the shape temporary recipes are read in. Saved recipes never expire.
+export type CookbookRecipe = Omit<TemporaryRecipeRow, "user_id" | "expires_at"> & {
+  user_id: number | null;
+  expires_at: null;
+  in_cookbook: boolean;
+  author_id: number | null; // set when a user wrote or edited the recipe
+  forked_from_id: number | null;
+};
+
+// What a meal plan slot, favorite or recipe id can point at
+export type AnyRecipe = TemporaryRecipeRow | CookbookRecipe;
+
+export interface SavedRecipe {
+  recipe: CookbookRecipe;
+  created: boolean; // false when the recipe was already in the user's cookbook
+}
+
+export class RecipeLibraryService {
+  static isLibraryId(recipeId: number): boolean {
+    return recipeId < TEMPORARY_RECIPE_ID_START;
+  }
+
+  // Identifies a recipe by what it takes to cook it, ignoring ids, images and how its ingredients
+  // happen to be spelled or ordered
+  static contentHash(recipe: Pick<TemporaryRecipeRow, "name" | "ingredients" | "instructions">): string {
+    const ingredients = (Array.isArray(recipe.ingredients) ? recipe.ingredients : [])
+      .map((ingredient: any) => [
+        ingredientKey(String(ingredient?.name ?? "")),
+        Number(ingredient?.amount) || 0,
+        normalizeUnit(ingredient?.unit),
+      ].join("|"))
+      .sort();
+    const instructions = (Array.isArray(recipe.instructions) ? recipe.instructions : [])
+      .map(step => String(step).toLowerCase().replace(/\s+/g, " ").trim());
+
+    return createHash("sha256")
+      .update(JSON.stringify([recipe.name.toLowerCase().trim(), ingredients, instructions]))
+      .digest("hex");
+  }
+
+  // Copy one of the user's temporary recipes into the permanent library, reusing an identical
+  // recipe if someone saved it before, and move its favorite and meal plan slots onto the copy so
+  // the temporary row can expire without taking anything with it. Null if the user has no such recipe.
+  static async save(userId: number, temporaryRecipeId: number): Promise<SavedRecipe | null> {
+    const temporary = await db.query.temporaryRecipes.findFirst({
+      where: and(eq(temporaryRecipes.id, temporaryRecipeId), eq(temporaryRecipes.user_id, userId)),
+    });
+    if (!temporary) return null;
+
+    const recipe = await this.findOrCreate(temporary);
+
+    const saved = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(userRecipes)
+        .where(and(eq(userRecipes.user_id, userId), eq(userRecipes.recipe_id, recipe.id)))
+        .limit(1);
+
+      const favorited = Boolean(existing?.favorited || temporary.favorited);
+      const [entry] = existing
+        ? await tx.update(userRecipes).set({ favorited }).where(eq(userRecipes.id, existing.id)).returning()
+        : await tx.insert(userRecipes).values({ user_id: userId, recipe_id: recipe.id, favorited }).returning();
+
+      // The favorite lives on the cookbook entry from now on, so it isn't listed twice
+      if (temporary.favorited) {
+        await tx
+          .update(temporaryRecipes)
+          .set({ favorited: false })
+          .where(eq(temporaryRecipes.id, temporary.id));
+      }
+
+      await tx
+        .update(mealPlanRecipes)
+        .set({ recipe_id: recipe.id })
+        .where(eq(mealPlanRecipes.recipe_id, temporary.id));
+
+      return {
+        recipe: this.toCookbookRecipe(recipe, entry, userId),
+        created: !existing,
+        newFavorite: favorited && !existing?.favorited,
+      };
+    });
+
+    // A favorite moved over from the temporary recipe now counts toward the library recipe
+    if (saved.newFavorite) {
+      await this.adjustFavoritesCount(recipe.id, 1);
+    }
+    return { recipe: saved.recipe, created: saved.created };
+  }
+
+  // The user's cookbook, most recently saved first
+  static async list(userId: number, options: { favoritesOnly?: boolean } = {}): Promise<CookbookRecipe[]> {
+    const rows = await db
+      .select({ recipe: recipes, entry: userRecipes })
+      .from(userRecipes)
+      .innerJoin(recipes, eq(userRecipes.recipe_id, recipes.id))
+      .where(and(
+        eq(userRecipes.user_id, userId),
+        options.favoritesOnly ? eq(userRecipes.favorited, true) : undefined
+      ))
+      .orderBy(desc(userRecipes.created_at));
+
+    return rows.map(({ recipe, entry }) => this.toCookbookRecipe(recipe, entry, userId));
+  }
+
+  // Take a recipe out of the user's cookbook. The library copy stays, since meal plans may still use it.
+  static async remove(userId: number, recipeId: number): Promise<boolean> {
+    const removed = await db
+      .delete(userRecipes)
+      .where(and(eq(userRecipes.user_id, userId), eq(userRecipes.recipe_id, recipeId)))
+      .returning();
+
+    if (removed[0]?.favorited) {
+      await this.adjustFavoritesCount(recipeId, -1);
+    }
+    return removed.length > 0;
+  }
+
+  // Favorite or unfavorite a library recipe, adding it to the cookbook if it isn't there yet.
+  // False if there's no such recipe.
+  static async setFavorite(userId: number, recipeId: number, favorited: boolean): Promise<boolean> {
+    const recipe = await db.query.recipes.findFirst({ where: eq(recipes.id, recipeId) });
+    if (!recipe) return false;
+
+    const changed = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(userRecipes)
+        .where(and(eq(userRecipes.user_id, userId), eq(userRecipes.recipe_id, recipeId)))
+        .limit(1);
+
+      if (!existing) {
+        if (!favorited) return false;
+        await tx.insert(userRecipes).values({ user_id: userId, recipe_id: recipeId, favorited });
+        return true;
+      }
+      if (existing.favorited === favorited) return false;
+
+      await tx.update(userRecipes).set({ favorited }).where(eq(userRecipes.id, existing.id));
+      return true;
+    });
+
+    if (changed) {
+      await this.adjustFavoritesCount(recipeId, favorited ? 1 : -1);
+    }
+    return true;
+  }
+
+  // The library recipe a favorite of this id belongs on: the recipe itself if it's in the library,
+  // or the user's saved copy of a temporary recipe. Null when the favorite stays on the temporary recipe.
+  static async favoriteTarget(userId: number, recipeId: number): Promise<number | null> {
+    if (this.isLibraryId(recipeId)) return recipeId;
+
+    const temporary = await db.query.temporaryRecipes.findFirst({ where: eq(temporaryRecipes.id, recipeId) });
+    if (!temporary) return null;
+
+    const [saved] = await db
+      .select({ id: recipes.id })
+      .from(recipes)
+      .innerJoin(userRecipes, and(eq(userRecipes.recipe_id, recipes.id), eq(userRecipes.user_id, userId)))
+      .where(eq(recipes.content_hash, this.contentHash(temporary)))
+      .limit(1);
+    return saved?.id ?? null;
+  }
+
+  static async findById(recipeId: number, userId: number | null): Promise<AnyRecipe | null> {
+    const [recipe] = await this.findByIds([recipeId], userId);
+    return recipe ?? null;
+  }
+
+  // Recipes by id from whichever table holds them. userId decides which cookbook the library
+  // recipes are favorited in; without one they read as not saved.
+  static async findByIds(recipeIds: number[], userId: number | null): Promise<AnyRecipe[]> {
+    const libraryIds = recipeIds.filter(id => this.isLibraryId(id));
+    const temporaryIds = recipeIds.filter(id => !this.isLibraryId(id));
+
+    const [temporary, library, entries] = await Promise.all([
+      temporaryIds.length > 0
+        ? db.select().from(temporaryRecipes).where(inArray(temporaryRecipes.id, temporaryIds))
+        : Promise.resolve([]),
+      libraryIds.length > 0
+        ? db.select().from(recipes).where(inArray(recipes.id, libraryIds))
+        : Promise.resolve([]),
+      libraryIds.length > 0 && userId !== null
+        ? db.select().from(userRecipes).where(and(eq(userRecipes.user_id, userId), inArray(userRecipes.recipe_id, libraryIds)))
+        : Promise.resolve([]),
+    ]);
+
+    const entriesByRecipe = new Map(entries.map(entry => [entry.recipe_id, entry]));
+    return [
+      ...temporary,
+      ...library.map(recipe => this.toCookbookRecipe(recipe, entriesByRecipe.get(recipe.id) ?? null, userId)),
+    ];
+  }
+
+  // Each slot of a meal plan with its recipe, in day order. Slots whose recipe is gone are left out.
+  static async planSlots(mealPlanId: number, userId: number | null = null): Promise<Array<{ slot: MealPlanSlot; recipe: AnyRecipe }>> {
+    const slots = await db
+      .select()
+      .from(mealPlanRecipes)
+      .where(eq(mealPlanRecipes.meal_plan_id, mealPlanId))
+      .orderBy(asc(mealPlanRecipes.day));
+
+    const found = await this.findByIds(Array.from(new Set(slots.map(slot => slot.recipe_id))), userId);
+    const recipesById = new Map(found.map(recipe => [recipe.id, recipe]));
+
+    return slots.flatMap(slot => {
+      const recipe = recipesById.get(slot.recipe_id);
+      return recipe ? [{ slot, recipe }] : [];
+    });
+  }
+
+  private static async findOrCreate(temporary: TemporaryRecipeRow): Promise<LibraryRecipe> {
+    const hash = this.contentHash(temporary);
+    const existing = await db.query.recipes.findFirst({ where: eq(recipes.content_hash, hash) });
+    if (existing) return existing;
+
+    const imageUrl = await this.copyImage(temporary, `library-${hash.slice(0, 16)}`);
+    const [inserted] = await db
+      .insert(recipes)
+      .values({
+        name: temporary.name,
+        description: temporary.description,
+        image_url: imageUrl,
+        permanent_url: imageUrl,
+        prep_time: temporary.prep_time,
+        cook_time: temporary.cook_time,
+        servings: temporary.servings,
+        ingredients: temporary.ingredients as LibraryRecipe["ingredients"],
+        instructions: temporary.instructions as LibraryRecipe["instructions"],
+        tags: Array.isArray(temporary.tags)
+          ? temporary.tags.filter((tag): tag is string => typeof tag === "string")
+          : [],
+        nutrition: temporary.nutrition as LibraryRecipe["nutrition"],
+        meal_type: temporary.meal_type,
+        cuisine_type: temporary.cuisine_type,
+        dietary_restrictions: temporary.dietary_restrictions,
+        difficulty: temporary.difficulty,
+        allergens: temporary.allergens,
+        content_hash: hash,
+        complexity: temporary.complexity,
+      })
+      .onConflictDoNothing({ target: recipes.content_hash })
+      .returning();
+
+    // Someone saved the same recipe while the image was uploading
+    return inserted ?? (await db.query.recipes.findFirst({ where: eq(recipes.content_hash, hash) }))!;
+  }
+
+  // The library keeps its own Cloudinary copy of a photo, so the temporary recipe's can be cleaned up
+  static async copyImage(recipe: Pick<AnyRecipe, "image_url" | "permanent_url">, publicId: string): Promise<string | null> {
+    const source = recipe.permanent_url || recipe.image_url;
+    if (!source) return null;
+
+    try {
+      return await uploadImage(source, publicId);
+    } catch (error) {
+      console.error("Error copying recipe image to the library:", error);
+      return recipe.permanent_url;
+    }
+  }
+
+  private static async adjustFavoritesCount(recipeId: number, delta: number): Promise<void> {
+    await db
+      .update(recipes)
+      .set({ favorites_count: sql`GREATEST(${recipes.favorites_count} + ${delta}, 0)` })
+      .where(eq(recipes.id, recipeId));
+  }
+
+  static toCookbookRecipe(recipe: LibraryRecipe, entry: CookbookEntry | null, userId: number | null): CookbookRecipe {
+    return {
+      id: recipe.id,
+      user_id: entry?.user_id ?? userId,
+      favorited: entry?.favorited ?? false,
+      name: recipe.name,
+      description: recipe.description,
+      image_url: recipe.image_url,
+      permanent_url: recipe.permanent_url,
+      prep_time: recipe.prep_time,
+      cook_time: recipe.cook_time,
+      servings: recipe.servings,
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      meal_type: recipe.meal_type,
+      cuisine_type: recipe.cuisine_type,
+      dietary_restrictions: recipe.dietary_restrictions,
+      difficulty: recipe.difficulty,
+      tags: recipe.tags,
+      nutrition: recipe.nutrition,
+      allergens: recipe.allergens,
+      complexity: recipe.complexity,
+      favorites_count: recipe.favorites_count,
+      created_at: entry?.created_at ?? recipe.created_at,
+      expires_at: null,
+      in_cookbook: entry !== null,
+      author_id: recipe.author_id,
+      forked_from_id: recipe.forked_from_id,
+    };
+  }
+}
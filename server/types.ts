@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { PreferenceSchema, SubscriptionStatusEnum, SubscriptionTierEnum } from '@db/schema';
+import { PreferenceSchema, SubscriptionStatusEnum, SubscriptionTierEnum, NutritionTargetsSchema } from '@db/schema';
 
 export const UserSchema = z.object({
   id: z.number(),
@@ -18,7 +18,9 @@ export const UserSchema = z.object({
   ingredient_recipes_generated: z.number().default(0),
   created_at: z.date(),
   is_partial_registration: z.boolean().default(false),
-  is_admin: z.boolean().default(false)
+  is_admin: z.boolean().default(false),
+  weekly_budget: z.number().nullable().default(null),
+  nutrition_targets: NutritionTargetsSchema.nullable().default(null)
 });
 
 // Export the User type based on the schema
@@ -1,18 +1,11 @@
-import OpenAI from "openai";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { Recipe, TemporaryRecipe } from "@db/schema";
+import type { Recipe, TemporaryRecipe, NutritionTargets, RecipeNutrition } from "@db/schema";
 import { MealTypeEnum } from "@db/schema";
 import { z } from "zod";
-import { config } from "../config/environment";
+import { NutritionService, type NutritionWarning } from "../services/nutrition";
+import { getRecipeAIProvider } from "../lib/recipeAI";
 
 type MealType = z.infer<typeof MealTypeEnum>;
 
-const openai = new OpenAI({
-  apiKey: config.openaiApiKey,
-});
-
-const genAI = new GoogleGenerativeAI(config.googleAiApiKey);
-
 interface RecipeGenerationParams {
   dietary: string[];
   allergies: string[];
@@ -20,7 +13,46 @@ interface RecipeGenerationParams {
   meatTypes: string[];
   mealType: "breakfast" | "lunch" | "dinner";
   excludeNames?: string[];
+  budgetPerServing?: number | null; // dollars, derived from the user's weekly grocery budget
+  nutritionTarget?: NutritionTargets | null; // per serving, this meal's share of the user's daily targets
   maxRetries?: number;
+  skipImage?: boolean; // leave image_url empty for the caller to fill in with generateRecipeImage
+}
+
+// Coerce the model's nutrition block to numbers, keeping the extra detail only when it was given.
+// Per serving: grams, except calories and sodium (milligrams).
+function normalizeNutrition(raw: any): RecipeNutrition {
+  const required = (key: string) => Number(raw?.[key]) || 0;
+  const optional = (key: string) => {
+    const value = Number(raw?.[key]);
+    return raw?.[key] === undefined || raw?.[key] === null || isNaN(value) ? undefined : value;
+  };
+
+  return {
+    calories: required("calories"),
+    protein: required("protein"),
+    carbs: required("carbs"),
+    fat: required("fat"),
+    saturated_fat: optional("saturated_fat"),
+    fiber: optional("fiber"),
+    sugar: optional("sugar"),
+    sodium: optional("sodium"),
+  };
+}
+
+const NUTRIENT_UNITS: Record<string, string> = { calories: " kcal", protein: "g protein", carbs: "g carbs", fat: "g fat" };
+
+// e.g. "about 500 kcal, 38g protein"
+function describeNutritionTarget(target: NutritionTargets): string {
+  const parts = (Object.keys(NUTRIENT_UNITS) as Array<keyof NutritionTargets>)
+    .filter(nutrient => target[nutrient])
+    .map(nutrient => `${target[nutrient]}${NUTRIENT_UNITS[nutrient]}`);
+  return `about ${parts.join(", ")}`;
+}
+
+// e.g. "820 kcal (target 500), 12g protein (target 38)"
+function describeNutritionMisses(misses: NutritionWarning[]): string {
+  return misses.map(miss => `${Math.round(miss.actual)}${NUTRIENT_UNITS[miss.nutrient]} (target ${miss.target})`).join(", ");
 }
 
 interface RecipeGenerationResponse extends Partial<TemporaryRecipe> {
@@ -30,13 +62,10 @@ interface RecipeGenerationResponse extends Partial<TemporaryRecipe> {
 export async function generateRecipeRecommendation(
   params: RecipeGenerationParams,
 ): Promise<RecipeGenerationResponse> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   const maxRetries = params.maxRetries || 3; // Default to 3 retries
   let lastError: Error | null = null;
   let relaxationLevel = 1;
+  let nutritionFeedback = "";
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
@@ -93,6 +122,8 @@ ${cleanParams.dietary.length > 0 ? `- Diet: ${cleanParams.dietary.join(", ")}` :
 ${cleanParams.allergies.length > 0 ? `- Avoid: ${cleanParams.allergies.join(", ")}` : ""}
 ${cleanParams.cuisine.length > 0 ? `- Cuisine: ${cleanParams.cuisine.join(", ")}` : ""}
 ${cleanParams.meatTypes.length > 0 ? `- Proteins: ${cleanParams.meatTypes.join(", ")}` : ""}
+${params.budgetPerServing ? `- Budget: ingredients should cost about $${params.budgetPerServing.toFixed(2)} per serving or less at US grocery prices` : ""}
+${params.nutritionTarget ? `- Nutrition per serving: ${describeNutritionTarget(params.nutritionTarget)}${nutritionFeedback}` : ""}
 
 Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
 {
@@ -105,44 +136,25 @@ Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
   "instructions": ["step 1", "step 2"],
   "meal_type": "${params.mealType.charAt(0).toUpperCase() + params.mealType.slice(1)}",
   "tags": ["tag1", "tag2"],
-  "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number},
+  "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number, "saturated_fat": number, "fiber": number, "sugar": number, "sodium": number},
   "complexity": number
 }`;
 
       console.log("AI Service: Generated optimized prompt");
 
-      const completion = await openai.chat.completions.create({
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a professional chef. Create detailed, healthy recipes following dietary restrictions exactly. Use US customary units only. Always respond with complete, valid JSON.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        model: "gpt-4o-2024-08-06",
-        response_format: { type: "json_object" },
+      const parsedRecipe = await getRecipeAIProvider().generateRecipes({
+        task: "recipe",
+        system:
+          "You are a professional chef. Create detailed, healthy recipes following dietary restrictions exactly. Use US customary units only. Always respond with complete, valid JSON.",
+        prompt,
         temperature: 0.7 + attempt * 0.1 + relaxationLevel * 0.1, // Increase temperature with each retry and relaxation level
-        max_tokens: 800, // Reduced from 1000 for faster generation
+        maxTokens: 800, // Reduced from 1000 for faster generation
+        hints: { mealType: params.mealType, allergies: cleanParams.allergies },
       });
 
-      if (!completion.choices?.[0]?.message?.content) {
-        throw new Error("Invalid response from OpenAI API");
-      }
-
-      const content = completion.choices[0].message.content;
-      if (!content) {
-        throw new Error("Empty response from OpenAI API");
-      }
-
-      console.log("AI Service: Received response from OpenAI");
+      console.log("AI Service: Received recipe response");
 
       try {
-        const parsedRecipe = JSON.parse(content);
-
         // Normalize ingredients to ensure amounts are numbers, not strings
         const normalizedIngredients = Array.isArray(parsedRecipe.ingredients)
           ? parsedRecipe.ingredients.map((ing: any) => ({
@@ -168,12 +180,7 @@ Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
             parsedRecipe.meal_type ||
             params.mealType.charAt(0).toUpperCase() + params.mealType.slice(1),
           tags: Array.isArray(parsedRecipe.tags) ? parsedRecipe.tags : [],
-          nutrition: parsedRecipe.nutrition || {
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-          },
+          nutrition: normalizeNutrition(parsedRecipe.nutrition),
           complexity: Number(parsedRecipe.complexity) || 2,
           image_url: parsedRecipe.image_url || null,
         };
@@ -216,12 +223,37 @@ Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
           continue;
         }
 
+        // Hold the recipe to its share of the daily targets: retry with what it missed by,
+        // and on the last attempt re-portion it rather than fail the meal
+        if (params.nutritionTarget) {
+          const misses = NutritionService.checkRecipe(validatedRecipe.nutrition, params.nutritionTarget);
+          if (misses.length > 0) {
+            console.log("AI Service: Recipe missed its nutrition target:", describeNutritionMisses(misses));
+            if (attempt < maxRetries) {
+              nutritionFeedback = `. The last recipe had ${describeNutritionMisses(misses)} per serving, so adjust ingredients or portions`;
+              lastError = new Error("Generated recipe missed its nutrition target");
+              continue;
+            }
+
+            const fitted = NutritionService.fitServings(validatedRecipe, params.nutritionTarget);
+            if (fitted) {
+              console.log(`AI Service: Re-portioned ${validatedRecipe.name} from ${validatedRecipe.servings} to ${fitted.servings} servings`);
+              validatedRecipe.servings = fitted.servings;
+              validatedRecipe.nutrition = fitted.nutrition;
+            }
+          }
+        }
+
         console.log(
           "AI Service: Successfully generated and validated recipe:",
           validatedRecipe.name,
         );
 
-        // Generate image for the recipe using Gemini
+        if (params.skipImage) {
+          return validatedRecipe;
+        }
+
+        // Generate image for the recipe
         console.log('AI Service: Generating image for recipe:', validatedRecipe.name);
         try {
           const imageUrl = await generateRecipeImage(
@@ -229,7 +261,7 @@ Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
             cleanParams.allergies
           );
           validatedRecipe.image_url = imageUrl;
-          console.log('AI Service: Image generated successfully with Gemini');
+          console.log('AI Service: Image generated successfully');
         } catch (imageError) {
           console.error('AI Service: Failed to generate image, using fallback:', imageError);
           validatedRecipe.image_url = 'https://res.cloudinary.com/dxv6zb1od/image/upload/v1732391429/samples/food/spices.jpg';
@@ -237,9 +269,9 @@ Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
 
         return validatedRecipe;
       } catch (parseError) {
-        console.error("AI Service: Error parsing OpenAI response:", parseError);
+        console.error("AI Service: Error processing recipe response:", parseError);
         lastError = new Error(
-          "Failed to parse recipe data from OpenAI response",
+          "Failed to parse recipe data from AI response",
         );
         if (attempt < maxRetries) {
           continue;
@@ -295,10 +327,6 @@ export async function generateIngredientSubstitution({
   substitutions: string[];
   reasoning: string;
 }> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   try {
     const prompt = `Generate cooking ingredient substitutions for "${ingredient}".
 ${dietary.length > 0 ? `Must follow dietary restrictions: ${dietary.join(", ")}` : ""}
@@ -314,36 +342,21 @@ The substitutions must be common ingredients that are easy to find in most groce
 Each substitution must maintain similar culinary function (texture, flavor profile, cooking properties).
 Consider dietary restrictions and allergies as absolute requirements - do not suggest any substitutes that violate them.`;
 
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a professional chef specializing in ingredient substitutions and dietary accommodations. Provide accurate, practical substitutions that maintain the culinary function of ingredients while respecting dietary restrictions.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      model: "gpt-4o-2024-08-06",
-      response_format: { type: "json_object" },
+    const response = await getRecipeAIProvider().suggestSubstitutions({
+      task: "substitution",
+      system:
+        "You are a professional chef specializing in ingredient substitutions and dietary accommodations. Provide accurate, practical substitutions that maintain the culinary function of ingredients while respecting dietary restrictions.",
+      prompt,
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
+      hints: { ingredient, allergies },
     });
 
-    if (!completion.choices?.[0]?.message?.content) {
-      throw new Error("Invalid response format from OpenAI API");
-    }
-
-    const content = completion.choices[0].message.content;
-    const response = JSON.parse(content);
-
     if (
       !Array.isArray(response.substitutions) ||
       typeof response.reasoning !== "string"
     ) {
-      throw new Error("Invalid response format from OpenAI API");
+      throw new Error("Invalid substitution response format");
     }
 
     return {
@@ -351,7 +364,7 @@ Consider dietary restrictions and allergies as absolute requirements - do not su
       reasoning: response.reasoning,
     };
   } catch (error: any) {
-    console.error("OpenAI API Error:", error);
+    console.error("AI Service: Substitution error:", error);
     throw new Error("Failed to generate ingredient substitutions");
   }
 }
@@ -366,10 +379,6 @@ interface IngredientBasedRecipeParams {
 export async function generateRecipeSuggestionsFromIngredients(
   params: IngredientBasedRecipeParams,
 ): Promise<string[]> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   try {
     const ingredientContext = params.pantryOnlyMode
       ? `ONLY using these pantry ingredients: ${params.ingredients.join(", ")}`
@@ -398,41 +407,83 @@ Respond with exactly 3 recipe titles in this JSON format:
       ? "You are a professional chef specializing in allergen-free and dietary-restricted cooking using only available pantry ingredients. You are extremely careful about allergen avoidance, dietary requirements, and ingredient limitations. You excel at creating recipes using only the ingredients provided, without any additional ingredients."
       : "You are a professional chef specializing in allergen-free and dietary-restricted cooking. You are extremely careful about allergen avoidance and dietary requirements. Never suggest recipes that could contain allergens or violate dietary restrictions.";
 
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      model: "gpt-4o-2024-08-06",
-      response_format: { type: "json_object" },
+    const data = await getRecipeAIProvider().generatePreviews({
+      task: "recipe_titles",
+      system: systemPrompt,
+      prompt,
       temperature: 0.8,
-      max_tokens: 150,
+      maxTokens: 150,
+      hints: { count: 3, allergies: params.allergies },
     });
 
-    if (!completion.choices?.[0]?.message?.content) {
-      throw new Error("Invalid response from OpenAI API");
-    }
-
-    const content = completion.choices[0].message.content;
-    const data = JSON.parse(content);
-
     if (!Array.isArray(data.recipes) || data.recipes.length !== 3) {
       throw new Error("Invalid recipe suggestions format from API");
     }
 
     return data.recipes;
   } catch (error: any) {
-    console.error("OpenAI API Error:", error);
+    console.error("AI Service: Recipe suggestion error:", error);
     throw new Error("Failed to generate recipe suggestions");
   }
 }
 
+interface PantryRecipeParams {
+  ingredients: string[];
+  priorityIngredients?: string[];
+  mealType?: string;
+  count: number;
+  dietary?: string[];
+  allergies?: string[];
+}
+
+export async function generatePantryRecipes(
+  params: PantryRecipeParams,
+): Promise<Partial<TemporaryRecipe>[]> {
+  const prompt = `Generate ${params.count} practical home-cooking recipes that use as many of these pantry ingredients as possible: ${params.ingredients.join(", ")}
+${params.priorityIngredients?.length ? `Use these first, they need to be used soon: ${params.priorityIngredients.join(", ")}` : ""}
+${params.mealType ? `Meal type: ${params.mealType}` : ""}
+${params.dietary?.length ? `REQUIREMENT: Must strictly follow these dietary restrictions: ${params.dietary.join(", ")}` : ""}
+${params.allergies?.length ? `STRICT REQUIREMENT: Must not contain ${params.allergies.join(", ")} in any form.` : ""}
+
+Keep extra ingredients few and common. Name ingredients the way they appear in the pantry list when you use them.
+Use US units only (cups, tbsp, tsp, oz, lbs). Respond with valid JSON:
+{
+  "recipes": [{
+    "name": "Recipe Name",
+    "description": "Brief description",
+    "prepTime": minutes,
+    "cookTime": minutes,
+    "servings": number,
+    "ingredients": [{"name": "ingredient", "amount": number, "unit": "unit"}],
+    "instructions": ["step 1", "step 2"],
+    "tags": ["Dinner", "Italian"],
+    "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number, "saturated_fat": number, "fiber": number, "sugar": number, "sodium": number},
+    "complexity": 1
+  }]
+}`;
+
+  try {
+    const data = await getRecipeAIProvider().generateRecipes({
+      task: "pantry_recipes",
+      system: "You are a professional chef who turns what's already in someone's kitchen into dinner. You are extremely careful about allergen avoidance and dietary requirements. Always respond with complete, valid JSON.",
+      prompt,
+      temperature: 0.7,
+      maxTokens: 1200 * params.count,
+      hints: { count: params.count, mealType: params.mealType, allergies: params.allergies },
+    });
+    if (!Array.isArray(data.recipes)) {
+      throw new Error("Invalid pantry recipe format from API");
+    }
+
+    return (data.recipes as RecipeAPIResponse[])
+      .filter(recipe => recipe?.name && Array.isArray(recipe.ingredients) && recipe.ingredients.length > 0)
+      .map(transformRecipeToSnakeCase);
+  } catch (error: any) {
+    console.error("AI Service: Pantry recipe error:", error);
+    throw new Error("Failed to generate pantry recipes");
+  }
+}
+
 // Add this interface for the camelCase API response
 interface RecipeAPIResponse {
   name: string;
@@ -447,12 +498,7 @@ interface RecipeAPIResponse {
   }>;
   instructions: string[];
   tags: string[];
-  nutrition: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
+  nutrition: RecipeNutrition;
   complexity: number;
 }
 
@@ -549,7 +595,7 @@ function transformRecipeToSnakeCase(
             ].includes(tag),
         )
       : [],
-    nutrition: recipe.nutrition,
+    nutrition: normalizeNutrition(recipe.nutrition),
     complexity: Math.min(3, Math.max(1, recipe.complexity)),
     image_url: null,
     permanent_url: null,
@@ -564,48 +610,27 @@ export async function generateRecipeImage(
   retries = 3,
 ): Promise<string | null> {
   let lastError: any = null;
+  const provider = getRecipeAIProvider();
 
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
       console.log(
-        `AI Service: Generating image with Gemini Nano Banana for recipe: ${recipeName} (attempt ${attempt}/${retries})`,
+        `AI Service: Generating image with ${provider.name} for recipe: ${recipeName} (attempt ${attempt}/${retries})`,
       );
 
       const prompt = `Professional food photography of ${recipeName}. High quality, appetizing, well-lit, natural style. Shot from a flattering angle on a clean background.`;
 
-      const model = genAI.getGenerativeModel({
-        model: "gemini-2.5-flash-image",
-      });
-
-      const result = await model.generateContent(prompt);
-
-      if (result?.response) {
-        const response = result.response;
-
-        if (response.candidates && response.candidates.length > 0) {
-          const candidate = response.candidates[0];
-
-          if (candidate.content?.parts && candidate.content.parts.length > 0) {
-            for (const part of candidate.content.parts) {
-              if (part.inlineData?.data) {
-                const base64Data = part.inlineData.data;
-                const mimeType = part.inlineData.mimeType || "image/png";
-                const dataUrl = `data:${mimeType};base64,${base64Data}`;
-                console.log(
-                  `AI Service: Successfully generated image with Gemini (${mimeType} format, ${base64Data.length} bytes)`,
-                );
-                return dataUrl;
-              }
-            }
-          }
-        }
+      const dataUrl = await provider.generateImage(prompt);
+      if (dataUrl) {
+        console.log(`AI Service: Successfully generated image with ${provider.name} (${dataUrl.length} bytes)`);
+        return dataUrl;
       }
 
       throw new Error("No image data found in response");
     } catch (error: any) {
       lastError = error;
       console.error(
-        `AI Service: Error generating image with Gemini (attempt ${attempt}/${retries}):`,
+        `AI Service: Error generating image with ${provider.name} (attempt ${attempt}/${retries}):`,
         error,
       );
 
@@ -630,7 +655,7 @@ export async function generateRecipeImage(
   return "https://res.cloudinary.com/dxv6zb1od/image/upload/v1732391429/samples/food/spices.jpg";
 }
 
-// MARK: - Receipt Scanning with Gemini Vision
+// MARK: - Receipt Scanning with Vision
 
 interface ScannedPantryItem {
   name: string;
@@ -638,23 +663,25 @@ interface ScannedPantryItem {
   quantity: number | null;
   unit: string | null;
   estimatedShelfLifeDays: number | null;
+  price: number | null; // line total in dollars
+}
+
+interface ScannedReceipt {
+  store: string | null;
+  items: ScannedPantryItem[];
 }
 
 export async function parseReceiptWithVision(
   base64Image: string,
   mimeType: string = "image/jpeg"
-): Promise<ScannedPantryItem[]> {
-  if (!config.googleAiApiKey) {
-    throw new Error("Google AI API key is not configured");
-  }
-
+): Promise<ScannedReceipt> {
   const maxRetries = 3;
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(
-        `AI Service: Parsing receipt with Gemini Vision (attempt ${attempt}/${maxRetries})`
+        `AI Service: Parsing receipt with vision (attempt ${attempt}/${maxRetries})`
       );
 
       const prompt = `Analyze this grocery receipt image and extract all food/grocery items.
@@ -665,56 +692,35 @@ For each item found, return:
 3. quantity: Number of items purchased (if visible, otherwise null)
 4. unit: Unit of measurement if applicable (e.g., "lb", "oz", "gallon", null if just count)
 5. estimatedShelfLifeDays: Estimated days the item typically stays fresh (null if unknown)
+6. price: Total price paid for the line in US dollars, after any item discount (null if not legible)
+
+Also return the store name printed on the receipt as "store" (null if not visible).
 
 RULES:
 - Only extract FOOD items (ignore household goods, cleaning supplies, bags, etc.)
 - Normalize product names to simple, recognizable names
 - If quantity is not clear, default to 1
 - Use standard US units
+- Prices are plain numbers without currency symbols
 - If the image is not a receipt or no food items are found, return an empty items array
 
 Respond with valid JSON only in this exact format:
 {
+  "store": "Store Name or null",
   "items": [
     {
       "name": "Product Name",
       "category": "category",
       "quantity": 1,
       "unit": "unit or null",
-      "estimatedShelfLifeDays": 7
+      "estimatedShelfLifeDays": 7,
+      "price": 3.49
     }
   ]
 }`;
 
-      const model = genAI.getGenerativeModel({
-        model: "gemini-2.0-flash",
-        generationConfig: {
-          responseMimeType: "application/json",
-        },
-      });
-
-      const result = await model.generateContent([
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: base64Image,
-          },
-        },
-        { text: prompt },
-      ]);
-
-      if (!result?.response) {
-        throw new Error("Empty response from Gemini Vision");
-      }
-
-      const content = result.response.text();
-      if (!content) {
-        throw new Error("No text content in Gemini response");
-      }
-
-      console.log("AI Service: Received response from Gemini Vision");
-
-      const parsed = JSON.parse(content);
+      const parsed = await getRecipeAIProvider().parseReceipt({ data: base64Image, mimeType }, prompt);
+      console.log("AI Service: Received receipt response");
 
       if (!Array.isArray(parsed.items)) {
         throw new Error("Invalid response format - items must be an array");
@@ -732,12 +738,19 @@ Respond with valid JSON only in this exact format:
             typeof item.estimatedShelfLifeDays === "number"
               ? item.estimatedShelfLifeDays
               : null,
+          price:
+            typeof item.price === "number" && item.price > 0
+              ? Math.round(item.price * 100) / 100
+              : null,
         }));
 
       console.log(
         `AI Service: Successfully parsed ${validatedItems.length} items from receipt`
       );
-      return validatedItems;
+      return {
+        store: typeof parsed.store === "string" && parsed.store.trim() ? parsed.store.trim().substring(0, 100) : null,
+        items: validatedItems,
+      };
     } catch (error: any) {
       console.error(
         `AI Service: Receipt parsing error (attempt ${attempt}):`,
@@ -826,12 +839,10 @@ export async function generateRecipeFromTitleAI(
   options?: {
     ingredients?: string[];
     pantryOnlyMode?: boolean;
+    nutritionTarget?: NutritionTargets | null; // per serving
+    skipImage?: boolean;
   },
 ): Promise<Partial<TemporaryRecipe>> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   try {
     const pantryConstraint =
       options?.pantryOnlyMode && options?.ingredients
@@ -853,6 +864,7 @@ RECIPE TITLE REQUIREMENTS:
 
 ${allergies.length > 0 ? `STRICT REQUIREMENT - Must completely avoid these allergens and any ingredients that contain them: ${allergies.join(", ")}` : ""}
 ${pantryConstraint}
+${options?.nutritionTarget ? `NUTRITION TARGET - Each serving should provide ${describeNutritionTarget(options.nutritionTarget)}` : ""}
 
 MEASUREMENT REQUIREMENTS:
 - Use ONLY US customary units (cups, tablespoons, teaspoons, ounces, pounds, fluid ounces)
@@ -870,7 +882,7 @@ You must respond with a valid recipe in this exact JSON format:
   "ingredients": [{ "name": "ingredient", "amount": number, "unit": "unit" }],
   "instructions": ["step 1", "step 2"],
   "tags": ["tag1", "tag2"],
-  "nutrition": { "calories": number, "protein": number, "carbs": number, "fat": number },
+  "nutrition": { "calories": number, "protein": number, "carbs": number, "fat": number, "saturated_fat": number, "fiber": number, "sugar": number, "sodium": number },
   "complexity": number (1 for easy, 2 for medium, 3 for hard)
 }
 
@@ -882,43 +894,27 @@ ALL ingredient measurements MUST use US customary units only (no grams, kilogram
       ? "You are a professional chef and nutritionist who specializes in creating recipes using only available pantry ingredients. Create detailed, practical recipes with accurate measurements and clear instructions using ONLY the ingredients provided. Always respond with complete, valid JSON containing all required fields. IMPORTANT: Always use US customary units (cups, tablespoons, teaspoons, ounces, pounds) for all ingredient measurements - never use metric units. Never suggest ingredients not in the provided pantry list."
       : "You are a professional chef and nutritionist. Create detailed, practical recipes with accurate measurements and clear instructions. Always respond with complete, valid JSON containing all required fields. IMPORTANT: Always use US customary units (cups, tablespoons, teaspoons, ounces, pounds) for all ingredient measurements - never use metric units.";
 
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      model: "gpt-4o-2024-08-06",
-      response_format: { type: "json_object" },
+    const recipeData: RecipeAPIResponse = await getRecipeAIProvider().generateRecipes({
+      task: "recipe_from_title",
+      system: systemPrompt,
+      prompt,
       temperature: 0.7,
-      max_tokens: 1000,
+      maxTokens: 1000,
+      hints: { title, allergies },
     });
 
-    if (!completion.choices?.[0]?.message?.content) {
-      throw new Error("Invalid response from OpenAI API");
-    }
-
-    const content = completion.choices[0].message.content;
-    if (!content) {
-      throw new Error("Empty response from OpenAI API");
-    }
-
     try {
-      const recipeData = JSON.parse(content) as RecipeAPIResponse;
       let imageUrl: string | null = null;
 
       // Use the AI-generated recipe name for image generation (not user's input)
       const recipeName = recipeData.name || title;
 
       try {
-        console.log("AI Service: Generating image for recipe:", recipeName);
-        console.log("AI Service: Original user request was:", title);
-        imageUrl = await generateRecipeImage(recipeName, allergies);
+        if (!options?.skipImage) {
+          console.log("AI Service: Generating image for recipe:", recipeName);
+          console.log("AI Service: Original user request was:", title);
+          imageUrl = await generateRecipeImage(recipeName, allergies);
+        }
       } catch (error) {
         console.error("AI Service: Error in image generation flow:", error);
         imageUrl =
@@ -929,28 +925,41 @@ ALL ingredient measurements MUST use US customary units only (no grams, kilogram
       const transformedRecipe = transformRecipeToSnakeCase(recipeData);
       transformedRecipe.image_url = imageUrl;
 
+      // The title is fixed, so a recipe that misses its target is re-portioned rather than regenerated
+      if (options?.nutritionTarget && transformedRecipe.servings) {
+        const misses = NutritionService.checkRecipe(transformedRecipe.nutrition, options.nutritionTarget);
+        const fitted = misses.length > 0
+          ? NutritionService.fitServings({ servings: transformedRecipe.servings, nutrition: transformedRecipe.nutrition }, options.nutritionTarget)
+          : null;
+        if (fitted) {
+          console.log(`AI Service: Re-portioned ${transformedRecipe.name} from ${transformedRecipe.servings} to ${fitted.servings} servings`);
+          transformedRecipe.servings = fitted.servings;
+          transformedRecipe.nutrition = fitted.nutrition;
+        }
+      }
+
       console.log(
         "AI Service: Generated recipe:",
         JSON.stringify(transformedRecipe, null, 2),
       );
       return transformedRecipe;
     } catch (parseError) {
-      console.error("AI Service: Error parsing OpenAI response:", parseError);
-      throw new Error("Failed to parse recipe data from OpenAI response");
+      console.error("AI Service: Error processing recipe response:", parseError);
+      throw new Error("Failed to parse recipe data from AI response");
     }
   } catch (error: any) {
-    console.error("AI Service: OpenAI API Error:", error);
+    console.error("AI Service: Recipe generation error:", error);
 
     if (error.code === "ECONNREFUSED" || error.code === "ENOTFOUND") {
-      throw new Error("Failed to connect to OpenAI API");
+      throw new Error("Failed to connect to the AI provider");
     }
 
     if (error.status === 401) {
-      throw new Error("Invalid OpenAI API key");
+      throw new Error("Invalid AI provider API key");
     }
 
     if (error.status === 429) {
-      throw new Error("OpenAI API rate limit exceeded");
+      throw new Error("AI provider rate limit exceeded");
     }
 
     throw new Error("Failed to generate recipe");
@@ -1021,10 +1030,6 @@ function getGoalContextForComponent(goal: string, componentType: string): string
 export async function generateMealPrepComponent(
   params: MealPrepComponentParams & { skipImage?: boolean }
 ): Promise<MealPrepComponentResult> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   try {
     // Use component-type-aware goal context to prevent over-application
     const goalContext = getGoalContextForComponent(params.goal, params.componentType);
@@ -1069,35 +1074,21 @@ Respond with valid JSON:
   "ingredients": [{"name": "ingredient", "amount": number, "unit": "unit"}],
   "instructions": ["step 1", "step 2"],
   "tags": ["Meal Prep", "${params.componentType}"],
-  "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number},
+  "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number, "saturated_fat": number, "fiber": number, "sugar": number, "sodium": number},
   "complexity": 1,
   "storage_instructions": "How to store (container type, fridge duration)",
   "reheat_instructions": "How to reheat (method, time)"
 }`;
 
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content: "You are a professional meal prep chef. Create simple, batch-friendly recipes optimized for storage and reheating. Always use US customary units. Always respond with valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      model: "gpt-4o-2024-08-06",
-      response_format: { type: "json_object" },
+    const parsed = await getRecipeAIProvider().generateRecipes({
+      task: "meal_prep_component",
+      system: "You are a professional meal prep chef. Create simple, batch-friendly recipes optimized for storage and reheating. Always use US customary units. Always respond with valid JSON.",
+      prompt,
       temperature: 0.7,
-      max_tokens: 800
+      maxTokens: 800,
+      hints: { componentType: params.componentType, servings: params.servings, allergies: params.allergies }
     });
 
-    if (!completion.choices?.[0]?.message?.content) {
-      throw new Error("Invalid response from OpenAI API");
-    }
-
-    const parsed = JSON.parse(completion.choices[0].message.content);
-
     // Only generate image if not skipped (for parallel processing)
     let imageUrl: string | null = null;
     if (!params.skipImage) {
@@ -1128,7 +1119,7 @@ Respond with valid JSON:
       instructions: parsed.instructions,
       meal_type: "Dinner", // Components are general
       tags: parsed.tags,
-      nutrition: parsed.nutrition,
+      nutrition: normalizeNutrition(parsed.nutrition),
       complexity: parsed.complexity || 1,
       image_url: imageUrl
     };
@@ -1155,6 +1146,7 @@ export interface MealPrepAssemblyParams {
   goal: string;
   servings: number;
   numberOfAssemblies: number;
+  allergies?: string[];
 }
 
 export interface MealPrepAssemblyResult {
@@ -1168,10 +1160,6 @@ export interface MealPrepAssemblyResult {
 export async function generateMealPrepAssemblies(
   params: MealPrepAssemblyParams & { skipImages?: boolean }
 ): Promise<MealPrepAssemblyResult[]> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   try {
     const componentsList = params.components.map(c =>
       `ID:${c.id} - ${c.name} (${c.type})`
@@ -1190,6 +1178,7 @@ Requirements:
 - Vary flavor profiles (e.g., Asian, Mediterranean, Mexican, American)
 - These are "assembly" meals - minimal cooking, just combining prepped components
 - Assembly time should be 5-10 minutes max
+${params.allergies?.length ? `- STRICT: No ingredient, sauce or topping may contain: ${params.allergies.join(", ")}` : ""}
 
 For each assembly, provide a FULL recipe that includes:
 - All ingredients from the components used
@@ -1208,34 +1197,20 @@ Respond with valid JSON:
       "prep_time": 5,
       "ingredients": [{"name": "ingredient", "amount": number, "unit": "unit"}],
       "instructions": ["Combine protein with carb", "Add vegetables", "Drizzle with sauce"],
-      "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number}
+      "nutrition": {"calories": number, "protein": number, "carbs": number, "fat": number, "saturated_fat": number, "fiber": number, "sugar": number, "sodium": number}
     }
   ]
 }`;
 
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content: "You are a meal prep expert who creates delicious meal combinations from pre-cooked components. Create varied, appetizing assemblies with complementary flavors. Always respond with valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      model: "gpt-4o-2024-08-06",
-      response_format: { type: "json_object" },
+    const parsed = await getRecipeAIProvider().generateRecipes({
+      task: "meal_prep_assemblies",
+      system: "You are a meal prep expert who creates delicious meal combinations from pre-cooked components. Create varied, appetizing assemblies with complementary flavors. Always respond with valid JSON.",
+      prompt,
       temperature: 0.8,
-      max_tokens: 1500
+      maxTokens: 1500,
+      hints: { components: params.components, count: params.numberOfAssemblies, allergies: params.allergies }
     });
 
-    if (!completion.choices?.[0]?.message?.content) {
-      throw new Error("Invalid response from OpenAI API");
-    }
-
-    const parsed = JSON.parse(completion.choices[0].message.content);
-
     if (!Array.isArray(parsed.assemblies)) {
       throw new Error("Invalid assemblies format");
     }
@@ -1274,7 +1249,7 @@ Respond with valid JSON:
         instructions: assembly.instructions || [],
         meal_type: "Dinner",
         tags: ["Meal Prep", "Quick Assembly", assembly.flavor_profile].filter(Boolean),
-        nutrition: assembly.nutrition,
+        nutrition: normalizeNutrition(assembly.nutrition),
         complexity: 1,
         image_url: imageUrl
       };